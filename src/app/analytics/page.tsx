@@ -5,8 +5,6 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { db } from '@/lib/firebase';
-import { collection, getDocs, query, where } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { subMonths, startOfMonth, endOfMonth, format, isWithinInterval, isAfter, isEqual, eachMonthOfInterval, subYears, startOfYear, endOfYear } from 'date-fns';
@@ -18,81 +16,19 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import type { DateRange } from "react-day-picker";
 import { cn } from '@/lib/utils';
-import { defaultExpenseCategories } from '@/lib/categories';
 import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Legend, Pie, PieChart, ResponsiveContainer, Sector, Tooltip, XAxis, YAxis } from 'recharts';
-
-type TransactionType = 'income' | 'expense';
-type Frequency = 'one-off' | 'recurring';
-
-type AmountChange = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-
-type BaseTransaction = {
-  id: string;
-  userId: string;
-  name: string;
-  amounts: AmountChange[];
-  frequency: Frequency;
-  endDate?: Date | null;
-};
-
-type Income = BaseTransaction & {
-  transactionType: 'income';
-  categoryId?: string;
-  sharing: string;
-};
-
-type Expense = BaseTransaction & {
-  transactionType: 'expense';
-  sharing: string;
-  classification?: 'need' | 'want';
-  categoryId?: string;
-};
-
-type Transaction = Income | Expense;
-
-type SavingGoalContribution = {
-    id: string;
-    amount: number;
-    date: Date;
-}
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  contributions: SavingGoalContribution[];
-};
-
-type AssetContribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-type Asset = {
-  id: string;
-  userId: string;
-  name: string;
-  valueHistory: any[];
-  contributions: AssetContribution[];
-};
-
-
-type ExpenseCategory = {
-    id: string;
-    userId?: string;
-    name: string;
-    icon: string;
-    color: string;
-    isDefault?: boolean;
-}
-
-type Household = { id: string; name: string; members: { id: string; name: string; income?: number; }[]; splitType?: 'equal' | 'shares' | 'income_ratio'; splits?: { memberId: string, share: number }[]; };
+import type { Asset, Category as ExpenseCategory, Expense, Household, Investment, ManualRate, SavingGoal, Transaction } from '@/lib/types';
+import { getMemberShare } from '@/lib/household-splits';
+import { getVisibleTransactions } from '@/repositories/transactions';
+import { getUserHouseholds } from '@/repositories/households';
+import { getUserSavingsGoals } from '@/repositories/savings';
+import { getUserAssets } from '@/repositories/assets';
+import { getCategories } from '@/repositories/categories';
+import { getUserInvestments } from '@/repositories/investments';
+import { getUserManualRates } from '@/repositories/manual-rates';
+import { getCashDividendIncome } from '@/lib/dividends';
+import { createRateLookup, type RateSeries } from '@/lib/fx-rates';
+import { getRateProviders, resolveRateSeries } from '@/lib/fx-providers';
 
 const getAmountForDate = (transaction: Transaction, targetDate: Date): number => {
     if (!transaction.amounts || transaction.amounts.length === 0) return 0;
@@ -109,6 +45,9 @@ function Analytics() {
     const [assets, setAssets] = useState<Asset[]>([]);
     const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
     const [households, setHouseholds] = useState<Household[]>([]);
+    const [investments, setInvestments] = useState<Investment[]>([]);
+    const [manualRates, setManualRates] = useState<ManualRate[]>([]);
+    const [dividendRates, setDividendRates] = useState<Record<string, RateSeries | null>>({});
     const [loading, setLoading] = useState(true);
     const [isPickerOpen, setIsPickerOpen] = useState(false);
     
@@ -130,78 +69,26 @@ function Analytics() {
         async function fetchData() {
             setLoading(true);
             try {
-                const categoriesQuery = query(collection(db, 'expenseCategories'), where('userId', '==', user.uid));
-                const categoriesSnapshot = await getDocs(categoriesQuery);
-                const customCategories = categoriesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ExpenseCategory));
-                const mappedDefaultCategories = defaultExpenseCategories.map(cat => ({
-                    ...cat,
-                    id: `default-expenseCategories-${cat.name.replace(/\s+/g, '-')}`,
-                    isDefault: true,
-                }));
-                const categoriesList = [...mappedDefaultCategories, ...customCategories];
+                const [categoriesList, householdData] = await Promise.all([
+                    getCategories('expenseCategories', user.uid),
+                    getUserHouseholds(user.uid),
+                ]);
                 setExpenseCategories(categoriesList);
-
-                const householdQuery = query(collection(db, "households"), where("memberIds", "array-contains", user.uid));
-                const householdSnap = await getDocs(householdQuery);
-                const householdData = householdSnap.docs.map(doc => ({ ...doc.data(), id: doc.id })) as Household[];
                 setHouseholds(householdData);
                 const householdIds = householdData.map(h => h.id);
 
-                const userTransactionsQuery = query(collection(db, 'transactions'), where('userId', '==', user.uid));
-                const sharedTransactionsQuery = householdIds.length > 0 
-                    ? query(collection(db, 'transactions'), where('sharing', 'in', householdIds))
-                    : null;
-
-                const queries = [
-                    getDocs(userTransactionsQuery),
-                    getDocs(query(collection(db, 'savings'), where('userId', '==', user.uid))),
-                    getDocs(query(collection(db, 'assets'), where('userId', '==', user.uid))),
-                ];
-                if (sharedTransactionsQuery) {
-                    queries.push(getDocs(sharedTransactionsQuery));
-                }
-
-                const [userTxSnap, savingsSnapshot, assetsSnapshot, sharedTxSnap] = await Promise.all(queries);
-
-                const allTransactions = new Map<string, Transaction>();
-                const processSnapshot = (snapshot: any) => {
-                    snapshot.docs.forEach((doc: any) => {
-                        const data = doc.data();
-                        let amounts = (data.amounts || []).map((a: any) => ({ ...a, date: a.date.toDate() }));
-                        if (amounts.length === 0 && data.amount && data.startDate) {
-                            amounts.push({ id: 'legacy-0', amount: data.amount, date: data.startDate.toDate() });
-                        }
-                        const transaction: Transaction = { id: doc.id, ...data, amounts, endDate: data.endDate ? data.endDate.toDate() : null } as Transaction;
-                        if (transaction.sharing === 'personal' && transaction.userId !== user.uid) return;
-                        allTransactions.set(doc.id, transaction);
-                    });
-                };
-                processSnapshot(userTxSnap);
-                if (sharedTxSnap) processSnapshot(sharedTxSnap);
-                setTransactions(Array.from(allTransactions.values()));
-
-                const savingsList = savingsSnapshot.docs.map(doc => {
-                    const data = doc.data();
-                    return {
-                        id: doc.id,
-                        ...data,
-                        startDate: data.startDate.toDate(),
-                        targetDate: data.targetDate.toDate(),
-                        contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-                    } as SavingGoal;
-                });
+                const [transactionsList, savingsList, assetsList, investmentsList, manualRatesList] = await Promise.all([
+                    getVisibleTransactions(user.uid, householdIds),
+                    getUserSavingsGoals(user.uid),
+                    getUserAssets(user.uid),
+                    getUserInvestments(user.uid),
+                    getUserManualRates(user.uid),
+                ]);
+                setTransactions(transactionsList);
                 setSavingsGoals(savingsList);
-
-                const assetsList = assetsSnapshot.docs.map(doc => {
-                    const data = doc.data();
-                    return {
-                        id: doc.id,
-                        ...data,
-                        valueHistory: (data.valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })),
-                        contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-                    } as Asset;
-                });
                 setAssets(assetsList);
+                setInvestments(investmentsList);
+                setManualRates(manualRatesList);
             } catch (error) {
                 console.error("Error fetching analytics data:", error);
             } finally {
@@ -211,6 +98,22 @@ function Analytics() {
         fetchData();
     }, [user]);
 
+    useEffect(() => {
+        const dividends = investments.flatMap(inv => inv.dividends.filter(d => d.handling === 'cash'));
+        if (dividends.length === 0) return;
+        let cancelled = false;
+        (async () => {
+            try {
+                const firstDate = dividends.reduce((earliest, d) => d.date < earliest ? d.date : earliest, new Date());
+                const series = await resolveRateSeries(getRateProviders(manualRates), dividends.map(d => d.currency), currency, startOfMonth(firstDate), new Date());
+                if (!cancelled) setDividendRates(series);
+            } catch (error) {
+                console.error("Error fetching dividend exchange rates:", error);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [investments, manualRates, currency]);
+
     const analyticsData = useMemo(() => {
         if (!date || !date.from || !user) {
              return {
@@ -227,6 +130,7 @@ function Analytics() {
         const allContributions = [...allSavingGoalContributions, ...allAssetContributions];
 
         const categoriesMap = new Map(expenseCategories.map(c => [c.id, c]));
+        const rateFor = createRateLookup(currency, dividendRates);
     
         const monthlyData = months.map(month => {
             const monthStart = startOfMonth(month);
@@ -246,9 +150,11 @@ function Analytics() {
     
             const activeTransactions = transactions.filter(isTransactionActive);
             
+            const dividendsForMonth = getCashDividendIncome(investments, monthStart, monthEnd, rateFor)
+                .reduce((sum, d) => sum + (d.amount ?? 0), 0);
             const incomeForMonth = activeTransactions
                 .filter(t => t.transactionType === 'income')
-                .reduce((sum, t) => sum + getAmountForDate(t, monthEnd), 0);
+                .reduce((sum, t) => sum + getAmountForDate(t, monthEnd), dividendsForMonth);
                 
             const expensesForMonth = activeTransactions
                 .filter((t): t is Expense => t.transactionType === 'expense')
@@ -258,35 +164,7 @@ function Analytics() {
                         return sum + totalAmount;
                     }
 
-                    const household = households.find(h => h.id === t.sharing);
-                    if (!household) return sum;
-
-                    let userShare = 0;
-                    const userIsMember = household.members.some(m => m.id === user.uid);
-
-                    if(userIsMember) {
-                        if (household.splitType === 'shares' && household.splits?.length) {
-                           const totalShares = household.splits.reduce((s, split) => s + (split.share || 0), 0);
-                           if (totalShares > 0) {
-                                const userSplit = household.splits.find(s => s.memberId === user.uid);
-                                const userShares = userSplit?.share || 0;
-                                userShare = (totalAmount * userShares) / totalShares;
-                           } else {
-                                userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                           }
-                        } else if (household.splitType === 'income_ratio') {
-                            const totalIncome = household.members.reduce((s, member) => s + (member.income || 0), 0);
-                            if (totalIncome > 0) {
-                                const userIncome = household.members.find(m => m.id === user.uid)?.income || 0;
-                                userShare = (totalAmount * userIncome) / totalIncome;
-                            } else {
-                                userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                            }
-                        } else { // Equal split
-                           userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                        }
-                   }
-                   return sum + userShare;
+                    return sum + getMemberShare(households.find(h => h.id === t.sharing), t, totalAmount, user.uid, monthEnd);
                 }, 0);
     
             const savingsForMonth = allContributions
@@ -299,36 +177,7 @@ function Analytics() {
                 .forEach(t => {
                     let amount = getAmountForDate(t, monthEnd);
                     if (t.sharing !== 'personal' && user) {
-                        const household = households.find(h => h.id === t.sharing);
-                        if(household) {
-                            let userShare = 0;
-                            const userIsMember = household.members.some(m => m.id === user.uid);
-                            if(userIsMember) {
-                                if (household.splitType === 'shares' && household.splits?.length) {
-                                    const totalShares = household.splits.reduce((s, split) => s + (split.share || 0), 0);
-                                    if (totalShares > 0) {
-                                        const userSplit = household.splits.find(s => s.memberId === user.uid);
-                                        const userShares = userSplit?.share || 0;
-                                        userShare = (amount * userShares) / totalShares;
-                                    } else {
-                                        userShare = household.members.length > 0 ? amount / household.members.length : 0;
-                                    }
-                                } else if (household.splitType === 'income_ratio') {
-                                    const totalIncome = household.members.reduce((s, member) => s + (member.income || 0), 0);
-                                    if (totalIncome > 0) {
-                                        const userIncome = household.members.find(m => m.id === user.uid)?.income || 0;
-                                        userShare = (amount * userIncome) / totalIncome;
-                                    } else {
-                                        userShare = household.members.length > 0 ? amount / household.members.length : 0;
-                                    }
-                                } else { // Equal split
-                                   userShare = household.members.length > 0 ? amount / household.members.length : 0;
-                                }
-                           }
-                           amount = userShare;
-                        } else {
-                            amount = 0;
-                        }
+                        amount = getMemberShare(households.find(h => h.id === t.sharing), t, amount, user.uid, monthEnd);
                     }
 
                     const category = t.categoryId ? categoriesMap.get(t.categoryId) : undefined;
@@ -416,7 +265,7 @@ function Analytics() {
             categoryColors,
             categoryIcons
         };
-    }, [transactions, savingsGoals, assets, expenseCategories, date, user?.uid, households]);
+    }, [transactions, savingsGoals, assets, expenseCategories, date, user?.uid, households, investments, dividendRates, currency]);
     
     const handlePresetClick = (months: number) => {
         setDate({
@@ -539,7 +388,7 @@ function Analytics() {
                                     <span className="text-muted-foreground">{pld.dataKey}</span>
                                 </div>
                                 <span className="font-mono font-semibold text-foreground">
-                                    {formatCurrency(pld.value, currency, {minimumFractionDigits: 2})}
+                                    {formatCurrency(pld.value, currency)}
                                 </span>
                             </div>
                         ))}
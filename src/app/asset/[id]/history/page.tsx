@@ -28,18 +28,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Input } from '@/components/ui/input';
 
 // Libs and context
-import { db } from '@/lib/firebase';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 
+import type { Asset, AssetContribution as Contribution, AssetValueChange as ValueChange } from '@/lib/types';
+import { getAsset, updateAsset } from '@/repositories/assets';
+
 // Types
-type AssetType = 'savings' | 'investment' | 'real_estate' | 'other';
-type Contribution = { id: string; amount: number; date: Date; };
-type ValueChange = { id: string; value: number; date: Date; };
-type Asset = { id: string; userId: string; name: string; type: AssetType; currency: string; valueHistory: ValueChange[]; contributions: Contribution[]; };
 type FilterType = 'all' | 'contribution' | 'value_update';
 
 type AssetEvent = {
@@ -105,23 +102,14 @@ function AssetHistory() {
   async function fetchAsset() {
     if (!assetId || !user) return;
     setLoading(true);
-    const assetRef = doc(db, 'assets', assetId);
-    const assetSnap = await getDoc(assetRef);
+    const assetData = await getAsset(assetId);
 
-    if (assetSnap.exists()) {
-        const data = assetSnap.data();
-        if (data.userId !== user.uid) {
+    if (assetData) {
+        if (assetData.userId !== user.uid) {
             toast({ variant: 'destructive', title: 'Access Denied' });
             router.push('/assets');
             return;
         }
-        const assetData = {
-            id: assetSnap.id,
-            ...data,
-            currency: data.currency || 'USD',
-            valueHistory: (data.valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })),
-            contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-        } as Asset;
         setAsset(assetData);
         if (assetData.valueHistory.length > 0) {
             const sortedHistory = [...assetData.valueHistory].sort((a,b) => a.date.getTime() - b.date.getTime());
@@ -173,8 +161,7 @@ function AssetHistory() {
     }
     
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { contributions: updatedContributions });
+        await updateAsset(asset.id, { contributions: updatedContributions });
         toast({ title: editingContribution ? "Contribution Updated" : "Contribution Added" });
         fetchAsset();
     } catch(error) {
@@ -192,8 +179,7 @@ function AssetHistory() {
     const updatedContributions = asset.contributions.filter(c => c.id !== contributionToDelete.id);
 
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { contributions: updatedContributions });
+        await updateAsset(asset.id, { contributions: updatedContributions });
         toast({ title: "Contribution Deleted" });
         fetchAsset();
     } catch (error) {
@@ -219,8 +205,7 @@ function AssetHistory() {
     }
     
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { valueHistory: updatedValueHistory });
+        await updateAsset(asset.id, { valueHistory: updatedValueHistory });
         toast({ title: editingValueChange ? "Value Updated" : "Value Added" });
         fetchAsset();
     } catch(error) {
@@ -245,8 +230,7 @@ function AssetHistory() {
     const updatedValueHistory = asset.valueHistory.filter(v => v.id !== valueChangeToDelete.id);
 
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { valueHistory: updatedValueHistory });
+        await updateAsset(asset.id, { valueHistory: updatedValueHistory });
         toast({ title: "Value entry deleted" });
         fetchAsset();
     } catch (error) {
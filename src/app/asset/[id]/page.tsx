@@ -7,10 +7,11 @@ import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { format, eachMonthOfInterval, endOfMonth } from "date-fns";
+import { format, eachMonthOfInterval, endOfMonth, startOfMonth } from "date-fns";
 import { cn } from "@/lib/utils";
 import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
+import { CurrencySelect } from '@/components/currency-select';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
@@ -25,42 +26,18 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar as ShadcnCalendar } from '@/components/ui/calendar';
 import { useToast } from '@/hooks/use-toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { db } from '@/lib/firebase';
-import { doc, getDoc, updateDoc, collection, query, where, getDocs } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
-import { getConversionRate } from '@/services/currency-service';
+import { createRateLookup, getRateSources, type RateSeries } from '@/lib/fx-rates';
+import { getRateProviders, resolveRateSeries } from '@/lib/fx-providers';
+import { RateSources } from '@/components/rate-sources';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { defaultAssetTypes, DefaultCategory } from '@/lib/categories';
+import type { Asset, AssetContribution as Contribution, AssetValueChange as ValueChange, Category } from '@/lib/types';
+import { getAsset, updateAsset } from '@/repositories/assets';
+import { getCategories } from '@/repositories/categories';
+import { getUserManualRates } from '@/repositories/manual-rates';
 import DynamicIcon from '@/components/dynamic-icon';
 
-type AssetType = string;
-type Contribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-type ValueChange = {
-  id: string;
-  value: number;
-  date: Date;
-}
-type Asset = {
-  id: string;
-  userId: string;
-  name: string;
-  type: AssetType;
-  currency: string;
-  valueHistory: ValueChange[];
-  contributions: Contribution[];
-};
-
-type Category = DefaultCategory & {
-  id: string;
-  userId?: string;
-  isDefault?: boolean;
-};
-
 const contributionSchema = z.object({
   amount: z.coerce.number().min(0.01, 'Contribution amount must be positive.'),
   date: z.date({
@@ -120,7 +97,7 @@ function AssetDetail() {
   const [asset, setAsset] = useState<Asset | null>(null);
   const [assetTypes, setAssetTypes] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
-  const [conversionRate, setConversionRate] = useState(1);
+  const [rateSeries, setRateSeries] = useState<Record<string, RateSeries | null>>({});
 
   const [isAssetDialogOpen, setIsAssetDialogOpen] = useState(false);
   const [isContribDialogOpen, setIsContribDialogOpen] = useState(false);
@@ -151,42 +128,28 @@ function AssetDetail() {
     if (!assetId || !user) return;
     setLoading(true);
 
-    const assetRef = doc(db, 'assets', assetId);
-    const assetTypesQuery = query(collection(db, 'assetTypes'), where('userId', '==', user.uid));
-
-    const [assetSnap, assetTypesSnapshot] = await Promise.all([
-        getDoc(assetRef),
-        getDocs(assetTypesQuery),
+    const [fetchedAsset, allAssetTypes, manualRates] = await Promise.all([
+        getAsset(assetId),
+        getCategories('assetTypes', user.uid),
+        getUserManualRates(user.uid),
     ]);
-
-    const customAssetTypes = assetTypesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-    const allAssetTypes = [
-        ...defaultAssetTypes.map(c => ({...c, id: `default-${c.name}`, isDefault: true})), 
-        ...customAssetTypes
-    ].sort((a,b) => a.name.localeCompare(b.name));
     setAssetTypes(allAssetTypes);
 
-    if (assetSnap.exists()) {
-        const data = assetSnap.data();
-        if (data.userId !== user.uid) {
+    if (fetchedAsset) {
+        if (fetchedAsset.userId !== user.uid) {
             toast({ variant: 'destructive', title: 'Access Denied', description: 'You do not have permission to view this asset.'});
             router.push('/assets');
             return;
         }
-        const fetchedAsset = {
-            id: assetSnap.id,
-            ...data,
-            currency: data.currency || 'USD',
-            valueHistory: (data.valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })),
-            contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-        } as Asset;
         setAsset(fetchedAsset);
 
         if (fetchedAsset.currency !== globalCurrency) {
-            const rate = await getConversionRate(fetchedAsset.currency, globalCurrency);
-            setConversionRate(rate);
+            // Each point on the chart is converted at the rate of its own date.
+            const firstDate = [...fetchedAsset.valueHistory, ...fetchedAsset.contributions]
+                .reduce((earliest, entry) => entry.date < earliest ? entry.date : earliest, new Date());
+            setRateSeries(await resolveRateSeries(getRateProviders(manualRates), [fetchedAsset.currency], globalCurrency, startOfMonth(firstDate), new Date()));
         } else {
-            setConversionRate(1);
+            setRateSeries({});
         }
 
     } else {
@@ -241,8 +204,7 @@ function AssetDetail() {
     }
     
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { contributions: updatedContributions });
+        await updateAsset(asset.id, { contributions: updatedContributions });
         toast({ title: editingContribution ? "Contribution Updated" : "Contribution Added" });
         fetchAsset();
     } catch(error) {
@@ -260,8 +222,7 @@ function AssetDetail() {
     const updatedContributions = asset.contributions.filter(c => c.id !== contributionToDelete.id);
 
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { contributions: updatedContributions });
+        await updateAsset(asset.id, { contributions: updatedContributions });
         toast({ title: "Contribution Deleted" });
         fetchAsset();
     } catch (error) {
@@ -287,8 +248,7 @@ function AssetDetail() {
     }
     
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { valueHistory: updatedValueHistory });
+        await updateAsset(asset.id, { valueHistory: updatedValueHistory });
         toast({ title: editingValueChange ? "Value Updated" : "Value Added" });
         fetchAsset();
     } catch(error) {
@@ -313,8 +273,7 @@ function AssetDetail() {
     const updatedValueHistory = asset.valueHistory.filter(v => v.id !== valueChangeToDelete.id);
 
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { valueHistory: updatedValueHistory });
+        await updateAsset(asset.id, { valueHistory: updatedValueHistory });
         toast({ title: "Value entry deleted" });
         fetchAsset();
     } catch (error) {
@@ -329,8 +288,7 @@ function AssetDetail() {
   const handleAssetSubmit = async (values: z.infer<typeof assetSchema>) => {
     if (!asset) return;
     try {
-        const assetRef = doc(db, "assets", asset.id);
-        await updateDoc(assetRef, { name: values.name, type: values.type, currency: values.currency });
+        await updateAsset(asset.id, { name: values.name, type: values.type, currency: values.currency });
         toast({ title: "Asset Updated" });
         fetchAsset();
     } catch (error) {
@@ -369,9 +327,21 @@ function AssetDetail() {
     const totalInvestedNative = initialValueNative + totalContributionsNative;
     const totalGrowthNative = currentValueNative - totalInvestedNative;
 
-    const currentVal = currentValueNative * conversionRate;
-    const totalInv = totalInvestedNative * conversionRate;
-    const growth = currentVal - totalInv;
+    // Amounts are converted at the rate of their own date; null when that rate is unavailable.
+    const today = new Date();
+    const lookup = createRateLookup(globalCurrency, rateSeries);
+    const convertAt = (value: number, date: Date): number | null => {
+        const rate = lookup(asset.currency, date > today ? today : date);
+        return rate === null ? null : value * rate;
+    };
+    const sumOrNull = (values: (number | null)[]) =>
+        values.some(v => v === null) ? null : values.reduce<number>((sum, v) => sum + v!, 0);
+
+    const initialCapital = convertAt(initialValueNative, startDt);
+    const convertedContributions = asset.contributions.map(c => ({ date: c.date, amount: convertAt(c.amount, c.date) }));
+    const currentVal = convertAt(currentValueNative, today);
+    const totalInv = sumOrNull([initialCapital, ...convertedContributions.map(c => c.amount)]);
+    const growth = currentVal !== null && totalInv !== null ? currentVal - totalInv : null;
 
     const contributionEvents = asset.contributions.map(c => ({
       id: c.id,
@@ -397,7 +367,6 @@ function AssetDetail() {
     const dataPoints = [];
     if (asset && asset.valueHistory.length > 0) {
         const sortedContributions = [...asset.contributions].sort((a, b) => a.date.getTime() - b.date.getTime());
-        const today = new Date();
         const intervalStart = startDt < today ? startDt : today;
         const months = eachMonthOfInterval({ start: intervalStart, end: today });
         
@@ -407,15 +376,18 @@ function AssetDetail() {
             const valueOnDateNative = sortedHistory.findLast(v => v.date <= monthEnd)?.value ?? 0;
             const contributionsOnDateNative = sortedContributions.filter(c => c.date <= monthEnd).reduce((sum, c) => sum + c.amount, 0);
             
-            const totalInvestedOnDateNative = initialValueNative + contributionsOnDateNative;
-            const growthOnDateNative = valueOnDateNative - totalInvestedOnDateNative;
+            const totalValue = convertAt(valueOnDateNative, monthEnd);
+            const contributionsOnDate = sumOrNull(convertedContributions.filter(c => c.date <= monthEnd).map(c => c.amount));
 
+            // Leave a gap rather than plotting a value at a made-up rate.
+            const rateUnavailable = totalValue === null || contributionsOnDate === null || initialCapital === null;
             dataPoints.push({
                 date: format(month, 'MMM yy'),
-                initialCapital: initialValueNative * conversionRate,
-                contributions: contributionsOnDateNative * conversionRate,
-                growth: growthOnDateNative * conversionRate,
-                totalValue: valueOnDateNative * conversionRate,
+                initialCapital: rateUnavailable ? null : initialCapital,
+                contributions: rateUnavailable ? null : contributionsOnDate,
+                growth: rateUnavailable ? null : totalValue - initialCapital - contributionsOnDate,
+                totalValue: rateUnavailable ? null : totalValue,
+                rateUnavailable,
             });
         }
     }
@@ -432,7 +404,7 @@ function AssetDetail() {
       nativeTotalInvested: totalInvestedNative,
       nativeTotalGrowth: totalGrowthNative,
     };
-  }, [asset, conversionRate]);
+  }, [asset, rateSeries, globalCurrency]);
 
   const contributionDisabledDates = useMemo(() => {
     const disabled: ({ after: Date } | { before: Date })[] = [{ after: new Date() }];
@@ -479,7 +451,9 @@ function AssetDetail() {
     );
   }
 
-  const growthColor = totalGrowth >= 0 ? 'text-green-400' : 'text-red-400';
+  const growthColor = (totalGrowth ?? 0) >= 0 ? 'text-green-400' : 'text-red-400';
+  const formatConverted = (value: number | null) => value === null ? 'Rate unavailable' : formatCurrency(value, globalCurrency);
+  const hasUnavailableRates = stackedChartData.some(point => point.rateUnavailable);
 
   return (
     <>
@@ -509,7 +483,7 @@ function AssetDetail() {
                 <Card>
                     <CardHeader><CardTitle>Current Value</CardTitle></CardHeader>
                     <CardContent>
-                        <p className="text-3xl font-bold tracking-tight">{formatCurrency(currentValue, globalCurrency)}</p>
+                        <p className="text-3xl font-bold tracking-tight">{formatConverted(currentValue)}</p>
                         {asset.currency !== globalCurrency && (
                             <p className="text-sm text-muted-foreground mt-1">{formatCurrency(nativeCurrentValue, asset.currency)}</p>
                         )}
@@ -518,7 +492,7 @@ function AssetDetail() {
                 <Card>
                     <CardHeader><CardTitle>Total Invested</CardTitle></CardHeader>
                     <CardContent>
-                        <p className="text-3xl font-bold tracking-tight">{formatCurrency(totalInvested, globalCurrency)}</p>
+                        <p className="text-3xl font-bold tracking-tight">{formatConverted(totalInvested)}</p>
                         {asset.currency !== globalCurrency && (
                             <p className="text-sm text-muted-foreground mt-1">{formatCurrency(nativeTotalInvested, asset.currency)}</p>
                         )}
@@ -527,7 +501,7 @@ function AssetDetail() {
                 <Card>
                     <CardHeader><CardTitle>Total Growth</CardTitle></CardHeader>
                     <CardContent>
-                        <p className={`text-3xl font-bold tracking-tight ${growthColor}`}>{formatCurrency(totalGrowth, globalCurrency)}</p>
+                        <p className={`text-3xl font-bold tracking-tight ${growthColor}`}>{formatConverted(totalGrowth)}</p>
                         {asset.currency !== globalCurrency && (
                             <p className={`text-sm mt-1 ${nativeTotalGrowth >= 0 ? 'text-muted-foreground' : 'text-red-400'}`}>
                                 {formatCurrency(nativeTotalGrowth, asset.currency)}
@@ -542,7 +516,10 @@ function AssetDetail() {
                 <Card>
                     <CardHeader>
                         <CardTitle>Value Over Time</CardTitle>
-                        <CardDescription>A breakdown of your asset's value from contributions and market growth.</CardDescription>
+                        <CardDescription>
+                            A breakdown of your asset's value from contributions and market growth.
+                            {hasUnavailableRates && ` No ${asset.currency} to ${globalCurrency} rate was available for some months, so they are left blank.`}
+                        </CardDescription>
                     </CardHeader>
                     <CardContent>
                     <ChartContainer config={chartConfig} className="h-[300px] w-full">
@@ -593,6 +570,7 @@ function AssetDetail() {
                             <Area dataKey="growth" type="monotone" fill="var(--color-growth)" stroke="var(--color-growth)" stackId="1" name="growth" />
                         </RechartsAreaChart>
                     </ChartContainer>
+                    <RateSources sources={getRateSources(rateSeries)} currency={globalCurrency} />
                     </CardContent>
                 </Card>
                 
@@ -752,18 +730,7 @@ function AssetDetail() {
               <FormField control={assetForm.control} name="currency" render={({ field }) => (
                 <FormItem>
                     <FormLabel>Currency</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
-                        <SelectContent>
-                            <SelectItem value="USD">USD - US Dollar</SelectItem>
-                            <SelectItem value="EUR">EUR - Euro</SelectItem>
-                            <SelectItem value="GBP">GBP - British Pound</SelectItem>
-                            <SelectItem value="JPY">JPY - Japanese Yen</SelectItem>
-                            <SelectItem value="CAD">CAD - Canadian Dollar</SelectItem>
-                            <SelectItem value="AUD">AUD - Australian Dollar</SelectItem>
-                            <SelectItem value="HUF">HUF - Hungarian Forint</SelectItem>
-                        </SelectContent>
-                    </Select>
+                    <CurrencySelect value={field.value} onChange={field.onChange} />
                     <FormMessage />
                 </FormItem>
               )} />
@@ -25,38 +25,19 @@ import { AlertCircle, ArrowDown, ArrowUp, BarChart, CalendarIcon, Edit, Home, La
 import { useToast } from "@/hooks/use-toast";
 import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
-import { db } from '@/lib/firebase';
-import { collection, getDocs, addDoc, doc, updateDoc, deleteDoc, query, where } from 'firebase/firestore';
+import { CurrencySelect } from '@/components/currency-select';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
-import { getConversionRate } from '@/services/currency-service';
-import { defaultAssetTypes, DefaultCategory } from '@/lib/categories';
+import { getRateProviders, resolveConversionRate } from '@/lib/fx-providers';
+import type { RateSource } from '@/lib/fx-rates';
+import { RateSources } from '@/components/rate-sources';
+import type { Asset, Category, SavingGoal } from '@/lib/types';
+import { addAsset, deleteAsset, getUserAssets, updateAsset } from '@/repositories/assets';
+import { getCategories } from '@/repositories/categories';
+import { getUserSavingsGoals } from '@/repositories/savings';
+import { getUserManualRates } from '@/repositories/manual-rates';
 import DynamicIcon from '@/components/dynamic-icon';
 
-type AssetType = string;
-
-type Contribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-
-type ValueChange = {
-  id: string;
-  value: number;
-  date: Date;
-}
-
-type Asset = {
-  id: string;
-  userId: string;
-  name: string;
-  type: AssetType;
-  currency: string;
-  valueHistory: ValueChange[];
-  contributions: Contribution[];
-};
-
 // This type includes the calculated, converted values for display
 type ProcessedAsset = Asset & {
   value: number;
@@ -65,27 +46,6 @@ type ProcessedAsset = Asset & {
   startDate: Date;
 };
 
-type SavingGoalContribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  contributions: SavingGoalContribution[];
-};
-
-type Category = DefaultCategory & {
-  id: string;
-  userId?: string;
-  isDefault?: boolean;
-};
-
 const assetSchema = z.object({
   name: z.string().min(1, 'Asset name is required.'),
   type: z.string({ required_error: "You need to select an asset type."}).min(1, "You need to select an asset type."),
@@ -105,6 +65,7 @@ function Assets() {
   const [assets, setAssets] = useState<ProcessedAsset[]>([]);
   const [savingsGoals, setSavingsGoals] = useState<SavingGoal[]>([]);
   const [assetTypes, setAssetTypes] = useState<Category[]>([]);
+  const [rateSources, setRateSources] = useState<Record<string, RateSource>>({});
   const [isDataLoading, setIsDataLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAsset, setEditingAsset] = useState<Asset | null>(null);
@@ -124,47 +85,39 @@ function Assets() {
     if (!user) return;
     setIsDataLoading(true);
     try {
-        const assetsQuery = query(collection(db, 'assets'), where('userId', '==', user.uid));
-        const savingsQuery = query(collection(db, 'savings'), where('userId', '==', user.uid));
-        const assetTypesQuery = query(collection(db, 'assetTypes'), where('userId', '==', user.uid));
-
-        const [assetsSnapshot, savingsSnapshot, assetTypesSnapshot] = await Promise.all([
-            getDocs(assetsQuery),
-            getDocs(savingsQuery),
-            getDocs(assetTypesQuery),
+        const [assetsList, savingsList, allAssetTypes, manualRates] = await Promise.all([
+            getUserAssets(user.uid),
+            getUserSavingsGoals(user.uid),
+            getCategories('assetTypes', user.uid),
+            getUserManualRates(user.uid),
         ]);
-
-        const customAssetTypes = assetTypesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-        const allAssetTypes = [
-            ...defaultAssetTypes.map(c => ({...c, id: `default-${c.name}`, isDefault: true})), 
-            ...customAssetTypes
-        ].sort((a,b) => a.name.localeCompare(b.name));
         setAssetTypes(allAssetTypes);
 
-        const assetsList = assetsSnapshot.docs.map(doc => {
-            const data = doc.data();
-            return {
-                id: doc.id,
-                ...data,
-                currency: data.currency || 'USD',
-                valueHistory: (data.valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })),
-                contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-            } as Asset;
-        });
-
         const rates = new Map<string, number>();
         rates.set(currency, 1);
         const uniqueCurrencies = [...new Set(assetsList.map(a => a.currency).filter(c => c !== currency))];
         
+        const providers = getRateProviders(manualRates);
+        const sources: Record<string, RateSource> = {};
+        const unavailable: string[] = [];
         await Promise.all(uniqueCurrencies.map(async (assetCurrency) => {
             if (!rates.has(assetCurrency)) {
-                const rate = await getConversionRate(assetCurrency, currency);
-                rates.set(assetCurrency, rate);
+                const resolved = await resolveConversionRate(providers, assetCurrency, currency);
+                if (resolved === null) {
+                    unavailable.push(assetCurrency);
+                } else {
+                    rates.set(assetCurrency, resolved.rate);
+                    sources[assetCurrency] = resolved.source;
+                }
             }
         }));
+        setRateSources(sources);
+        if (unavailable.length > 0) {
+            toast({ variant: 'destructive', title: "Exchange rate unavailable", description: `Values in ${unavailable.join(', ')} can't be converted to ${currency} right now and are shown as zero.` });
+        }
 
         const processedAssets = assetsList.map(asset => {
-            const rate = rates.get(asset.currency) || 1;
+            const rate = rates.get(asset.currency) ?? 0;
             const sortedHistory = [...asset.valueHistory].sort((a,b) => a.date.getTime() - b.date.getTime());
             
             const initialValue = (sortedHistory[0]?.value || 0) * rate;
@@ -184,16 +137,6 @@ function Assets() {
         });
         setAssets(processedAssets);
         
-        const savingsList = savingsSnapshot.docs.map(doc => {
-            const data = doc.data();
-            return {
-                id: doc.id,
-                ...data,
-                startDate: data.startDate.toDate(),
-                targetDate: data.targetDate.toDate(),
-                contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() })),
-            } as SavingGoal;
-        });
         setSavingsGoals(savingsList);
 
     } catch (error) {
@@ -257,7 +200,7 @@ function Assets() {
   const handleDeleteAsset = async () => {
     if (!assetToDelete) return;
     try {
-      await deleteDoc(doc(db, "assets", assetToDelete.id));
+      await deleteAsset(assetToDelete.id);
       toast({ title: "Asset Deleted", description: `"${assetToDelete.name}" has been removed.` });
       setAssetToDelete(null);
       fetchData(); 
@@ -271,7 +214,6 @@ function Assets() {
     if (!user) return;
     try {
       if (editingAsset) {
-        const assetRef = doc(db, "assets", editingAsset.id);
         const newHistory = [...editingAsset.valueHistory].sort((a,b) => a.date.getTime() - b.date.getTime());
         newHistory[0] = { ...newHistory[0], value: values.initialValue, date: values.startDate };
 
@@ -281,7 +223,7 @@ function Assets() {
             currency: values.currency,
             valueHistory: newHistory,
         };
-        await updateDoc(assetRef, payload);
+        await updateAsset(editingAsset.id, payload);
         toast({ title: "Asset Updated", description: "Your asset has been successfully updated." });
       } else {
         const payload = { 
@@ -292,7 +234,7 @@ function Assets() {
             contributions: [],
             valueHistory: [{ id: crypto.randomUUID(), value: values.initialValue, date: values.startDate }]
         };
-        await addDoc(collection(db, "assets"), payload);
+        await addAsset(payload);
         toast({ title: "Asset Added", description: "Your new asset has been successfully added." });
       }
       setEditingAsset(null);
@@ -463,6 +405,9 @@ function Assets() {
                                 })}
                             </TableBody>
                         </Table>
+                        <div className="mt-4">
+                            <RateSources sources={rateSources} currency={currency} />
+                        </div>
                     </>
                 )}
             </CardContent>
@@ -508,18 +453,7 @@ function Assets() {
               <FormField control={form.control} name="currency" render={({ field }) => (
                 <FormItem>
                     <FormLabel>Currency</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
-                        <SelectContent>
-                            <SelectItem value="USD">USD - US Dollar</SelectItem>
-                            <SelectItem value="EUR">EUR - Euro</SelectItem>
-                            <SelectItem value="GBP">GBP - British Pound</SelectItem>
-                            <SelectItem value="JPY">JPY - Japanese Yen</SelectItem>
-                            <SelectItem value="CAD">CAD - Canadian Dollar</SelectItem>
-                            <SelectItem value="AUD">AUD - Australian Dollar</SelectItem>
-                            <SelectItem value="HUF">HUF - Hungarian Forint</SelectItem>
-                        </SelectContent>
-                    </Select>
+                    <CurrencySelect value={field.value} onChange={field.onChange} />
                     <FormMessage />
                 </FormItem>
               )} />
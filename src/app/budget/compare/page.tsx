@@ -5,8 +5,6 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { db } from '@/lib/firebase';
-import { collection, getDocs, query, where } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { subMonths, startOfMonth, endOfMonth, format, isWithinInterval, isAfter, isEqual, eachMonthOfInterval, subYears, startOfYear, endOfYear } from 'date-fns';
@@ -18,7 +16,11 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import type { DateRange } from "react-day-picker";
 import { cn } from '@/lib/utils';
-import { defaultExpenseCategories } from '@/lib/categories';
+import type { Category as ExpenseCategory, Expense, Household, Transaction } from '@/lib/types';
+import { getMemberShare } from '@/lib/household-splits';
+import { getVisibleTransactions } from '@/repositories/transactions';
+import { getUserHouseholds } from '@/repositories/households';
+import { getCategories } from '@/repositories/categories';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import {
   DropdownMenu,
@@ -30,18 +32,6 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 
-// Data types from other pages, necessary for calculations
-type TransactionType = 'income' | 'expense';
-type Frequency = 'one-off' | 'recurring';
-type AmountChange = { id: string; amount: number; date: Date; };
-type BaseTransaction = { id: string; userId: string; name: string; amounts: AmountChange[]; frequency: Frequency; endDate?: Date | null; };
-type Income = BaseTransaction & { transactionType: 'income'; categoryId?: string; sharing: string; };
-type Expense = BaseTransaction & { transactionType: 'expense'; sharing: string; classification?: 'need' | 'want'; categoryId?: string; };
-type Transaction = Income | Expense;
-type ExpenseCategory = { id: string; userId?: string; name: string; icon: string; color: string; isDefault?: boolean; }
-type Household = { id: string; name: string; members: { id: string; name: string; income?: number; }[]; splitType?: 'equal' | 'shares' | 'income_ratio'; splits?: { memberId: string, share: number }[]; };
-
-
 const getAmountForDate = (transaction: Transaction, targetDate: Date): number => {
     if (!transaction.amounts || transaction.amounts.length === 0) return 0;
     const sortedAmounts = [...transaction.amounts].sort((a, b) => b.date.getTime() - a.date.getTime());
@@ -93,52 +83,15 @@ function BudgetComparison() {
         async function fetchData() {
             setLoading(true);
             try {
-                const categoriesQuery = query(collection(db, 'expenseCategories'), where('userId', '==', user.uid));
-                const categoriesSnapshot = await getDocs(categoriesQuery);
-                const customCategories = categoriesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ExpenseCategory));
-                const mappedDefaultCategories = defaultExpenseCategories.map(cat => ({
-                    ...cat,
-                    id: `default-expenseCategories-${cat.name.replace(/\s+/g, '-')}`,
-                    isDefault: true,
-                }));
-                setExpenseCategories([...mappedDefaultCategories, ...customCategories]);
-                
-                const householdQuery = query(collection(db, "households"), where("memberIds", "array-contains", user.uid));
-                const householdSnap = await getDocs(householdQuery);
-                const householdData = householdSnap.docs.map(doc => ({ ...doc.data(), id: doc.id })) as Household[];
+                const [categoriesList, householdData] = await Promise.all([
+                    getCategories('expenseCategories', user.uid),
+                    getUserHouseholds(user.uid),
+                ]);
+                setExpenseCategories(categoriesList);
                 setHouseholds(householdData);
-                const householdIds = householdData.map(h => h.id);
 
-                const userTransactionsQuery = query(collection(db, 'transactions'), where('userId', '==', user.uid));
-                const sharedTransactionsQuery = householdIds.length > 0 
-                    ? query(collection(db, 'transactions'), where('sharing', 'in', householdIds))
-                    : null;
-                
-                const queries = [getDocs(userTransactionsQuery)];
-                if (sharedTransactionsQuery) {
-                    queries.push(getDocs(sharedTransactionsQuery));
-                }
-                
-                const [userTxSnap, sharedTxSnap] = await Promise.all(queries);
-
-                const allTransactions = new Map<string, Transaction>();
-                const processSnapshot = (snapshot: any) => {
-                    snapshot.docs.forEach((doc: any) => {
-                        const data = doc.data();
-                        let amounts = (data.amounts || []).map((a: any) => ({ ...a, date: a.date.toDate() }));
-                        if (amounts.length === 0 && data.amount && data.startDate) {
-                            amounts.push({ id: 'legacy-0', amount: data.amount, date: data.startDate.toDate() });
-                        }
-                        const transaction: Transaction = { id: doc.id, ...data, amounts, endDate: data.endDate ? data.endDate.toDate() : null } as Transaction;
-                        
-                        if (transaction.sharing === 'personal' && transaction.userId !== user.uid) return;
-
-                        allTransactions.set(doc.id, transaction);
-                    });
-                };
-                processSnapshot(userTxSnap);
-                if (sharedTxSnap) processSnapshot(sharedTxSnap);
-                setTransactions(Array.from(allTransactions.values()));
+                const householdIds = householdData.map(h => h.id);
+                setTransactions(await getVisibleTransactions(user.uid, householdIds));
 
             } catch (error) {
                 console.error("Error fetching comparison data:", error);
@@ -191,36 +144,7 @@ function BudgetComparison() {
                     .forEach(t => {
                         let amount = getAmountForDate(t, monthEnd);
                         if (t.sharing !== 'personal' && user) {
-                            const household = households.find(h => h.id === t.sharing);
-                            if (household) {
-                                let userShare = 0;
-                                const userIsMember = household.members.some(m => m.id === user.uid);
-                                if (userIsMember) {
-                                    if (household.splitType === 'shares' && household.splits?.length) {
-                                        const totalShares = household.splits.reduce((s, split) => s + (split.share || 0), 0);
-                                        if (totalShares > 0) {
-                                            const userSplit = household.splits.find(s => s.memberId === user.uid);
-                                            const userShares = userSplit?.share || 0;
-                                            userShare = (amount * userShares) / totalShares;
-                                        } else {
-                                            userShare = household.members.length > 0 ? amount / household.members.length : 0;
-                                        }
-                                    } else if (household.splitType === 'income_ratio') {
-                                        const totalIncome = household.members.reduce((s, member) => s + (member.income || 0), 0);
-                                        if (totalIncome > 0) {
-                                            const userIncome = household.members.find(m => m.id === user.uid)?.income || 0;
-                                            userShare = (amount * userIncome) / totalIncome;
-                                        } else {
-                                            userShare = household.members.length > 0 ? amount / household.members.length : 0;
-                                        }
-                                    } else { // Equal split
-                                        userShare = household.members.length > 0 ? amount / household.members.length : 0;
-                                    }
-                                }
-                                amount = userShare;
-                            } else {
-                                amount = 0;
-                            }
+                            amount = getMemberShare(households.find(h => h.id === t.sharing), t, amount, user.uid, monthEnd);
                         }
 
                         totalExpenses += amount;
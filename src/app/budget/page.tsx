@@ -29,33 +29,28 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/
 import { Loader2, Info, ArrowUpCircle, ArrowDownCircle, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, PiggyBank, Scale, PlusCircle, Edit, CalendarIcon, ChevronsUpDown } from 'lucide-react';
 
 // Firebase & Context
-import { db } from '@/lib/firebase';
-import { collection, getDocs, query, where, addDoc, updateDoc, doc } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import DynamicIcon from '@/components/dynamic-icon';
-import { defaultExpenseCategories, defaultIncomeCategories } from '@/lib/categories';
-
-// Data Types
-type TransactionType = 'income' | 'expense';
-type Frequency = 'one-off' | 'recurring';
-type AmountChange = { id: string; amount: number; date: Date; };
-type BaseTransaction = { id: string; userId: string; name: string; amounts: AmountChange[]; frequency: Frequency; endDate?: Date | null; };
-type Income = BaseTransaction & { transactionType: 'income'; categoryId?: string; sharing: string; };
-type Expense = BaseTransaction & { transactionType: 'expense'; sharing: string; classification?: 'need' | 'want'; categoryId?: string; };
-type Transaction = Income | Expense;
-type SavingGoalContribution = { id: string; amount: number; date: Date; };
-type SavingGoal = { id: string; userId: string; name: string; targetAmount: number; targetDate: Date; startDate: Date; contributions: SavingGoalContribution[]; };
-type Category = { id: string; userId?: string; name: string; icon: string; color: string; };
-type AssetContribution = { id: string; amount: number; date: Date; };
-type Asset = { id: string; userId: string; name: string; valueHistory: any[]; contributions: AssetContribution[]; };
-type IncomeChange = { id: string; amount: number; date: Date; };
-type Member = { id: string; name: string; email: string; incomeHistory?: IncomeChange[]; };
-type Household = { id: string; ownerId: string; name: string; members: Member[]; memberIds: string[]; splitType?: 'equal' | 'shares' | 'income_ratio'; splits?: { memberId: string, share: number }[]; };
-
+import type { Asset, Category, CategoryRule, Expense, Household, Income, Investment, ManualRate, NewDocument, Posting, SavingGoal, Transaction, TransactionType } from '@/lib/types';
+import { getMemberShare } from '@/lib/household-splits';
+import { getActualsByBudgetLine, getPostingActual, getShareRatio, getVariance, type LineShares } from '@/lib/budget-actuals';
+import { addTransaction, getVisibleTransactions, updateTransaction } from '@/repositories/transactions';
+import { getUserHouseholds } from '@/repositories/households';
+import { getUserSavingsGoals } from '@/repositories/savings';
+import { getUserAssets } from '@/repositories/assets';
+import { getCategories } from '@/repositories/categories';
+import { getUserPostings } from '@/repositories/postings';
+import { getUserCategoryRules } from '@/repositories/category-rules';
+import { getUserInvestments } from '@/repositories/investments';
+import { getUserManualRates } from '@/repositories/manual-rates';
+import { getCashDividendIncome, type DividendIncome } from '@/lib/dividends';
+import { createRateLookup, type RateSeries } from '@/lib/fx-rates';
+import { getRateProviders, resolveRateSeries } from '@/lib/fx-providers';
+import { applyRules, type RuleChanges } from '@/lib/categorisation-rules';
 
 // Zod Schemas
 const addTransactionSchema = z.object({
@@ -87,23 +82,26 @@ const getAmountForDate = (transaction: Transaction, targetDate: Date): number =>
     return activeAmount ? activeAmount.amount : 0;
 };
 
-const getIncomeForDate = (member: Member | undefined, targetDate: Date): number => {
-    if (!member || !member.incomeHistory || member.incomeHistory.length === 0) return 0;
-    const sortedHistory = [...member.incomeHistory].sort((a, b) => b.date.getTime() - a.date.getTime());
-    const activeIncome = sortedHistory.find(i => i.date <= targetDate);
-    return activeIncome ? activeIncome.amount : 0;
-};
-
 type SortableKey = 'name' | 'amount' | 'category';
 type GroupingKey = 'none' | 'category' | 'classification';
 type GroupedExpenseItem = {
     name: string;
     total: number;
+    actual: number;
     icon?: string;
     color?: string;
-    transactions: (Expense & { displayAmount: number })[];
+    transactions: (Expense & { displayAmount: number, actualAmount: number })[];
 };
 
+function Variance({ type, planned, actual, currency }: { type: TransactionType, planned: number, actual: number, currency: string }) {
+    const variance = getVariance(type, planned, actual);
+    return (
+        <span className={cn('font-mono', variance < 0 ? 'text-destructive font-semibold' : variance > 0 ? 'text-chart-2' : 'text-muted-foreground')}>
+            {formatCurrency(variance, currency, { signDisplay: 'exceptZero' })}
+        </span>
+    );
+}
+
 function BudgetOverview() {
     const user = useAuth();
     const { currency } = useCurrency();
@@ -113,6 +111,11 @@ function BudgetOverview() {
     const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
     const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
     const [households, setHouseholds] = useState<Household[]>([]);
+    const [postings, setPostings] = useState<Posting[]>([]);
+    const [rules, setRules] = useState<CategoryRule[]>([]);
+    const [investments, setInvestments] = useState<Investment[]>([]);
+    const [manualRates, setManualRates] = useState<ManualRate[]>([]);
+    const [dividendRates, setDividendRates] = useState<Record<string, RateSeries | null>>({});
     const [loading, setLoading] = useState(true);
     const [selectedMonth, setSelectedMonth] = useState(new Date());
     const [incomeSortConfig, setIncomeSortConfig] = useState<{ key: SortableKey, direction: 'ascending' | 'descending' }>({ key: 'amount', direction: 'descending' });
@@ -143,79 +146,32 @@ function BudgetOverview() {
         setLoading(true);
 
         // Fetch households first to get their IDs
-        const householdQuery = query(collection(db, "households"), where("memberIds", "array-contains", user.uid));
-        const householdSnap = await getDocs(householdQuery);
-        const householdsData = householdSnap.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data(),
-            members: (doc.data().members || []).map((m: any) => ({
-                ...m,
-                incomeHistory: (m.incomeHistory || []).map((i: any) => ({...i, date: i.date.toDate()}))
-            })),
-        } as Household));
+        const householdsData = await getUserHouseholds(user.uid);
         setHouseholds(householdsData);
         const householdIds = householdsData.map(h => h.id);
 
-        // Prepare transaction queries
-        const userTransactionsQuery = query(collection(db, 'transactions'), where('userId', '==', user.uid));
-        
-        // This will fetch all transactions shared with the user's households
-        const sharedTransactionsQuery = householdIds.length > 0 
-            ? query(collection(db, 'transactions'), where('sharing', 'in', householdIds))
-            : null;
-
-        const queries = [
-            getDocs(query(collection(db, 'savings'), where('userId', '==', user.uid))),
-            getDocs(query(collection(db, 'assets'), where('userId', '==', user.uid))),
-            getDocs(query(collection(db, 'expenseCategories'), where('userId', '==', user.uid))),
-            getDocs(query(collection(db, 'incomeCategories'), where('userId', '==', user.uid))),
-            getDocs(userTransactionsQuery)
-        ];
-
-        if (sharedTransactionsQuery) {
-            queries.push(getDocs(sharedTransactionsQuery));
-        }
-
-        const [savingsSnap, assetsSnap, expCatSnap, incCatSnap, userTxSnap, sharedTxSnap] = await Promise.all(queries);
-        
-        // Combine and de-duplicate transactions
-        const allTransactions = new Map<string, Transaction>();
-
-        const processSnapshot = (snapshot: any) => {
-            snapshot.docs.forEach((doc: any) => {
-                const data = doc.data();
-                let amounts = (data.amounts || []).map((a: any) => ({ ...a, date: a.date.toDate() }));
-                if (amounts.length === 0 && data.amount && data.startDate) {
-                    amounts.push({ id: 'legacy-0', amount: data.amount, date: data.startDate.toDate() });
-                }
-                const transaction: Transaction = { id: doc.id, ...data, amounts, endDate: data.endDate ? data.endDate.toDate() : null } as Transaction;
-                
-                if (transaction.sharing === 'personal' && transaction.userId !== user.uid) {
-                    return;
-                }
-
-                allTransactions.set(doc.id, transaction);
-            });
-        };
-
-        processSnapshot(userTxSnap);
-        if (sharedTxSnap) {
-            processSnapshot(sharedTxSnap);
-        }
-        
-        setTransactions(Array.from(allTransactions.values()));
-
-        const savingsList = savingsSnap.docs.map(doc => ({ id: doc.id, ...doc.data(), startDate: doc.data().startDate.toDate(), targetDate: doc.data().targetDate.toDate(), contributions: (doc.data().contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() })) } as SavingGoal));
+        // Own transactions plus everything shared with the user's households
+        const [transactionsList, postingsList, savingsList, assetsList, expenseCategoriesList, incomeCategoriesList, rulesList, investmentsList, manualRatesList] = await Promise.all([
+            getVisibleTransactions(user.uid, householdIds),
+            getUserPostings(user.uid),
+            getUserSavingsGoals(user.uid),
+            getUserAssets(user.uid),
+            getCategories('expenseCategories', user.uid),
+            getCategories('incomeCategories', user.uid),
+            getUserCategoryRules(user.uid),
+            getUserInvestments(user.uid),
+            getUserManualRates(user.uid),
+        ]);
+
+        setTransactions(transactionsList);
+        setRules(rulesList);
+        setPostings(postingsList);
         setSavingsGoals(savingsList);
-
-        const assetsList = assetsSnap.docs.map(doc => ({ id: doc.id, ...doc.data(), valueHistory: (doc.data().valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })), contributions: (doc.data().contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() })) } as Asset));
         setAssets(assetsList);
-        
-        const customExpense = expCatSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-        setExpenseCategories([...customExpense, ...defaultExpenseCategories.map(cat => ({...cat, id: `default-expenseCategories-${cat.name.replace(/\s+/g, '-')}`}))]);
-        
-        const customIncome = incCatSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-        setIncomeCategories([...customIncome, ...defaultIncomeCategories.map(cat => ({...cat, id: `default-incomeCategories-${cat.name.replace(/\s+/g, '-')}`}))]);
+        setExpenseCategories(expenseCategoriesList);
+        setIncomeCategories(incomeCategoriesList);
+        setInvestments(investmentsList);
+        setManualRates(manualRatesList);
 
         setLoading(false);
     }
@@ -224,6 +180,24 @@ function BudgetOverview() {
         fetchData();
     }, [user]);
 
+    // Cash dividends are income in whatever currency they were paid, converted on the day they were.
+    useEffect(() => {
+        const dividends = investments.flatMap(inv => inv.dividends.filter(d => d.handling === 'cash'));
+        if (dividends.length === 0) return;
+        let cancelled = false;
+        (async () => {
+            try {
+                const firstDate = dividends.reduce((earliest, d) => d.date < earliest ? d.date : earliest, new Date());
+                const series = await resolveRateSeries(getRateProviders(manualRates), dividends.map(d => d.currency), currency, startOfMonth(firstDate), new Date());
+                if (!cancelled) setDividendRates(series);
+            } catch (error) {
+                console.error("Error fetching dividend exchange rates:", error);
+                toast({ variant: 'destructive', title: "Error", description: "Could not load exchange rates for dividends." });
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [investments, manualRates, currency, toast]);
+
     useEffect(() => {
         if (!isAddDialogOpen && !isQuickEditDialogOpen) {
             setEditingTransaction(null);
@@ -254,6 +228,21 @@ function BudgetOverview() {
         }
     }, [addTransactionType, isAddDialogOpen, incomeCategories, expenseCategories, addForm]);
 
+    // What the user's rules set, leaving out any field the user has already chosen themselves.
+    const getRuleDefaults = (values: z.infer<typeof addTransactionSchema>): RuleChanges => {
+        const changes = applyRules(rules, { name: values.name, amount: Number(values.amount) || 0, transactionType: values.transactionType, sharing: values.sharing });
+        (Object.keys(changes) as (keyof RuleChanges)[]).forEach(field => {
+            if (addForm.getFieldState(field, addForm.formState).isDirty) delete changes[field];
+        });
+        return changes;
+    };
+
+    // Shows what the rules will set as soon as the name or amount is entered; saving applies them again.
+    const handleApplyRules = () => {
+        const changes = getRuleDefaults(addForm.getValues());
+        (Object.keys(changes) as (keyof RuleChanges)[]).forEach(field => addForm.setValue(field, changes[field]));
+    };
+
     const handleOpenAddDialog = (type: 'income' | 'expense') => {
         setAddTransactionType(type);
         setIsAddDialogOpen(true);
@@ -284,7 +273,7 @@ function BudgetOverview() {
         const payload = { amounts: newAmounts.sort((a,b) => a.date.getTime() - b.date.getTime()) };
     
         try {
-            await updateDoc(doc(db, "transactions", transaction.id), payload);
+            await updateTransaction(transaction.id, payload);
             toast({ title: "Transaction Updated for This Month" });
         } catch (error) {
             toast({ variant: 'destructive', title: "Error", description: "Could not update transaction." });
@@ -306,7 +295,7 @@ function BudgetOverview() {
         const payload = { amounts: newAmounts.sort((a,b) => a.date.getTime() - b.date.getTime()) };
     
         try {
-            await updateDoc(doc(db, "transactions", transaction.id), payload);
+            await updateTransaction(transaction.id, payload);
             toast({ title: "Transaction Updated for Future" });
         } catch (error) {
             toast({ variant: 'destructive', title: "Error", description: "Could not update transaction." });
@@ -319,6 +308,7 @@ function BudgetOverview() {
 
     const onAddFormSubmit = async (values: z.infer<typeof addTransactionSchema>) => {
         if (!user) return;
+        values = { ...values, ...getRuleDefaults(values) };
         const payload: { [key: string]: any } = {
             userId: user.uid, name: values.name,
             transactionType: values.transactionType, frequency: values.frequency,
@@ -333,7 +323,7 @@ function BudgetOverview() {
             payload.categoryId = values.categoryId;
         }
         try {
-            await addDoc(collection(db, "transactions"), payload);
+            await addTransaction(payload as NewDocument<Transaction>);
             toast({ title: "Transaction Added" });
         } catch (error) {
             toast({ variant: 'destructive', title: "Error", description: "Could not save transaction." });
@@ -363,7 +353,7 @@ function BudgetOverview() {
             const payload = { amounts: newAmounts };
     
             try {
-                await updateDoc(doc(db, "transactions", editingTransaction.id), payload);
+                await updateTransaction(editingTransaction.id, payload);
                 toast({ title: "Transaction Updated" });
             } catch (error) {
                 toast({ variant: 'destructive', title: "Error", description: "Could not update transaction." });
@@ -392,7 +382,7 @@ function BudgetOverview() {
       [...expenseCategories, ...incomeCategories].map(c => [c.id, c])
     ), [expenseCategories, incomeCategories]);
     
-    const { monthlyIncome, monthlyExpenses, monthlySavings, netBalance, sortedIncomeTransactions, groupedExpenseTransactions, monthlyContributionsList } = useMemo(() => {
+    const { monthlyIncome, monthlyExpenses, actualIncome, actualExpenses, monthlySavings, netBalance, sortedIncomeTransactions, groupedExpenseTransactions, monthlyContributionsList, monthlyDividends } = useMemo(() => {
         const monthStart = startOfMonth(selectedMonth);
         const monthEnd = endOfMonth(selectedMonth);
 
@@ -411,49 +401,35 @@ function BudgetOverview() {
 
         const activeTransactions = transactions.filter(isTransactionActive);
         
-        const income = activeTransactions.filter(t => t.transactionType === 'income').reduce((sum, t) => sum + getAmountForDate(t, monthEnd), 0);
+        // Dividends are only recorded once paid, so they count towards both planned and actual income
+        const dividendIncome = getCashDividendIncome(investments, monthStart, monthEnd, createRateLookup(currency, dividendRates));
+        const dividendTotal = dividendIncome.reduce((sum, d) => sum + (d.amount ?? 0), 0);
+        const income = activeTransactions.filter(t => t.transactionType === 'income').reduce((sum, t) => sum + getAmountForDate(t, monthEnd), 0) + dividendTotal;
         
-        const expenseTransactionsWithDisplayAmount = activeTransactions
+        // A shared expense is planned at the user's share, so its postings are counted at the same share.
+        const lineShares: LineShares = new Map();
+        const plannedExpenses = activeTransactions
             .filter((t): t is Expense => t.transactionType === 'expense')
             .map(t => {
                 const totalAmount = getAmountForDate(t, monthEnd);
                 let displayAmount = totalAmount;
 
                 if (t.sharing !== 'personal' && user) {
-                    const household = households.find(h => h.id === t.sharing);
-                    if (household) {
-                        let userShare = 0;
-                        const userIsMember = household.members.some(m => m.id === user.uid);
-                        if (userIsMember) {
-                            if (household.splitType === 'shares' && household.splits?.length) {
-                                const totalShares = household.splits.reduce((s, split) => s + (split.share || 0), 0);
-                                if (totalShares > 0) {
-                                    const userSplit = household.splits.find(s => s.memberId === user.uid);
-                                    const userShares = userSplit?.share || 0;
-                                    userShare = (totalAmount * userShares) / totalShares;
-                                } else {
-                                    userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                                }
-                            } else if (household.splitType === 'income_ratio') {
-                                 const totalIncome = household.members.reduce((s, member) => s + getIncomeForDate(member, monthEnd), 0);
-                                if (totalIncome > 0) {
-                                    const memberIncome = getIncomeForDate(household.members.find(m => m.id === user.uid), monthEnd);
-                                    userShare = (totalAmount * memberIncome) / totalIncome;
-                                } else {
-                                    userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                                }
-                            } else { // Equal split
-                                userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                            }
-                        }
-                        displayAmount = userShare;
-                    } else {
-                        displayAmount = 0; // Household might be deleted, so share is 0
-                    }
+                    // 0 when the household might be deleted
+                    displayAmount = getMemberShare(households.find(h => h.id === t.sharing), t, totalAmount, user.uid, monthEnd);
+                    lineShares.set(t.id, getShareRatio(totalAmount, displayAmount));
                 }
                 return {...t, displayAmount };
             });
 
+        const monthPostings = postings.filter(p => isWithinInterval(p.date, { start: monthStart, end: monthEnd }));
+        const actualsByLine = getActualsByBudgetLine(monthPostings, lineShares);
+        const expensePostings = monthPostings.filter(p => p.transactionType === 'expense');
+        const actualIncomeTotal = monthPostings.filter(p => p.transactionType === 'income').reduce((sum, p) => sum + p.amount, 0);
+        const actualExpensesTotal = expensePostings.reduce((sum, p) => sum + getPostingActual(p, lineShares), 0);
+
+        const expenseTransactionsWithDisplayAmount = plannedExpenses.map(t => ({...t, actualAmount: actualsByLine.get(t.id) || 0 }));
+
         const expenses = expenseTransactionsWithDisplayAmount.reduce((sum, t) => sum + t.displayAmount, 0);
 
         let groupedExpenses: GroupedExpenseItem[] = [];
@@ -461,6 +437,7 @@ function BudgetOverview() {
             groupedExpenses = [{
                 name: 'All Expenses',
                 total: expenses,
+                actual: actualExpensesTotal,
                 transactions: expenseTransactionsWithDisplayAmount.sort((a,b) => b.displayAmount - a.displayAmount)
             }];
         } else {
@@ -482,18 +459,35 @@ function BudgetOverview() {
                 }
 
                 if (!groups[groupName]) {
-                    groups[groupName] = { name: groupName, total: 0, transactions: [], icon: groupIcon, color: groupColor };
+                    groups[groupName] = { name: groupName, total: 0, actual: 0, transactions: [], icon: groupIcon, color: groupColor };
                 }
                 groups[groupName].total += t.displayAmount;
                 groups[groupName].transactions.push(t);
+                if (expenseGrouping === 'classification') {
+                    groups[groupName].actual += t.actualAmount;
+                }
             });
+
+            // Per-category actuals include unplanned postings, so a category can be over budget with no lines at all.
+            if (expenseGrouping === 'category') {
+                expensePostings.forEach(p => {
+                    const budgetLine = p.budgetLineId ? transactions.find(t => t.id === p.budgetLineId) : undefined;
+                    const categoryId = p.categoryId || budgetLine?.categoryId;
+                    const category = categoryId ? allCategoriesMap.get(categoryId) : undefined;
+                    const groupName = category?.name || 'Uncategorized';
+                    if (!groups[groupName]) {
+                        groups[groupName] = { name: groupName, total: 0, actual: 0, transactions: [], icon: category?.icon, color: category?.color };
+                    }
+                    groups[groupName].actual += getPostingActual(p, lineShares);
+                });
+            }
             groupedExpenses = Object.values(groups).sort((a,b) => b.total - a.total);
             groupedExpenses.forEach(group => group.transactions.sort((a,b) => b.displayAmount - a.displayAmount));
         }
 
-        const incomeTransactions = activeTransactions.filter((t): t is Income => t.transactionType === 'income').map(t => ({...t, displayAmount: getAmountForDate(t, monthEnd)}));
+        const incomeTransactions = activeTransactions.filter((t): t is Income => t.transactionType === 'income').map(t => ({...t, displayAmount: getAmountForDate(t, monthEnd), actualAmount: actualsByLine.get(t.id) || 0}));
 
-        const sortTransactions = (txs: (Transaction & { displayAmount: number, categoryName?: string })[], config: { key: SortableKey, direction: 'ascending' | 'descending' }) => {
+        const sortTransactions = (txs: (Transaction & { displayAmount: number, actualAmount: number, categoryName?: string })[], config: { key: SortableKey, direction: 'ascending' | 'descending' }) => {
             return [...txs].sort((a, b) => {
                 const key = config.key === 'amount' ? 'displayAmount' : config.key;
                 if (key === 'category') {
@@ -531,19 +525,23 @@ function BudgetOverview() {
         return { 
           monthlyIncome: income, 
           monthlyExpenses: expenses, 
+          actualIncome: actualIncomeTotal + dividendTotal,
+          actualExpenses: actualExpensesTotal,
           monthlySavings: totalMonthlySavings,
           netBalance: income - expenses - totalMonthlySavings,
           sortedIncomeTransactions: sortTransactions(incomeTxsWithCategory, incomeSortConfig),
           groupedExpenseTransactions: groupedExpenses,
           monthlyContributionsList: allContributions,
+          monthlyDividends: dividendIncome.sort((a, b) => a.dividend.date.getTime() - b.dividend.date.getTime()),
         };
-    }, [transactions, savingsGoals, assets, selectedMonth, user?.uid, incomeSortConfig, expenseSortConfig, households, expenseGrouping, allCategoriesMap]);
+    }, [transactions, postings, savingsGoals, assets, investments, dividendRates, currency, selectedMonth, user?.uid, incomeSortConfig, expenseSortConfig, households, expenseGrouping, allCategoriesMap]);
 
     if (loading) {
         return (<><Header title="Monthly View" /><main className="flex-1 p-4 sm:p-6 text-center"><Loader2 className="mx-auto h-12 w-12 animate-spin text-muted-foreground" /></main></>)
     }
     
     const currencyOptions = { minimumFractionDigits: 0, maximumFractionDigits: 0 };
+    const showActuals = postings.length > 0;
     
     return (
         <>
@@ -565,8 +563,8 @@ function BudgetOverview() {
                             </div>
                         </CardHeader>
                         <CardContent className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
-                            <Card><CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Total Income</CardTitle><ArrowUpCircle className="h-4 w-4 text-chart-2" /></CardHeader><CardContent><div className="text-2xl font-bold text-chart-2">{formatCurrency(monthlyIncome, currency, currencyOptions)}</div></CardContent></Card>
-                            <Card><CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Total Expenses</CardTitle><ArrowDownCircle className="h-4 w-4 text-destructive" /></CardHeader><CardContent><div className="text-2xl font-bold text-destructive">{formatCurrency(monthlyExpenses, currency, currencyOptions)}</div></CardContent></Card>
+                            <Card><CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Total Income</CardTitle><ArrowUpCircle className="h-4 w-4 text-chart-2" /></CardHeader><CardContent><div className="text-2xl font-bold text-chart-2">{formatCurrency(monthlyIncome, currency, currencyOptions)}</div>{showActuals && <p className="text-xs text-muted-foreground">Actual {formatCurrency(actualIncome, currency, currencyOptions)}</p>}</CardContent></Card>
+                            <Card><CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Total Expenses</CardTitle><ArrowDownCircle className="h-4 w-4 text-destructive" /></CardHeader><CardContent><div className="text-2xl font-bold text-destructive">{formatCurrency(monthlyExpenses, currency, currencyOptions)}</div>{showActuals && <p className={cn("text-xs", actualExpenses > monthlyExpenses ? 'text-destructive font-semibold' : 'text-muted-foreground')}>Actual {formatCurrency(actualExpenses, currency, currencyOptions)}</p>}</CardContent></Card>
                             <Card><CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Savings &amp; Investments</CardTitle><PiggyBank className="h-4 w-4 text-chart-1" /></CardHeader><CardContent><div className="text-2xl font-bold text-chart-1">{formatCurrency(monthlySavings, currency, currencyOptions)}</div></CardContent></Card>
                             <Card><CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Net Balance</CardTitle><Scale className="h-4 w-4 text-muted-foreground" /></CardHeader><CardContent><div className={`text-2xl font-bold ${netBalance >= 0 ? 'text-primary' : 'text-destructive'}`}>{formatCurrency(netBalance, currency, currencyOptions)}</div></CardContent></Card>
                         </CardContent>
@@ -580,7 +578,8 @@ function BudgetOverview() {
                                     <Button size="sm" variant="outline" onClick={() => handleOpenAddDialog('income')}><PlusCircle className="mr-2 h-4 w-4" /> Quick Add</Button>
                                 </CardHeader>
                                 <CardContent>
-                                    <BreakdownTable transactions={sortedIncomeTransactions} currency={currency} type="income" sortConfig={incomeSortConfig} requestSort={requestSort('income')} categories={allCategoriesMap} onEdit={handleOpenEditDialog} />
+                                    <BreakdownTable transactions={sortedIncomeTransactions} currency={currency} type="income" sortConfig={incomeSortConfig} requestSort={requestSort('income')} categories={allCategoriesMap} onEdit={handleOpenEditDialog} showActuals={showActuals} />
+                                    {monthlyDividends.length > 0 && <DividendIncomeTable dividends={monthlyDividends} currency={currency} />}
                                 </CardContent>
                             </Card>
                             <Card>
@@ -610,7 +609,7 @@ function BudgetOverview() {
                                 </div>
                             </CardHeader>
                             <CardContent>
-                                <GroupedBreakdownTable groups={groupedExpenseTransactions} currency={currency} onEdit={handleOpenEditDialog} grouping={expenseGrouping} allCategoriesMap={allCategoriesMap} />
+                                <GroupedBreakdownTable groups={groupedExpenseTransactions} currency={currency} onEdit={handleOpenEditDialog} grouping={expenseGrouping} allCategoriesMap={allCategoriesMap} showActuals={showActuals} />
                             </CardContent>
                         </Card>
                     </div>
@@ -633,7 +632,7 @@ function BudgetOverview() {
                                         render={({ field }) => (
                                             <FormItem>
                                             <FormLabel>Sharing</FormLabel>
-                                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <Select onValueChange={field.onChange} value={field.value}>
                                                 <FormControl>
                                                 <SelectTrigger><SelectValue /></SelectTrigger>
                                                 </FormControl>
@@ -651,16 +650,16 @@ function BudgetOverview() {
 
                                     {transactionTypeWatcher === 'expense' && (
                                         <>
-                                        <FormField control={addForm.control} name="classification" render={({ field }) => (<FormItem className="space-y-3"><FormLabel>Classification</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="flex items-center space-x-4"><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="need" /></FormControl><FormLabel className="font-normal">Need</FormLabel></FormItem><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="want" /></FormControl><FormLabel className="font-normal">Want</FormLabel></FormItem></RadioGroup></FormControl><FormMessage /></FormItem>)} />
-                                        <FormField control={addForm.control} name="categoryId" render={({ field }) => (<FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a category"/></SelectTrigger></FormControl><SelectContent>{expenseCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+                                        <FormField control={addForm.control} name="classification" render={({ field }) => (<FormItem className="space-y-3"><FormLabel>Classification</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} value={field.value} className="flex items-center space-x-4"><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="need" /></FormControl><FormLabel className="font-normal">Need</FormLabel></FormItem><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="want" /></FormControl><FormLabel className="font-normal">Want</FormLabel></FormItem></RadioGroup></FormControl><FormMessage /></FormItem>)} />
+                                        <FormField control={addForm.control} name="categoryId" render={({ field }) => (<FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a category"/></SelectTrigger></FormControl><SelectContent>{expenseCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
                                         </>
                                     )}
                                     {transactionTypeWatcher === 'income' && (
-                                        <FormField control={addForm.control} name="categoryId" render={({ field }) => (<FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a category"/></SelectTrigger></FormControl><SelectContent>{incomeCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+                                        <FormField control={addForm.control} name="categoryId" render={({ field }) => (<FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a category"/></SelectTrigger></FormControl><SelectContent>{incomeCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
                                     )}
 
-                                    <FormField control={addForm.control} name="name" render={({ field }) => (<FormItem><FormLabel>Name</FormLabel><FormControl><Input placeholder="e.g., Salary, Rent" {...field} /></FormControl><FormMessage /></FormItem>)} />
-                                    <FormField control={addForm.control} name="amount" render={({ field }) => (<FormItem><FormLabel>Amount</FormLabel><FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} /></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={addForm.control} name="name" render={({ field }) => (<FormItem><FormLabel>Name</FormLabel><FormControl><Input placeholder="e.g., Salary, Rent" {...field} onBlur={() => { field.onBlur(); handleApplyRules(); }} /></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={addForm.control} name="amount" render={({ field }) => (<FormItem><FormLabel>Amount</FormLabel><FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} onBlur={() => { field.onBlur(); handleApplyRules(); }} /></FormControl><FormMessage /></FormItem>)} />
                                     <FormField control={addForm.control} name="frequency" render={({ field }) => (<FormItem className="space-y-3"><FormLabel>Frequency</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="flex items-center space-x-4"><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="one-off" /></FormControl><FormLabel className="font-normal">One-Off</FormLabel></FormItem><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="recurring" /></FormControl><FormLabel className="font-normal">Recurring</FormLabel></FormItem></RadioGroup></FormControl><FormMessage /></FormItem>)} />
                                     
                                     <div className={`grid gap-4 ${addForm.getValues('frequency') === 'recurring' ? 'grid-cols-2' : 'grid-cols-1'}`}>
@@ -737,6 +736,34 @@ export default function BudgetPage() {
     )
 }
 
+function DividendIncomeTable({ dividends, currency }: { dividends: DividendIncome[], currency: string }) {
+  return (
+    <Table className="mt-4">
+      <TableHeader>
+        <TableRow>
+          <TableHead>Dividends</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {dividends.map(({ investment, dividend, amount }) => (
+          <TableRow key={dividend.id}>
+            <TableCell className="font-medium">
+                <Link href={`/investments/${investment.id}`} className="group flex items-center gap-3">
+                  <span className="group-hover:underline truncate">{investment.name} ({investment.ticker})</span>
+                  <span className="text-xs text-muted-foreground">{format(dividend.date, 'MMM d')}</span>
+                </Link>
+            </TableCell>
+            <TableCell className="text-right font-mono text-chart-2" title={amount === null ? `No ${dividend.currency} exchange rate for this date` : undefined}>
+              {amount === null ? '—' : formatCurrency(amount, currency)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
 function SavingsBreakdownTable({ contributions, currency }: { 
     contributions: { id: string; name: string; amount: number; link: string; }[], 
     currency: string
@@ -769,14 +796,15 @@ function SavingsBreakdownTable({ contributions, currency }: {
   )
 }
 
-function BreakdownTable({ transactions, currency, type, sortConfig, requestSort, categories, onEdit }: { 
-    transactions: (Transaction & { displayAmount: number, categoryName?: string })[], 
+function BreakdownTable({ transactions, currency, type, sortConfig, requestSort, categories, onEdit, showActuals }: { 
+    transactions: (Transaction & { displayAmount: number, actualAmount: number, categoryName?: string })[], 
     currency: string, 
     type: 'income' | 'expense', 
     sortConfig: { key: SortableKey, direction: 'ascending' | 'descending' },
     requestSort: (key: SortableKey) => void,
     categories?: Map<string, Category>,
     onEdit: (transaction: Transaction) => void,
+    showActuals?: boolean,
 }) {
   if (transactions.length === 0) {
     return <div className="text-center text-muted-foreground py-12">No {type} recorded for this month.</div>
@@ -802,7 +830,9 @@ function BreakdownTable({ transactions, currency, type, sortConfig, requestSort,
           <SortableHeader title="Name" sortKey="name" />
           <SortableHeader title="Category" sortKey="category" />
            {type === 'expense' && <TableHead>Type</TableHead>}
-          <SortableHeader title="Amount" sortKey="amount" className="text-right" />
+          <SortableHeader title={showActuals ? 'Planned' : 'Amount'} sortKey="amount" className="text-right" />
+          {showActuals && <TableHead className="text-right">Actual</TableHead>}
+          {showActuals && <TableHead className="text-right">Variance</TableHead>}
           <TableHead className="text-right w-[80px]">Actions</TableHead>
         </TableRow>
       </TableHeader>
@@ -834,6 +864,8 @@ function BreakdownTable({ transactions, currency, type, sortConfig, requestSort,
                   </TableCell>
               )}
               <TableCell className={`text-right font-mono ${colorClass}`}>{formatCurrency(t.displayAmount, currency)}</TableCell>
+              {showActuals && <TableCell className="text-right font-mono">{formatCurrency(t.actualAmount, currency)}</TableCell>}
+              {showActuals && <TableCell className="text-right"><Variance type={t.transactionType} planned={t.displayAmount} actual={t.actualAmount} currency={currency} /></TableCell>}
               <TableCell className="text-right">
                 <Button variant="ghost" size="icon" onClick={() => onEdit(t)}>
                     <Edit className="h-4 w-4" />
@@ -847,19 +879,20 @@ function BreakdownTable({ transactions, currency, type, sortConfig, requestSort,
   )
 }
 
-function GroupedBreakdownTable({ groups, currency, onEdit, grouping, allCategoriesMap }: {
+function GroupedBreakdownTable({ groups, currency, onEdit, grouping, allCategoriesMap, showActuals }: {
     groups: GroupedExpenseItem[],
     currency: string,
     onEdit: (transaction: Transaction) => void,
     grouping: GroupingKey,
-    allCategoriesMap: Map<string, Category>
+    allCategoriesMap: Map<string, Category>,
+    showActuals?: boolean,
 }) {
     if (groups.length === 0) {
         return <div className="text-center text-muted-foreground py-12">No expenses recorded for this month.</div>;
     }
 
     if (grouping === 'none' && groups[0]) {
-        return <BreakdownTable transactions={groups[0].transactions} currency={currency} type="expense" sortConfig={{key: 'amount', direction: 'descending'}} requestSort={() => {}} onEdit={onEdit} categories={allCategoriesMap} />
+        return <BreakdownTable transactions={groups[0].transactions} currency={currency} type="expense" sortConfig={{key: 'amount', direction: 'descending'}} requestSort={() => {}} onEdit={onEdit} categories={allCategoriesMap} showActuals={showActuals} />
     }
 
     return (
@@ -874,6 +907,11 @@ function GroupedBreakdownTable({ groups, currency, onEdit, grouping, allCategori
                             </div>
                             <div className="flex items-center gap-2 ml-4">
                                 <span className="font-mono text-destructive">{formatCurrency(group.total, currency)}</span>
+                                {showActuals && (
+                                    <span className="hidden sm:inline text-xs text-muted-foreground">
+                                        actual {formatCurrency(group.actual, currency)} (<Variance type="expense" planned={group.total} actual={group.actual} currency={currency} />)
+                                    </span>
+                                )}
                                 <ChevronsUpDown className="h-4 w-4 shrink-0 transition-transform duration-200 text-muted-foreground" />
                             </div>
                         </AccordionTrigger>
@@ -883,11 +921,18 @@ function GroupedBreakdownTable({ groups, currency, onEdit, grouping, allCategori
                                     <TableRow>
                                         <TableHead className="pl-6">Name</TableHead>
                                         <TableHead>Type</TableHead>
-                                        <TableHead className="text-right">Amount</TableHead>
+                                        <TableHead className="text-right">{showActuals ? 'Planned' : 'Amount'}</TableHead>
+                                        {showActuals && <TableHead className="text-right">Actual</TableHead>}
+                                        {showActuals && <TableHead className="text-right">Variance</TableHead>}
                                         <TableHead className="text-right w-[50px] pr-2">Actions</TableHead>
                                     </TableRow>
                                 </TableHeader>
                                 <TableBody>
+                                    {group.transactions.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={showActuals ? 6 : 4} className="pl-6 text-muted-foreground">Unplanned spending only.</TableCell>
+                                        </TableRow>
+                                    )}
                                     {group.transactions.map((t) => (
                                         <TableRow key={t.id}>
                                             <TableCell className="pl-6 font-medium">
@@ -901,6 +946,8 @@ function GroupedBreakdownTable({ groups, currency, onEdit, grouping, allCategori
                                                 )}
                                             </TableCell>
                                             <TableCell className="text-right font-mono text-destructive pr-4">{formatCurrency(t.displayAmount, currency)}</TableCell>
+                                            {showActuals && <TableCell className="text-right font-mono">{formatCurrency(t.actualAmount, currency)}</TableCell>}
+                                            {showActuals && <TableCell className="text-right"><Variance type="expense" planned={t.displayAmount} actual={t.actualAmount} currency={currency} /></TableCell>}
                                             <TableCell className="text-right pr-2">
                                                 <Button variant="ghost" size="icon" onClick={() => onEdit(t)}>
                                                     <Edit className="h-4 w-4" />
@@ -10,11 +10,10 @@ import { Header } from '@/components/header';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { PlusCircle, ArrowUpCircle, ArrowDownCircle, PiggyBank, Wallet, Loader2, Scale, PieChart as PieChartIcon, CheckCircle2, XCircle, Banknote, TrendingUp, Landmark, ChevronDown } from 'lucide-react';
-import { collection, getDocs, query, where } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
+import { getBalanceForDate } from '@/lib/amortisation';
 import { Area, AreaChart as RechartsAreaChart, CartesianGrid, Legend, XAxis, YAxis } from 'recharts';
 import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { Progress } from '@/components/ui/progress';
@@ -25,60 +24,19 @@ import { useAppTour } from '@/components/tour-guide';
 import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { getStockPrice } from '@/services/investment-service';
-import { getConversionRate } from '@/services/currency-service';
-
-
-type ValueChange = { id: string; value: number; date: Date; };
-type AssetContribution = { id: string; amount: number; date: Date; };
-type Asset = { id: string; name: string; valueHistory: ValueChange[]; type: string, contributions: AssetContribution[]; href?: string, currency: string; };
-
-type Liability = { id: string; name: string; currentBalance: number };
-
-type AmountChange = { id: string; amount: number; date: Date; };
-
-type BaseTransaction = {
-  id: string;
-  userId: string;
-  transactionType: 'income' | 'expense';
-  name: string;
-  amounts: AmountChange[];
-  frequency: 'one-off' | 'recurring';
-  endDate?: Date | null;
-}
-type Expense = BaseTransaction & {
-    transactionType: 'expense',
-    sharing: string,
-    classification?: 'need' | 'want',
-    categoryId?: string;
-}
-type Income = BaseTransaction & {
-  transactionType: 'income';
-  categoryId?: string;
-  sharing: string;
-};
-type Transaction = Income | Expense;
-
-type SavingGoalContribution = {
-    id: string;
-    amount: number;
-    date: Date;
-}
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  contributions: SavingGoalContribution[];
-};
-
-type Member = { id: string; name: string; email: string; income?: number };
-type Household = { id: string; ownerId: string; name: string; members: Member[]; memberIds: string[]; splitType?: 'equal' | 'shares' | 'income_ratio'; splits?: { memberId: string, share: number }[]; };
-
-type InvestmentTransaction = { id: string; date: Date; shares: number; price: number; };
-type Investment = { id: string; ticker: string; name: string; transactions: InvestmentTransaction[]; };
+import { fetchQuote } from '@/lib/investment-prices';
+import { getRateProviders, resolveConversionRate } from '@/lib/fx-providers';
+import { useToast } from '@/hooks/use-toast';
+import type { Asset, Expense, Household, Investment, Liability, SavingGoal, Transaction } from '@/lib/types';
+import { getMemberShare } from '@/lib/household-splits';
+import { getSharesHeld } from '@/lib/cost-basis';
+import { getVisibleTransactions } from '@/repositories/transactions';
+import { getUserHouseholds } from '@/repositories/households';
+import { getUserSavingsGoals } from '@/repositories/savings';
+import { getUserAssets } from '@/repositories/assets';
+import { getUserLiabilities } from '@/repositories/liabilities';
+import { getUserInvestments } from '@/repositories/investments';
+import { getUserManualRates } from '@/repositories/manual-rates';
 
 
 const getAmountForDate = (transaction: Transaction, targetDate: Date): number => {
@@ -171,6 +129,7 @@ const BudgetRuleDisplay = ({
 
 function Dashboard() {
     const user = useAuth();
+    const { toast } = useToast();
     const { currency } = useCurrency();
     const { defaultMonthlyContribution } = useProjectionSettings();
     const [assets, setAssets] = useState<Asset[]>([]);
@@ -199,109 +158,41 @@ function Dashboard() {
             setLoading(true);
             try {
                 // Fetch households first to get their IDs for the transaction query
-                const householdQuery = query(collection(db, 'households'), where('memberIds', 'array-contains', user.uid));
-                const householdSnapshot = await getDocs(householdQuery);
-                const householdData = householdSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id })) as Household[];
+                const householdData = await getUserHouseholds(user.uid);
                 setHouseholds(householdData);
                 const householdIds = householdData.map(h => h.id);
 
-                // Prepare transaction queries
-                const userTransactionsQuery = query(collection(db, 'transactions'), where('userId', '==', user.uid));
-                const sharedTransactionsQuery = householdIds.length > 0
-                    ? query(collection(db, 'transactions'), where('sharing', 'in', householdIds))
-                    : null;
-
                 // Fetch all other data in parallel
-                const otherQueries = [
-                    getDocs(query(collection(db, 'assets'), where('userId', '==', user.uid))),
-                    getDocs(query(collection(db, 'liabilities'), where('userId', '==', user.uid))),
-                    getDocs(query(collection(db, 'savings'), where('userId', '==', user.uid))),
-                    getDocs(query(collection(db, 'investments'), where('userId', '==', user.uid))),
-                    getDocs(userTransactionsQuery)
-                ];
-
-                if (sharedTransactionsQuery) {
-                    otherQueries.push(getDocs(sharedTransactionsQuery));
-                }
-
-                const [assetsSnapshot, liabilitiesSnapshot, savingsSnapshot, investmentsSnapshot, userTxSnap, sharedTxSnap] = await Promise.all(otherQueries);
-
-                // Combine and de-duplicate transactions
-                const allTransactions = new Map<string, Transaction>();
-                const processSnapshot = (snapshot: any) => {
-                    snapshot.docs.forEach((doc: any) => {
-                        const data = doc.data();
-                        let amounts = (data.amounts || []).map((a: any) => ({ ...a, date: a.date.toDate() }));
-                        if (amounts.length === 0 && data.amount && data.startDate) {
-                            amounts.push({ id: 'legacy-0', amount: data.amount, date: data.startDate.toDate() });
-                        }
-                        const transaction: Transaction = {
-                            id: doc.id,
-                            ...data,
-                            amounts,
-                            endDate: data.endDate ? data.endDate.toDate() : null
-                        } as Transaction;
-
-                        if (transaction.sharing === 'personal' && transaction.userId !== user.uid) {
-                            return;
-                        }
-
-                        allTransactions.set(doc.id, transaction);
-                    });
-                };
-
-                processSnapshot(userTxSnap);
-                if (sharedTxSnap) {
-                    processSnapshot(sharedTxSnap);
-                }
-                setTransactions(Array.from(allTransactions.values()));
-
-                // Process other data
-                const assetsList = assetsSnapshot.docs.map(doc => {
-                    const data = doc.data();
-                    return {
-                        id: doc.id,
-                        ...data,
-                        currency: data.currency || 'USD',
-                        valueHistory: (data.valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })),
-                        contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-                    } as Asset;
-                });
+                const [assetsList, liabilitiesList, savingsList, investmentsList, transactionsList, manualRates] = await Promise.all([
+                    getUserAssets(user.uid),
+                    getUserLiabilities(user.uid),
+                    getUserSavingsGoals(user.uid),
+                    getUserInvestments(user.uid),
+                    getVisibleTransactions(user.uid, householdIds),
+                    getUserManualRates(user.uid),
+                ]);
+                setTransactions(transactionsList);
                 setAssets(assetsList);
-                
-                const investmentsList = investmentsSnapshot.docs.map(doc => {
-                    const data = doc.data();
-                    return {
-                        id: doc.id, ...data,
-                        transactions: (data.transactions || []).map((t: any) => ({ ...t, date: t.date.toDate() })),
-                    } as Investment;
-                });
                 setInvestments(investmentsList);
-                
+                setLiabilities(liabilitiesList);
+                setSavingsGoals(savingsList);
+
                 const uniqueAssetCurrencies = assetsList.map(a => a.currency);
-                const tempRates = new Map();
+                const tempRates = new Map<string, number>();
                 tempRates.set(currency, 1);
-                const uniqueCurrencies = [...new Set([...uniqueAssetCurrencies, 'USD'])].filter(c => c !== currency);
+                const uniqueCurrencies = [...new Set([...uniqueAssetCurrencies, ...investmentsList.map(i => i.quoteCurrency)])].filter(c => c !== currency);
+                const providers = getRateProviders(manualRates);
+                const unavailable: string[] = [];
                 await Promise.all(uniqueCurrencies.map(async (assetCurrency) => {
-                    const rate = await getConversionRate(assetCurrency, currency);
-                    tempRates.set(assetCurrency, rate);
+                    const resolved = await resolveConversionRate(providers, assetCurrency, currency);
+                    if (resolved === null) unavailable.push(assetCurrency);
+                    else tempRates.set(assetCurrency, resolved.rate);
                 }));
                 setRates(tempRates);
+                if (unavailable.length > 0) {
+                    toast({ variant: 'destructive', title: "Exchange rate unavailable", description: `Holdings in ${unavailable.join(', ')} can't be converted to ${currency} right now and are left out of your net worth.` });
+                }
 
-                const liabilitiesList = liabilitiesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Liability[];
-                setLiabilities(liabilitiesList);
-
-                const savingsList = savingsSnapshot.docs.map(doc => {
-                    const data = doc.data();
-                    return {
-                        id: doc.id,
-                        ...data,
-                        startDate: data.startDate.toDate(),
-                        targetDate: data.targetDate.toDate(),
-                        contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-                    } as SavingGoal;
-                });
-                setSavingsGoals(savingsList);
 
             } catch (error) {
                 console.error("Error fetching data:", error);
@@ -310,28 +201,33 @@ function Dashboard() {
             }
         }
         fetchData();
-    }, [user, currency]);
+    }, [user, currency, toast]);
     
     useEffect(() => {
         const fetchInvestmentPrices = async () => {
             if (investments.length === 0 || rates.size === 0) return;
-            const usdToGlobalRate = rates.get('USD') || 1;
-            
             const newValues = new Map<string, number>();
+            const unpriced: string[] = [];
             await Promise.all(investments.map(async (inv) => {
-                const priceData = await getStockPrice(inv.ticker);
-                if (priceData) {
-                    const totalShares = inv.transactions.reduce((sum, t) => sum + t.shares, 0);
-                    const value = totalShares * priceData.price * usdToGlobalRate;
+                const totalShares = getSharesHeld(inv.transactions);
+                if (totalShares <= 0) return;
+                const priceData = await fetchQuote(inv);
+                if (priceData.ok) {
+                    const value = totalShares * priceData.data.price * (rates.get(inv.quoteCurrency) ?? 0);
                     newValues.set(inv.id, value);
+                } else {
+                    unpriced.push(inv.ticker);
                 }
             }));
             setInvestmentValues(newValues);
+            if (unpriced.length > 0) {
+                toast({ variant: 'destructive', title: "Prices unavailable", description: `${unpriced.join(', ')} couldn't be priced right now and ${unpriced.length === 1 ? 'is' : 'are'} left out of your net worth.` });
+            }
         };
         if(!loading) {
             fetchInvestmentPrices();
         }
-    }, [investments, loading, rates]);
+    }, [investments, loading, rates, toast]);
 
     useEffect(() => {
         if (searchParams.get('tour') === 'true') {
@@ -343,13 +239,13 @@ function Dashboard() {
     const { totalNetWorth } = useMemo(() => {
         const assetsTotal = assets.reduce((sum, asset) => {
             const latestValue = asset.valueHistory.length > 0 ? [...asset.valueHistory].sort((a,b) => b.date.getTime() - a.date.getTime())[0].value : 0;
-            const rate = rates.get(asset.currency) || 1;
+            const rate = rates.get(asset.currency) ?? 0;
             return sum + (latestValue * rate);
         }, 0);
         
         const investmentsTotal = Array.from(investmentValues.values()).reduce((sum, value) => sum + value, 0);
         const savingsTotal = savingsGoals.reduce((total, goal) => total + goal.contributions.reduce((cTotal, c) => cTotal + c.amount, 0), 0);
-        const liabilitiesTotal = liabilities.reduce((sum, liability) => sum + liability.currentBalance, 0);
+        const liabilitiesTotal = liabilities.reduce((sum, liability) => sum + getBalanceForDate(liability, new Date()), 0);
         const totalGrossAssets = assetsTotal + savingsTotal + investmentsTotal;
         return { 
             totalNetWorth: totalGrossAssets - liabilitiesTotal,
@@ -391,36 +287,8 @@ function Dashboard() {
                 let amount = totalAmount;
 
                 if (t.sharing !== 'personal' && user) {
-                    const household = households.find(h => h.id === t.sharing);
-                    if (household) {
-                        let userShare = 0;
-                        const userIsMember = household.members.some(m => m.id === user.uid);
-                        if (userIsMember) {
-                            if (household.splitType === 'shares' && household.splits?.length) {
-                                const totalShares = household.splits.reduce((s, split) => s + (split.share || 0), 0);
-                                if (totalShares > 0) {
-                                    const userSplit = household.splits.find(s => s.memberId === user.uid);
-                                    const userShares = userSplit?.share || 0;
-                                    userShare = (totalAmount * userShares) / totalShares;
-                                } else {
-                                    userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                                }
-                            } else if (household.splitType === 'income_ratio') {
-                                const totalIncome = household.members.reduce((s, member) => s + (member.income || 0), 0);
-                                if (totalIncome > 0) {
-                                    const userIncome = household.members.find(m => m.id === user.uid)?.income || 0;
-                                    userShare = (totalAmount * userIncome) / totalIncome;
-                                } else {
-                                    userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                                }
-                            } else { // Equal split
-                                userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                            }
-                        }
-                        amount = userShare;
-                    } else {
-                        amount = 0; // Household not found, user's share is 0
-                    }
+                    // 0 when the household is not found
+                    amount = getMemberShare(households.find(h => h.id === t.sharing), t, totalAmount, user.uid, monthEnd);
                 }
                 
                 const item = { id: t.id, name: t.name, amount: amount, href: `/transaction/${t.id}` };
@@ -8,72 +8,39 @@ import { Header } from '@/components/header';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { collection, getDocs, query, where } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { eachMonthOfInterval, endOfMonth, format, startOfToday, isAfter } from 'date-fns';
-import { Loader2, Info, ArrowUp, ArrowDown } from 'lucide-react';
+import { eachMonthOfInterval, endOfMonth, format, startOfMonth, startOfToday, isAfter } from 'date-fns';
+import { Loader2, Info, ArrowUp, ArrowDown, AlertTriangle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
-import { getHistoricalData, HistoricalDataPoint } from '@/services/investment-service';
-import { getConversionRate } from '@/services/currency-service';
+import { getBalanceForDate } from '@/lib/amortisation';
+import { createRateLookup, getRateSources, type RateSeries } from '@/lib/fx-rates';
+import { getRateProviders, resolveRateSeries } from '@/lib/fx-providers';
+import type { HistoricalDataPoint } from '@/lib/market-data';
+import { describePriceFailures, fetchPriceHistories } from '@/lib/investment-prices';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-
-type Contribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-type ValueChange = {
-  id: string;
-  value: number;
-  date: Date;
-}
-type Asset = {
-  id: string;
-  userId: string;
-  name: string;
-  currency: string;
-  valueHistory: ValueChange[];
-  contributions: Contribution[];
-};
-
-type Liability = { 
-    id: string; 
-    name: string; 
-    currentBalance: number 
-};
-
-type SavingGoalContribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  contributions: SavingGoalContribution[];
-};
-
-type InvestmentTransaction = { id: string; date: Date; shares: number; price: number; currency: string; };
-type Investment = { id: string; userId: string; ticker: string; name: string; transactions: InvestmentTransaction[]; };
+import type { Asset, Investment, Liability, SavingGoal } from '@/lib/types';
+import { getSharesHeld } from '@/lib/cost-basis';
+import { getUserAssets } from '@/repositories/assets';
+import { getUserSavingsGoals } from '@/repositories/savings';
+import { getUserLiabilities } from '@/repositories/liabilities';
+import { getUserInvestments } from '@/repositories/investments';
+import { getUserManualRates } from '@/repositories/manual-rates';
+import { RateSources } from '@/components/rate-sources';
 
 
 type HistoricalData = {
-  chartData: { month: string; netWorth: number }[];
+  chartData: { month: string; netWorth: number; missingRates: string[] }[];
   monthlyBreakdowns: { [month: string]: { name: string; value: number }[] };
 }
 
 type SelectedData = {
     month: string;
     netWorth: number;
-    breakdown: { name: string; value: number; type: 'Asset' | 'Savings' | 'Investment' | 'Liability' }[];
+    missingRates: string[]; // Currencies without a rate for the month; their holdings are left out
+    breakdown: { name: string; value: number; type: 'Asset' | 'Savings' | 'Investment' | 'Liability'; rateUnavailable?: boolean }[];
 }
 
 type SortableKey = 'name' | 'type' | 'value';
@@ -94,7 +61,7 @@ function History() {
   const [liabilities, setLiabilities] = useState<Liability[]>([]);
   const [investments, setInvestments] = useState<Investment[]>([]);
   const [historicalInvestmentData, setHistoricalInvestmentData] = useState(new Map<string, HistoricalDataPoint[]>());
-  const [conversionRates, setConversionRates] = useState(new Map<string, number>());
+  const [rateSeries, setRateSeries] = useState<Record<string, RateSeries | null>>({});
   const [loading, setLoading] = useState(true);
   const [selectedData, setSelectedData] = useState<SelectedData | null>(null);
   const [sortConfig, setSortConfig] = useState<{ key: SortableKey, direction: 'ascending' | 'descending' }>({ key: 'value', direction: 'descending' });
@@ -105,69 +72,29 @@ function History() {
     async function fetchData() {
         setLoading(true);
         try {
-            const assetsQuery = query(collection(db, 'assets'), where('userId', '==', user.uid));
-            const savingsQuery = query(collection(db, 'savings'), where('userId', '==', user.uid));
-            const liabilitiesQuery = query(collection(db, 'liabilities'), where('userId', '==', user.uid));
-            const investmentsQuery = query(collection(db, 'investments'), where('userId', '==', user.uid));
-
-            const [assetsSnapshot, savingsSnapshot, liabilitiesSnapshot, investmentsSnapshot] = await Promise.all([
-                getDocs(assetsQuery),
-                getDocs(savingsQuery),
-                getDocs(liabilitiesQuery),
-                getDocs(investmentsQuery)
+            const [assetsList, savingsList, liabilitiesList, investmentsToProcess, manualRates] = await Promise.all([
+                getUserAssets(user.uid),
+                getUserSavingsGoals(user.uid),
+                getUserLiabilities(user.uid),
+                getUserInvestments(user.uid),
+                getUserManualRates(user.uid),
             ]);
 
-            const assetsList = assetsSnapshot.docs.map(doc => {
-                const data = doc.data();
-                return {
-                    id: doc.id,
-                    ...data,
-                    currency: data.currency || 'USD',
-                    valueHistory: (data.valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })),
-                    contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-                } as Asset;
-            });
-            
-            const savingsList = savingsSnapshot.docs.map(doc => {
-                const data = doc.data();
-                return {
-                    id: doc.id,
-                    ...data,
-                    startDate: data.startDate.toDate(),
-                    targetDate: data.targetDate.toDate(),
-                    contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() })),
-                } as SavingGoal;
-            });
-
-            const liabilitiesList = liabilitiesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Liability));
-            
-            const investmentsToProcess = investmentsSnapshot.docs.map(doc => {
-                const data = doc.data();
-                return {
-                id: doc.id, ...data,
-                transactions: (data.transactions || []).map((t: any) => ({ ...t, date: t.date.toDate() })),
-                } as Investment;
-            });
-
             setAssets(assetsList);
             setSavingsGoals(savingsList);
             setLiabilities(liabilitiesList);
             setInvestments(investmentsToProcess);
             
-            const rates = new Map<string, number>();
-            rates.set(currency, 1);
-            const uniqueCurrencies = [...new Set(assetsList.map(a => a.currency).filter(c => c !== currency))];
-            uniqueCurrencies.push('USD'); // Always need USD for stock prices
-
-            await Promise.all(
-              uniqueCurrencies.map(async (assetCurrency) => {
-                if (!rates.has(assetCurrency) && assetCurrency) {
-                  const rate = await getConversionRate(assetCurrency, currency);
-                  rates.set(assetCurrency, rate);
-                }
-              })
-            );
-            setConversionRates(rates);
+            // Every month is converted at its own rate, so fetch the series back to the first data point.
+            const firstDate = [
+                ...assetsList.flatMap(a => a.valueHistory.map(vh => vh.date)),
+                ...savingsList.map(g => g.startDate),
+                ...investmentsToProcess.flatMap(i => i.transactions.map(t => t.date)),
+            ].reduce((earliest, date) => date < earliest ? date : earliest, new Date());
+            const rateCurrencies = [...assetsList.map(a => a.currency), ...investmentsToProcess.map(i => i.quoteCurrency)];
+            setRateSeries(await resolveRateSeries(
+                getRateProviders(manualRates), rateCurrencies, currency, startOfMonth(firstDate), new Date()
+            ));
 
             if (investmentsToProcess.length > 0) {
                 const allTransactions = investmentsToProcess.flatMap(inv => inv.transactions);
@@ -175,15 +102,11 @@ function History() {
                     ? allTransactions.reduce((earliest, tx) => tx.date < earliest ? tx.date : earliest, new Date())
                     : new Date();
 
-                const uniqueTickers = [...new Set(investmentsToProcess.map(inv => inv.ticker))];
-                const historicalData = new Map<string, HistoricalDataPoint[]>();
-                
-                await Promise.all(uniqueTickers.map(async (ticker) => {
-                    const history = await getHistoricalData(ticker, earliestTxDate);
-                    if (history) {
-                        historicalData.set(ticker, history.prices);
-                    }
-                }));
+                const { histories, failed } = await fetchPriceHistories(investmentsToProcess, earliestTxDate);
+                if (failed.length > 0) {
+                    toast({ variant: 'destructive', title: "Prices unavailable", description: `${describePriceFailures(failed)} These holdings are left out of the history.` });
+                }
+                const historicalData = new Map(Array.from(histories, ([id, history]) => [id, history.prices]));
                 setHistoricalInvestmentData(historicalData);
             }
         } catch(error) {
@@ -198,7 +121,7 @@ function History() {
   }, [user, currency, toast]);
 
   const historicalData: HistoricalData = useMemo(() => {
-    if (loading || (assets.length === 0 && savingsGoals.length === 0 && liabilities.length === 0 && investments.length === 0) || conversionRates.size === 0) {
+    if (loading || (assets.length === 0 && savingsGoals.length === 0 && liabilities.length === 0 && investments.length === 0)) {
       return { chartData: [], monthlyBreakdowns: {} };
     }
 
@@ -212,7 +135,7 @@ function History() {
     if (allStartDates.length === 0) {
         if (totalCurrentLiabilities > 0) {
             return {
-                chartData: [{ month: format(new Date(), 'MMMM yyyy'), netWorth: -totalCurrentLiabilities }],
+                chartData: [{ month: format(new Date(), 'MMMM yyyy'), netWorth: -totalCurrentLiabilities, missingRates: [] }],
                 monthlyBreakdowns: { [format(new Date(), 'MMMM yyyy')]: liabilities.map(l => ({ name: l.name, value: -l.currentBalance, type: 'Liability' })) }
             };
         }
@@ -232,21 +155,29 @@ function History() {
 
     const chartData: HistoricalData['chartData'] = [];
     const monthlyBreakdowns: HistoricalData['monthlyBreakdowns'] = {};
-    const usdToGlobalRate = conversionRates.get('USD') || 1;
+    const rateFor = createRateLookup(currency, rateSeries);
 
     months.forEach(month => {
       const monthEnd = endOfMonth(month);
       const monthKey = format(month, 'MMMM yyyy');
+      // No rate is published for the rest of the current month yet
+      const rateDate = monthEnd > today ? today : monthEnd;
       
       let totalGrossWorthForMonth = 0;
       const breakdownForMonth: SelectedData['breakdown'] = [];
+      const missingRates = new Set<string>();
 
       assets.forEach(asset => {
         const sortedHistory = [...asset.valueHistory].sort((a,b) => a.date.getTime() - b.date.getTime());
         const lastValueBeforeMonthEnd = sortedHistory.filter(vh => vh.date <= monthEnd).pop();
 
         if (lastValueBeforeMonthEnd) {
-          const rate = conversionRates.get(asset.currency) || 1;
+          const rate = rateFor(asset.currency, rateDate);
+          if (rate === null) {
+            missingRates.add(asset.currency);
+            breakdownForMonth.push({ name: asset.name, value: 0, type: 'Asset', rateUnavailable: true });
+            return;
+          }
           const convertedValue = lastValueBeforeMonthEnd.value * rate;
           totalGrossWorthForMonth += convertedValue;
           breakdownForMonth.push({ name: asset.name, value: convertedValue, type: 'Asset' });
@@ -270,18 +201,22 @@ function History() {
       
       let totalInvestmentValueForMonth = 0;
       investments.forEach(investment => {
-        const sharesOnDate = investment.transactions
-          .filter(t => t.date <= monthEnd)
-          .reduce((sum, t) => sum + t.shares, 0);
+        const sharesOnDate = getSharesHeld(investment.transactions, monthEnd);
 
         if (sharesOnDate > 0) {
-          const history = historicalInvestmentData.get(investment.ticker);
+          const history = historicalInvestmentData.get(investment.id);
           if (history && history.length > 0) {
+            const priceRate = rateFor(investment.quoteCurrency, rateDate);
+            if (priceRate === null) {
+              missingRates.add(investment.quoteCurrency);
+              breakdownForMonth.push({ name: investment.name, value: 0, type: 'Investment', rateUnavailable: true });
+              return;
+            }
             const relevantPrice = [...history]
                 .filter(p => new Date(p.date) <= monthEnd)
                 .pop();
             const price = relevantPrice?.close ?? 0;
-            const value = sharesOnDate * price * usdToGlobalRate;
+            const value = sharesOnDate * price * priceRate;
             totalInvestmentValueForMonth += value;
             breakdownForMonth.push({ name: investment.name, value: value, type: 'Investment' });
           }
@@ -290,25 +225,42 @@ function History() {
 
       totalGrossWorthForMonth += totalSavingsForMonth + totalInvestmentValueForMonth;
 
-      chartData.push({ month: monthKey, netWorth: totalGrossWorthForMonth - totalCurrentLiabilities });
+      let totalLiabilitiesForMonth = 0;
+      liabilities.forEach(liability => {
+        const balance = getBalanceForDate(liability, monthEnd);
+        if (balance > 0) {
+          totalLiabilitiesForMonth += balance;
+          breakdownForMonth.push({ name: liability.name, value: -balance, type: 'Liability' });
+        }
+      });
+
+      chartData.push({ month: monthKey, netWorth: totalGrossWorthForMonth - totalLiabilitiesForMonth, missingRates: [...missingRates] });
       monthlyBreakdowns[monthKey] = breakdownForMonth;
     });
 
+    const currentMissingRates = new Set<string>();
+    const currentRateFor = (assetCurrency: string) => {
+        const rate = rateFor(assetCurrency, today);
+        if (rate === null) currentMissingRates.add(assetCurrency);
+        return rate;
+    };
+
     const currentAssetsNetWorth = assets.reduce((sum, asset) => {
         const latestValue = asset.valueHistory.length > 0 ? [...asset.valueHistory].sort((a,b) => b.date.getTime() - a.date.getTime())[0].value : 0;
-        const rate = conversionRates.get(asset.currency) || 1;
-        return sum + (latestValue * rate);
+        const rate = currentRateFor(asset.currency);
+        return rate === null ? sum : sum + (latestValue * rate);
     }, 0);
     const currentSavingsNetWorth = savingsGoals.reduce((total, goal) => total + goal.contributions.reduce((cTotal, c) => cTotal + c.amount, 0), 0);
     
     let currentInvestmentNetWorth = 0;
     investments.forEach(investment => {
-        const shares = investment.transactions.reduce((sum, t) => sum + t.shares, 0);
+        const shares = getSharesHeld(investment.transactions);
         if (shares > 0) {
-            const history = historicalInvestmentData.get(investment.ticker);
-            if (history && history.length > 0) {
+            const history = historicalInvestmentData.get(investment.id);
+            const priceRate = currentRateFor(investment.quoteCurrency);
+            if (history && history.length > 0 && priceRate !== null) {
                 const lastPrice = history[history.length - 1].close;
-                currentInvestmentNetWorth += shares * lastPrice * usdToGlobalRate;
+                currentInvestmentNetWorth += shares * lastPrice * priceRate;
             }
         }
     });
@@ -319,63 +271,64 @@ function History() {
 
     if (lastChartDataPoint && lastChartDataPoint.month === currentMonthKey) {
         lastChartDataPoint.netWorth = currentNetWorth;
+        lastChartDataPoint.missingRates = [...currentMissingRates];
     } else if (isAfter(today, endOfMonth(new Date(chartData[chartData.length - 1]?.month))) || chartData.length === 0) {
         if (currentNetWorth !== 0 || liabilities.length > 0) {
-           chartData.push({ month: currentMonthKey, netWorth: currentNetWorth });
+           chartData.push({ month: currentMonthKey, netWorth: currentNetWorth, missingRates: [...currentMissingRates] });
         }
     }
     
     const currentBreakdown: SelectedData['breakdown'] = [
         ...assets.map(a => {
              const latestValue = a.valueHistory.length > 0 ? [...a.valueHistory].sort((a,b) => a.date.getTime() - b.date.getTime())[0].value : 0;
-             const rate = conversionRates.get(a.currency) || 1;
-            return { name: a.name, value: latestValue * rate, type: 'Asset' as const }
+             const rate = rateFor(a.currency, today);
+            return rate === null
+                ? { name: a.name, value: 0, type: 'Asset' as const, rateUnavailable: true }
+                : { name: a.name, value: latestValue * rate, type: 'Asset' as const }
         }),
     ];
     if(currentSavingsNetWorth > 0) {
         currentBreakdown.push({name: 'Savings Goals', value: currentSavingsNetWorth, type: 'Savings' as const});
     }
      investments.forEach(investment => {
-        const shares = investment.transactions.reduce((sum, t) => sum + t.shares, 0);
+        const shares = getSharesHeld(investment.transactions);
         if (shares > 0) {
-            const history = historicalInvestmentData.get(investment.ticker);
+            const history = historicalInvestmentData.get(investment.id);
+            const priceRate = rateFor(investment.quoteCurrency, today);
             if (history && history.length > 0) {
                 const lastPrice = history[history.length - 1].close;
-                currentBreakdown.push({ name: investment.name, value: shares * lastPrice * usdToGlobalRate, type: 'Investment' as const });
+                currentBreakdown.push(priceRate === null
+                    ? { name: investment.name, value: 0, type: 'Investment' as const, rateUnavailable: true }
+                    : { name: investment.name, value: shares * lastPrice * priceRate, type: 'Investment' as const });
             }
         }
     });
 
+    liabilities.forEach(l => {
+        currentBreakdown.push({ name: l.name, value: -l.currentBalance, type: 'Liability' as const });
+    });
+
     monthlyBreakdowns[currentMonthKey] = currentBreakdown;
 
     return { chartData, monthlyBreakdowns };
-  }, [assets, savingsGoals, liabilities, investments, historicalInvestmentData, conversionRates, loading]);
+  }, [assets, savingsGoals, liabilities, investments, historicalInvestmentData, rateSeries, currency, loading]);
   
    useEffect(() => {
     if (historicalData.chartData.length > 0 && !selectedData) {
       const lastDataPoint = historicalData.chartData[historicalData.chartData.length - 1];
-      const breakdown = historicalData.monthlyBreakdowns[lastDataPoint.month] || [];
-      const fullBreakdown: SelectedData['breakdown'] = [
-          ...breakdown,
-          ...liabilities.map(l => ({ name: l.name, value: -l.currentBalance, type: 'Liability' as const})),
-      ]
       setSelectedData({
         month: lastDataPoint.month,
         netWorth: lastDataPoint.netWorth,
-        breakdown: fullBreakdown,
+        missingRates: lastDataPoint.missingRates,
+        breakdown: historicalData.monthlyBreakdowns[lastDataPoint.month] || [],
       });
     }
-  }, [historicalData, selectedData, liabilities]);
+  }, [historicalData, selectedData]);
 
   const handleChartClick = (data: any) => {
     if (data && data.activePayload && data.activePayload.length > 0) {
       const payload = data.activePayload[0].payload;
-      const breakdown = historicalData.monthlyBreakdowns[payload.month] || [];
-      const fullBreakdown: SelectedData['breakdown'] = [
-          ...breakdown,
-          ...liabilities.map(l => ({ name: l.name, value: -l.currentBalance, type: 'Liability' as const}))
-      ];
-      setSelectedData({ ...payload, breakdown: fullBreakdown });
+      setSelectedData({ ...payload, breakdown: historicalData.monthlyBreakdowns[payload.month] || [] });
     }
   };
   
@@ -392,6 +345,11 @@ function History() {
 
   const currencyOptions = { minimumFractionDigits: 0, maximumFractionDigits: 0 };
 
+  const unavailableRates = useMemo(
+    () => [...new Set(historicalData.chartData.flatMap(d => d.missingRates))],
+    [historicalData]
+  );
+
   const requestSort = (key: SortableKey) => {
     let direction: 'ascending' | 'descending' = 'ascending';
     if (sortConfig.key === key && sortConfig.direction === 'ascending') {
@@ -476,6 +434,16 @@ function History() {
                 </div>
             )}
         
+            {unavailableRates.length > 0 && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Exchange rates unavailable</AlertTitle>
+                    <AlertDescription>
+                        No {unavailableRates.join(', ')} to {currency} rate could be found for some months, so holdings in {unavailableRates.length === 1 ? 'that currency' : 'those currencies'} are left out of them. Affected months are highlighted on the chart.
+                    </AlertDescription>
+                </Alert>
+            )}
+
             <Card>
             <CardHeader>
                 <CardTitle>Net Worth Over Time</CardTitle>
@@ -519,11 +487,23 @@ function History() {
                     type="monotone"
                     stroke="var(--color-netWorth)"
                     strokeWidth={3}
-                    dot={{ r: 6, fill: 'var(--color-netWorth)', strokeWidth: 2, stroke: 'hsl(var(--background))', cursor: 'pointer' }}
+                    dot={({ cx, cy, index, payload }) => (
+                        <circle
+                            key={index}
+                            cx={cx}
+                            cy={cy}
+                            r={6}
+                            fill={payload.missingRates.length > 0 ? 'hsl(var(--destructive))' : 'var(--color-netWorth)'}
+                            strokeWidth={2}
+                            stroke="hsl(var(--background))"
+                            cursor="pointer"
+                        />
+                    )}
                     activeDot={{ r: 8, fill: 'var(--color-netWorth)', strokeWidth: 2, stroke: 'hsl(var(--background))', cursor: 'pointer' }}
                     />
                 </LineChart>
                 </ChartContainer>
+                <RateSources sources={getRateSources(rateSeries)} currency={currency} />
             </CardContent>
             </Card>
 
@@ -533,6 +513,7 @@ function History() {
                 <CardTitle>Breakdown for {selectedData.month}</CardTitle>
                 <CardDescription>
                     The estimated assets and liabilities that made up your net worth of {formatCurrency(selectedData.netWorth, currency, currencyOptions)}.
+                    {selectedData.missingRates.length > 0 && ` Holdings in ${selectedData.missingRates.join(', ')} are left out because no exchange rate was available.`}
                 </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -549,7 +530,11 @@ function History() {
                         <TableRow key={`${item.type}-${item.name}-${index}`}>
                         <TableCell className="font-medium">{item.name}</TableCell>
                         <TableCell>{item.type}</TableCell>
-                        <TableCell className={`text-right font-mono ${item.value < 0 ? 'text-destructive' : ''}`}>{formatCurrency(item.value, currency, currencyOptions)}</TableCell>
+                        {item.rateUnavailable ? (
+                            <TableCell className="text-right text-muted-foreground">Rate unavailable</TableCell>
+                        ) : (
+                            <TableCell className={`text-right font-mono ${item.value < 0 ? 'text-destructive' : ''}`}>{formatCurrency(item.value, currency, currencyOptions)}</TableCell>
+                        )}
                         </TableRow>
                     ))}
                     </TableBody>
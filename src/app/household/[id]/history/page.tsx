@@ -10,14 +10,10 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, ChevronLeft, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { db } from '@/lib/firebase';
-import { doc, getDoc } from 'firebase/firestore';
 import { formatDistanceToNow } from 'date-fns';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-
-// Types
-type HouseholdEvent = { id: string; actorId: string; timestamp: Date; message: string; actorName: string; };
-type Household = { id: string; name: string; memberIds: string[]; events?: HouseholdEvent[] };
+import type { Household } from '@/lib/types';
+import { getHousehold } from '@/repositories/households';
 
 function HouseholdHistory() {
   const user = useAuth();
@@ -33,19 +29,9 @@ function HouseholdHistory() {
     if (!user || !householdId) return;
     setLoading(true);
     try {
-      const householdRef = doc(db, "households", householdId);
-      const householdDoc = await getDoc(householdRef);
+      const householdData = await getHousehold(householdId);
       
-      if (householdDoc.exists() && householdDoc.data().memberIds?.includes(user.uid)) {
-        const data = householdDoc.data();
-        const householdData = { 
-            id: householdDoc.id, 
-            ...data,
-            events: (data.events || []).map((e: any) => ({
-                ...e,
-                timestamp: e.timestamp.toDate(),
-            })).sort((a: any, b: any) => b.timestamp.getTime() - a.timestamp.getTime()),
-        } as Household;
+      if (householdData && householdData.memberIds.includes(user.uid)) {
         setHousehold(householdData);
       } else {
         toast({ variant: 'destructive', title: "Not Found", description: "Household not found or you don't have access." });
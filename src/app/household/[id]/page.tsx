@@ -25,12 +25,12 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
-import { Loader2, UserPlus, Edit, Trash2, Users, Percent, ArrowUpCircle, ArrowDownCircle, ChevronLeft, ArrowRightLeft, Home, Settings, Info, ChevronDown, Scale, Mail, History, XCircle, CalendarIcon, ChevronsUpDown, PiggyBank } from 'lucide-react';
+import { Loader2, UserPlus, Edit, Trash2, Users, Percent, ArrowUpCircle, ArrowDownCircle, ChevronLeft, ChevronRight, ArrowRightLeft, Home, Settings, Info, ChevronDown, Scale, Mail, History, XCircle, CalendarIcon, ChevronsUpDown, PiggyBank, HandCoins, PlusCircle, MoreVertical, LogOut, Crown } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { db } from '@/lib/firebase';
-import { collection, query, where, getDocs, doc, updateDoc, deleteDoc, getDoc, addDoc, serverTimestamp, writeBatch, orderBy, limit } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -44,27 +44,19 @@ import { Tooltip, TooltipProvider, TooltipTrigger, TooltipContent } from '@/comp
 import { sendInvitationEmail } from '@/actions/invitations';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { format } from 'date-fns';
+import { addMonths, endOfMonth, format, subMonths } from 'date-fns';
 import { Progress } from '@/components/ui/progress';
-
-// Types and Schemas
-type IncomeChange = { id: string; amount: number; date: Date; };
-type Member = { id: string; name: string; email: string; incomeHistory?: IncomeChange[]; };
-type Split = { memberId: string; share: number; };
-type HouseholdEvent = { id: string; actorId: string; timestamp: Date; message: string; actorName: string; };
-type Household = { id: string; ownerId: string; name: string; members: Member[]; memberIds: string[]; pendingMemberEmails?: string[]; splitType?: 'equal' | 'shares' | 'income_ratio'; splits?: Split[]; events?: HouseholdEvent[] };
-type Invitation = { id: string; invitedBy: string; invitedEmail: string; householdId: string; householdName: string; };
-
-// Transaction Types
-type AmountChange = { id: string; amount: number; date: Date; };
-type BaseTransaction = { id: string; userId: string; name: string; amounts: AmountChange[]; frequency: 'one-off' | 'recurring'; endDate?: Date | null; };
-type Income = BaseTransaction & { transactionType: 'income'; categoryId?: string; sharing: string; };
-type Expense = BaseTransaction & { transactionType: 'expense'; sharing: string; classification?: 'need' | 'want'; categoryId?: string; };
-type Transaction = Income | Expense;
-
-// Savings Goal Types
-type SavingGoalContribution = { id: string; amount: number; date: Date; };
-type SavingGoal = { id: string; userId: string; name: string; targetAmount: number; targetDate: Date; startDate: Date; sharing: 'personal' | string; contributions: SavingGoalContribution[]; };
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { DissolveHouseholdDialog } from '@/components/dissolve-household-dialog';
+import type { Expense, Household, HouseholdRole, IncomeChange, Income, Invitation, Member, SavingGoal, Settlement, SplitOverride, SplitOverrideType, Transaction } from '@/lib/types';
+import { cancelInvitation, createInvitation, getHousehold, getHouseholdInvitations, leaveHousehold, logHouseholdEvent as appendHouseholdEvent, transferOwnership, updateHousehold } from '@/repositories/households';
+import { getHouseholdTransactions, updateTransaction } from '@/repositories/transactions';
+import { getHouseholdSavingsGoals } from '@/repositories/savings';
+import { getIncomeForDate, getMemberShare, splitExpense, validateSplitOverride } from '@/lib/household-splits';
+import { ASSIGNABLE_ROLES, HOUSEHOLD_ROLE_DESCRIPTIONS, HOUSEHOLD_ROLE_LABELS, canRemoveMember, getMemberRole, hasPermission, type HouseholdPermission } from '@/lib/household-roles';
+import { getMemberBalances, splitPayment, suggestTransfers } from '@/lib/settle-up';
+
+// Schemas
 
 const householdNameSchema = z.object({
     name: z.string().min(1, 'Household name is required.'),
@@ -83,13 +75,6 @@ const inviteMemberSchema = z.object({
   email: z.string().email('Please enter a valid email address.'),
 });
 
-const getIncomeForDate = (member: Member | undefined, targetDate: Date): number => {
-    if (!member || !member.incomeHistory || member.incomeHistory.length === 0) return 0;
-    const sortedHistory = [...member.incomeHistory].sort((a, b) => b.date.getTime() - a.date.getTime());
-    const activeIncome = sortedHistory.find(i => i.date <= targetDate);
-    return activeIncome ? activeIncome.amount : 0;
-};
-
 const splitSchema = z.object({
     splitType: z.enum(['equal', 'shares', 'income_ratio'], { required_error: 'You must select a split type.' }),
     splits: z.array(z.object({
@@ -108,6 +93,44 @@ const splitSchema = z.object({
     path: ['splits'],
 });
 
+const payersSchema = z.object({
+    payers: z.array(z.object({
+        memberId: z.string(),
+        name: z.string(),
+        share: z.coerce.number().min(0, "Must be non-negative."),
+    })),
+}).refine(data => data.payers.reduce((sum, payer) => sum + (payer.share || 0), 0) > 0, {
+    message: 'At least one member must have paid.',
+    path: ['payers'],
+});
+
+const expenseSplitSchema = z.object({
+    type: z.enum(['household', 'exact', 'percent', 'shares', 'members']),
+    splits: z.array(z.object({
+        memberId: z.string(),
+        name: z.string(),
+        share: z.coerce.number().min(0, "Must be non-negative."),
+        included: z.boolean(),
+    })),
+});
+
+const SPLIT_OVERRIDE_LABELS: Record<SplitOverrideType, string> = {
+    exact: 'Exact amounts',
+    percent: 'Percentages',
+    shares: 'Shares',
+    members: 'Equally between chosen members',
+};
+
+const settlementSchema = z.object({
+    fromMemberId: z.string().min(1, 'Choose who paid.'),
+    toMemberId: z.string().min(1, 'Choose who was paid.'),
+    amount: z.coerce.number().positive('Amount must be positive.'),
+    date: z.date({ required_error: 'A date for the payment is required.' }),
+}).refine(data => data.fromMemberId !== data.toMemberId, {
+    message: 'A member cannot pay themselves.',
+    path: ['toMemberId'],
+});
+
 const getAmountForDate = (transaction: Transaction, targetDate: Date): number => {
     if (!transaction.amounts || transaction.amounts.length === 0) return 0;
     const sortedAmounts = [...transaction.amounts].sort((a, b) => b.date.getTime() - a.date.getTime());
@@ -128,6 +151,7 @@ function HouseholdDetail() {
   const [savingsGoals, setSavingsGoals] = useState<SavingGoal[]>([]);
   const [householdInvitations, setHouseholdInvitations] = useState<Invitation[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedMonth, setSelectedMonth] = useState(new Date());
   
   const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
   const [isSplitSettingsOpen, setIsSplitSettingsOpen] = useState(false);
@@ -139,6 +163,13 @@ function HouseholdDetail() {
   const [editingMember, setEditingMember] = useState<Member | null>(null);
   const [memberForIncomeHistory, setMemberForIncomeHistory] = useState<Member | null>(null);
   const [invitationToCancel, setInvitationToCancel] = useState<string | null>(null);
+  const [expenseForPayers, setExpenseForPayers] = useState<(Expense & { displayAmount: number }) | null>(null);
+  const [expenseForSplit, setExpenseForSplit] = useState<(Expense & { displayAmount: number }) | null>(null);
+  const [isSettlementDialogOpen, setIsSettlementDialogOpen] = useState(false);
+  const [isLeaveDialogOpen, setIsLeaveDialogOpen] = useState(false);
+  const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [householdToDissolve, setHouseholdToDissolve] = useState<Household | null>(null);
 
   const householdNameForm = useForm<z.infer<typeof householdNameSchema>>({
     resolver: zodResolver(householdNameSchema),
@@ -170,79 +201,51 @@ function HouseholdDetail() {
       name: 'splits'
   });
 
+  const payersForm = useForm<z.infer<typeof payersSchema>>({
+    resolver: zodResolver(payersSchema),
+    defaultValues: { payers: [] },
+  });
+
+  const { fields: payerFields } = useFieldArray({
+      control: payersForm.control,
+      name: 'payers'
+  });
+
+  const expenseSplitForm = useForm<z.infer<typeof expenseSplitSchema>>({
+    resolver: zodResolver(expenseSplitSchema),
+    defaultValues: { type: 'household', splits: [] },
+  });
+
+  const { fields: expenseSplitFields } = useFieldArray({
+      control: expenseSplitForm.control,
+      name: 'splits'
+  });
+
+  const settlementForm = useForm<z.infer<typeof settlementSchema>>({
+    resolver: zodResolver(settlementSchema),
+  });
+
   const logHouseholdEvent = async (message: string) => {
     if (!household || !user) return;
-    try {
-        const householdRef = doc(db, 'households', household.id);
-        const newEvent: Omit<HouseholdEvent, 'id'> = {
-            actorId: user.uid,
-            actorName: user.displayName || 'A user',
-            message: message,
-            timestamp: new Date(),
-        };
-        const currentEvents = (household.events || []).map(e => ({...e, timestamp: e.timestamp}));
-        const updatedEvents = [{...newEvent, id: crypto.randomUUID()}, ...currentEvents].slice(0, 15);
-        await updateDoc(householdRef, { events: updatedEvents });
-    } catch (error) {
-        console.error("Error logging household event:", error);
-    }
+    await appendHouseholdEvent(household, { id: user.uid, name: user.displayName || 'A user' }, message);
   };
 
   async function fetchData() {
     if (!user || !householdId) return;
     setLoading(true);
     try {
-      const householdRef = doc(db, "households", householdId);
-      const householdDoc = await getDoc(householdRef);
+      const householdData = await getHousehold(householdId);
       
-      if (householdDoc.exists() && householdDoc.data().memberIds?.includes(user.uid)) {
-        const data = householdDoc.data();
-        const householdData = { 
-            id: householdDoc.id, 
-            ...data,
-            members: (data.members || []).map((m: any) => ({
-                ...m,
-                incomeHistory: (m.incomeHistory || []).map((i: any) => ({...i, date: i.date.toDate()}))
-            })),
-            events: (data.events || []).map((e: any) => ({
-                ...e,
-                timestamp: e.timestamp.toDate(),
-            })).sort((a: any, b: any) => b.timestamp.getTime() - a.timestamp.getTime()),
-        } as Household;
+      if (householdData && householdData.memberIds.includes(user.uid)) {
         setHousehold(householdData);
 
-        const transactionsQuery = query(collection(db, 'transactions'), where('sharing', '==', householdData.id));
-        const savingsGoalsQuery = query(collection(db, 'savings'), where('sharing', '==', householdData.id));
-        const invitationsQuery = query(collection(db, 'invitations'), where('householdId', '==', householdId));
-
-        const [transactionsSnapshot, savingsGoalsSnapshot, invitationsSnapshot] = await Promise.all([
-          getDocs(transactionsQuery),
-          getDocs(savingsGoalsQuery),
-          getDocs(invitationsQuery)
+        const [transactionList, savingsGoalsList, invitationsData] = await Promise.all([
+          getHouseholdTransactions([householdData.id]),
+          getHouseholdSavingsGoals([householdData.id]),
+          getHouseholdInvitations(householdId),
         ]);
-
-        const transactionList = transactionsSnapshot.docs.map(doc => {
-            const data = doc.data();
-            let amounts = (data.amounts || []).map((a: any) => ({ ...a, date: a.date.toDate() }));
-            if (amounts.length === 0 && data.amount && data.startDate) {
-                amounts.push({ id: 'legacy-0', amount: data.amount, date: data.startDate.toDate() });
-            }
-            return { id: doc.id, ...data, amounts, endDate: data.endDate ? data.endDate.toDate() : null } as Transaction;
-        });
         setTransactions(transactionList);
-
-        const savingsGoalsList = savingsGoalsSnapshot.docs.map(doc => {
-            const data = doc.data();
-            return {
-                id: doc.id, ...data, 
-                startDate: data.startDate.toDate(),
-                targetDate: data.targetDate.toDate(),
-                contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate()}))
-            } as SavingGoal;
-        });
         setSavingsGoals(savingsGoalsList);
-        
-        const invitationsData = invitationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() as Omit<Invitation, 'id'> }));
         setHouseholdInvitations(invitationsData);
 
       } else {
@@ -264,20 +267,22 @@ function HouseholdDetail() {
     fetchData();
   }, [user, householdId]);
   
+  // Amounts and income-ratio splits are the selected month's, as the budget counts them.
+  const monthEnd = useMemo(() => endOfMonth(selectedMonth), [selectedMonth]);
+
   const { sharedIncome, sharedExpenses } = useMemo(() => {
-    const today = new Date();
     const income = transactions
         .filter((t): t is Income => t.transactionType === 'income')
-        .map(t => ({ ...t, displayAmount: getAmountForDate(t, today) }))
+        .map(t => ({ ...t, displayAmount: getAmountForDate(t, monthEnd) }))
         .sort((a,b) => b.displayAmount - a.displayAmount);
 
     const expenses = transactions
         .filter((t): t is Expense => t.transactionType === 'expense')
-        .map(t => ({ ...t, displayAmount: getAmountForDate(t, today) }))
+        .map(t => ({ ...t, displayAmount: getAmountForDate(t, monthEnd) }))
         .sort((a,b) => b.displayAmount - a.displayAmount);
         
     return { sharedIncome: income, sharedExpenses: expenses };
-  }, [transactions]);
+  }, [transactions, monthEnd]);
   
   const { totalSharedIncome, totalSharedExpenses } = useMemo(() => {
     const incomeTotal = sharedIncome.reduce((sum, tx) => sum + tx.displayAmount, 0);
@@ -287,38 +292,21 @@ function HouseholdDetail() {
 
   const memberContributions = useMemo(() => {
     if (!household || totalSharedExpenses <= 0) return [];
+    return household.members.map(member => ({
+      name: member.name,
+      contribution: sharedExpenses.reduce((sum, tx) => sum + getMemberShare(household, tx, tx.displayAmount, member.id, monthEnd), 0),
+    }));
+  }, [household, sharedExpenses, totalSharedExpenses, monthEnd]);
 
-    return household.members.map(member => {
-      let share = 0;
-      switch (household.splitType) {
-        case 'shares':
-          const totalShares = household.splits?.reduce((s, split) => s + (split.share || 0), 0) || 0;
-          if (totalShares > 0) {
-            const memberSplit = household.splits?.find(s => s.memberId === member.id);
-            const memberShares = memberSplit?.share || 0;
-            share = (totalSharedExpenses * memberShares) / totalShares;
-          } else {
-            share = household.members.length > 0 ? totalSharedExpenses / household.members.length : 0;
-          }
-          break;
-        case 'income_ratio':
-          const totalIncome = household.members.reduce((s, m) => s + getIncomeForDate(m, new Date()), 0);
-          if (totalIncome > 0) {
-            const memberIncome = getIncomeForDate(member, new Date());
-            share = (totalSharedExpenses * memberIncome) / totalIncome;
-          } else {
-            share = household.members.length > 0 ? totalSharedExpenses / household.members.length : 0;
-          }
-          break;
-        default: // 'equal'
-          share = household.members.length > 0 ? totalSharedExpenses / household.members.length : 0;
-      }
-      return { name: member.name, contribution: share };
-    });
-  }, [household, totalSharedExpenses]);
+  const { memberBalances, suggestedTransfers } = useMemo(() => {
+    if (!household) return { memberBalances: [], suggestedTransfers: [] };
+    const balances = getMemberBalances(household, sharedExpenses, new Date());
+    return { memberBalances: balances, suggestedTransfers: suggestTransfers(balances) };
+  }, [household, sharedExpenses]);
 
 
   const watchedSplitType = splitForm.watch('splitType');
+  const watchedExpenseSplitType = expenseSplitForm.watch('type');
   
   useEffect(() => {
     if (isSplitSettingsOpen && household) {
@@ -349,13 +337,47 @@ function HouseholdDetail() {
       }
   }, [isIncomeHistoryDialogOpen, incomeChangeForm]);
 
+  useEffect(() => {
+      if (expenseForPayers && household) {
+          const payers = household.members.map(member => {
+              const shares = expenseForPayers.payers ?? [{ memberId: expenseForPayers.userId, share: 1 }];
+              return { memberId: member.id, name: member.name, share: shares.find(p => p.memberId === member.id)?.share ?? 0 };
+          });
+          payersForm.reset({ payers });
+      }
+  }, [expenseForPayers, household, payersForm]);
+
+  useEffect(() => {
+      if (expenseForSplit && household) {
+          const override = expenseForSplit.split;
+          const splits = household.members.map(member => {
+              const existing = override?.splits.find(s => s.memberId === member.id);
+              return { memberId: member.id, name: member.name, share: existing?.share ?? 0, included: !override || !!existing };
+          });
+          expenseSplitForm.reset({ type: override?.type ?? 'household', splits });
+      }
+  }, [expenseForSplit, household, expenseSplitForm]);
+
+  const getMemberName = (memberId: string) => household?.members.find(m => m.id === memberId)?.name || 'Former member';
+
+  const can = (permission: HouseholdPermission) => !!user && hasPermission(household ?? undefined, user.uid, permission);
+
+  const openSettlementDialog = (transfer?: { fromMemberId: string; toMemberId: string; amount: number }) => {
+      settlementForm.reset({
+          fromMemberId: transfer?.fromMemberId ?? user.uid,
+          toMemberId: transfer?.toMemberId ?? '',
+          amount: transfer?.amount ?? 0,
+          date: new Date(),
+      });
+      setIsSettlementDialogOpen(true);
+  };
+
   const handleHouseholdNameUpdate = async (values: z.infer<typeof householdNameSchema>) => {
-    if (!household || !user || user?.uid !== household.ownerId) return;
+    if (!household || !user || !can('rename')) return;
     const oldName = household.name;
     try {
         await logHouseholdEvent(`${user.displayName} updated the household name from "${oldName}" to "${values.name}".`);
-        const householdRef = doc(db, "households", household.id);
-        await updateDoc(householdRef, { name: values.name });
+        await updateHousehold(household.id, { name: values.name });
 
         toast({ title: "Household name updated successfully!" });
         fetchData();
@@ -369,8 +391,8 @@ function HouseholdDetail() {
 
 
   const handleInviteSubmit = async (values: z.infer<typeof inviteMemberSchema>) => {
-    if (!household || !user || user.uid !== household.ownerId) {
-      toast({ variant: 'destructive', title: "Unauthorized", description: "Only the household owner can invite members." });
+    if (!household || !user || !can('manageMembers')) {
+      toast({ variant: 'destructive', title: "Unauthorized", description: "Only the owner and admins can invite members." });
       return;
     }
     
@@ -390,25 +412,7 @@ function HouseholdDetail() {
     }
 
     try {
-        const batch = writeBatch(db);
-
-        // Add to invitations collection
-        const invitationRef = doc(collection(db, 'invitations'));
-        batch.set(invitationRef, {
-            householdId: household.id,
-            householdName: household.name,
-            invitedBy: user.uid,
-            invitedEmail: values.email,
-            createdAt: serverTimestamp(),
-        });
-        
-        // Add to pending emails on household
-        const householdRef = doc(db, "households", household.id);
-        batch.update(householdRef, {
-            pendingMemberEmails: [...(household.pendingMemberEmails || []), values.email]
-        });
-
-        await batch.commit();
+        await createInvitation(household, user.uid, values.email);
         
         // Send email notification
         await sendInvitationEmail({
@@ -430,32 +434,9 @@ function HouseholdDetail() {
   };
   
   const handleCancelInvitation = async () => {
-    if (!household || !invitationToCancel || !user) return;
+    if (!household || !invitationToCancel || !user || !can('manageMembers')) return;
     try {
-        const batch = writeBatch(db);
-
-        // Find and delete the invitation document
-        const invitationsRef = collection(db, 'invitations');
-        const q = query(
-            invitationsRef,
-            where('householdId', '==', household.id),
-            where('invitedEmail', '==', invitationToCancel),
-        );
-        const querySnapshot = await getDocs(q);
-
-        if (!querySnapshot.empty) {
-            const invitationDoc = querySnapshot.docs[0];
-            batch.delete(invitationDoc.ref);
-        } else {
-            console.warn(`Could not find invitation document for ${invitationToCancel} in household ${household.id}`);
-        }
-        
-        // Remove from pending emails on household
-        const householdRef = doc(db, 'households', household.id);
-        const updatedPendingEmails = household.pendingMemberEmails?.filter(email => email !== invitationToCancel) || [];
-        batch.update(householdRef, { pendingMemberEmails: updatedPendingEmails });
-
-        await batch.commit();
+        await cancelInvitation(household, invitationToCancel);
         
         await logHouseholdEvent(`${user.displayName} cancelled the invitation for ${invitationToCancel}.`);
         toast({ title: "Invitation Cancelled" });
@@ -469,13 +450,12 @@ function HouseholdDetail() {
   };
   
   const handleRemoveDeclinedInvitation = async (emailToRemove: string) => {
-    if (!household || !user || user.uid !== household.ownerId) return;
+    if (!household || !user || !can('manageMembers')) return;
 
     const updatedPendingEmails = household.pendingMemberEmails?.filter(email => email !== emailToRemove) || [];
 
     try {
-        const householdRef = doc(db, "households", household.id);
-        await updateDoc(householdRef, { pendingMemberEmails: updatedPendingEmails });
+        await updateHousehold(household.id, { pendingMemberEmails: updatedPendingEmails });
         await logHouseholdEvent(`${user.displayName} removed the declined invitation for ${emailToRemove}.`);
         toast({ title: "Declined invitation removed." });
         fetchData();
@@ -486,22 +466,22 @@ function HouseholdDetail() {
   };
 
   const handleDeleteMember = async () => {
-    if (!household || !memberToDelete || !user || user.uid !== household.ownerId) return;
+    if (!household || !memberToDelete || !user) return;
     
-    // Prevent owner from deleting themselves
-    if (memberToDelete.id === household.ownerId) {
-        toast({ variant: 'destructive', title: 'Cannot Remove Owner', description: 'The household owner cannot be removed.' });
+    // Nobody can remove the owner, and admins can't remove each other
+    if (!canRemoveMember(household, user.uid, memberToDelete.id)) {
+        toast({ variant: 'destructive', title: 'Cannot Remove Member', description: `You can't remove ${memberToDelete.name} from this household.` });
         setMemberToDelete(null);
         return;
     }
     
     const updatedMembers = household.members.filter(m => m.id !== memberToDelete.id);
     const updatedMemberIds = household.memberIds.filter(id => id !== memberToDelete.id);
+    const { [memberToDelete.id]: _removedRole, ...updatedRoles } = household.roles || {};
 
     try {
       await logHouseholdEvent(`${user.displayName} removed ${memberToDelete.name} from the household.`);
-      const householdRef = doc(db, "households", household.id);
-      await updateDoc(householdRef, { members: updatedMembers, memberIds: updatedMemberIds });
+      await updateHousehold(household.id, { members: updatedMembers, memberIds: updatedMemberIds, roles: updatedRoles });
       toast({ title: "Member Removed" });
       fetchData();
     } catch (error) {
@@ -513,7 +493,7 @@ function HouseholdDetail() {
   };
   
   const handleSplitSave = async (values: z.infer<typeof splitSchema>) => {
-    if (!household || !user) return;
+    if (!household || !user || !can('manageSplitRule')) return;
 
     const payload: Partial<Household> = {
         splitType: values.splitType
@@ -535,8 +515,7 @@ function HouseholdDetail() {
           return 'Equal Split';
       }
       await logHouseholdEvent(`${user.displayName} updated the expense split rule to "${getRuleText(values.splitType)}".`);
-      const householdRef = doc(db, "households", household.id);
-      await updateDoc(householdRef, payload);
+      await updateHousehold(household.id, payload);
       
       toast({ title: "Split settings saved!" });
       fetchData();
@@ -552,15 +531,14 @@ function HouseholdDetail() {
   };
   
     const handleSaveMemberName = async (values: z.infer<typeof memberNameSchema>) => {
-        if (!household || !editingMember || !user || user.uid !== household.ownerId) return;
+        if (!household || !editingMember || !user || !can('manageMembers')) return;
 
         const updatedMembers = household.members.map(member =>
             member.id === editingMember.id ? { ...member, name: values.name } : member
         );
         
         try {
-            const householdRef = doc(db, "households", household.id);
-            await updateDoc(householdRef, { members: updatedMembers });
+            await updateHousehold(household.id, { members: updatedMembers });
             toast({ title: "Member name updated!" });
             fetchData();
         } catch (error) {
@@ -573,7 +551,7 @@ function HouseholdDetail() {
     };
     
     const handleIncomeHistorySave = async (values: z.infer<typeof incomeChangeSchema>) => {
-        if (!household || !memberForIncomeHistory) return;
+        if (!household || !memberForIncomeHistory || !can('editIncomes')) return;
         
         const updatedMembers = household.members.map(m => {
             if (m.id === memberForIncomeHistory.id) {
@@ -585,8 +563,7 @@ function HouseholdDetail() {
         });
 
         try {
-            const householdRef = doc(db, "households", household.id);
-            await updateDoc(householdRef, { members: updatedMembers });
+            await updateHousehold(household.id, { members: updatedMembers });
             toast({ title: "Income history updated!" });
             fetchData();
             setIsIncomeHistoryDialogOpen(false);
@@ -597,7 +574,7 @@ function HouseholdDetail() {
     };
 
     const handleIncomeHistoryDelete = async (incomeId: string) => {
-        if (!household || !memberForIncomeHistory) return;
+        if (!household || !memberForIncomeHistory || !can('editIncomes')) return;
 
         const updatedMembers = household.members.map(m => {
             if (m.id === memberForIncomeHistory.id) {
@@ -608,8 +585,7 @@ function HouseholdDetail() {
         });
 
         try {
-            const householdRef = doc(db, "households", household.id);
-            await updateDoc(householdRef, { members: updatedMembers });
+            await updateHousehold(household.id, { members: updatedMembers });
             toast({ title: "Income entry deleted!" });
             fetchData();
         } catch(error) {
@@ -618,6 +594,130 @@ function HouseholdDetail() {
         }
     };
 
+    const handlePayersSave = async (values: z.infer<typeof payersSchema>) => {
+        if (!household || !expenseForPayers || !user || !can('editShared')) return;
+        const payers = values.payers
+            .filter(payer => payer.share > 0)
+            .map(({ memberId, share }) => ({ memberId, share: Number(share) }));
+
+        try {
+            await updateTransaction(expenseForPayers.id, { payers });
+            await logHouseholdEvent(`${user.displayName} recorded ${payers.map(p => getMemberName(p.memberId)).join(', ')} as paying "${expenseForPayers.name}".`);
+            toast({ title: "Payers updated!" });
+            fetchData();
+            setExpenseForPayers(null);
+        } catch (error) {
+            console.error("Error saving payers:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not save who paid this expense." });
+        }
+    };
+
+    const handleRoleChange = async (member: Member, role: HouseholdRole) => {
+        if (!household || !user || !can('manageRoles') || member.id === household.ownerId) return;
+
+        try {
+            await updateHousehold(household.id, { roles: { ...household.roles, [member.id]: role } });
+            await logHouseholdEvent(`${user.displayName} made ${member.name} ${role === 'admin' ? 'an' : 'a'} ${HOUSEHOLD_ROLE_LABELS[role].toLowerCase()}.`);
+            toast({ title: "Role updated!" });
+            fetchData();
+        } catch (error) {
+            console.error("Error updating member role:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not update the member's role." });
+        }
+    };
+
+    const handleLeaveHousehold = async () => {
+        if (!household || !user) return;
+        const me = household.members.find(m => m.id === user.uid);
+        // The owner has to hand the household to someone else or dissolve it
+        if (!me || me.id === household.ownerId) return;
+
+        try {
+            await leaveHousehold(household, me, [...transactions, ...savingsGoals]);
+            toast({ title: "You left the household." });
+            router.push('/household');
+        } catch (error) {
+            console.error("Error leaving household:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not leave the household." });
+        } finally {
+            setIsLeaveDialogOpen(false);
+        }
+    };
+
+    const handleTransferOwnership = async () => {
+        if (!household || !user || !newOwnerId || user.uid !== household.ownerId) return;
+
+        try {
+            await logHouseholdEvent(`${user.displayName} made ${getMemberName(newOwnerId)} the owner of the household.`);
+            await transferOwnership(household, newOwnerId);
+            toast({ title: "Ownership transferred!" });
+            fetchData();
+            setIsTransferDialogOpen(false);
+        } catch (error) {
+            console.error("Error transferring ownership:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not transfer ownership." });
+        }
+    };
+
+    const handleExpenseSplitSave = async (values: z.infer<typeof expenseSplitSchema>) => {
+        if (!household || !expenseForSplit || !user || !can('editShared')) return;
+        let split: SplitOverride | null = null;
+        if (values.type !== 'household') {
+            const splits = values.type === 'members'
+                ? values.splits.filter(s => s.included).map(({ memberId }) => ({ memberId, share: 1 }))
+                : values.splits.filter(s => s.share > 0).map(({ memberId, share }) => ({ memberId, share: Number(share) }));
+            split = { type: values.type, splits };
+            const error = validateSplitOverride(split, expenseForSplit.displayAmount);
+            if (error) {
+                expenseSplitForm.setError('splits', { message: error });
+                return;
+            }
+        }
+
+        try {
+            await updateTransaction(expenseForSplit.id, { split });
+            await logHouseholdEvent(split
+                ? `${user.displayName} gave "${expenseForSplit.name}" its own split (${SPLIT_OVERRIDE_LABELS[split.type].toLowerCase()}).`
+                : `${user.displayName} set "${expenseForSplit.name}" back to the household split rule.`);
+            toast({ title: "Split updated!" });
+            fetchData();
+            setExpenseForSplit(null);
+        } catch (error) {
+            console.error("Error saving expense split:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not save how this expense is split." });
+        }
+    };
+
+    const handleSettlementSave = async (values: z.infer<typeof settlementSchema>) => {
+        if (!household || !user || !can('editShared')) return;
+        const settlement: Settlement = { ...values, id: crypto.randomUUID(), recordedBy: user.uid };
+
+        try {
+            await updateHousehold(household.id, { settlements: [...(household.settlements || []), settlement] });
+            await logHouseholdEvent(`${user.displayName} recorded a payment of ${formatCurrency(values.amount, currency)} from ${getMemberName(values.fromMemberId)} to ${getMemberName(values.toMemberId)}.`);
+            toast({ title: "Payment recorded!" });
+            fetchData();
+            setIsSettlementDialogOpen(false);
+        } catch (error) {
+            console.error("Error recording settlement:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not record the payment." });
+        }
+    };
+
+    const handleSettlementDelete = async (settlement: Settlement) => {
+        if (!household || !user || !can('editShared')) return;
+
+        try {
+            await updateHousehold(household.id, { settlements: (household.settlements || []).filter(s => s.id !== settlement.id) });
+            await logHouseholdEvent(`${user.displayName} deleted the payment of ${formatCurrency(settlement.amount, currency)} from ${getMemberName(settlement.fromMemberId)} to ${getMemberName(settlement.toMemberId)}.`);
+            toast({ title: "Payment deleted!" });
+            fetchData();
+        } catch (error) {
+            console.error("Error deleting settlement:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not delete the payment." });
+        }
+    };
+
   const SharedIncomeTable = ({ data, currency }: { data: (Income & {displayAmount: number})[], currency: string }) => {
     if (data.length === 0) {
       return <div className="text-center text-sm text-muted-foreground p-8">No shared income to display.</div>;
@@ -648,38 +748,8 @@ function HouseholdDetail() {
       return <div className="text-center text-sm text-muted-foreground p-8">No shared expenses to display.</div>;
     }
 
-    const getMemberName = (memberId: string) => {
-        return household.members.find(m => m.id === memberId)?.name || 'Unknown User';
-    };
-
-    const calculateShares = (totalAmount: number) => {
-        return household.members.map(member => {
-            let share = 0;
-            switch (household.splitType) {
-                case 'shares':
-                    const totalShares = household.splits?.reduce((s, split) => s + (split.share || 0), 0) || 0;
-                    if (totalShares > 0) {
-                        const memberSplit = household.splits?.find(s => s.memberId === member.id);
-                        const memberShares = memberSplit?.share || 0;
-                        share = (totalAmount * memberShares) / totalShares;
-                    } else {
-                        share = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                    }
-                    break;
-                case 'income_ratio':
-                    const totalIncome = household.members.reduce((s, m) => s + getIncomeForDate(m, new Date()), 0);
-                    if (totalIncome > 0) {
-                        const memberIncome = getIncomeForDate(member, new Date());
-                        share = (totalAmount * memberIncome) / totalIncome;
-                    } else {
-                        share = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                    }
-                    break;
-                default: // 'equal'
-                    share = household.members.length > 0 ? totalAmount / household.members.length : 0;
-            }
-            return { name: member.name, share };
-        });
+    const calculateShares = (tx: Expense, totalAmount: number) => {
+        return splitExpense(household, tx, totalAmount, monthEnd).map(({ memberId, amount }) => ({ name: getMemberName(memberId), share: amount }));
     };
     
     return (
@@ -715,16 +785,45 @@ function HouseholdDetail() {
                 {isExpanded && (
                   <TableRow>
                     <TableCell colSpan={3} className="p-0">
-                      <div className="p-4 bg-muted/30">
-                        <h4 className="font-semibold mb-2 text-sm">Member Shares:</h4>
-                        <ul className="space-y-1 text-sm">
-                          {calculateShares(tx.displayAmount).map(s => (
-                            <li key={s.name} className="flex justify-between">
-                              <span className="text-muted-foreground">{s.name}</span>
-                              <span className="font-mono">{formatCurrency(s.share, currency)}</span>
-                            </li>
-                          ))}
-                        </ul>
+                      <div className="p-4 bg-muted/30 grid gap-4 sm:grid-cols-2">
+                        <div>
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-semibold text-sm">
+                              Member Shares: <span className="font-normal text-muted-foreground">{tx.split ? SPLIT_OVERRIDE_LABELS[tx.split.type] : 'Household rule'}</span>
+                            </h4>
+                            {can('editShared') && (
+                              <Button variant="ghost" size="sm" className="h-7" onClick={() => setExpenseForSplit(tx)}>
+                                <Edit className="mr-2 h-3 w-3" /> Edit
+                              </Button>
+                            )}
+                          </div>
+                          <ul className="space-y-1 text-sm">
+                            {calculateShares(tx, tx.displayAmount).map(s => (
+                              <li key={s.name} className="flex justify-between">
+                                <span className="text-muted-foreground">{s.name}</span>
+                                <span className="font-mono">{formatCurrency(s.share, currency)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div>
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-semibold text-sm">Paid By:</h4>
+                            {can('editShared') && (
+                              <Button variant="ghost" size="sm" className="h-7" onClick={() => setExpenseForPayers(tx)}>
+                                <Edit className="mr-2 h-3 w-3" /> Edit
+                              </Button>
+                            )}
+                          </div>
+                          <ul className="space-y-1 text-sm">
+                            {splitPayment(tx, tx.displayAmount).map(p => (
+                              <li key={p.memberId} className="flex justify-between">
+                                <span className="text-muted-foreground">{getMemberName(p.memberId)}</span>
+                                <span className="font-mono">{formatCurrency(p.amount, currency)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -804,7 +903,7 @@ function HouseholdDetail() {
                     <div>
                         <div className="flex items-center gap-2">
                             <CardTitle>{household.name}</CardTitle>
-                            {isOwner && (
+                            {can('rename') && (
                                 <Dialog open={isEditHouseholdDialogOpen} onOpenChange={setIsEditHouseholdDialogOpen}>
                                     <DialogTrigger asChild>
                                         <Button variant="ghost" size="icon" className="h-6 w-6">
@@ -843,7 +942,7 @@ function HouseholdDetail() {
                         <CardDescription>An overview of your household's shared finances.</CardDescription>
                     </div>
                 </div>
-                {isOwner && (
+                {can('manageMembers') && (
                     <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
                         <DialogTrigger asChild>
                             <Button variant="outline">
@@ -881,9 +980,14 @@ function HouseholdDetail() {
                 )}
             </CardHeader>
             <CardContent className="grid gap-6 sm:grid-cols-2">
+                <div className="sm:col-span-2 flex items-center justify-end gap-2">
+                    <Button variant="outline" size="icon" onClick={() => setSelectedMonth(subMonths(selectedMonth, 1))}><ChevronLeft className="h-4 w-4" /></Button>
+                    <span className="w-32 sm:w-36 text-center font-medium">{format(selectedMonth, "MMMM yyyy")}</span>
+                    <Button variant="outline" size="icon" onClick={() => setSelectedMonth(addMonths(selectedMonth, 1))}><ChevronRight className="h-4 w-4" /></Button>
+                </div>
                 <Card>
                     <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
-                        <CardTitle className="text-sm font-medium">This Month's Shared Income</CardTitle>
+                        <CardTitle className="text-sm font-medium">Shared Income</CardTitle>
                         <ArrowUpCircle className="h-4 w-4 text-green-500" />
                     </CardHeader>
                     <CardContent>
@@ -892,7 +996,7 @@ function HouseholdDetail() {
                 </Card>
                 <Card>
                     <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
-                        <CardTitle className="text-sm font-medium">This Month's Shared Expenses</CardTitle>
+                        <CardTitle className="text-sm font-medium">Shared Expenses</CardTitle>
                         <ArrowDownCircle className="h-4 w-4 text-red-500" />
                     </CardHeader>
                     <CardContent>
@@ -933,14 +1037,36 @@ function HouseholdDetail() {
                                         <p className="font-medium">{member.name}</p>
                                         <p className="text-sm text-muted-foreground">{member.email}</p>
                                     </div>
-                                    {household.ownerId === member.id && (
-                                        <Badge variant="secondary" className="ml-auto">Owner</Badge>
+                                    {can('manageRoles') && member.id !== household.ownerId ? (
+                                        <Select value={getMemberRole(household, member.id) ?? 'editor'} onValueChange={(role) => handleRoleChange(member, role as HouseholdRole)}>
+                                            <SelectTrigger className="ml-auto w-[110px] h-8"><SelectValue /></SelectTrigger>
+                                            <SelectContent>
+                                                {ASSIGNABLE_ROLES.map(role => (
+                                                    <SelectItem key={role} value={role}>{HOUSEHOLD_ROLE_LABELS[role]}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    ) : (
+                                        <TooltipProvider>
+                                            <Tooltip>
+                                                <TooltipTrigger asChild>
+                                                    <Badge variant={member.id === household.ownerId ? 'secondary' : 'outline'} className="ml-auto">{HOUSEHOLD_ROLE_LABELS[getMemberRole(household, member.id) ?? 'editor']}</Badge>
+                                                </TooltipTrigger>
+                                                <TooltipContent><p>{HOUSEHOLD_ROLE_DESCRIPTIONS[getMemberRole(household, member.id) ?? 'editor']}</p></TooltipContent>
+                                            </Tooltip>
+                                        </TooltipProvider>
                                     )}
-                                    {isOwner && (
+                                    {can('manageMembers') && (
                                         <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => { setEditingMember(member); setIsEditMemberDialogOpen(true); }}>
                                             <Edit className="h-4 w-4" />
                                         </Button>
                                     )}
+                                    {canRemoveMember(household, user.uid, member.id) && (
+                                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMemberToDelete(member)}>
+                                            <Trash2 className="h-4 w-4 text-destructive" />
+                                            <span className="sr-only">Remove Member</span>
+                                        </Button>
+                                    )}
                                 </div>
                             ))}
                             {household.pendingMemberEmails && household.pendingMemberEmails.length > 0 && (
@@ -959,7 +1085,7 @@ function HouseholdDetail() {
                                                 <p className="text-sm text-muted-foreground truncate">{email}</p>
                                                 </div>
                                                 {invitation ? (
-                                                    isOwner && (
+                                                    can('manageMembers') && (
                                                         <TooltipProvider>
                                                         <Tooltip>
                                                             <TooltipTrigger asChild>
@@ -977,7 +1103,7 @@ function HouseholdDetail() {
                                                 ) : (
                                                     <div className="flex items-center gap-1">
                                                         <Badge variant="outline">Declined</Badge>
-                                                        {isOwner && (
+                                                        {can('manageMembers') && (
                                                             <TooltipProvider>
                                                                 <Tooltip>
                                                                     <TooltipTrigger asChild>
@@ -1083,10 +1209,12 @@ function HouseholdDetail() {
                                                                 <p className="font-medium">{member.name}</p>
                                                                 <p className="text-sm text-muted-foreground">Current: {formatCurrency(getIncomeForDate(member, new Date()), currency)}/month</p>
                                                             </div>
-                                                            <Button type="button" variant="outline" size="sm" onClick={() => { setMemberForIncomeHistory(member); setIsIncomeHistoryDialogOpen(true); }}>
-                                                                <ChevronsUpDown className="mr-2 h-4 w-4"/>
-                                                                Manage
-                                                            </Button>
+                                                            {can('editIncomes') && (
+                                                                <Button type="button" variant="outline" size="sm" onClick={() => { setMemberForIncomeHistory(member); setIsIncomeHistoryDialogOpen(true); }}>
+                                                                    <ChevronsUpDown className="mr-2 h-4 w-4"/>
+                                                                    Manage
+                                                                </Button>
+                                                            )}
                                                         </div>
                                                     ))}
                                                 </div>
@@ -1095,7 +1223,7 @@ function HouseholdDetail() {
                                     </div>
                                     <DialogFooter>
                                         <Button type="button" variant="outline" onClick={() => setIsSplitSettingsOpen(false)}>Cancel</Button>
-                                        <Button type="submit" disabled={!isOwner || splitForm.formState.isSubmitting}>
+                                        <Button type="submit" disabled={!can('manageSplitRule') || splitForm.formState.isSubmitting}>
                                             {splitForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                                             Save Settings
                                         </Button>
@@ -1119,6 +1247,31 @@ function HouseholdDetail() {
                             </TooltipContent>
                         </Tooltip>
                     </TooltipProvider>
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon">
+                                <MoreVertical className="h-4 w-4" />
+                                <span className="sr-only">Household Actions</span>
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                            {user.uid === household.ownerId ? (
+                                <>
+                                    <DropdownMenuItem disabled={household.members.length < 2} onSelect={() => { setNewOwnerId(''); setIsTransferDialogOpen(true); }}>
+                                        <Crown className="mr-2 h-4 w-4" /> Transfer Ownership
+                                    </DropdownMenuItem>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem className="text-destructive" onSelect={() => setHouseholdToDissolve(household)}>
+                                        <Trash2 className="mr-2 h-4 w-4" /> Dissolve Household
+                                    </DropdownMenuItem>
+                                </>
+                            ) : (
+                                <DropdownMenuItem className="text-destructive" onSelect={() => setIsLeaveDialogOpen(true)}>
+                                    <LogOut className="mr-2 h-4 w-4" /> Leave Household
+                                </DropdownMenuItem>
+                            )}
+                        </DropdownMenuContent>
+                    </DropdownMenu>
                 </div>
             </CardFooter>
         </Card>
@@ -1130,7 +1283,7 @@ function HouseholdDetail() {
                     Monthly Contributions
                 </CardTitle>
                 <CardDescription>
-                    Estimated contribution for each member for this month's shared expenses, based on the '{getSplitRuleText()}' rule.
+                    Estimated contribution for each member to the shared expenses for {format(selectedMonth, "MMMM yyyy")}, based on the '{getSplitRuleText()}' rule.
                 </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1144,7 +1297,107 @@ function HouseholdDetail() {
                         ))}
                     </ul>
                 ) : (
-                    <p className="text-sm text-muted-foreground text-center py-4">No shared expenses to calculate contributions this month.</p>
+                    <p className="text-sm text-muted-foreground text-center py-4">No shared expenses to calculate contributions for this month.</p>
+                )}
+            </CardContent>
+        </Card>
+
+        <Card>
+            <CardHeader className="flex-row items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                        <HandCoins className="h-6 w-6 text-primary" />
+                        Settle Up
+                    </CardTitle>
+                    <CardDescription>
+                        What each member has paid towards shared expenses so far against their share of them, after recorded payments between members.
+                    </CardDescription>
+                </div>
+                {can('editShared') && (
+                    <Button variant="outline" onClick={() => openSettlementDialog()}>
+                        <PlusCircle className="mr-2 h-4 w-4" /> Record Payment
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Member</TableHead>
+                            <TableHead className="text-right">Paid</TableHead>
+                            <TableHead className="text-right">Share</TableHead>
+                            <TableHead className="text-right">Payments</TableHead>
+                            <TableHead className="text-right">Balance</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {memberBalances.map(b => (
+                            <TableRow key={b.memberId}>
+                                <TableCell className="font-medium">{getMemberName(b.memberId)}</TableCell>
+                                <TableCell className="text-right font-mono">{formatCurrency(b.paid, currency)}</TableCell>
+                                <TableCell className="text-right font-mono">{formatCurrency(b.owed, currency)}</TableCell>
+                                <TableCell className="text-right font-mono">{formatCurrency(b.settled, currency)}</TableCell>
+                                <TableCell className={cn("text-right font-mono font-semibold", b.balance > 0.005 ? 'text-green-400' : b.balance < -0.005 ? 'text-red-400' : 'text-muted-foreground')}>
+                                    {formatCurrency(b.balance, currency)}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+
+                <div>
+                    <h4 className="text-sm font-medium mb-2">Suggested Payments</h4>
+                    {suggestedTransfers.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Everyone is settled up.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {suggestedTransfers.map(t => (
+                                <li key={`${t.fromMemberId}-${t.toMemberId}`} className="flex items-center justify-between gap-4 p-2 border rounded-md">
+                                    <span className="text-sm">
+                                        <span className="font-medium">{getMemberName(t.fromMemberId)}</span> pays <span className="font-medium">{getMemberName(t.toMemberId)}</span>
+                                    </span>
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-mono font-semibold">{formatCurrency(t.amount, currency)}</span>
+                                        {can('editShared') && <Button variant="outline" size="sm" onClick={() => openSettlementDialog(t)}>Record</Button>}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {household.settlements && household.settlements.length > 0 && (
+                    <div>
+                        <h4 className="text-sm font-medium mb-2">Recorded Payments</h4>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Date</TableHead>
+                                    <TableHead>From</TableHead>
+                                    <TableHead>To</TableHead>
+                                    <TableHead className="text-right">Amount</TableHead>
+                                    <TableHead className="text-right w-[50px]"> </TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {[...household.settlements].sort((a, b) => b.date.getTime() - a.date.getTime()).map(settlement => (
+                                    <TableRow key={settlement.id}>
+                                        <TableCell>{format(settlement.date, 'PP')}</TableCell>
+                                        <TableCell>{getMemberName(settlement.fromMemberId)}</TableCell>
+                                        <TableCell>{getMemberName(settlement.toMemberId)}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatCurrency(settlement.amount, currency)}</TableCell>
+                                        <TableCell className="text-right">
+                                            {can('editShared') && (
+                                                <Button variant="ghost" size="icon" onClick={() => handleSettlementDelete(settlement)}>
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
                 )}
             </CardContent>
         </Card>
@@ -1201,6 +1454,42 @@ function HouseholdDetail() {
         </AlertDialogContent>
       </AlertDialog>
       
+      <AlertDialog open={isLeaveDialogOpen} onOpenChange={setIsLeaveDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave {household?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>You will lose access to this household. Transactions and savings goals you shared with it become personal again; what others shared stays with the household.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={handleLeaveHousehold}>Leave Household</AlertDialogAction></AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={isTransferDialogOpen} onOpenChange={setIsTransferDialogOpen}>
+          <DialogContent>
+              <DialogHeader>
+                  <DialogTitle>Transfer Ownership</DialogTitle>
+                  <DialogDescription>The new owner can do everything you can, including dissolving the household. You will stay on as an admin.</DialogDescription>
+              </DialogHeader>
+              <div className="py-4 space-y-2">
+                  <Label>New Owner</Label>
+                  <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+                      <SelectTrigger><SelectValue placeholder="Choose a member" /></SelectTrigger>
+                      <SelectContent>
+                          {household?.members.filter(m => m.id !== household.ownerId).map(m => (
+                              <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                  </Select>
+              </div>
+              <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setIsTransferDialogOpen(false)}>Cancel</Button>
+                  <Button onClick={handleTransferOwnership} disabled={!newOwnerId}>Transfer</Button>
+              </DialogFooter>
+          </DialogContent>
+      </Dialog>
+
+      <DissolveHouseholdDialog household={householdToDissolve} onOpenChange={(open) => !open && setHouseholdToDissolve(null)} onDissolved={() => router.push('/household')} />
+
       <Dialog open={isEditMemberDialogOpen} onOpenChange={setIsEditMemberDialogOpen}>
           <DialogContent>
               <DialogHeader>
@@ -1246,6 +1535,152 @@ function HouseholdDetail() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <Dialog open={!!expenseForPayers} onOpenChange={(open) => !open && setExpenseForPayers(null)}>
+        <DialogContent className="max-w-md">
+            <Form {...payersForm}>
+                <form onSubmit={payersForm.handleSubmit(handlePayersSave)}>
+                    <DialogHeader>
+                        <DialogTitle>Who Pays {expenseForPayers?.name}?</DialogTitle>
+                        <DialogDescription>Give each member who pays this expense a share of the payment, e.g. 1 each to pay half each. Members with 0 don't pay it.</DialogDescription>
+                    </DialogHeader>
+                    <div className="py-4 space-y-4">
+                        {payerFields.map((field, index) => (
+                            <FormField
+                                key={field.id}
+                                control={payersForm.control}
+                                name={`payers.${index}.share`}
+                                render={({ field: formField }) => (
+                                    <FormItem>
+                                        <FormLabel>{field.name}</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min="0" step="any" {...formField} value={formField.value ?? ''} onFocus={e => e.target.select()} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        ))}
+                        {payersForm.formState.errors.payers && (<p className="text-sm font-medium text-destructive">{payersForm.formState.errors.payers.message}</p>)}
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => setExpenseForPayers(null)}>Cancel</Button>
+                        <Button type="submit" disabled={payersForm.formState.isSubmitting}>
+                            {payersForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save Payers
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!expenseForSplit} onOpenChange={(open) => !open && setExpenseForSplit(null)}>
+        <DialogContent className="max-w-md">
+            <Form {...expenseSplitForm}>
+                <form onSubmit={expenseSplitForm.handleSubmit(handleExpenseSplitSave)}>
+                    <DialogHeader>
+                        <DialogTitle>Split {expenseForSplit?.name}</DialogTitle>
+                        <DialogDescription>Split this expense differently from the rest of the household. It is {formatCurrency(expenseForSplit?.displayAmount ?? 0, currency)} in {format(selectedMonth, "MMMM yyyy")}.</DialogDescription>
+                    </DialogHeader>
+                    <div className="py-4 space-y-4">
+                        <FormField
+                            control={expenseSplitForm.control}
+                            name="type"
+                            render={({ field }) => (
+                                <FormItem className="space-y-3">
+                                    <FormControl>
+                                        <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-col space-y-1">
+                                            <FormItem className="flex items-center space-x-3 space-y-0"><FormControl><RadioGroupItem value="household" /></FormControl><FormLabel className="font-normal">Use the household rule ({getSplitRuleText().toLowerCase()})</FormLabel></FormItem>
+                                            {(Object.keys(SPLIT_OVERRIDE_LABELS) as SplitOverrideType[]).map(type => (
+                                                <FormItem key={type} className="flex items-center space-x-3 space-y-0"><FormControl><RadioGroupItem value={type} /></FormControl><FormLabel className="font-normal">{SPLIT_OVERRIDE_LABELS[type]}</FormLabel></FormItem>
+                                            ))}
+                                        </RadioGroup>
+                                    </FormControl>
+                                </FormItem>
+                            )}
+                        />
+                        {watchedExpenseSplitType !== 'household' && (
+                            <div className="space-y-4 rounded-md border p-4">
+                                {expenseSplitFields.map((field, index) => watchedExpenseSplitType === 'members' ? (
+                                    <FormField
+                                        key={field.id}
+                                        control={expenseSplitForm.control}
+                                        name={`splits.${index}.included`}
+                                        render={({ field: formField }) => (
+                                            <FormItem className="flex items-center space-x-3 space-y-0">
+                                                <FormControl>
+                                                    <Checkbox checked={formField.value} onCheckedChange={(checked) => formField.onChange(!!checked)} />
+                                                </FormControl>
+                                                <FormLabel className="font-normal">{field.name}</FormLabel>
+                                            </FormItem>
+                                        )}
+                                    />
+                                ) : (
+                                    <FormField
+                                        key={field.id}
+                                        control={expenseSplitForm.control}
+                                        name={`splits.${index}.share`}
+                                        render={({ field: formField }) => (
+                                            <FormItem>
+                                                <FormLabel>{field.name}{watchedExpenseSplitType === 'percent' && ' (%)'}</FormLabel>
+                                                <FormControl>
+                                                    <Input type="number" min="0" step="any" {...formField} value={formField.value ?? ''} onFocus={e => e.target.select()} />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                        {expenseSplitForm.formState.errors.splits && (<p className="text-sm font-medium text-destructive">{expenseSplitForm.formState.errors.splits.message}</p>)}
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => setExpenseForSplit(null)}>Cancel</Button>
+                        <Button type="submit" disabled={expenseSplitForm.formState.isSubmitting}>
+                            {expenseSplitForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save Split
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isSettlementDialogOpen} onOpenChange={setIsSettlementDialogOpen}>
+        <DialogContent>
+            <DialogHeader>
+                <DialogTitle>Record Payment</DialogTitle>
+                <DialogDescription>Record money one member paid another to settle up. It counts towards both of their balances.</DialogDescription>
+            </DialogHeader>
+            <Form {...settlementForm}>
+                <form id="settlement-form" onSubmit={settlementForm.handleSubmit(handleSettlementSave)} className="space-y-4 pt-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField control={settlementForm.control} name="fromMemberId" render={({ field }) => (
+                            <FormItem><FormLabel>From</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Who paid" /></SelectTrigger></FormControl><SelectContent>{household?.members.map(m => <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                        )} />
+                        <FormField control={settlementForm.control} name="toMemberId" render={({ field }) => (
+                            <FormItem><FormLabel>To</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Who was paid" /></SelectTrigger></FormControl><SelectContent>{household?.members.map(m => <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                        )} />
+                    </div>
+                    <FormField control={settlementForm.control} name="amount" render={({ field }) => (
+                        <FormItem><FormLabel>Amount ({currency})</FormLabel><FormControl><Input type="number" min="0" step="any" {...field} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <FormField control={settlementForm.control} name="date" render={({ field }) => (
+                        <FormItem className="flex flex-col"><FormLabel>Date</FormLabel><Popover><PopoverTrigger asChild><FormControl><Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>{field.value ? format(field.value, "PPP") : <span>Pick a date</span>}<CalendarIcon className="ml-auto h-4 w-4 opacity-50" /></Button></FormControl></PopoverTrigger><PopoverContent className="w-auto p-0" align="start"><Calendar mode="single" selected={field.value} onSelect={field.onChange} disabled={{ after: new Date() }} /></PopoverContent></Popover><FormMessage /></FormItem>
+                    )} />
+                </form>
+            </Form>
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsSettlementDialogOpen(false)}>Cancel</Button>
+                <Button type="submit" form="settlement-form" disabled={settlementForm.formState.isSubmitting}>
+                    {settlementForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Record Payment
+                </Button>
+            </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isIncomeHistoryDialogOpen} onOpenChange={setIsIncomeHistoryDialogOpen}>
         <DialogContent>
             <DialogHeader>
@@ -12,52 +12,29 @@ import { Header } from '@/components/header';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Loader2, PlusCircle, Users, Trash2, Home, CheckCircle, XCircle, ArrowUpCircle, ArrowDownCircle, PiggyBank } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { db } from '@/lib/firebase';
-import { collection, query, where, getDocs, addDoc, doc, deleteDoc, writeBatch, getDoc, DocumentData, serverTimestamp, updateDoc } from 'firebase/firestore';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { Skeleton } from '@/components/ui/skeleton';
+import { DissolveHouseholdDialog } from '@/components/dissolve-household-dialog';
+import { endOfMonth, format } from 'date-fns';
+import type { Expense, Household, Invitation, Member, PastHouseholdEvent, SavingGoal, Transaction } from '@/lib/types';
+import { getMemberShare } from '@/lib/household-splits';
+import { acceptInvitation, createHousehold, declineInvitation, getInvitationsForEmail, getPastHouseholdEvents, getUserHouseholds } from '@/repositories/households';
+import { getHouseholdTransactions } from '@/repositories/transactions';
+import { getHouseholdSavingsGoals } from '@/repositories/savings';
 
 
 // Types and Schemas
-type Member = { id: string; name: string; email: string; income?: number };
-type Split = { memberId: string; share: number; };
-type Household = { id: string; ownerId: string; name: string; members: Member[]; memberIds: string[]; pendingMemberEmails?: string[], splitType?: 'equal' | 'shares' | 'income_ratio'; splits?: Split[]; };
-type Invitation = { id: string; householdId: string; householdName: string; invitedBy: string; invitedEmail: string; };
-
 const householdSchema = z.object({
   name: z.string().min(1, 'Household name is required.'),
 });
 
-type AmountChange = { id: string; amount: number; date: Date; };
-type BaseTransaction = { id: string; userId: string; name: string; amounts: AmountChange[]; frequency: 'one-off' | 'recurring'; endDate?: Date | null; };
-type Income = BaseTransaction & { transactionType: 'income'; categoryId?: string; sharing: string; };
-type Expense = BaseTransaction & { transactionType: 'expense'; sharing: string; classification?: 'need' | 'want'; categoryId?: string; };
-type Transaction = Income | Expense;
-
-type SavingGoalContribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  sharing: 'personal' | string;
-  contributions: SavingGoalContribution[];
-};
-
 const getAmountForDate = (transaction: Transaction, targetDate: Date): number => {
     if (!transaction.amounts || transaction.amounts.length === 0) return 0;
     const sortedAmounts = [...transaction.amounts].sort((a, b) => {
@@ -78,6 +55,7 @@ function HouseholdsList() {
   const { currency } = useCurrency();
   const [households, setHouseholds] = useState<Household[]>([]);
   const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [pastEvents, setPastEvents] = useState<PastHouseholdEvent[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [savingsGoals, setSavingsGoals] = useState<SavingGoal[]>([]);
   const [loading, setLoading] = useState(true);
@@ -94,50 +72,22 @@ function HouseholdsList() {
     if (!user) return;
     setLoading(true);
     try {
-        const invitationQuery = query(collection(db, "invitations"), where("invitedEmail", "==", user.email));
-        const householdQuery = query(collection(db, 'households'), where('memberIds', 'array-contains', user.uid));
-        
-        const [invitationSnapshot, householdSnapshot] = await Promise.all([
-            getDocs(invitationQuery),
-            getDocs(householdQuery)
+        const [householdsData, invitationsData, pastEventsData] = await Promise.all([
+            getUserHouseholds(user.uid),
+            getInvitationsForEmail(user.email || ''),
+            getPastHouseholdEvents(user.uid),
         ]);
-        
-        const invitationsData = invitationSnapshot.docs.map(doc => ({ id: doc.id, ...(doc.data() as Omit<Invitation, 'id'>) }));
         setInvitations(invitationsData);
-        
-        const householdsData = householdSnapshot.docs.map(doc => ({ id: doc.id, ...(doc.data() as Omit<Household, 'id'>)}));
+        setPastEvents(pastEventsData);
         setHouseholds(householdsData);
 
         const householdIds = householdsData.map(h => h.id);
-      
-        if (householdIds.length > 0) {
-            const transactionsQuery = query(collection(db, 'transactions'), where('sharing', 'in', householdIds));
-            const savingsQuery = query(collection(db, 'savings'), where('sharing', 'in', householdIds));
-            const [transactionsSnapshot, savingsSnapshot] = await Promise.all([
-                getDocs(transactionsQuery),
-                getDocs(savingsQuery)
-            ]);
-
-            const transactionList = transactionsSnapshot.docs.map(doc => {
-                const data = doc.data();
-                const amounts = (data.amounts || []).map((a: any) => ({ ...a, date: a.date.toDate() }));
-                return { id: doc.id, ...data, amounts, endDate: data.endDate ? data.endDate.toDate() : null } as Transaction;
-            });
-            setTransactions(transactionList);
-
-            const savingsList = savingsSnapshot.docs.map(doc => {
-                const data = doc.data();
-                return {
-                    id: doc.id,
-                    ...data,
-                    contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-                } as SavingGoal;
-            });
-            setSavingsGoals(savingsList);
-        } else {
-            setTransactions([]);
-            setSavingsGoals([]);
-        }
+        const [transactionList, savingsList] = await Promise.all([
+            getHouseholdTransactions(householdIds),
+            getHouseholdSavingsGoals(householdIds),
+        ]);
+        setTransactions(transactionList);
+        setSavingsGoals(savingsList);
 
     } catch (error: any) {
       console.error("Error fetching households:", error);
@@ -159,44 +109,17 @@ function HouseholdsList() {
   
   const { totalSharedIncome, yourShareOfExpenses, totalSharedSavings } = useMemo(() => {
     if (!user) return { totalSharedIncome: 0, yourShareOfExpenses: 0, totalSharedSavings: 0 };
-    const today = new Date();
+    const monthEnd = endOfMonth(new Date());
 
     const income = transactions
         .filter(t => t.transactionType === 'income')
-        .reduce((sum, t) => sum + getAmountForDate(t, today), 0);
+        .reduce((sum, t) => sum + getAmountForDate(t, monthEnd), 0);
 
     const expenses = transactions
         .filter((t): t is Expense => t.transactionType === 'expense')
         .reduce((sum, t) => {
-            const totalAmount = getAmountForDate(t, today);
-            const household = households.find(h => h.id === t.sharing);
-            if (!household) return sum;
-
-            let userShare = 0;
-            const userIsMember = household.members.some(m => m.id === user.uid);
-            if (userIsMember) {
-                 if (household.splitType === 'shares' && household.splits?.length) {
-                    const totalShares = household.splits.reduce((s, split) => s + (split.share || 0), 0);
-                    if (totalShares > 0) {
-                        const userSplit = household.splits.find(s => s.memberId === user.uid);
-                        const userShares = userSplit?.share || 0;
-                        userShare = (totalAmount * userShares) / totalShares;
-                    } else {
-                        userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                    }
-                 } else if (household.splitType === 'income_ratio') {
-                    const totalIncome = household.members.reduce((s, member) => s + (member.income || 0), 0);
-                    if (totalIncome > 0) {
-                        const userIncome = household.members.find(m => m.id === user.uid)?.income || 0;
-                        userShare = (totalAmount * userIncome) / totalIncome;
-                    } else {
-                         userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                    }
-                 } else { // Equal split
-                    userShare = household.members.length > 0 ? totalAmount / household.members.length : 0;
-                 }
-            }
-            return sum + userShare;
+            const totalAmount = getAmountForDate(t, monthEnd);
+            return sum + getMemberShare(households.find(h => h.id === t.sharing), t, totalAmount, user.uid, monthEnd);
         }, 0);
     
     const savings = savingsGoals.reduce((sum, goal) => sum + goal.contributions.reduce((cSum, c) => cSum + c.amount, 0), 0);
@@ -208,26 +131,7 @@ function HouseholdsList() {
     if (!user || !user.email) return;
     try {
       const newMember: Member = { id: user.uid, name: user.displayName || 'Me', email: user.email };
-      const newHouseholdRef = doc(collection(db, "households"));
-      
-      const batch = writeBatch(db);
-      
-      batch.set(newHouseholdRef, {
-        name: values.name,
-        ownerId: user.uid,
-        members: [newMember],
-        memberIds: [user.uid],
-        pendingMemberEmails: [],
-        splitType: 'equal',
-        splits: [],
-      });
-      
-      const userDocRef = doc(db, 'users', user.uid);
-      const userDoc = await getDoc(userDocRef);
-      const userHouseholds = userDoc.exists() ? (userDoc.data().households || []) : [];
-      batch.set(userDocRef, { households: [...userHouseholds, newHouseholdRef.id] }, { merge: true });
-
-      await batch.commit();
+      await createHousehold(values.name, newMember);
 
       toast({ title: "Household Created" });
       fetchData();
@@ -238,61 +142,21 @@ function HouseholdsList() {
     }
   };
   
-  const handleDeleteHousehold = async () => {
-    if (!householdToDelete) return;
-    try {
-      await deleteDoc(doc(db, "households", householdToDelete.id));
-      toast({ title: "Household Deleted" });
-      setHouseholdToDelete(null);
-      fetchData(); 
-    } catch (error) {
-      console.error("Error deleting household: ", error);
-      toast({ variant: 'destructive', title: "Error", description: "Could not delete household." });
-    }
-  };
-  
   const handleAcceptInvitation = async (invitation: Invitation) => {
     if (!user || !user.email) return;
     try {
-        const householdRef = doc(db, 'households', invitation.householdId);
-        const householdDoc = await getDoc(householdRef);
-
-        if(!householdDoc.exists()) {
-            throw new Error("This household no longer exists.");
-        }
-
-        const householdData = householdDoc.data() as Household;
+        const newMember: Member = { id: user.uid, name: user.displayName || 'New Member', email: user.email };
+        const accepted = await acceptInvitation(invitation, newMember);
 
-        if (!householdData.pendingMemberEmails?.includes(user.email)) {
+        if (!accepted) {
             toast({
                 variant: 'destructive',
                 title: 'Invitation No Longer Valid',
                 description: 'The owner may have cancelled this invitation.',
             });
-            const invitationRef = doc(db, 'invitations', invitation.id);
-            await deleteDoc(invitationRef);
             fetchData();
             return;
         }
-        
-        const batch = writeBatch(db);
-        const newMember: Member = { id: user.uid, name: user.displayName || 'New Member', email: user.email };
-        
-        batch.update(householdRef, {
-            members: [...householdData.members, newMember],
-            memberIds: [...householdData.memberIds, user.uid],
-            pendingMemberEmails: householdData.pendingMemberEmails?.filter(email => email !== user.email) || []
-        });
-
-        const invitationRef = doc(db, 'invitations', invitation.id);
-        batch.delete(invitationRef);
-        
-        const userDocRef = doc(db, 'users', user.uid);
-        const userDoc = await getDoc(userDocRef);
-        const userHouseholds = userDoc.exists() ? (userDoc.data().households || []) : [];
-        batch.set(userDocRef, { households: [...userHouseholds, invitation.householdId] }, { merge: true });
-
-        await batch.commit();
 
         toast({ title: "Invitation Accepted!", description: `You've joined ${invitation.householdName}.`});
         fetchData();
@@ -306,19 +170,7 @@ function HouseholdsList() {
   const handleDeclineInvitation = async (invitation: Invitation) => {
     if (!user || !user.email) return;
     try {
-        const batch = writeBatch(db);
-        const invitationRef = doc(db, 'invitations', invitation.id);
-        batch.delete(invitationRef);
-        
-        const householdRef = doc(db, "households", invitation.householdId);
-        const householdDoc = await getDoc(householdRef);
-        if (householdDoc.exists()) {
-            const householdData = householdDoc.data() as Household;
-            const updatedPendingEmails = householdData.pendingMemberEmails?.filter(email => email !== user.email);
-            batch.update(householdRef, { pendingMemberEmails: updatedPendingEmails });
-        }
-
-        await batch.commit();
+        await declineInvitation(invitation, user.email);
 
         toast({ title: "Invitation Declined" });
         fetchData();
@@ -342,7 +194,7 @@ function HouseholdsList() {
       );
     }
     
-    if (households.length === 0 && invitations.length === 0) {
+    if (households.length === 0 && invitations.length === 0 && pastEvents.length === 0) {
       return (
         <Card className="text-center col-span-full">
           <CardHeader><div className="mx-auto bg-primary/10 text-primary p-3 rounded-full w-fit"><Home className="h-8 w-8" /></div><CardTitle>No Households Found</CardTitle><CardDescription>Create a household to get started with shared budgeting features.</CardDescription></CardHeader>
@@ -397,6 +249,24 @@ function HouseholdsList() {
                 </div>
             </div>
         )}
+
+        {pastEvents.length > 0 && (
+            <div>
+                <h2 className="text-xl font-semibold mb-4">Dissolved Households</h2>
+                <Card>
+                    <CardContent className="pt-6">
+                        <ul className="space-y-3">
+                            {pastEvents.map(event => (
+                                <li key={event.id} className="flex items-start justify-between gap-4 text-sm">
+                                    <span><span className="font-medium">{event.householdName}:</span> {event.message}</span>
+                                    <span className="text-muted-foreground shrink-0">{format(event.timestamp, 'PP')}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </CardContent>
+                </Card>
+            </div>
+        )}
       </div>
     );
   };
@@ -485,12 +355,7 @@ function HouseholdsList() {
         </DialogContent>
       </Dialog>
       
-       <AlertDialog open={!!householdToDelete} onOpenChange={(open) => !open && setHouseholdToDelete(null)}>
-        <AlertDialogContent>
-          <AlertDialogHeader><AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. This will permanently delete the "{householdToDelete?.name}" household.</AlertDialogDescription></AlertDialogHeader>
-          <AlertDialogFooter className="gap-2 sm:gap-0"><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={handleDeleteHousehold}>Delete</AlertDialogAction></AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+       <DissolveHouseholdDialog household={householdToDelete} onOpenChange={(open) => !open && setHouseholdToDelete(null)} onDissolved={fetchData} />
     </>
   );
 }
@@ -1,58 +1,58 @@
 
 'use client';
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { format, eachMonthOfInterval, endOfMonth, startOfDay, parseISO } from "date-fns";
+import { format, eachMonthOfInterval, endOfMonth, startOfDay } from "date-fns";
 import { cn } from '@/lib/utils';
 import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
+import { CurrencySelect } from '@/components/currency-select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { CandlestickChart, PlusCircle, Edit, Trash2, Loader2, ChevronLeft, Landmark, ArrowUpCircle, TrendingUp, HandCoins } from 'lucide-react';
+import { CandlestickChart, PlusCircle, Edit, Trash2, Loader2, ChevronLeft, Landmark, ArrowUpCircle, TrendingUp, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as ShadcnCalendar } from '@/components/ui/calendar';
 import { useToast } from '@/hooks/use-toast';
-import { db } from '@/lib/firebase';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
-import { getConversionRate } from '@/services/currency-service';
-import { getStockPrice, getHistoricalData, HistoricalDataPoint, Dividend } from '@/services/investment-service';
+import { getRateProviders, resolveConversionRate } from '@/lib/fx-providers';
+import type { RateSource } from '@/lib/fx-rates';
+import { RateSources } from '@/components/rate-sources';
+import { PerformanceSummary } from '@/components/performance-summary';
+import { BenchmarkComparison } from '@/components/benchmark-comparison';
+import { DividendLedger } from '@/components/dividend-ledger';
+import { ManualPrices } from '@/components/manual-prices';
+import { MARKET_DATA_ERROR_MESSAGES, type HistoricalDataPoint, type Dividend, type MarketDataErrorCode, type StockPriceData, type StockSplit } from '@/lib/market-data';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CalendarIcon } from 'lucide-react';
 import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { Area, AreaChart as RechartsAreaChart, CartesianGrid, Legend, XAxis, YAxis } from "recharts";
-
-
-type InvestmentTransaction = {
-  id: string;
-  date: Date;
-  shares: number;
-  price: number;
-  currency: string;
-};
-type Investment = {
-  id: string;
-  userId: string;
-  ticker: string;
-  name: string;
-  transactions: InvestmentTransaction[];
-};
+import type { CostBasisMethod, Investment, InvestmentPrice, InvestmentTransaction, PriceSource } from '@/lib/types';
+import { calculatePosition, getCashFlow, getSharesHeld, COST_BASIS_METHOD_LABELS } from '@/lib/cost-basis';
+import { calculatePerformance, toHoldingHistory, type PerformancePeriod } from '@/lib/performance';
+import { EXCHANGES, getExchange } from '@/lib/exchanges';
+import { fetchPriceHistory, fetchQuote } from '@/lib/investment-prices';
+import { getInvestment, updateInvestment } from '@/repositories/investments';
+import { getUserManualRates } from '@/repositories/manual-rates';
 
 const transactionSchema = z.object({
-  shares: z.coerce.number().refine(val => val !== 0, 'Shares cannot be zero.'),
+  type: z.enum(['buy', 'sell']),
+  shares: z.coerce.number().positive('Number of shares must be positive.'),
   price: z.coerce.number().positive('Price per share must be positive.'),
+  fees: z.coerce.number().min(0, 'Fees cannot be negative.'),
   currency: z.string().length(3, 'A currency is required.'),
   date: z.date({
     required_error: "A date for the transaction is required.",
@@ -95,15 +95,21 @@ function InvestmentDetail() {
   const [isPriceLoading, setIsPriceLoading] = useState(true);
   const [historicalPriceData, setHistoricalPriceData] = useState<HistoricalDataPoint[]>([]);
   const [dividendData, setDividendData] = useState<Dividend[]>([]);
-  const [usdToGlobalRate, setUsdToGlobalRate] = useState(1);
+  const [splitData, setSplitData] = useState<StockSplit[]>([]);
+  const [usdToGlobalRate, setUsdToGlobalRate] = useState(1); // For the benchmark
+  const [priceRate, setPriceRate] = useState(1); // From the quote currency
   const [transactionRates, setTransactionRates] = useState<Map<string, number>>(new Map());
-  const [currentPriceData, setCurrentPriceData] = useState<{price: number, change: number, changePercent: number} | null>(null);
+  const [rateSources, setRateSources] = useState<Record<string, RateSource>>({});
+  const [currentPriceData, setCurrentPriceData] = useState<StockPriceData | null>(null);
+  const [priceError, setPriceError] = useState<MarketDataErrorCode | null>(null);
+  const [performancePeriod, setPerformancePeriod] = useState<PerformancePeriod>('1y');
 
   const [isTxDialogOpen, setIsTxDialogOpen] = useState(false);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   
   const [editingTransaction, setEditingTransaction] = useState<InvestmentTransaction | null>(null);
   const [transactionToDelete, setTransactionToDelete] = useState<InvestmentTransaction | null>(null);
+  const [listingDraft, setListingDraft] = useState<Pick<Investment, 'priceSource' | 'exchange' | 'quoteCurrency'> | null>(null);
 
   const transactionForm = useForm<z.infer<typeof transactionSchema>>({
     resolver: zodResolver(transactionSchema),
@@ -113,54 +119,66 @@ function InvestmentDetail() {
     if (!investmentId || !user) return;
     setLoading(true);
 
-    const investmentRef = doc(db, 'investments', investmentId);
-    const investmentSnap = await getDoc(investmentRef);
+    const fetchedInvestment = await getInvestment(investmentId);
 
-    if (investmentSnap.exists()) {
-      const data = investmentSnap.data();
-      if (data.userId !== user.uid) {
+    if (fetchedInvestment) {
+      if (fetchedInvestment.userId !== user.uid) {
         toast({ variant: 'destructive', title: 'Access Denied' });
         router.push('/investments');
         return;
       }
-      const fetchedInvestment = {
-        id: investmentSnap.id,
-        ...data,
-        transactions: (data.transactions || []).map((t: any) => ({ ...t, currency: t.currency || 'USD', date: t.date.toDate() })),
-      } as Investment;
       setInvestment(fetchedInvestment);
 
-      const priceData = await getStockPrice(fetchedInvestment.ticker);
-      setCurrentPriceData(priceData);
+      const priceData = await fetchQuote(fetchedInvestment);
+      setCurrentPriceData(priceData.ok ? priceData.data : null);
+      setPriceError(priceData.ok ? null : priceData.error);
       setIsPriceLoading(false);
 
       if (fetchedInvestment.transactions.length > 0) {
         const earliestTx = fetchedInvestment.transactions.sort((a, b) => a.date.getTime() - b.date.getTime())[0];
-        const history = await getHistoricalData(fetchedInvestment.ticker, earliestTx.date);
-        setHistoricalPriceData(history?.prices || []);
-        setDividendData(history?.dividends || []);
+        const history = await fetchPriceHistory(fetchedInvestment, earliestTx.date);
+        setHistoricalPriceData(history.ok ? history.data.prices : []);
+        setDividendData(history.ok ? history.data.dividends : []);
+        setSplitData(history.ok ? history.data.splits : []);
+        // Without a quote the alert already says why; don't repeat it.
+        if (!history.ok && priceData.ok) {
+          toast({ variant: 'destructive', title: "Price history unavailable", description: MARKET_DATA_ERROR_MESSAGES[history.error] });
+        }
       }
 
+      const providers = getRateProviders(await getUserManualRates(user.uid));
+      const sources: Record<string, RateSource> = {};
+      const unavailable = new Set<string>();
+      const getRate = async (from: string) => {
+        const resolved = await resolveConversionRate(providers, from, globalCurrency);
+        if (resolved === null) unavailable.add(from);
+        else sources[from] = resolved.source;
+        return resolved?.rate ?? 0;
+      };
+
       if (globalCurrency !== 'USD') {
-        const rate = await getConversionRate('USD', globalCurrency);
-        setUsdToGlobalRate(rate);
+        setUsdToGlobalRate(await getRate('USD'));
       } else {
         setUsdToGlobalRate(1);
       }
+      setPriceRate(fetchedInvestment.quoteCurrency === globalCurrency ? 1 : await getRate(fetchedInvestment.quoteCurrency));
       
-      const uniqueCurrencies = [...new Set(fetchedInvestment.transactions.map(t => t.currency))];
+      const uniqueCurrencies = [...new Set([...fetchedInvestment.transactions, ...fetchedInvestment.dividends].map(t => t.currency))];
       const rates = new Map<string, number>();
       await Promise.all(
         uniqueCurrencies.map(async (curr) => {
           if (curr !== globalCurrency) {
-            const rate = await getConversionRate(curr, globalCurrency);
-rates.set(curr, rate);
+            rates.set(curr, await getRate(curr));
           } else {
             rates.set(curr, 1);
           }
         })
       );
       setTransactionRates(rates);
+      setRateSources(sources);
+      if (unavailable.size > 0) {
+        toast({ variant: 'destructive', title: 'Exchange rate unavailable', description: `Amounts in ${[...unavailable].join(', ')} can't be converted to ${globalCurrency} right now and are shown as zero.` });
+      }
 
     } else {
       toast({ variant: 'destructive', title: 'Not Found' });
@@ -178,7 +196,7 @@ rates.set(curr, rate);
       if (editingTransaction) {
         transactionForm.reset(editingTransaction);
       } else {
-        transactionForm.reset({ shares: 0, price: 0, currency: globalCurrency, date: new Date() });
+        transactionForm.reset({ type: 'buy', shares: 0, price: 0, fees: 0, currency: globalCurrency, date: new Date() });
       }
     }
   }, [editingTransaction, isTxDialogOpen, transactionForm, globalCurrency]);
@@ -195,10 +213,14 @@ rates.set(curr, rate);
       const newTransaction = { ...values, id: crypto.randomUUID() };
       updatedTransactions = [...investment.transactions, newTransaction];
     }
+
+    if (calculatePosition(updatedTransactions, investment.costBasisMethod).oversold.length > 0) {
+      toast({ variant: 'destructive', title: "Not Enough Shares", description: "A sale can't be for more shares than you held on its date." });
+      return;
+    }
     
     try {
-      const investmentRef = doc(db, "investments", investment.id);
-      await updateDoc(investmentRef, { transactions: updatedTransactions });
+      await updateInvestment(investment.id, { transactions: updatedTransactions });
       toast({ title: editingTransaction ? "Transaction Updated" : "Transaction Added" });
       fetchInvestment();
     } catch(error) {
@@ -222,9 +244,15 @@ rates.set(curr, rate);
 
     const updatedTransactions = investment.transactions.filter(t => t.id !== transactionToDelete.id);
 
+    if (calculatePosition(updatedTransactions, investment.costBasisMethod).oversold.length > 0) {
+        toast({ variant: 'destructive', title: "Error", description: "Later sales depend on these shares. Delete or change those sales first." });
+        setIsDeleteConfirmOpen(false);
+        setTransactionToDelete(null);
+        return;
+    }
+
     try {
-      const investmentRef = doc(db, "investments", investment.id);
-      await updateDoc(investmentRef, { transactions: updatedTransactions });
+      await updateInvestment(investment.id, { transactions: updatedTransactions });
       toast({ title: "Transaction Deleted" });
       fetchInvestment();
     } catch (error) {
@@ -236,57 +264,109 @@ rates.set(curr, rate);
     }
   };
 
+  const handleCostBasisMethodChange = async (method: CostBasisMethod) => {
+    if (!investment) return;
+    try {
+      await updateInvestment(investment.id, { costBasisMethod: method });
+      setInvestment({ ...investment, costBasisMethod: method });
+    } catch (error) {
+      console.error("Error saving cost basis method: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not change the cost basis method." });
+    }
+  };
+
+  const handleListingSave = async () => {
+    if (!investment || !listingDraft) return;
+    try {
+      await updateInvestment(investment.id, listingDraft);
+      toast({ title: "Listing Updated" });
+      setListingDraft(null);
+      fetchInvestment();
+    } catch (error) {
+      console.error("Error saving listing: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not update the listing." });
+    }
+  };
+
+  const handleManualPricesSave = async (manualPrices: InvestmentPrice[]) => {
+    if (!investment) return false;
+    try {
+      await updateInvestment(investment.id, { manualPrices });
+      fetchInvestment();
+      return true;
+    } catch (error) {
+      console.error("Error saving prices: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not save the price." });
+      return false;
+    }
+  };
+
+  const handleDividendsSave = async (changes: Pick<Investment, 'dividends' | 'transactions'>, message: string) => {
+    if (!investment) return false;
+    if (calculatePosition(changes.transactions, investment.costBasisMethod).oversold.length > 0) {
+      toast({ variant: 'destructive', title: "Not Enough Shares", description: "Later sales depend on the shares this dividend bought. Change those sales first." });
+      return false;
+    }
+    try {
+      await updateInvestment(investment.id, changes);
+      toast({ title: message });
+      fetchInvestment();
+      return true;
+    } catch (error) {
+      console.error("Error saving dividend: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not save the dividend." });
+      return false;
+    }
+  };
+
+  const reinvestmentIds = useMemo(
+    () => new Set(investment?.dividends.flatMap(d => d.reinvestTransactionId ? [d.reinvestTransactionId] : []) ?? []),
+    [investment]
+  );
+
+  const handleEditOrDeleteReinvestment = () => {
+    toast({ title: "Reinvested Dividend", description: "This buy was made by a reinvested dividend. Edit or delete the dividend instead." });
+  };
+
   const {
+    position,
     totalShares,
     currentValue,
     totalCost,
     totalGainLoss,
     totalGainLossPercent,
   } = useMemo(() => {
-    if (!investment || !currentPriceData || transactionRates.size === 0) return { totalShares: 0, currentValue: 0, totalCost: 0, totalGainLoss: 0, totalGainLossPercent: 0 };
-
-    const shares = investment.transactions.reduce((sum, t) => sum + t.shares, 0);
-    const value = shares * currentPriceData.price * usdToGlobalRate;
+    if (!investment || transactionRates.size === 0) return { position: null, totalShares: 0, currentValue: null, totalCost: 0, totalGainLoss: null, totalGainLossPercent: null };
 
-    const cost = investment.transactions.reduce((sum, t) => {
-        const rate = transactionRates.get(t.currency) || 1;
-        return sum + (t.shares * t.price * rate);
-    }, 0);
+    const convert = (amount: number, currency: string) => amount * (transactionRates.get(currency) ?? 0);
+    const heldPosition = calculatePosition(investment.transactions, investment.costBasisMethod, convert);
+    // Without a price there is no value, rather than a value of 0.
+    const value = currentPriceData ? heldPosition.shares * currentPriceData.price * priceRate : null;
     
-    const gainLoss = value - cost;
-    const gainLossPercent = cost > 0 ? (gainLoss / cost) * 100 : 0;
+    const gainLoss = value !== null ? value - heldPosition.costBasis : null;
+    const gainLossPercent = gainLoss !== null && heldPosition.costBasis > 0 ? (gainLoss / heldPosition.costBasis) * 100 : 0;
 
     return { 
-      totalShares: shares,
+      position: heldPosition,
+      totalShares: heldPosition.shares,
       currentValue: value,
-      totalCost: cost,
+      totalCost: heldPosition.costBasis,
       totalGainLoss: gainLoss,
       totalGainLossPercent: gainLossPercent
     };
-  }, [investment, currentPriceData, usdToGlobalRate, transactionRates]);
+  }, [investment, currentPriceData, priceRate, transactionRates]);
   
-  const { totalDividends, relevantDividends } = useMemo(() => {
-    if (!investment || dividendData.length === 0) return { totalDividends: 0, relevantDividends: [] };
-    
-    const sortedTransactions = [...investment.transactions].sort((a,b) => a.date.getTime() - b.date.getTime());
-    let currentShares = 0;
-    
-    const relevantDivs = dividendData.map(div => {
-      const divDate = parseISO(div.date);
-      currentShares = sortedTransactions
-        .filter(t => t.date <= divDate)
-        .reduce((sum, t) => sum + t.shares, 0);
-      
-      if (currentShares > 0) {
-        return { ...div, sharesHeld: currentShares, totalPayout: currentShares * div.amount };
-      }
-      return null;
-    }).filter(Boolean) as (Dividend & { sharesHeld: number, totalPayout: number })[];
+  const convertToGlobal = useCallback((amount: number, currency: string) => amount * (transactionRates.get(currency) ?? 0), [transactionRates]);
 
-    const total = relevantDivs.reduce((sum, div) => sum + div.totalPayout, 0) * usdToGlobalRate;
+  const holdingHistory = useMemo(() => {
+    if (!investment || historicalPriceData.length === 0 || transactionRates.size === 0) return [];
+    const holding = toHoldingHistory(investment.transactions, { prices: historicalPriceData, dividends: dividendData, splits: splitData }, () => priceRate);
+    return holding ? [holding] : [];
+  }, [investment, historicalPriceData, dividendData, splitData, priceRate, transactionRates]);
 
-    return { totalDividends: total, relevantDividends: relevantDivs.sort((a,b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()) };
-  }, [investment, dividendData, usdToGlobalRate]);
+  const performance = useMemo(() => {
+    return holdingHistory.length > 0 ? calculatePerformance(holdingHistory, performancePeriod, convertToGlobal) : null;
+  }, [holdingHistory, performancePeriod, convertToGlobal]);
 
   const {stackedChartData, gradientStops} = useMemo(() => {
     if (!investment || historicalPriceData.length === 0 || transactionRates.size === 0) return {stackedChartData: [], gradientStops: []};
@@ -303,8 +383,8 @@ rates.set(curr, rate);
     const firstTxDate = startOfDay(sortedTransactions[0].date);
     
     const initialTxs = sortedTransactions.filter(t => startOfDay(t.date).getTime() === firstTxDate.getTime());
-    const initialCapitalNative = initialTxs.reduce((sum, t) => sum + (t.shares * t.price), 0);
-    const initialCapital = initialCapitalNative * (transactionRates.get(initialTxs[0].currency) || 1);
+    const initialCapitalNative = initialTxs.reduce((sum, t) => sum + getCashFlow(t), 0);
+    const initialCapital = initialCapitalNative * (transactionRates.get(initialTxs[0].currency) ?? 0);
 
     const dataPoints = [];
     for (const month of months) {
@@ -320,17 +400,15 @@ rates.set(curr, rate);
         }
         priceOnDate = priceOnDate || 0;
 
-        const sharesOnDate = sortedTransactions
-            .filter(t => t.date <= monthEnd)
-            .reduce((sum, t) => sum + t.shares, 0);
+        const sharesOnDate = getSharesHeld(sortedTransactions, monthEnd);
 
-        const valueOnDate = sharesOnDate * priceOnDate * usdToGlobalRate;
+        const valueOnDate = sharesOnDate * priceOnDate * priceRate;
 
         const contributionsOnDate = sortedTransactions
             .filter(t => t.date <= monthEnd && startOfDay(t.date).getTime() > firstTxDate.getTime())
             .reduce((sum, t) => {
-                const rate = transactionRates.get(t.currency) || 1;
-                return sum + (t.shares * t.price * rate);
+                const rate = transactionRates.get(t.currency) ?? 0;
+                return sum + (getCashFlow(t) * rate);
             }, 0);
 
         const totalInvestedOnDate = initialCapital + contributionsOnDate;
@@ -373,7 +451,7 @@ rates.set(curr, rate);
 
     return {stackedChartData: dataPoints, gradientStops: stops};
 
-  }, [investment, historicalPriceData, usdToGlobalRate, transactionRates]);
+  }, [investment, historicalPriceData, priceRate, transactionRates]);
 
   if (loading) {
      return (
@@ -390,7 +468,8 @@ rates.set(curr, rate);
     return null; // Or some not found component
   }
 
-  const gainLossColor = totalGainLoss >= 0 ? 'text-green-400' : 'text-red-400';
+  const gainLossColor = (totalGainLoss ?? 0) >= 0 ? 'text-green-400' : 'text-red-400';
+  const realisedGain = position?.realisedGain ?? 0;
 
   return (
     <>
@@ -404,20 +483,27 @@ rates.set(curr, rate);
             </div>
             
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
                 <div className="flex items-center gap-4">
                   <CandlestickChart className="h-8 w-8 text-primary" />
                   <div>
                     <CardTitle className="text-3xl">{investment.name} ({investment.ticker})</CardTitle>
-                    <CardDescription>Values displayed in {globalCurrency}.</CardDescription>
+                    <CardDescription>
+                      Quoted in {investment.quoteCurrency}{investment.exchange ? ` on ${investment.exchange}` : ''}, {investment.priceSource === 'manual' ? 'priced manually' : 'priced from market data'}. Values displayed in {globalCurrency}.
+                    </CardDescription>
                   </div>
                 </div>
+                <Button variant="outline" onClick={() => setListingDraft({ priceSource: investment.priceSource, exchange: investment.exchange, quoteCurrency: investment.quoteCurrency })} className="w-full sm:w-auto">
+                  <Edit className="mr-2 h-4 w-4" /> Edit Listing
+                </Button>
               </CardHeader>
-              <CardContent className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+              <CardContent className="grid gap-6 md:grid-cols-2 lg:grid-cols-5">
                  <Card className="flex flex-col">
                     <CardHeader className="flex-grow"><CardTitle className="text-base font-medium">Current Value</CardTitle></CardHeader>
                     <CardContent>
-                        {isPriceLoading ? <Skeleton className="h-9 w-3/4" /> : <p className="text-3xl font-bold tracking-tight">{formatCurrency(currentValue, globalCurrency)}</p>}
+                        {isPriceLoading ? <Skeleton className="h-9 w-3/4" /> : currentValue === null ? (
+                          <p className="text-3xl font-bold tracking-tight text-muted-foreground">Unavailable</p>
+                        ) : <p className="text-3xl font-bold tracking-tight">{formatCurrency(currentValue, globalCurrency)}</p>}
                     </CardContent>
                  </Card>
                   <Card className="flex flex-col">
@@ -427,23 +513,53 @@ rates.set(curr, rate);
                     </CardContent>
                  </Card>
                  <Card className="flex flex-col">
-                    <CardHeader className="flex-grow"><CardTitle className="text-base font-medium">Total Cost</CardTitle></CardHeader>
+                    <CardHeader className="flex-grow"><CardTitle className="text-base font-medium">Cost Basis</CardTitle></CardHeader>
                     <CardContent>
                         <p className="text-3xl font-bold tracking-tight">{formatCurrency(totalCost, globalCurrency)}</p>
                     </CardContent>
                  </Card>
                  <Card className="flex flex-col">
-                    <CardHeader className="flex-grow"><CardTitle className="text-base font-medium">Total Gain/Loss</CardTitle></CardHeader>
+                    <CardHeader className="flex-grow"><CardTitle className="text-base font-medium">Unrealised Gain/Loss</CardTitle></CardHeader>
+                    <CardContent>
+                        {totalGainLoss === null ? (
+                          <p className="text-3xl font-bold tracking-tight text-muted-foreground">—</p>
+                        ) : (
+                          <p className={`text-3xl font-bold tracking-tight ${gainLossColor}`}>
+                              <span>{formatCurrency(totalGainLoss, globalCurrency)}</span>
+                              <span className="text-lg ml-2">({(totalGainLossPercent ?? 0).toFixed(2)}%)</span>
+                          </p>
+                        )}
+                    </CardContent>
+                 </Card>
+                 <Card className="flex flex-col">
+                    <CardHeader className="flex-grow"><CardTitle className="text-base font-medium">Realised Gain/Loss</CardTitle></CardHeader>
                     <CardContent>
-                        <p className={`text-3xl font-bold tracking-tight ${gainLossColor}`}>
-                            <span>{formatCurrency(totalGainLoss, globalCurrency)}</span>
-                            <span className="text-lg ml-2">({totalGainLossPercent.toFixed(2)}%)</span>
+                        <p className={`text-3xl font-bold tracking-tight ${realisedGain >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {formatCurrency(realisedGain, globalCurrency)}
                         </p>
                     </CardContent>
                  </Card>
               </CardContent>
             </Card>
+
+            {priceError && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Price unavailable</AlertTitle>
+                <AlertDescription>
+                  {MARKET_DATA_ERROR_MESSAGES[priceError]} Until there is one, this holding has no current value.
+                </AlertDescription>
+              </Alert>
+            )}
             
+            {investment.priceSource === 'manual' && (
+              <ManualPrices prices={investment.manualPrices} currency={investment.quoteCurrency} onSave={handleManualPricesSave} />
+            )}
+
+            <PerformanceSummary title="Performance" period={performancePeriod} onPeriodChange={setPerformancePeriod} result={performance} currency={globalCurrency} />
+
+            <BenchmarkComparison title="Compared to a Benchmark" holdings={holdingHistory} convert={convertToGlobal} priceRate={usdToGlobalRate} currency={globalCurrency} />
+
             {stackedChartData.length > 0 && (
                  <Card>
                     <CardHeader>
@@ -509,48 +625,94 @@ rates.set(curr, rate);
                             <Area dataKey="growth" type="monotone" fill="url(#growthGradient)" stroke="url(#growthGradient)" stackId="1" name="growth" />
                         </RechartsAreaChart>
                     </ChartContainer>
+                    <RateSources sources={rateSources} currency={globalCurrency} />
                     </CardContent>
                 </Card>
             )}
             
-            {relevantDividends.length > 0 && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2"><HandCoins className="h-6 w-6 text-primary" />Dividend History</CardTitle>
-                  <CardDescription>
-                    You've received a total of <span className="font-bold">{formatCurrency(totalDividends, globalCurrency)}</span> in dividends.
-                  </CardDescription>
+            <DividendLedger investment={investment} marketDividends={dividendData} convert={convertToGlobal} currency={globalCurrency} onSave={handleDividendsSave} />
+
+            <Card>
+                <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                    <div>
+                        <CardTitle>Lots</CardTitle>
+                        <CardDescription>The shares still held from each purchase, and the gain each sale realised.</CardDescription>
+                    </div>
+                    <Select value={investment.costBasisMethod} onValueChange={(value) => handleCostBasisMethodChange(value as CostBasisMethod)}>
+                        <SelectTrigger className="w-full sm:w-[260px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(COST_BASIS_METHOD_LABELS) as CostBasisMethod[]).map(method => (
+                                <SelectItem key={method} value={method}>{COST_BASIS_METHOD_LABELS[method]}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
                 </CardHeader>
-                <CardContent>
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Ex-Dividend Date</TableHead>
-                        <TableHead className="text-right">Amount per Share</TableHead>
-                        <TableHead className="text-right">Shares Held</TableHead>
-                        <TableHead className="text-right">Total Payout</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {relevantDividends.map((div, i) => (
-                        <TableRow key={i}>
-                          <TableCell>{format(parseISO(div.date), 'PP')}</TableCell>
-                          <TableCell className="text-right font-mono">{formatCurrency(div.amount, 'USD')}</TableCell>
-                          <TableCell className="text-right">{div.sharesHeld.toLocaleString()}</TableCell>
-                          <TableCell className="text-right font-mono">{formatCurrency(div.totalPayout, 'USD')}</TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
+                <CardContent className="space-y-6">
+                    {investment.costBasisMethod === 'average' && (
+                        <p className="text-sm text-muted-foreground">With average cost, every lot carries the pooled cost per share and sales reduce all lots evenly.</p>
+                    )}
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Acquired</TableHead>
+                                <TableHead className="text-right">Shares</TableHead>
+                                <TableHead className="text-right">Cost per Share</TableHead>
+                                <TableHead className="text-right">Cost Basis</TableHead>
+                                <TableHead className="text-right">Market Value</TableHead>
+                                <TableHead className="text-right">Unrealised Gain/Loss</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {!position || position.lots.length === 0 ? (
+                                <TableRow><TableCell colSpan={6} className="text-center text-muted-foreground">No shares held.</TableCell></TableRow>
+                            ) : position.lots.map(lot => {
+                                const lotCost = lot.shares * lot.costPerShare;
+                                const lotValue = currentPriceData ? lot.shares * currentPriceData.price * priceRate : null;
+                                return (
+                                    <TableRow key={lot.transactionId}>
+                                        <TableCell>{formatDate(lot.date)}</TableCell>
+                                        <TableCell className="text-right">{lot.shares.toLocaleString()}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatCurrency(lot.costPerShare, globalCurrency)}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatCurrency(lotCost, globalCurrency)}</TableCell>
+                                        <TableCell className="text-right font-mono">{lotValue === null ? '—' : formatCurrency(lotValue, globalCurrency)}</TableCell>
+                                        <TableCell className={cn("text-right font-mono", lotValue === null ? 'text-muted-foreground' : lotValue - lotCost >= 0 ? 'text-green-400' : 'text-red-400')}>{lotValue === null ? '—' : formatCurrency(lotValue - lotCost, globalCurrency)}</TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                    {position && position.sales.length > 0 && (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Sold</TableHead>
+                                    <TableHead className="text-right">Shares</TableHead>
+                                    <TableHead className="text-right">Proceeds</TableHead>
+                                    <TableHead className="text-right">Cost</TableHead>
+                                    <TableHead className="text-right">Realised Gain/Loss</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {[...position.sales].reverse().map(sale => (
+                                    <TableRow key={sale.transactionId}>
+                                        <TableCell>{formatDate(sale.date)}</TableCell>
+                                        <TableCell className="text-right">{sale.shares.toLocaleString()}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatCurrency(sale.proceeds, globalCurrency)}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatCurrency(sale.cost, globalCurrency)}</TableCell>
+                                        <TableCell className={cn("text-right font-mono", sale.gain >= 0 ? 'text-green-400' : 'text-red-400')}>{formatCurrency(sale.gain, globalCurrency)}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
                 </CardContent>
-              </Card>
-            )}
+            </Card>
 
             <Card>
                 <CardHeader className="flex flex-row items-center justify-between">
                     <div>
                         <CardTitle>Transaction History</CardTitle>
-                        <CardDescription>All buy and sell transactions for this holding.</CardDescription>
+                        <CardDescription>All buy and sell transactions for this holding, including buys made by reinvested dividends.</CardDescription>
                     </div>
                     <Button onClick={() => setIsTxDialogOpen(true)}>
                         <PlusCircle className="mr-2 h-4 w-4" /> Add Transaction
@@ -564,7 +726,8 @@ rates.set(curr, rate);
                                 <TableHead>Type</TableHead>
                                 <TableHead className="text-right">Shares</TableHead>
                                 <TableHead className="text-right">Price</TableHead>
-                                <TableHead className="text-right">Total Cost</TableHead>
+                                <TableHead className="text-right">Fees</TableHead>
+                                <TableHead className="text-right">Total</TableHead>
                                 <TableHead className="text-right w-[100px]">Actions</TableHead>
                             </TableRow>
                         </TableHeader>
@@ -572,15 +735,16 @@ rates.set(curr, rate);
                             {investment.transactions.sort((a,b) => b.date.getTime() - a.date.getTime()).map(tx => (
                                 <TableRow key={tx.id}>
                                     <TableCell>{formatDate(tx.date)}</TableCell>
-                                    <TableCell className={tx.shares > 0 ? 'text-green-400' : 'text-red-400'}>{tx.shares > 0 ? 'Buy' : 'Sell'}</TableCell>
+                                    <TableCell className={tx.type === 'buy' ? 'text-green-400' : 'text-red-400'}>{reinvestmentIds.has(tx.id) ? 'Buy (DRIP)' : tx.type === 'buy' ? 'Buy' : 'Sell'}</TableCell>
                                     <TableCell className="text-right">{tx.shares}</TableCell>
                                     <TableCell className="text-right font-mono">{formatCurrency(tx.price, tx.currency)}</TableCell>
-                                    <TableCell className="text-right font-mono">{formatCurrency(tx.shares * tx.price, tx.currency)}</TableCell>
+                                    <TableCell className="text-right font-mono">{formatCurrency(tx.fees, tx.currency)}</TableCell>
+                                    <TableCell className="text-right font-mono">{formatCurrency(Math.abs(getCashFlow(tx)), tx.currency)}</TableCell>
                                     <TableCell className="text-right">
-                                        <Button variant="ghost" size="icon" onClick={() => { setEditingTransaction(tx); setIsTxDialogOpen(true); }}>
+                                        <Button variant="ghost" size="icon" onClick={() => { if (reinvestmentIds.has(tx.id)) return handleEditOrDeleteReinvestment(); setEditingTransaction(tx); setIsTxDialogOpen(true); }}>
                                             <Edit className="h-4 w-4" />
                                         </Button>
-                                        <Button variant="ghost" size="icon" onClick={() => { setTransactionToDelete(tx); setIsDeleteConfirmOpen(true); }}>
+                                        <Button variant="ghost" size="icon" onClick={() => { if (reinvestmentIds.has(tx.id)) return handleEditOrDeleteReinvestment(); setTransactionToDelete(tx); setIsDeleteConfirmOpen(true); }}>
                                             <Trash2 className="h-4 w-4" />
                                         </Button>
                                     </TableCell>
@@ -600,26 +764,34 @@ rates.set(curr, rate);
           </DialogHeader>
           <Form {...transactionForm}>
             <form onSubmit={transactionForm.handleSubmit(handleTransactionSubmit)} className="space-y-4 py-4">
-              <div className="grid grid-cols-2 gap-4">
+              <FormField control={transactionForm.control} name="type" render={({ field }) => (
+                <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                            <SelectItem value="buy">Buy</SelectItem>
+                            <SelectItem value="sell">Sell</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <FormMessage />
+                </FormItem>
+              )} />
+              <div className="grid grid-cols-3 gap-4">
                 <FormField control={transactionForm.control} name="shares" render={({ field }) => (
                     <FormItem><FormLabel>Shares</FormLabel><FormControl><Input type="number" step="any" {...field} /></FormControl><FormMessage /></FormItem>
                 )} />
                 <FormField control={transactionForm.control} name="price" render={({ field }) => (
                     <FormItem><FormLabel>Price per Share</FormLabel><FormControl><Input type="number" step="any" {...field} /></FormControl><FormMessage /></FormItem>
                 )} />
+                <FormField control={transactionForm.control} name="fees" render={({ field }) => (
+                    <FormItem><FormLabel>Fees</FormLabel><FormControl><Input type="number" step="any" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
               </div>
               <FormField control={transactionForm.control} name="currency" render={({ field }) => (
                 <FormItem>
                     <FormLabel>Currency</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
-                        <SelectContent>
-                            <SelectItem value="USD">USD - US Dollar</SelectItem>
-                            <SelectItem value="EUR">EUR - Euro</SelectItem>
-                            <SelectItem value="GBP">GBP - British Pound</SelectItem>
-                            <SelectItem value="HUF">HUF - Hungarian Forint</SelectItem>
-                        </SelectContent>
-                    </Select>
+                    <CurrencySelect value={field.value} onChange={field.onChange} />
                     <FormMessage />
                 </FormItem>
               )} />
@@ -646,6 +818,55 @@ rates.set(curr, rate);
         </DialogContent>
       </Dialog>
       
+      <Dialog open={!!listingDraft} onOpenChange={(open) => !open && setListingDraft(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Listing</DialogTitle>
+          </DialogHeader>
+          {listingDraft && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>Prices</Label>
+                <Select value={listingDraft.priceSource} onValueChange={(value) => setListingDraft({ ...listingDraft, priceSource: value as PriceSource })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="market">From market data</SelectItem>
+                    <SelectItem value="manual">Entered manually</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Exchange</Label>
+                <Select
+                  value={listingDraft.exchange ?? 'none'}
+                  onValueChange={(value) => {
+                    const exchange = getExchange(value);
+                    setListingDraft({ ...listingDraft, exchange: exchange?.code ?? null, quoteCurrency: exchange?.currency ?? listingDraft.quoteCurrency });
+                  }}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not listed / unknown</SelectItem>
+                    {EXCHANGES.map(exchange => (
+                      <SelectItem key={exchange.code} value={exchange.code}>{exchange.code} · {exchange.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Quoted In</Label>
+                <CurrencySelect value={listingDraft.quoteCurrency} onChange={(quoteCurrency) => setListingDraft({ ...listingDraft, quoteCurrency })} includeQuoteUnits />
+                <p className="text-sm text-muted-foreground">The currency its prices are in. Transactions keep the currency they were paid in.</p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setListingDraft(null)}>Cancel</Button>
+            <Button onClick={handleListingSave}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -7,6 +7,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
+import { CurrencySelect } from '@/components/currency-select';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -14,57 +15,64 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Skeleton } from '@/components/ui/skeleton';
 import { PlusCircle, Edit, Trash2, Loader2, TrendingUp, TrendingDown, Search, Filter, CalendarIcon } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
-import { db } from '@/lib/firebase';
-import { collection, getDocs, addDoc, doc, updateDoc, deleteDoc, query, where } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
-import { getStockPrice, searchStocks, StockSearchResult } from '@/services/investment-service';
+import { searchStocks } from '@/services/investment-service';
+import { MARKET_DATA_ERROR_MESSAGES, type FullHistoricalData, type MarketDataErrorCode, type StockSearchResult } from '@/lib/market-data';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { Check } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuCheckboxItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { getConversionRate } from '@/services/currency-service';
-import { format as formatDate } from "date-fns";
+import { getRateProviders, resolveConversionRate, resolveRateSeries } from '@/lib/fx-providers';
+import { createRateLookup, type RateSeries, type RateSource } from '@/lib/fx-rates';
+import { RateSources } from '@/components/rate-sources';
+import { PerformanceSummary, formatReturn, returnColor } from '@/components/performance-summary';
+import { BenchmarkComparison } from '@/components/benchmark-comparison';
+import { DividendYearsTable } from '@/components/dividend-ledger';
+import { format as formatDate, startOfMonth } from "date-fns";
 import { useRouter } from 'next/navigation';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Investment, InvestmentTransaction } from '@/lib/types';
+import { calculatePosition, type AmountConverter } from '@/lib/cost-basis';
+import { summariseDividendsByYear } from '@/lib/dividends';
+import { EXCHANGES, getExchange } from '@/lib/exchanges';
+import { fetchPriceHistory, fetchQuote } from '@/lib/investment-prices';
+import { calculatePerformance, toHoldingHistory, PERFORMANCE_PERIOD_LABELS, type HoldingHistory, type PerformancePeriod, type PerformanceResult } from '@/lib/performance';
+import { addInvestment, deleteInvestment, getUserInvestments, updateInvestment } from '@/repositories/investments';
+import { getUserManualRates } from '@/repositories/manual-rates';
 
 
-type InvestmentTransaction = {
-    id: string;
-    date: Date;
-    shares: number;
-    price: number;
-    currency: string;
-};
-
-type Investment = {
-  id: string;
-  userId: string;
-  ticker: string;
-  name: string;
-  transactions: InvestmentTransaction[];
-};
-
 type ProcessedInvestment = Investment & {
   totalShares: number;
-  totalCost: number;
-  totalGainLoss: number;
+  totalCost: number; // Cost basis of the shares still held
+  realisedGain: number;
+  totalGainLoss: number; // Unrealised
   totalGainLossPercent: number;
   currentPrice?: number;
   currentValue?: number;
   change?: number;
   changePercent?: number;
+  priceError?: MarketDataErrorCode; // Set instead of a price when the quote failed
 };
 
+function PriceUnavailable({ error }: { error: MarketDataErrorCode }) {
+  return <span className="text-sm text-muted-foreground" title={MARKET_DATA_ERROR_MESSAGES[error]}>Unavailable</span>;
+}
+
 const investmentSchema = z.object({
-  ticker: z.string().min(1, 'Ticker symbol is required.').max(10, 'Ticker is too long.').transform(v => v.toUpperCase()),
+  priceSource: z.enum(['market', 'manual']),
+  ticker: z.string().min(1, 'Ticker symbol is required.').max(12, 'Ticker is too long.').transform(v => v.toUpperCase()),
   name: z.string().min(1, 'Stock name is required'),
+  exchange: z.string(), // '' when not known
+  quoteCurrency: z.string().length(3, 'A quote currency is required.'),
   shares: z.coerce.number().positive('Number of shares must be positive.'),
   price: z.coerce.number().positive('Price per share must be positive.'),
+  fees: z.coerce.number().min(0, 'Fees cannot be negative.'),
   currency: z.string().length(3, 'A currency is required.'),
   date: z.date({ required_error: "A purchase date is required." }),
 });
@@ -73,6 +81,7 @@ function StockSearch({ onSelect, initialValue }: { onSelect: (stock: StockSearch
   const [open, setOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<StockSearchResult[]>([]);
+  const [searchError, setSearchError] = useState<MarketDataErrorCode | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [selectedStock, setSelectedStock] = useState<StockSearchResult | null>(null);
   const [typeFilter, setTypeFilter] = useState<string[]>([]);
@@ -80,7 +89,7 @@ function StockSearch({ onSelect, initialValue }: { onSelect: (stock: StockSearch
 
   useEffect(() => {
     if (initialValue && (!selectedStock || selectedStock.symbol !== initialValue.ticker)) {
-        setSelectedStock({ symbol: initialValue.ticker, name: initialValue.name, type: '', region: '', currency: '', uniqueKey: `${initialValue.ticker}-${initialValue.name}` });
+        setSelectedStock({ symbol: initialValue.ticker, name: initialValue.name, type: '', region: '', exchange: null, currency: '', uniqueKey: `${initialValue.ticker}-${initialValue.name}` });
     }
   }, [initialValue, selectedStock]);
 
@@ -92,7 +101,8 @@ function StockSearch({ onSelect, initialValue }: { onSelect: (stock: StockSearch
     const debounce = setTimeout(async () => {
       setIsSearching(true);
       const results = await searchStocks(searchQuery);
-      setSearchResults(results);
+      setSearchResults(results.ok ? results.data : []);
+      setSearchError(results.ok ? null : results.error);
       setIsSearching(false);
     }, 500);
 
@@ -195,7 +205,7 @@ function StockSearch({ onSelect, initialValue }: { onSelect: (stock: StockSearch
            )}
           <CommandList>
             {isSearching && <CommandEmpty>Searching...</CommandEmpty>}
-            {!isSearching && filteredDisplayResults.length === 0 && searchQuery.length > 1 && <CommandEmpty>No results found.</CommandEmpty>}
+            {!isSearching && filteredDisplayResults.length === 0 && searchQuery.length > 1 && <CommandEmpty>{searchError ? MARKET_DATA_ERROR_MESSAGES[searchError] : 'No results found.'}</CommandEmpty>}
             <CommandGroup>
               {filteredDisplayResults.map((result) => (
                 <CommandItem
@@ -233,61 +243,91 @@ function Investments() {
   const [editingInvestment, setEditingInvestment] = useState<Investment | null>(null);
   const [investmentToDelete, setInvestmentToDelete] = useState<Investment | null>(null);
   const [conversionRates, setConversionRates] = useState<Map<string, number>>(new Map());
+  const [rateSources, setRateSources] = useState<Record<string, RateSource>>({});
+  const [rateSeries, setRateSeries] = useState<Record<string, RateSeries | null> | null>(null); // Dated rates, for history
+  const [histories, setHistories] = useState<Map<string, FullHistoricalData | null> | null>(null);
+  const [performancePeriod, setPerformancePeriod] = useState<PerformancePeriod>('1y');
   const { toast } = useToast();
   
   const form = useForm<z.infer<typeof investmentSchema>>({
     resolver: zodResolver(investmentSchema),
-    defaultValues: { ticker: '', name: '', shares: 0, price: 0, currency: currency, date: new Date() },
+    defaultValues: { priceSource: 'market', ticker: '', name: '', exchange: '', quoteCurrency: 'USD', shares: 0, price: 0, fees: 0, currency: currency, date: new Date() },
   });
+  const priceSource = form.watch('priceSource');
+
+  const fetchHistories = useCallback(async (investmentsList: Investment[]) => {
+    setHistories(null);
+    const entries = await Promise.all(investmentsList.map(async (inv): Promise<[string, FullHistoricalData | null]> => {
+      if (inv.transactions.length === 0) return [inv.id, null];
+      const earliestTxDate = inv.transactions.reduce((earliest, t) => t.date < earliest ? t.date : earliest, inv.transactions[0].date);
+      try {
+        const history = await fetchPriceHistory(inv, earliestTxDate);
+        return [inv.id, history.ok ? history.data : null];
+      } catch (error) {
+        console.error(`Error fetching price history for ${inv.ticker}:`, error);
+        return [inv.id, null];
+      }
+    }));
+    setHistories(new Map(entries));
+  }, []);
 
   const fetchInvestmentData = useCallback(async () => {
     if (!user) return;
     setIsDataLoading(true);
     try {
-      const q = query(collection(db, 'investments'), where('userId', '==', user.uid));
-      const querySnapshot = await getDocs(q);
-      const investmentsList = querySnapshot.docs.map(doc => {
-          const data = doc.data();
-          return {
-              id: doc.id,
-              ...data,
-              transactions: (data.transactions || []).map((t: any) => ({ ...t, currency: t.currency || 'USD', date: t.date.toDate() }))
-          } as Investment
-      });
+      const [investmentsList, manualRates] = await Promise.all([
+        getUserInvestments(user.uid),
+        getUserManualRates(user.uid),
+      ]);
+      const providers = getRateProviders(manualRates);
       
-      const uniqueCurrencies = new Set(investmentsList.flatMap(inv => inv.transactions.map(t => t.currency)));
-      uniqueCurrencies.add('USD'); // Always need USD for stock prices
+      const uniqueCurrencies = new Set(investmentsList.flatMap(inv => [inv.quoteCurrency, ...[...inv.transactions, ...inv.dividends].map(t => t.currency)]));
+      uniqueCurrencies.add('USD'); // The benchmark is priced in USD
+
+      // Performance and dividends convert each amount at its own date's rate, back to the first of them.
+      const firstDate = investmentsList
+        .flatMap(inv => [...inv.transactions, ...inv.dividends].map(t => t.date))
+        .reduce((earliest, date) => date < earliest ? date : earliest, new Date());
+      const seriesPromise = resolveRateSeries(providers, Array.from(uniqueCurrencies), currency, startOfMonth(firstDate), new Date());
       
       const rates = new Map<string, number>();
+      const sources: Record<string, RateSource> = {};
+      const unavailable: string[] = [];
       await Promise.all(
         Array.from(uniqueCurrencies).map(async (curr) => {
           if (curr !== currency) {
-              const rate = await getConversionRate(curr, currency);
-              rates.set(curr, rate);
+              const resolved = await resolveConversionRate(providers, curr, currency);
+              if (resolved === null) unavailable.push(curr);
+              else sources[curr] = resolved.source;
+              rates.set(curr, resolved?.rate ?? 0);
           } else {
               rates.set(curr, 1);
           }
         })
       );
       setConversionRates(rates);
+      setRateSources(sources);
+      setRateSeries(await seriesPromise);
+      if (unavailable.length > 0) {
+        toast({ variant: 'destructive', title: "Exchange rate unavailable", description: `Amounts in ${unavailable.join(', ')} can't be converted to ${currency} right now and are shown as zero.` });
+      }
 
       const processedList: Omit<ProcessedInvestment, 'currentPrice' | 'currentValue' | 'change' | 'changePercent'>[] = investmentsList.map(inv => {
-        const totalShares = inv.transactions.reduce((sum, t) => sum + t.shares, 0);
-        const totalCost = inv.transactions.reduce((sum, t) => {
-            const rate = rates.get(t.currency) || 1; // From transaction currency to global currency
-            return sum + (t.shares * t.price * rate);
-        }, 0);
+        // From transaction currency to global currency
+        const position = calculatePosition(inv.transactions, inv.costBasisMethod, (amount, curr) => amount * (rates.get(curr) ?? 0));
         
         return {
             ...inv,
-            totalShares,
-            totalCost,
+            totalShares: position.shares,
+            totalCost: position.costBasis,
+            realisedGain: position.realisedGain,
             totalGainLoss: 0, // Placeholder
             totalGainLossPercent: 0 // Placeholder
         };
       });
 
       setInvestments(processedList);
+      fetchHistories(investmentsList);
 
     } catch (error) {
       console.error("Error fetching investments:", error);
@@ -295,20 +335,20 @@ function Investments() {
     } finally {
       setIsDataLoading(false);
     }
-  }, [user, toast, currency]);
+  }, [user, toast, currency, fetchHistories]);
 
   const fetchPrices = useCallback(async (investmentsToFetch: ProcessedInvestment[]) => {
     if (investmentsToFetch.length === 0 || conversionRates.size === 0) return;
 
-    const usdToGlobalRate = conversionRates.get('USD') || 1;
-
     const updatedInvestments = await Promise.all(
       investmentsToFetch.map(async (inv) => {
-        if (inv.currentPrice !== undefined) return inv;
+        if (inv.currentPrice !== undefined || inv.priceError) return inv;
+        let error: MarketDataErrorCode = 'unavailable';
         try {
-          const priceData = await getStockPrice(inv.ticker);
-          if (priceData && priceData.price !== null) {
-            const currentValue = inv.totalShares * priceData.price * usdToGlobalRate;
+          const result = await fetchQuote(inv);
+          if (result.ok) {
+            const priceData = result.data;
+            const currentValue = inv.totalShares * priceData.price * (conversionRates.get(inv.quoteCurrency) ?? 0);
             const totalGainLoss = currentValue - inv.totalCost;
             const totalGainLossPercent = inv.totalCost > 0 ? (totalGainLoss / inv.totalCost) * 100 : 0;
             
@@ -322,10 +362,12 @@ function Investments() {
               totalGainLossPercent,
             };
           }
-        } catch (error) {
-          console.error(`Error fetching price for ${inv.ticker}:`, error);
+          error = result.error;
+        } catch (err) {
+          console.error(`Error fetching price for ${inv.ticker}:`, err);
         }
-        return { ...inv, currentPrice: 0, currentValue: 0, change: 0, changePercent: 0, totalGainLoss: -inv.totalCost, totalGainLossPercent: inv.totalCost > 0 ? -100 : 0 };
+        // No price is not a price of 0: leave the holding unvalued and say why.
+        return { ...inv, priceError: error, totalGainLoss: 0, totalGainLossPercent: 0 };
       })
     );
     
@@ -346,7 +388,7 @@ function Investments() {
 
   useEffect(() => {
     if (!isDataLoading && investments.length > 0) {
-      const needsPrices = investments.filter(inv => inv.currentPrice === undefined);
+      const needsPrices = investments.filter(inv => inv.currentPrice === undefined && !inv.priceError);
       if (needsPrices.length > 0) {
         fetchPrices(needsPrices);
       }
@@ -354,26 +396,77 @@ function Investments() {
   }, [isDataLoading, investments, fetchPrices]);
   
   const totalValue = useMemo(() => {
-    if (investments.length === 0 || investments.some(inv => inv.currentValue === undefined)) {
+    if (investments.length === 0 || investments.some(inv => inv.currentValue === undefined && !inv.priceError)) {
         return null;
     }
     return investments.reduce((total, inv) => total + (inv.currentValue || 0), 0);
   }, [investments]);
+
+  const unpricedHoldings = investments.filter(inv => inv.priceError && inv.totalShares > 0);
+  const totalUnrealisedGain = investments.reduce((total, inv) => total + inv.totalGainLoss, 0);
+  const totalRealisedGain = investments.reduce((total, inv) => total + inv.realisedGain, 0);
+
+  const usdToGlobalRate = conversionRates.get('USD') ?? 0;
+  const rateFor = useMemo(() => rateSeries && createRateLookup(currency, rateSeries), [currency, rateSeries]);
+  // Only given amounts already checked to have a rate.
+  const convertToGlobal = useCallback<AmountConverter>((amount, curr, date) => amount * (rateFor?.(curr, date) ?? 0), [rateFor]);
+
+  // Undefined while the price histories load; holdings without one are left out, and those
+  // with a price or trade on a date without an exchange rate map to null.
+  const holdingHistories = useMemo(() => {
+    if (histories === null || !rateFor) return undefined;
+    return new Map(investments.flatMap(inv => {
+      const history = histories.get(inv.id);
+      if (!history || history.prices.length === 0) return [];
+      const holding = inv.transactions.every(t => rateFor(t.currency, t.date) !== null)
+        ? toHoldingHistory(inv.transactions, history, date => rateFor(inv.quoteCurrency, date))
+        : null;
+      return [[inv.id, holding] as const];
+    }));
+  }, [investments, histories, rateFor]);
+
+  const portfolioHoldings = useMemo(
+    () => holdingHistories && Array.from(holdingHistories.values()).filter((h): h is HoldingHistory => h !== null),
+    [holdingHistories]
+  );
+  const unconvertedHoldings = investments.filter(inv => holdingHistories?.get(inv.id) === null);
+
+  const performance = useMemo((): { portfolio: PerformanceResult | null; byInvestment: Map<string, PerformanceResult | null> } | undefined => {
+    if (!holdingHistories || !portfolioHoldings) return undefined;
+    const byInvestment = new Map(Array.from(holdingHistories, ([id, holding]) => [id, holding && calculatePerformance([holding], performancePeriod, convertToGlobal)]));
+    const portfolio = portfolioHoldings.length > 0 ? calculatePerformance(portfolioHoldings, performancePeriod, convertToGlobal) : null;
+    return { portfolio, byInvestment };
+  }, [holdingHistories, portfolioHoldings, performancePeriod, convertToGlobal]);
+
+  // Dividends paid on a date without an exchange rate are left out of the totals.
+  const { dividendYears, unconvertedDividendCurrencies } = useMemo(() => {
+    if (!rateFor) return { dividendYears: [], unconvertedDividendCurrencies: [] };
+    const dividends = investments.flatMap(inv => inv.dividends);
+    const convertible = dividends.filter(d => rateFor(d.currency, d.date) !== null);
+    return {
+      dividendYears: summariseDividendsByYear(convertible, convertToGlobal),
+      unconvertedDividendCurrencies: [...new Set(dividends.filter(d => !convertible.includes(d)).map(d => d.currency))],
+    };
+  }, [investments, rateFor, convertToGlobal]);
   
   useEffect(() => {
     if (editingInvestment) {
       // For editing, we cannot easily reconstruct the initial transaction.
       // The form will be disabled for editing for now.
       form.reset({
+          priceSource: editingInvestment.priceSource,
           ticker: editingInvestment.ticker,
           name: editingInvestment.name,
+          exchange: editingInvestment.exchange ?? '',
+          quoteCurrency: editingInvestment.quoteCurrency,
           shares: editingInvestment.transactions[0]?.shares || 0,
           price: editingInvestment.transactions[0]?.price || 0,
+          fees: editingInvestment.transactions[0]?.fees || 0,
           currency: editingInvestment.transactions[0]?.currency || 'USD',
           date: editingInvestment.transactions[0]?.date || new Date(),
       });
     } else {
-      form.reset({ ticker: '', name: '', shares: 0, price: 0, currency: currency, date: new Date() });
+      form.reset({ priceSource: 'market', ticker: '', name: '', exchange: '', quoteCurrency: 'USD', shares: 0, price: 0, fees: 0, currency: currency, date: new Date() });
     }
   }, [editingInvestment, form, isDialogOpen, currency]);
 
@@ -382,9 +475,11 @@ function Investments() {
     try {
         const newTransaction: InvestmentTransaction = {
             id: crypto.randomUUID(),
+            type: 'buy',
             date: values.date,
             shares: values.shares,
             price: values.price,
+            fees: values.fees,
             currency: values.currency,
         };
 
@@ -392,18 +487,27 @@ function Investments() {
 
         if (existingInvestment) {
             // Update existing investment
-            const investmentRef = doc(db, "investments", existingInvestment.id);
-            await updateDoc(investmentRef, {
+            await updateInvestment(existingInvestment.id, {
                 transactions: [...existingInvestment.transactions, newTransaction]
             });
             toast({ title: "Transaction Added", description: `Added shares to ${values.ticker}.` });
         } else {
             // Add new investment
-            await addDoc(collection(db, "investments"), {
+            // A manually priced holding starts with the price it was bought at, when that's in its quote currency
+            const isManual = values.priceSource === 'manual';
+            await addInvestment({
                 userId: user.uid,
                 ticker: values.ticker,
                 name: values.name,
-                transactions: [newTransaction]
+                exchange: values.exchange || null,
+                quoteCurrency: values.quoteCurrency,
+                priceSource: values.priceSource,
+                manualPrices: isManual && values.currency === values.quoteCurrency
+                    ? [{ id: crypto.randomUUID(), date: values.date, price: values.price }]
+                    : [],
+                costBasisMethod: 'fifo',
+                transactions: [newTransaction],
+                dividends: [],
             });
             toast({ title: "Investment Added" });
         }
@@ -419,7 +523,7 @@ function Investments() {
   const handleDeleteInvestment = async () => {
     if (!investmentToDelete) return;
     try {
-      await deleteDoc(doc(db, "investments", investmentToDelete.id));
+      await deleteInvestment(investmentToDelete.id);
       toast({ title: "Investment Deleted" });
       setInvestmentToDelete(null);
       fetchInvestmentData();
@@ -448,13 +552,56 @@ function Investments() {
                     {totalValue === null ? (
                         <Skeleton className="h-10 w-3/4 mb-2" />
                     ) : (
-                        <p className="text-4xl font-bold tracking-tight text-primary">
-                            {formatCurrency(totalValue ?? 0, currency)}
-                        </p>
+                        <>
+                            <p className="text-4xl font-bold tracking-tight text-primary">
+                                {formatCurrency(totalValue ?? 0, currency)}
+                            </p>
+                            <div className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                                <span>Unrealised: <span className={cn("font-mono font-semibold", totalUnrealisedGain >= 0 ? 'text-green-500' : 'text-red-500')}>{formatCurrency(totalUnrealisedGain, currency)}</span></span>
+                                <span>Realised: <span className={cn("font-mono font-semibold", totalRealisedGain >= 0 ? 'text-green-500' : 'text-red-500')}>{formatCurrency(totalRealisedGain, currency)}</span></span>
+                            </div>
+                            {unpricedHoldings.length > 0 && (
+                                <p className="mt-2 text-sm text-destructive">
+                                    {unpricedHoldings.map(inv => inv.ticker).join(', ')} couldn't be priced and {unpricedHoldings.length === 1 ? 'is' : 'are'} left out of this total.
+                                </p>
+                            )}
+                        </>
                     )}
                 </CardContent>
             </Card>
 
+            {investments.length > 0 && (
+                <PerformanceSummary
+                    title="Portfolio Performance"
+                    period={performancePeriod}
+                    onPeriodChange={setPerformancePeriod}
+                    result={performance?.portfolio}
+                    currency={currency}
+                    footnote={unconvertedHoldings.length > 0 && `${unconvertedHoldings.map(inv => inv.ticker).join(', ')} ${unconvertedHoldings.length === 1 ? 'is' : 'are'} left out because no exchange rate to ${currency} was available for some of ${unconvertedHoldings.length === 1 ? 'its' : 'their'} history.`}
+                />
+            )}
+
+            {investments.length > 0 && (
+                <BenchmarkComparison title="Portfolio vs. Benchmark" holdings={portfolioHoldings} convert={convertToGlobal} priceRate={usdToGlobalRate} currency={currency} />
+            )}
+
+            {(dividendYears.length > 0 || unconvertedDividendCurrencies.length > 0) && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Dividend Income</CardTitle>
+                        <CardDescription>Dividends recorded across all holdings, by the year they were paid.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <DividendYearsTable years={dividendYears} currency={currency} />
+                        {unconvertedDividendCurrencies.length > 0 && (
+                            <p className="mt-4 text-sm text-destructive">
+                                Some dividends in {unconvertedDividendCurrencies.join(', ')} are left out because no exchange rate to {currency} was available on the day they were paid.
+                            </p>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
             <Card>
             <CardHeader>
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
@@ -483,7 +630,10 @@ function Investments() {
                         <TableHead className="text-right">Price</TableHead>
                         <TableHead className="text-right">Day's Change</TableHead>
                         <TableHead className="text-right">Value ({currency})</TableHead>
-                        <TableHead className="text-right">Total Gain/Loss</TableHead>
+                        <TableHead className="text-right">Unrealised Gain/Loss</TableHead>
+                        <TableHead className="text-right">Realised Gain/Loss</TableHead>
+                        <TableHead className="text-right">TWR ({PERFORMANCE_PERIOD_LABELS[performancePeriod]})</TableHead>
+                        <TableHead className="text-right">XIRR ({PERFORMANCE_PERIOD_LABELS[performancePeriod]})</TableHead>
                         <TableHead className="text-right w-[100px]">Actions</TableHead>
                     </TableRow>
                     </TableHeader>
@@ -491,38 +641,48 @@ function Investments() {
                     {investments.map(inv => {
                         const isPositive = inv.change && inv.change >= 0;
                         const gainLossColor = inv.totalGainLoss >= 0 ? 'text-green-500' : 'text-red-500';
+                        const holdingPerformance = performance?.byInvestment.get(inv.id) ?? null;
                         return (
                         <TableRow key={inv.id} className="cursor-pointer" onClick={() => router.push(`/investments/${inv.id}`)}>
                             <TableCell className="align-middle">
-                                <div className="font-medium">{inv.ticker}</div>
+                                <div className="font-medium">{inv.ticker}{inv.exchange && <span className="ml-1 text-xs font-normal text-muted-foreground">{inv.exchange}</span>}</div>
                                 <div className="text-xs text-muted-foreground">{inv.name}</div>
                             </TableCell>
                             <TableCell className="text-right align-middle">{inv.totalShares.toLocaleString()}</TableCell>
                             <TableCell className="text-right font-mono align-middle">
-                            {inv.currentPrice !== undefined ? formatCurrency(inv.currentPrice, 'USD') : <Skeleton className="h-5 w-20 ml-auto" />}
+                            {inv.priceError ? <PriceUnavailable error={inv.priceError} /> : inv.currentPrice !== undefined ? formatCurrency(inv.currentPrice, inv.quoteCurrency) : <Skeleton className="h-5 w-20 ml-auto" />}
                             </TableCell>
                             <TableCell className="text-right font-mono align-middle">
                             <div className={`flex justify-end items-center gap-1 ${isPositive ? 'text-green-500' : 'text-red-500'}`}>
-                                {inv.change !== undefined ? (
+                                {inv.priceError ? <span className="text-muted-foreground">—</span> : inv.change !== undefined ? (
                                     <>
                                         {isPositive ? <TrendingUp size={16}/> : <TrendingDown size={16}/>}
-                                        {formatCurrency(inv.change, 'USD')} ({inv.changePercent?.toFixed(2)}%)
+                                        {formatCurrency(inv.change, inv.quoteCurrency)} ({inv.changePercent?.toFixed(2)}%)
                                     </>
                                 ) : <Skeleton className="h-5 w-24 ml-auto" />}
                             </div>
                             </TableCell>
                             <TableCell className="text-right font-mono align-middle">
-                            {inv.currentValue !== undefined ? formatCurrency(inv.currentValue, currency) : <Skeleton className="h-5 w-28 ml-auto" />}
+                            {inv.priceError ? <span className="text-muted-foreground">—</span> : inv.currentValue !== undefined ? formatCurrency(inv.currentValue, currency) : <Skeleton className="h-5 w-28 ml-auto" />}
                             </TableCell>
                             <TableCell className="text-right font-mono align-middle">
                             <div className={gainLossColor}>
-                                {inv.currentValue !== undefined ? (
+                                {inv.priceError ? <span className="text-muted-foreground">—</span> : inv.currentValue !== undefined ? (
                                 <>
                                     {formatCurrency(inv.totalGainLoss, currency)} ({inv.totalGainLossPercent.toFixed(2)}%)
                                 </>
                                 ) : <Skeleton className="h-5 w-28 ml-auto" />}
                             </div>
                             </TableCell>
+                            <TableCell className={cn("text-right font-mono align-middle", inv.realisedGain >= 0 ? 'text-green-500' : 'text-red-500')}>
+                                {formatCurrency(inv.realisedGain, currency)}
+                            </TableCell>
+                            <TableCell className={cn("text-right font-mono align-middle", returnColor(holdingPerformance?.twr ?? null))}>
+                                {performance === undefined ? <Skeleton className="h-5 w-16 ml-auto" /> : formatReturn(holdingPerformance?.twr ?? null)}
+                            </TableCell>
+                            <TableCell className={cn("text-right font-mono align-middle", returnColor(holdingPerformance?.xirr ?? null))}>
+                                {performance === undefined ? <Skeleton className="h-5 w-16 ml-auto" /> : formatReturn(holdingPerformance?.xirr ?? null)}
+                            </TableCell>
                             <TableCell className="text-right align-middle">
                             <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); router.push(`/investments/${inv.id}`)}}>
                                 <Edit className="h-4 w-4" />
@@ -537,6 +697,9 @@ function Investments() {
                     </TableBody>
                 </Table>
                 )}
+                <div className="mt-4">
+                    <RateSources sources={rateSources} currency={currency} />
+                </div>
             </CardContent>
             </Card>
         </div>
@@ -546,29 +709,99 @@ function Investments() {
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle>Add New Investment</DialogTitle>
-            <DialogDescription>Search for a stock or ETF and enter your initial purchase details.</DialogDescription>
+            <DialogDescription>Search for a stock or ETF, or add a fund or bond you'll price yourself, and enter your initial purchase details.</DialogDescription>
           </DialogHeader>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-4 py-4">
-              <FormField
-                control={form.control}
-                name="ticker"
-                render={({ field }) => (
+              <FormField control={form.control} name="priceSource" render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel>Prices</FormLabel>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-6" disabled={!!editingInvestment}>
+                      <FormItem className="flex items-center space-x-2 space-y-0">
+                        <FormControl><RadioGroupItem value="market" /></FormControl>
+                        <FormLabel className="font-normal">From market data</FormLabel>
+                      </FormItem>
+                      <FormItem className="flex items-center space-x-2 space-y-0">
+                        <FormControl><RadioGroupItem value="manual" /></FormControl>
+                        <FormLabel className="font-normal">Entered manually</FormLabel>
+                      </FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {priceSource === 'market' ? (
+                <FormField
+                  control={form.control}
+                  name="ticker"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ticker Symbol</FormLabel>
+                        <FormControl>
+                          <StockSearch
+                            onSelect={(stock) => {
+                                field.onChange(stock.symbol);
+                                form.setValue('name', stock.name);
+                                form.setValue('exchange', stock.exchange ?? '');
+                                form.setValue('quoteCurrency', stock.currency);
+                            }}
+                            initialValue={editingInvestment ? { ticker: editingInvestment.ticker, name: editingInvestment.name } : undefined}
+                          />
+                        </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )} />
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField control={form.control} name="ticker" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ticker or ISIN</FormLabel>
+                      <FormControl><Input placeholder="e.g. VWRL" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="name" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl><Input placeholder="e.g. Global Bond Fund" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="exchange" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exchange</FormLabel>
+                    <Select
+                      value={field.value || 'none'}
+                      onValueChange={(value) => {
+                        const exchange = getExchange(value);
+                        field.onChange(exchange?.code ?? '');
+                        if (exchange) form.setValue('quoteCurrency', exchange.currency);
+                      }}
+                    >
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not listed / unknown</SelectItem>
+                        {EXCHANGES.map(exchange => (
+                          <SelectItem key={exchange.code} value={exchange.code}>{exchange.code} · {exchange.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="quoteCurrency" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Ticker Symbol</FormLabel>
-                      <FormControl>
-                        <StockSearch
-                          onSelect={(stock) => {
-                              field.onChange(stock.symbol);
-                              form.setValue('name', stock.name);
-                          }}
-                          initialValue={editingInvestment ? { ticker: editingInvestment.ticker, name: editingInvestment.name } : undefined}
-                        />
-                      </FormControl>
+                    <FormLabel>Quoted In</FormLabel>
+                    <CurrencySelect value={field.value} onChange={field.onChange} includeQuoteUnits />
                     <FormMessage />
                   </FormItem>
-              )} />
-               <div className="grid grid-cols-2 gap-4">
+                )} />
+              </div>
+               <div className="grid grid-cols-3 gap-4">
                     <FormField control={form.control} name="shares" render={({ field }) => (
                         <FormItem>
                         <FormLabel>Number of Shares</FormLabel>
@@ -583,19 +816,18 @@ function Investments() {
                         <FormMessage />
                         </FormItem>
                     )} />
+                     <FormField control={form.control} name="fees" render={({ field }) => (
+                        <FormItem>
+                        <FormLabel>Fees</FormLabel>
+                        <FormControl><Input type="number" step="any" placeholder="0" {...field} /></FormControl>
+                        <FormMessage />
+                        </FormItem>
+                    )} />
                </div>
                 <FormField control={form.control} name="currency" render={({ field }) => (
                 <FormItem>
-                    <FormLabel>Currency</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
-                        <SelectContent>
-                            <SelectItem value="USD">USD - US Dollar</SelectItem>
-                            <SelectItem value="EUR">EUR - Euro</SelectItem>
-                            <SelectItem value="GBP">GBP - British Pound</SelectItem>
-                            <SelectItem value="HUF">HUF - Hungarian Forint</SelectItem>
-                        </SelectContent>
-                    </Select>
+                    <FormLabel>Paid In</FormLabel>
+                    <CurrencySelect value={field.value} onChange={field.onChange} />
                     <FormMessage />
                 </FormItem>
               )} />
@@ -0,0 +1,422 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, startOfMonth, endOfMonth, isWithinInterval, addMonths, subMonths } from "date-fns";
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowDownCircle, ArrowUpCircle, CalendarIcon, ChevronLeft, ChevronRight, Edit, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { MainLayout, useAuth } from '@/components/main-layout';
+import { Header } from '@/components/header';
+import DynamicIcon from '@/components/dynamic-icon';
+import { useCurrency } from '@/context/currency-context';
+import { formatCurrency } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+import type { Category, NewDocument, Posting, Transaction } from '@/lib/types';
+import { addPosting, deletePosting, getUserPostings, updatePosting } from '@/repositories/postings';
+import { getVisibleTransactions } from '@/repositories/transactions';
+import { getUserHouseholds } from '@/repositories/households';
+import { getCategories } from '@/repositories/categories';
+
+const NO_BUDGET_LINE = 'none';
+
+const postingSchema = z.object({
+  transactionType: z.enum(['income', 'expense']),
+  payee: z.string().min(1, 'Payee is required.'),
+  amount: z.coerce.number().positive('Amount must be positive.'),
+  date: z.date({ required_error: 'A date is required.' }),
+  categoryId: z.string().optional(),
+  account: z.string().optional(),
+  budgetLineId: z.string(),
+  note: z.string().optional(),
+});
+
+function Ledger() {
+  const user = useAuth();
+  const { currency } = useCurrency();
+  const [postings, setPostings] = useState<Posting[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [isDataLoading, setIsDataLoading] = useState(true);
+  const [selectedMonth, setSelectedMonth] = useState(new Date());
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPosting, setEditingPosting] = useState<Posting | null>(null);
+  const [postingToDelete, setPostingToDelete] = useState<Posting | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof postingSchema>>({
+    resolver: zodResolver(postingSchema),
+  });
+
+  const transactionTypeWatcher = form.watch('transactionType');
+
+  async function fetchData() {
+    if (!user) return;
+    setIsDataLoading(true);
+    try {
+      const householdIds = (await getUserHouseholds(user.uid)).map(h => h.id);
+      const [postingsList, transactionsList, expenseCategoriesList, incomeCategoriesList] = await Promise.all([
+        getUserPostings(user.uid),
+        getVisibleTransactions(user.uid, householdIds),
+        getCategories('expenseCategories', user.uid),
+        getCategories('incomeCategories', user.uid),
+      ]);
+      setPostings(postingsList.sort((a, b) => b.date.getTime() - a.date.getTime()));
+      setTransactions(transactionsList.sort((a, b) => a.name.localeCompare(b.name)));
+      setExpenseCategories(expenseCategoriesList);
+      setIncomeCategories(incomeCategoriesList);
+    } catch (error) {
+      console.error("Error fetching data:", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not load your data." });
+    } finally {
+      setIsDataLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchData();
+  }, [user]);
+
+  useEffect(() => {
+    if (editingPosting) {
+      form.reset({
+        transactionType: editingPosting.transactionType,
+        payee: editingPosting.payee,
+        amount: editingPosting.amount,
+        date: editingPosting.date,
+        categoryId: editingPosting.categoryId,
+        account: editingPosting.account || '',
+        budgetLineId: editingPosting.budgetLineId || NO_BUDGET_LINE,
+        note: editingPosting.note || '',
+      });
+    } else {
+      form.reset({ transactionType: 'expense', payee: '', amount: 0, date: new Date(), account: '', budgetLineId: NO_BUDGET_LINE, note: '' });
+    }
+  }, [editingPosting, form, isDialogOpen]);
+
+  const allCategoriesMap = useMemo(() => new Map(
+    [...expenseCategories, ...incomeCategories].map(c => [c.id, c])
+  ), [expenseCategories, incomeCategories]);
+
+  const transactionsMap = useMemo(() => new Map(transactions.map(t => [t.id, t])), [transactions]);
+
+  const { monthPostings, totalIncome, totalExpenses } = useMemo(() => {
+    const interval = { start: startOfMonth(selectedMonth), end: endOfMonth(selectedMonth) };
+    const monthPostings = postings.filter(p => isWithinInterval(p.date, interval));
+    const sumOf = (type: Posting['transactionType']) => monthPostings
+      .filter(p => p.transactionType === type)
+      .reduce((sum, p) => sum + p.amount, 0);
+    return { monthPostings, totalIncome: sumOf('income'), totalExpenses: sumOf('expense') };
+  }, [postings, selectedMonth]);
+
+  const handleBudgetLineChange = (budgetLineId: string) => {
+    form.setValue('budgetLineId', budgetLineId);
+    const budgetLine = transactionsMap.get(budgetLineId);
+    if (budgetLine?.categoryId) {
+      form.setValue('categoryId', budgetLine.categoryId);
+    }
+  };
+
+  const handleDeletePosting = async () => {
+    if (!postingToDelete) return;
+    try {
+      await deletePosting(postingToDelete.id);
+      toast({ title: "Posting Deleted", description: `"${postingToDelete.payee}" has been removed.` });
+      setPostingToDelete(null);
+      fetchData();
+    } catch (error) {
+      console.error("Error deleting posting: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not delete posting." });
+    }
+  };
+
+  const handleFormSubmit = async (values: z.infer<typeof postingSchema>) => {
+    if (!user) return;
+    const payload: NewDocument<Posting> = {
+      userId: editingPosting?.userId || user.uid,
+      transactionType: values.transactionType,
+      payee: values.payee,
+      amount: values.amount,
+      date: values.date,
+      categoryId: values.categoryId || '',
+      account: values.account || '',
+      budgetLineId: values.budgetLineId === NO_BUDGET_LINE ? null : values.budgetLineId,
+      note: values.note || '',
+    };
+    try {
+      if (editingPosting) {
+        await updatePosting(editingPosting.id, payload);
+        toast({ title: "Posting Updated", description: "Your posting has been successfully updated." });
+      } else {
+        await addPosting(payload);
+        toast({ title: "Posting Added", description: "Your posting has been recorded in the ledger." });
+      }
+      setEditingPosting(null);
+      setIsDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error("Error saving posting: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not save posting." });
+    }
+  };
+
+  const openAddDialog = () => {
+    setEditingPosting(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (posting: Posting) => {
+    setEditingPosting(posting);
+    setIsDialogOpen(true);
+  };
+
+  const categoriesForType = transactionTypeWatcher === 'income' ? incomeCategories : expenseCategories;
+  const budgetLinesForType = transactions.filter(t => t.transactionType === transactionTypeWatcher);
+
+  return (
+    <>
+      <Header title="Ledger" />
+      <main className="flex-1 space-y-6 p-4 sm:p-6">
+        <div className="max-w-7xl mx-auto w-full space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+                <div>
+                  <CardTitle>Actual Cashflow</CardTitle>
+                  <CardDescription>What was actually paid and received in {format(selectedMonth, 'MMMM yyyy')}</CardDescription>
+                </div>
+                <div className="flex items-center gap-2 self-end sm:self-center">
+                  <Button variant="outline" size="icon" onClick={() => setSelectedMonth(subMonths(selectedMonth, 1))}><ChevronLeft className="h-4 w-4" /></Button>
+                  <span className="w-32 sm:w-36 text-center font-medium">{format(selectedMonth, "MMMM yyyy")}</span>
+                  <Button variant="outline" size="icon" onClick={() => setSelectedMonth(addMonths(selectedMonth, 1))}><ChevronRight className="h-4 w-4" /></Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="grid gap-6 grid-cols-1 sm:grid-cols-2">
+              <Card><CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Received</CardTitle><ArrowUpCircle className="h-4 w-4 text-chart-2" /></CardHeader><CardContent>{isDataLoading ? <Skeleton className="h-8 w-1/2" /> : <div className="text-2xl font-bold text-chart-2">{formatCurrency(totalIncome, currency)}</div>}</CardContent></Card>
+              <Card><CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Spent</CardTitle><ArrowDownCircle className="h-4 w-4 text-destructive" /></CardHeader><CardContent>{isDataLoading ? <Skeleton className="h-8 w-1/2" /> : <div className="text-2xl font-bold text-destructive">{formatCurrency(totalExpenses, currency)}</div>}</CardContent></Card>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Postings</CardTitle>
+                  <CardDescription>Real payments, optionally linked to the budget line they pay for.</CardDescription>
+                </div>
+                <Button onClick={openAddDialog} className="w-full sm:w-auto">
+                  <PlusCircle /> Add Posting
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isDataLoading ? (
+                <div className="flex justify-center items-center py-12">
+                  <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : monthPostings.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">No postings for this month. Add one to start tracking actual spend.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Payee</TableHead>
+                      <TableHead className="hidden md:table-cell">Category</TableHead>
+                      <TableHead className="hidden md:table-cell">Account</TableHead>
+                      <TableHead className="hidden lg:table-cell">Budget Line</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right w-[100px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {monthPostings.map(posting => {
+                      const category = posting.categoryId ? allCategoriesMap.get(posting.categoryId) : undefined;
+                      const budgetLine = posting.budgetLineId ? transactionsMap.get(posting.budgetLineId) : undefined;
+                      return (
+                        <TableRow key={posting.id}>
+                          <TableCell className="whitespace-nowrap text-muted-foreground">{format(posting.date, 'dd MMM')}</TableCell>
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-3">
+                              {category ? (
+                                <DynamicIcon name={category.icon} style={{ color: category.color }} className="h-5 w-5 shrink-0" />
+                              ) : (
+                                <div className="w-5 shrink-0" />
+                              )}
+                              <span className="truncate">{posting.payee}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="hidden md:table-cell text-muted-foreground">{category?.name || 'Uncategorized'}</TableCell>
+                          <TableCell className="hidden md:table-cell text-muted-foreground">{posting.account || '—'}</TableCell>
+                          <TableCell className="hidden lg:table-cell text-muted-foreground">{budgetLine?.name || (posting.budgetLineId ? 'Deleted line' : 'Unplanned')}</TableCell>
+                          <TableCell className={cn('text-right font-mono', posting.transactionType === 'income' ? 'text-chart-2' : 'text-destructive')}>{formatCurrency(posting.amount, currency)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => openEditDialog(posting)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => setPostingToDelete(posting)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md flex flex-col max-h-[85dvh]">
+          <DialogHeader>
+            <DialogTitle>{editingPosting ? 'Edit Posting' : 'Add Posting'}</DialogTitle>
+            <DialogDescription>
+              {editingPosting ? 'Update the details of this payment.' : 'Record a payment that actually happened.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleFormSubmit)} className="flex flex-col flex-1 min-h-0">
+              <div className="flex-1 overflow-y-scroll overflow-x-hidden pl-2 pr-4 -mr-4 space-y-4 py-2">
+                <FormField control={form.control} name="transactionType" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={(value) => { field.onChange(value); form.setValue('budgetLineId', NO_BUDGET_LINE); form.setValue('categoryId', undefined); }} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value="expense">Expense</SelectItem>
+                          <SelectItem value="income">Income</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField control={form.control} name="payee" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payee</FormLabel>
+                      <FormControl><Input placeholder="e.g., Tesco, Landlord" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField control={form.control} name="amount" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amount</FormLabel>
+                        <FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField control={form.control} name="date" render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Date</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button variant={"outline"} className={cn("pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                                {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start"><Calendar mode="single" selected={field.value} onSelect={field.onChange} /></PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField control={form.control} name="budgetLineId" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Budget Line</FormLabel>
+                      <Select onValueChange={handleBudgetLineChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_BUDGET_LINE}>Unplanned</SelectItem>
+                          {budgetLinesForType.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField control={form.control} name="categoryId" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger></FormControl>
+                        <SelectContent>{categoriesForType.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField control={form.control} name="account" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account (Optional)</FormLabel>
+                      <FormControl><Input placeholder="e.g., Current account, Amex" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField control={form.control} name="note" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Note (Optional)</FormLabel>
+                      <FormControl><Input {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter className="pt-4 flex-shrink-0">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button type="submit">{editingPosting ? 'Update Posting' : 'Add Posting'}</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!postingToDelete} onOpenChange={(open) => !open && setPostingToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete the posting to "{postingToDelete?.payee}".
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setPostingToDelete(null)}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeletePosting}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+export default function LedgerPage() {
+  return (
+    <MainLayout>
+      <Ledger />
+    </MainLayout>
+  )
+}
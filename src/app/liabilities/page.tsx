@@ -2,9 +2,12 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { endOfDay, format } from 'date-fns';
+import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -14,25 +17,18 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar as ShadcnCalendar } from '@/components/ui/calendar';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { AlertCircle, Banknote, Edit, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { AlertCircle, Banknote, CalendarIcon, Edit, Loader2, Milestone, PlusCircle, Trash2 } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
 import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
-import { db } from '@/lib/firebase';
-import { collection, getDocs, addDoc, doc, updateDoc, deleteDoc, query, where } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
-
-type LiabilityType = 'credit_card' | 'loan' | 'mortgage' | 'other';
-type Liability = {
-  id: string;
-  userId: string;
-  name: string;
-  type: LiabilityType;
-  currentBalance: number;
-  apr: number;
-};
+import { getLiabilitySchedule } from '@/lib/amortisation';
+import type { Liability, LiabilityType } from '@/lib/types';
+import { addLiability, deleteLiability, getUserLiabilities, updateLiability } from '@/repositories/liabilities';
 
 const liabilitySchema = z.object({
   name: z.string().min(1, 'Liability name is required.'),
@@ -41,6 +37,10 @@ const liabilitySchema = z.object({
   }),
   currentBalance: z.coerce.number().min(0, 'Current balance must be a positive number.'),
   apr: z.coerce.number().min(0, 'APR must be a positive number.'),
+  monthlyPayment: z.coerce.number().min(0, 'Payment must be a positive number.'),
+  termMonths: z.coerce.number().int('Term must be a whole number of months.').min(0, 'Term must be a positive number.'),
+  // The opening balance is dated at the start, so a future one would leave nothing owed until then.
+  startDate: z.date().refine(date => date <= endOfDay(new Date()), "The start date can't be in the future.").optional(),
 });
 
 const liabilityIcons: Record<LiabilityType, React.ReactNode> = {
@@ -66,6 +66,8 @@ function Liabilities() {
       name: '',
       currentBalance: 0,
       apr: 0,
+      monthlyPayment: 0,
+      termMonths: 0,
     },
   });
 
@@ -73,15 +75,8 @@ function Liabilities() {
     if (!user) return;
     setIsDataLoading(true);
     try {
-        const liabilitiesQuery = query(collection(db, 'liabilities'), where('userId', '==', user.uid));
-        const liabilitiesSnapshot = await getDocs(liabilitiesQuery);
-        const liabilitiesList = liabilitiesSnapshot.docs.map(doc => {
-            const data = doc.data();
-            return {
-                id: doc.id,
-                ...data,
-            } as Liability;
-        }).sort((a,b) => b.currentBalance - a.currentBalance);
+        const liabilitiesList = (await getUserLiabilities(user.uid))
+            .sort((a,b) => b.currentBalance - a.currentBalance);
         setLiabilities(liabilitiesList);
     } catch (error) {
         console.error("Error fetching data:", error);
@@ -97,9 +92,17 @@ function Liabilities() {
   
   useEffect(() => {
     if (editingLiability) {
-      form.reset(editingLiability);
+      form.reset({
+        name: editingLiability.name,
+        type: editingLiability.type,
+        currentBalance: editingLiability.currentBalance,
+        apr: editingLiability.apr,
+        monthlyPayment: editingLiability.monthlyPayment ?? 0,
+        termMonths: editingLiability.termMonths ?? 0,
+        startDate: editingLiability.startDate ?? undefined,
+      });
     } else {
-      form.reset({ name: '', type: 'credit_card', currentBalance: 0, apr: 0 });
+      form.reset({ name: '', type: 'credit_card', currentBalance: 0, apr: 0, monthlyPayment: 0, termMonths: 0, startDate: undefined });
     }
   }, [editingLiability, form, isDialogOpen]);
 
@@ -107,10 +110,20 @@ function Liabilities() {
     return liabilities.reduce((total, liability) => total + liability.currentBalance, 0);
   }, [liabilities]);
 
+  const payoffDates = useMemo(() => {
+    return new Map(liabilities.map(liability => [liability.id, getLiabilitySchedule(liability).payoffDate]));
+  }, [liabilities]);
+
+  const formatPayoffDate = (liability: Liability) => {
+    const payoffDate = payoffDates.get(liability.id);
+    if (liability.currentBalance <= 0) return 'Paid off';
+    return payoffDate ? format(payoffDate, 'MMM yyyy') : '—';
+  };
+
   const handleDeleteLiability = async () => {
     if (!liabilityToDelete) return;
     try {
-      await deleteDoc(doc(db, "liabilities", liabilityToDelete.id));
+      await deleteLiability(liabilityToDelete.id);
       toast({ title: "Liability Deleted", description: `"${liabilityToDelete.name}" has been removed.` });
       setLiabilityToDelete(null);
       fetchData(); 
@@ -122,14 +135,24 @@ function Liabilities() {
 
   const handleFormSubmit = async (values: z.infer<typeof liabilitySchema>) => {
     if (!user) return;
+    const terms = {
+      monthlyPayment: values.monthlyPayment || null,
+      termMonths: values.termMonths || null,
+      startDate: values.startDate ?? null,
+    };
+    const balanceEntry = (date: Date) => ({ id: crypto.randomUUID(), balance: values.currentBalance, date });
     try {
       if (editingLiability) {
-        const liabilityRef = doc(db, "liabilities", editingLiability.id);
-        const payload = { ...values, userId: editingLiability.userId };
-        await updateDoc(liabilityRef, payload);
+        // A changed balance is recorded as a new history entry dated today.
+        const balanceHistory = values.currentBalance !== editingLiability.currentBalance
+          ? [...editingLiability.balanceHistory, balanceEntry(new Date())]
+          : editingLiability.balanceHistory;
+        const payload = { ...values, ...terms, balanceHistory, userId: editingLiability.userId };
+        await updateLiability(editingLiability.id, payload);
         toast({ title: "Liability Updated", description: "Your liability has been successfully updated." });
       } else {
-        await addDoc(collection(db, "liabilities"), { ...values, userId: user.uid });
+        // The opening balance dates from when the loan started, when that's known.
+        await addLiability({ ...values, ...terms, balanceHistory: [balanceEntry(values.startDate ?? new Date())], userId: user.uid });
         toast({ title: "Liability Added", description: "Your new liability has been successfully added." });
       }
       setEditingLiability(null);
@@ -186,9 +209,14 @@ function Liabilities() {
                         <CardTitle>Your Liabilities</CardTitle>
                         <CardDescription>A list of your current loans, credit cards, and other debts.</CardDescription>
                     </div>
-                    <Button onClick={openAddDialog} className="w-full sm:w-auto">
-                        <PlusCircle /> Add Liability
-                    </Button>
+                    <div className="flex w-full gap-2 sm:w-auto">
+                        <Button asChild variant="outline" className="flex-1 sm:flex-grow-0">
+                            <Link href="/liabilities/planner"><Milestone /> Payoff Planner</Link>
+                        </Button>
+                        <Button onClick={openAddDialog} className="flex-1 sm:flex-grow-0">
+                            <PlusCircle /> Add Liability
+                        </Button>
+                    </div>
                 </div>
             </CardHeader>
             <CardContent>
@@ -208,7 +236,7 @@ function Liabilities() {
                                     <div className="flex items-center gap-3 font-medium">
                                         {liabilityIcons[liability.type]}
                                         <div>
-                                            <p>{liability.name}</p>
+                                            <Link href={`/liability/${liability.id}`} className="hover:underline">{liability.name}</Link>
                                             <p className="text-sm text-muted-foreground">{formatLiabilityType(liability.type)}</p>
                                         </div>
                                     </div>
@@ -226,6 +254,10 @@ function Liabilities() {
                                         <p className="text-muted-foreground">APR</p>
                                         <p className="font-mono">{liability.apr.toFixed(2)}%</p>
                                     </div>
+                                    <div className="col-span-2">
+                                        <p className="text-muted-foreground">Projected Payoff</p>
+                                        <p>{formatPayoffDate(liability)}</p>
+                                    </div>
                                 </div>
                             </Card>
                         ))}
@@ -239,6 +271,7 @@ function Liabilities() {
                             <TableHead>Type</TableHead>
                             <TableHead className="text-right">Current Balance</TableHead>
                             <TableHead className="text-right">APR</TableHead>
+                            <TableHead className="text-right">Projected Payoff</TableHead>
                             <TableHead className="text-right w-[100px]">Actions</TableHead>
                             </TableRow>
                         </TableHeader>
@@ -248,12 +281,13 @@ function Liabilities() {
                                     <TableCell>
                                         <div className="flex items-center gap-3">
                                         {liabilityIcons[liability.type]}
-                                        <span className="font-medium">{liability.name}</span>
+                                        <Link href={`/liability/${liability.id}`} className="font-medium hover:underline">{liability.name}</Link>
                                         </div>
                                     </TableCell>
                                     <TableCell>{formatLiabilityType(liability.type)}</TableCell>
                                     <TableCell className="text-right font-mono text-destructive">{formatCurrency(liability.currentBalance, currency)}</TableCell>
                                     <TableCell className="text-right font-mono">{liability.apr.toFixed(2)}%</TableCell>
+                                    <TableCell className="text-right">{formatPayoffDate(liability)}</TableCell>
                                     <TableCell className="text-right">
                                         <Button variant="ghost" size="icon" onClick={() => openEditDialog(liability)}>
                                         <Edit className="h-4 w-4" />
@@ -327,6 +361,42 @@ function Liabilities() {
                   )}
                 />
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="monthlyPayment" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Monthly Payment</FormLabel>
+                      <FormControl><Input type="number" placeholder="250" {...field} onFocus={(e) => e.target.select()} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField control={form.control} name="termMonths" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Term (months)</FormLabel>
+                      <FormControl><Input type="number" placeholder="60" {...field} onFocus={(e) => e.target.select()} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField control={form.control} name="startDate" render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Start Date</FormLabel>
+                    <Popover><PopoverTrigger asChild>
+                        <FormControl>
+                          <Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                            {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                    </PopoverTrigger><PopoverContent className="w-auto p-0" align="start">
+                        <ShadcnCalendar mode="single" selected={field.value} onSelect={field.onChange} disabled={{ after: new Date() }} />
+                    </PopoverContent></Popover>
+                    <p className="text-sm text-muted-foreground">Leave the payment at 0 to work it out from the term and start date.</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
                 <Button type="submit">{editingLiability ? 'Update Liability' : 'Add Liability'}</Button>
@@ -0,0 +1,387 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { addMonths, format } from 'date-fns';
+import { MainLayout, useAuth } from '@/components/main-layout';
+import { Header } from '@/components/header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { AlertCircle, ArrowDown, ArrowUp, CalendarPlus, ChevronLeft, Info, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/context/currency-context';
+import { formatCurrency } from '@/lib/currency';
+import { getMinimumPaymentTotal, orderDebts, planToBudgetLines, simulatePayoff, toPayoffDebts, type PayoffStrategy } from '@/lib/debt-payoff';
+import type { Category, Liability } from '@/lib/types';
+import { getUserLiabilities } from '@/repositories/liabilities';
+import { getCategories } from '@/repositories/categories';
+import { addTransactions } from '@/repositories/transactions';
+
+const plannerSchema = z.object({
+  monthlyBudget: z.coerce.number().min(0, "Budget can't be negative."),
+});
+
+const STRATEGIES: { value: PayoffStrategy; label: string; description: string }[] = [
+  { value: 'avalanche', label: 'Avalanche', description: 'Highest APR first. Usually the least interest overall.' },
+  { value: 'snowball', label: 'Snowball', description: 'Smallest balance first. Clears individual debts sooner.' },
+  { value: 'custom', label: 'Custom', description: 'Pay extra in the order you choose.' },
+];
+
+const DEFAULT_BUDGET_CATEGORY_ID = 'default-expenseCategories-Other';
+
+const formatMonths = (months: number) => {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  if (years === 0) return `${remainder} mo`;
+  return remainder === 0 ? `${years} yr` : `${years} yr ${remainder} mo`;
+};
+
+function DebtPlanner() {
+  const user = useAuth();
+  const { toast } = useToast();
+  const { currency } = useCurrency();
+  const [liabilities, setLiabilities] = useState<Liability[]>([]);
+  const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [strategy, setStrategy] = useState<PayoffStrategy>('avalanche');
+  const [customOrder, setCustomOrder] = useState<string[]>([]);
+  const [isBudgetDialogOpen, setIsBudgetDialogOpen] = useState(false);
+  const [budgetCategoryId, setBudgetCategoryId] = useState(DEFAULT_BUDGET_CATEGORY_ID);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<z.infer<typeof plannerSchema>>({
+    resolver: zodResolver(plannerSchema),
+    defaultValues: { monthlyBudget: 0 },
+  });
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!user) return;
+      setLoading(true);
+      try {
+        const [liabilitiesList, categoriesList] = await Promise.all([
+          getUserLiabilities(user.uid),
+          getCategories('expenseCategories', user.uid),
+        ]);
+        setLiabilities(liabilitiesList);
+        setExpenseCategories(categoriesList);
+
+        const debts = toPayoffDebts(liabilitiesList);
+        setCustomOrder(orderDebts(debts, 'avalanche').map(debt => debt.id));
+        form.setValue('monthlyBudget', Math.ceil(getMinimumPaymentTotal(debts)));
+      } catch (error) {
+        console.error("Error fetching data:", error);
+        toast({ variant: 'destructive', title: "Error", description: "Could not load your liabilities." });
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [user, toast, form]);
+
+  const monthlyBudget = Number(form.watch('monthlyBudget')) || 0;
+  const debts = useMemo(() => toPayoffDebts(liabilities), [liabilities]);
+  const minimumTotal = useMemo(() => getMinimumPaymentTotal(debts), [debts]);
+
+  const { plan, orderedDebts, comparison, chartData, chartConfig } = useMemo(() => {
+    const today = new Date();
+    const activePlan = simulatePayoff(debts, monthlyBudget, strategy, customOrder, today);
+    const ordered = orderDebts(debts, strategy, customOrder);
+
+    const strategyComparison = STRATEGIES.map(s => ({ ...s, plan: s.value === strategy ? activePlan : simulatePayoff(debts, monthlyBudget, s.value, customOrder, today) }));
+
+    const config: ChartConfig = Object.fromEntries(ordered.map((debt, index) => [
+      debt.id,
+      { label: debt.name, color: `hsl(var(--chart-${(index % 5) + 1}))` },
+    ]));
+    const startingPoint = { date: format(today, 'MMM yy'), ...Object.fromEntries(ordered.map(debt => [debt.id, debt.balance])) };
+    const data = [startingPoint, ...activePlan.months.map(month => ({ date: format(month.date, 'MMM yy'), ...month.balances }))];
+
+    return { plan: activePlan, orderedDebts: ordered, comparison: strategyComparison, chartData: data, chartConfig: config };
+  }, [debts, monthlyBudget, strategy, customOrder]);
+
+  const budgetLines = useMemo(() => {
+    if (!user) return [];
+    return planToBudgetLines(plan, orderedDebts, { userId: user.uid, categoryId: budgetCategoryId });
+  }, [plan, orderedDebts, user, budgetCategoryId]);
+
+  const handleMoveDebt = (index: number, direction: -1 | 1) => {
+    const order = orderDebts(debts, 'custom', customOrder).map(debt => debt.id);
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    setCustomOrder(order);
+  };
+
+  const handleAddToBudget = async () => {
+    setIsSaving(true);
+    try {
+      await addTransactions(budgetLines);
+      toast({ title: "Added to Budget", description: `${budgetLines.length} recurring payment${budgetLines.length === 1 ? '' : 's'} added to your budget.` });
+      setIsBudgetDialogOpen(false);
+    } catch (error) {
+      console.error("Error adding payments to budget: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not add the payments to your budget." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isBelowMinimum = monthlyBudget < minimumTotal;
+  const debtFreeDate = plan.monthsToDebtFree !== null ? addMonths(new Date(), plan.monthsToDebtFree) : null;
+
+  return (
+    <>
+      <Header title="Debt Payoff Planner" />
+      <main className="flex-1 space-y-6 p-4 sm:p-6">
+        <div className="max-w-7xl mx-auto w-full space-y-6">
+          <Button asChild variant="outline">
+            <Link href="/liabilities"><ChevronLeft className="mr-2 h-4 w-4" />Back to Liabilities</Link>
+          </Button>
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : debts.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center text-center py-12">
+                <Info className="h-12 w-12 text-muted-foreground" />
+                <p className="mt-4 text-lg font-medium">No debts to plan.</p>
+                <p className="text-muted-foreground">Add a liability with an outstanding balance to build a payoff plan.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Plan Settings</CardTitle>
+                  <CardDescription>
+                    Every debt gets its monthly payment first; the rest of your budget goes to one debt at a time, in strategy order.
+                  </CardDescription>
+                </CardHeader>
+                <Form {...form}>
+                  <form onSubmit={(e) => e.preventDefault()}>
+                    <CardContent className="grid gap-6 md:grid-cols-2">
+                      <FormItem>
+                        <FormLabel>Monthly Debt Budget</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="50" {...form.register('monthlyBudget')} onFocus={(e) => e.target.select()} />
+                        </FormControl>
+                        <p className="text-sm text-muted-foreground">Minimum payments total {formatCurrency(minimumTotal, currency)} a month.</p>
+                        <FormMessage>{form.formState.errors.monthlyBudget?.message}</FormMessage>
+                      </FormItem>
+                      <div className="space-y-2">
+                        <Label>Strategy</Label>
+                        <div className="grid grid-cols-3 gap-2">
+                          {STRATEGIES.map(s => (
+                            <Button key={s.value} type="button" variant={strategy === s.value ? 'default' : 'outline'} onClick={() => setStrategy(s.value)}>
+                              {s.label}
+                            </Button>
+                          ))}
+                        </div>
+                        <p className="text-sm text-muted-foreground">{STRATEGIES.find(s => s.value === strategy)?.description}</p>
+                      </div>
+                    </CardContent>
+                  </form>
+                </Form>
+              </Card>
+
+              {isBelowMinimum && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Budget below minimum payments</AlertTitle>
+                  <AlertDescription>
+                    Your budget doesn't cover every monthly payment, so some debts will fall behind. Raise it to at least {formatCurrency(minimumTotal, currency)}.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid gap-6 md:grid-cols-3">
+                <Card>
+                  <CardHeader className="pb-2"><CardTitle className="text-sm font-medium">Debt-Free</CardTitle></CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{debtFreeDate ? format(debtFreeDate, 'MMMM yyyy') : 'Never'}</div>
+                    <p className="text-sm text-muted-foreground">
+                      {plan.monthsToDebtFree !== null ? `In ${formatMonths(plan.monthsToDebtFree)}` : "This budget doesn't outpace the interest."}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2"><CardTitle className="text-sm font-medium">Total Interest</CardTitle></CardHeader>
+                  <CardContent><div className="text-2xl font-bold text-destructive">{formatCurrency(plan.totalInterest, currency)}</div></CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2"><CardTitle className="text-sm font-medium">Total Paid</CardTitle></CardHeader>
+                  <CardContent><div className="text-2xl font-bold">{formatCurrency(plan.totalPaid, currency)}</div></CardContent>
+                </Card>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle>Balances Over Time</CardTitle>
+                    <CardDescription>The remaining balance of each debt under the {STRATEGIES.find(s => s.value === strategy)?.label.toLowerCase()} plan.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={chartConfig} className="h-[350px] w-full">
+                      <AreaChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                        <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                        <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                        <YAxis tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(value) => formatCurrency(Number(value), currency, { notation: 'compact' })} />
+                        <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as string]?.label}: ${formatCurrency(Number(value), currency)}`} indicator="dot" />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        {orderedDebts.map(debt => (
+                          <Area key={debt.id} dataKey={debt.id} type="monotone" fill={`var(--color-${debt.id})`} stroke={`var(--color-${debt.id})`} stackId="1" />
+                        ))}
+                      </AreaChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Strategy Comparison</CardTitle>
+                    <CardDescription>The same budget under each strategy.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Strategy</TableHead>
+                          <TableHead className="text-right">Months</TableHead>
+                          <TableHead className="text-right">Interest</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.map(row => (
+                          <TableRow key={row.value} className={row.value === strategy ? 'bg-muted/50' : undefined}>
+                            <TableCell className="font-medium">{row.label}</TableCell>
+                            <TableCell className="text-right font-mono">{row.plan.monthsToDebtFree ?? '—'}</TableCell>
+                            <TableCell className="text-right font-mono">{formatCurrency(row.plan.totalInterest, currency)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                    <div>
+                      <CardTitle>Payoff Order</CardTitle>
+                      <CardDescription>
+                        {strategy === 'custom' ? 'Use the arrows to choose which debt gets your extra money first.' : 'The order extra payments are applied in.'}
+                      </CardDescription>
+                    </div>
+                    <Button onClick={() => setIsBudgetDialogOpen(true)} disabled={budgetLines.length === 0} className="w-full sm:w-auto">
+                      <CalendarPlus /> Add Payments to Budget
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {strategy === 'custom' && <TableHead className="w-[100px]">Order</TableHead>}
+                        <TableHead>Debt</TableHead>
+                        <TableHead className="text-right">APR</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                        <TableHead className="text-right">Monthly Payment</TableHead>
+                        <TableHead className="text-right">First Month</TableHead>
+                        <TableHead className="text-right">Paid Off</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {orderedDebts.map((debt, index) => {
+                        const payoffPeriod = plan.payoffPeriods[debt.id];
+                        return (
+                          <TableRow key={debt.id}>
+                            {strategy === 'custom' && (
+                              <TableCell>
+                                <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => handleMoveDebt(index, -1)}><ArrowUp className="h-4 w-4" /></Button>
+                                <Button variant="ghost" size="icon" disabled={index === orderedDebts.length - 1} onClick={() => handleMoveDebt(index, 1)}><ArrowDown className="h-4 w-4" /></Button>
+                              </TableCell>
+                            )}
+                            <TableCell className="font-medium"><Link href={`/liability/${debt.id}`} className="hover:underline">{debt.name}</Link></TableCell>
+                            <TableCell className="text-right font-mono">{debt.apr.toFixed(2)}%</TableCell>
+                            <TableCell className="text-right font-mono text-destructive">{formatCurrency(debt.balance, currency)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatCurrency(debt.minimumPayment, currency)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatCurrency(plan.months[0]?.payments[debt.id] ?? 0, currency)}</TableCell>
+                            <TableCell className="text-right">{payoffPeriod ? format(plan.months[payoffPeriod - 1].date, 'MMM yyyy') : '—'}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={isBudgetDialogOpen} onOpenChange={setIsBudgetDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Payments to Budget</DialogTitle>
+            <DialogDescription>
+              Creates a recurring expense for each debt. Amounts change when the plan moves money to the next debt, and each one ends the month its debt is paid off.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={budgetCategoryId} onValueChange={setBudgetCategoryId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {expenseCategories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ul className="space-y-1 text-sm">
+              {budgetLines.map(line => (
+                <li key={line.name} className="flex justify-between gap-4">
+                  <span>{line.name}</span>
+                  <span className="font-mono text-muted-foreground">
+                    {formatCurrency(line.amounts[0].amount, currency)}/mo{line.endDate ? ` until ${format(line.endDate, 'MMM yyyy')}` : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsBudgetDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleAddToBudget} disabled={isSaving}>
+              {isSaving && <Loader2 className="animate-spin" />} Add {budgetLines.length} Payment{budgetLines.length === 1 ? '' : 's'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+export default function DebtPlannerPage() {
+  return (
+    <MainLayout>
+      <DebtPlanner />
+    </MainLayout>
+  );
+}
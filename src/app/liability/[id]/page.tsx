@@ -0,0 +1,570 @@
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+import React, { useMemo, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, eachMonthOfInterval, endOfMonth, isSameMonth, max, subYears } from "date-fns";
+import { cn } from "@/lib/utils";
+import { MainLayout, useAuth } from '@/components/main-layout';
+import { Header } from '@/components/header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Banknote, CalendarIcon, Edit, Trash2, Loader2, ChevronLeft, TrendingDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar as ShadcnCalendar } from '@/components/ui/calendar';
+import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrency } from '@/context/currency-context';
+import { formatCurrency } from '@/lib/currency';
+import { getBalanceForDate, getLiabilitySchedule, getScheduledBalance, getScheduledPayment } from '@/lib/amortisation';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { Liability, LiabilityBalanceChange as BalanceChange } from '@/lib/types';
+import { getLiability, updateLiability } from '@/repositories/liabilities';
+
+const balanceChangeSchema = z.object({
+  balance: z.coerce.number().min(0, 'Balance must be a positive number.'),
+  date: z.date({
+    required_error: "A date for the balance is required.",
+  }),
+});
+
+const liabilitySchema = z.object({
+  name: z.string().min(1, 'Liability name is required.'),
+  type: z.enum(['credit_card', 'loan', 'mortgage', 'other']),
+  apr: z.coerce.number().min(0, 'APR must be a positive number.'),
+  monthlyPayment: z.coerce.number().min(0, 'Payment must be a positive number.'),
+  termMonths: z.coerce.number().int('Term must be a whole number of months.').min(0, 'Term must be a positive number.'),
+  startDate: z.date().optional(),
+});
+
+const formatDate = (date: Date) => {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+const formatLiabilityType = (type: Liability['type']) => {
+  if (!type) return 'Other';
+  return type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
+};
+
+const chartConfig = {
+  recorded: {
+    label: "Recorded Balance",
+    color: "hsl(var(--chart-1))",
+  },
+  projected: {
+    label: "Projected Balance",
+    color: "hsl(var(--chart-3))",
+  },
+} satisfies ChartConfig;
+
+/** The latest entry's balance, which the list pages and net worth read as `currentBalance`. */
+const getLatestBalance = (history: BalanceChange[]) =>
+  [...history].sort((a, b) => b.date.getTime() - a.date.getTime())[0]?.balance ?? 0;
+
+function LiabilityDetail() {
+  const user = useAuth();
+  const params = useParams();
+  const router = useRouter();
+  const liabilityId = params.id as string;
+  const { toast } = useToast();
+  const { currency } = useCurrency();
+
+  const [liability, setLiability] = useState<Liability | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [isLiabilityDialogOpen, setIsLiabilityDialogOpen] = useState(false);
+  const [isBalanceDialogOpen, setIsBalanceDialogOpen] = useState(false);
+  const [editingBalanceChange, setEditingBalanceChange] = useState<BalanceChange | null>(null);
+  const [balanceChangeToDelete, setBalanceChangeToDelete] = useState<BalanceChange | null>(null);
+
+  const balanceChangeForm = useForm<z.infer<typeof balanceChangeSchema>>({
+    resolver: zodResolver(balanceChangeSchema),
+  });
+
+  const liabilityForm = useForm<z.infer<typeof liabilitySchema>>({
+    resolver: zodResolver(liabilitySchema),
+  });
+
+  async function fetchLiability() {
+    if (!liabilityId || !user) return;
+    setLoading(true);
+    try {
+      const fetchedLiability = await getLiability(liabilityId);
+      if (fetchedLiability) {
+        if (fetchedLiability.userId !== user.uid) {
+          toast({ variant: 'destructive', title: 'Access Denied', description: 'You do not have permission to view this liability.'});
+          router.push('/liabilities');
+          return;
+        }
+        setLiability(fetchedLiability);
+      } else {
+        toast({ variant: 'destructive', title: 'Not Found', description: 'This liability does not exist.'});
+        setLiability(null);
+      }
+    } catch (error) {
+      console.error("Error fetching liability: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not load this liability." });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchLiability();
+  }, [liabilityId, user]);
+
+  useEffect(() => {
+    if (liability && isLiabilityDialogOpen) {
+      liabilityForm.reset({
+        name: liability.name,
+        type: liability.type,
+        apr: liability.apr,
+        monthlyPayment: liability.monthlyPayment ?? 0,
+        termMonths: liability.termMonths ?? 0,
+        startDate: liability.startDate ?? undefined,
+      });
+    }
+  }, [liability, isLiabilityDialogOpen, liabilityForm]);
+
+  useEffect(() => {
+    if (isBalanceDialogOpen) {
+      if (editingBalanceChange) {
+        balanceChangeForm.reset(editingBalanceChange);
+      } else {
+        balanceChangeForm.reset({ balance: liability?.currentBalance ?? 0, date: new Date() });
+      }
+    }
+  }, [editingBalanceChange, isBalanceDialogOpen, balanceChangeForm, liability]);
+
+  const saveBalanceHistory = async (balanceHistory: BalanceChange[]) => {
+    if (!liability) return;
+    await updateLiability(liability.id, { balanceHistory, currentBalance: getLatestBalance(balanceHistory) });
+  };
+
+  const handleBalanceSubmit = async (values: z.infer<typeof balanceChangeSchema>) => {
+    if (!liability) return;
+
+    let updatedHistory;
+    if (editingBalanceChange) {
+      updatedHistory = liability.balanceHistory.map(b =>
+        b.id === editingBalanceChange.id ? { ...b, ...values } : b
+      );
+    } else {
+      updatedHistory = [...liability.balanceHistory, { ...values, id: crypto.randomUUID() }];
+    }
+
+    try {
+      await saveBalanceHistory(updatedHistory);
+      toast({ title: editingBalanceChange ? "Balance Updated" : "Balance Added" });
+      fetchLiability();
+    } catch (error) {
+      console.error("Error saving balance: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not save balance." });
+    } finally {
+      setIsBalanceDialogOpen(false);
+      setEditingBalanceChange(null);
+    }
+  };
+
+  const handleDeleteBalanceChange = async () => {
+    if (!liability || !balanceChangeToDelete) return;
+
+    if (liability.balanceHistory.length <= 1) {
+      toast({ variant: 'destructive', title: "Error", description: "A liability must have at least one balance entry." });
+      setBalanceChangeToDelete(null);
+      return;
+    }
+
+    try {
+      await saveBalanceHistory(liability.balanceHistory.filter(b => b.id !== balanceChangeToDelete.id));
+      toast({ title: "Balance entry deleted" });
+      fetchLiability();
+    } catch (error) {
+      console.error("Error deleting balance entry: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not delete balance entry." });
+    } finally {
+      setBalanceChangeToDelete(null);
+    }
+  };
+
+  const handleLiabilitySubmit = async (values: z.infer<typeof liabilitySchema>) => {
+    if (!liability) return;
+    try {
+      await updateLiability(liability.id, {
+        name: values.name,
+        type: values.type,
+        apr: values.apr,
+        monthlyPayment: values.monthlyPayment || null,
+        termMonths: values.termMonths || null,
+        startDate: values.startDate ?? null,
+      });
+      toast({ title: "Liability Updated" });
+      fetchLiability();
+    } catch (error) {
+      console.error("Error updating liability: ", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not update liability." });
+    } finally {
+      setIsLiabilityDialogOpen(false);
+    }
+  };
+
+  const { schedule, scheduledPayment, balanceEvents, chartData } = useMemo(() => {
+    if (!liability) return { schedule: null, scheduledPayment: 0, balanceEvents: [], chartData: [] };
+
+    const today = new Date();
+    const liabilitySchedule = getLiabilitySchedule(liability, today);
+    const sortedHistory = [...liability.balanceHistory].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    // Recorded balances up to this month (at most five years back, since a backfilled opening
+    // balance can date from long ago), then the schedule's balance until it's paid off.
+    const firstDate = max([sortedHistory[0]?.date ?? today, subYears(today, 5)]);
+    const lastDate = liabilitySchedule.rows[liabilitySchedule.rows.length - 1]?.date ?? today;
+    const months = eachMonthOfInterval({ start: firstDate < today ? firstDate : today, end: lastDate > today ? lastDate : today });
+    const dataPoints = months.map(month => {
+      const monthEnd = endOfMonth(month);
+      const isPast = monthEnd < today || isSameMonth(month, today);
+      const recorded = getBalanceForDate(liability, monthEnd);
+      const showProjection = liabilitySchedule.rows.length > 0 && (!isPast || isSameMonth(month, today));
+      return {
+        date: format(month, 'MMM yy'),
+        recorded: isPast ? recorded : null,
+        projected: showProjection ? getScheduledBalance(liabilitySchedule, liability.currentBalance, monthEnd) : null,
+      };
+    });
+
+    return {
+      schedule: liabilitySchedule,
+      scheduledPayment: getScheduledPayment(liability, today),
+      balanceEvents: [...sortedHistory].reverse(),
+      chartData: dataPoints,
+    };
+  }, [liability]);
+
+  if (loading) {
+    return (
+      <>
+        <Header title="Loading Liability..." />
+        <main className="flex-1 p-4 sm:p-6 text-center">
+          <Loader2 className="mx-auto h-12 w-12 animate-spin text-muted-foreground" />
+        </main>
+      </>
+    );
+  }
+
+  if (!liability || !schedule) {
+    return (
+      <>
+        <Header title="Liability Not Found" />
+        <main className="flex-1 space-y-4 p-4 sm:p-6">
+          <div className="max-w-7xl mx-auto w-full">
+            <Button asChild variant="outline">
+              <Link href="/liabilities"><ChevronLeft className="mr-2 h-4 w-4" />Back to Liabilities</Link>
+            </Button>
+            <div className="text-center pt-8">
+              <Card className="inline-block">
+                <CardHeader>
+                  <CardTitle>Liability not found</CardTitle>
+                  <CardDescription>The liability you are looking for does not exist.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground">Please return to the liabilities page.</p>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const isPaidOff = liability.currentBalance <= 0;
+
+  return (
+    <>
+      <Header title={liability.name} />
+      <main className="flex-1 space-y-6 p-4 sm:p-6">
+        <div className="max-w-7xl mx-auto w-full space-y-6">
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-between sm:items-center">
+            <Button asChild variant="outline">
+              <Link href="/liabilities"><ChevronLeft className="mr-2 h-4 w-4" />Back to Liabilities</Link>
+            </Button>
+            <Button variant="outline" onClick={() => setIsLiabilityDialogOpen(true)}><Edit className="mr-2 h-4 w-4" /> Edit Liability</Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-4">
+                <Banknote className="h-8 w-8 text-primary" />
+                <div>
+                  <CardTitle className="text-3xl">{liability.name}</CardTitle>
+                  <CardDescription>
+                    {formatLiabilityType(liability.type)} &middot; {liability.apr.toFixed(2)}% APR
+                    {liability.termMonths ? ` · ${liability.termMonths} month term` : ''}
+                    {liability.startDate ? ` from ${format(liability.startDate, 'MMM yyyy')}` : ''}
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="grid gap-6 md:grid-cols-3">
+              <Card>
+                <CardHeader><CardTitle>Current Balance</CardTitle></CardHeader>
+                <CardContent>
+                  <p className="text-3xl font-bold tracking-tight text-destructive">{formatCurrency(liability.currentBalance, currency)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader><CardTitle>Monthly Payment</CardTitle></CardHeader>
+                <CardContent>
+                  <p className="text-3xl font-bold tracking-tight">{formatCurrency(scheduledPayment, currency)}</p>
+                  {!liability.monthlyPayment && scheduledPayment > 0 && (
+                    <p className="text-sm text-muted-foreground mt-1">Worked out from the remaining term.</p>
+                  )}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader><CardTitle>Projected Payoff</CardTitle></CardHeader>
+                <CardContent>
+                  <p className="text-3xl font-bold tracking-tight">
+                    {isPaidOff ? 'Paid off' : schedule.payoffDate ? format(schedule.payoffDate, 'MMM yyyy') : '—'}
+                  </p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {isPaidOff
+                      ? 'Nothing left to pay.'
+                      : schedule.payoffDate
+                      ? `${schedule.rows.length} payments · ${formatCurrency(schedule.totalInterest, currency)} interest`
+                      : scheduledPayment > 0
+                      ? "The payment doesn't cover the monthly interest."
+                      : 'Add a monthly payment or term to project a payoff date.'}
+                  </p>
+                </CardContent>
+              </Card>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Balance Over Time</CardTitle>
+                <CardDescription>Recorded balances, then the projected balance if you keep up the scheduled payment.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-[300px] w-full">
+                  <LineChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                    <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(value) => formatCurrency(Number(value), currency, { notation: 'compact' })} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label}: ${formatCurrency(Number(value), currency)}`} indicator="dot" />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="recorded" type="stepAfter" stroke="var(--color-recorded)" strokeWidth={2} dot={false} connectNulls />
+                    <Line dataKey="projected" type="monotone" stroke="var(--color-projected)" strokeWidth={2} strokeDasharray="5 5" dot={false} connectNulls />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="flex flex-col">
+              <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <CardTitle>Balance History</CardTitle>
+                  <CardDescription>Each balance you've recorded for this liability.</CardDescription>
+                </div>
+                <Button size="sm" onClick={() => { setEditingBalanceChange(null); setIsBalanceDialogOpen(true); }}><TrendingDown className="mr-2 h-4 w-4" /> Update Balance</Button>
+              </CardHeader>
+              <CardContent className="flex-grow">
+                {balanceEvents.length > 0 ? (
+                  <ScrollArea className="h-full max-h-72">
+                    <div className="space-y-4 pr-4">
+                      {balanceEvents.map(entry => (
+                        <Card key={entry.id} className="p-4 flex justify-between items-center">
+                          <div>
+                            <p className="font-medium">{entry.id === 'legacy-0' ? 'Opening Balance' : 'Balance'}</p>
+                            <p className="text-sm text-muted-foreground">{entry.date.getTime() === 0 ? 'Before balances were tracked' : formatDate(entry.date)}</p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-mono text-destructive">{formatCurrency(entry.balance, currency)}</p>
+                            <div className="-mr-2">
+                              <Button variant="ghost" size="icon" onClick={() => { setEditingBalanceChange(entry); setIsBalanceDialogOpen(true); }}><Edit className="h-4 w-4" /></Button>
+                              <Button variant="ghost" size="icon" onClick={() => setBalanceChangeToDelete(entry)}><Trash2 className="h-4 w-4" /></Button>
+                            </div>
+                          </div>
+                        </Card>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                ) : (
+                  <div className="flex h-full items-center justify-center text-muted-foreground">
+                    No balances recorded yet.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Amortisation Schedule</CardTitle>
+              <CardDescription>How each scheduled payment splits between interest and principal, starting next month.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {schedule.rows.length > 0 ? (
+                <ScrollArea className="h-96">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Payment</TableHead>
+                        <TableHead className="text-right">Interest</TableHead>
+                        <TableHead className="text-right">Principal</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {schedule.rows.map(row => (
+                        <TableRow key={row.period}>
+                          <TableCell className="text-muted-foreground">{row.period}</TableCell>
+                          <TableCell>{format(row.date, 'MMM yyyy')}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(row.payment, currency)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(row.interest, currency)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(row.principal, currency)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(row.balance, currency)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              ) : (
+                <div className="text-center py-12 text-muted-foreground">
+                  {isPaidOff ? 'This liability is paid off.' : 'Set a monthly payment that covers the interest, or a term, to see the schedule.'}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      {/* Balance Add/Edit Dialog */}
+      <Dialog open={isBalanceDialogOpen} onOpenChange={setIsBalanceDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingBalanceChange ? 'Edit Balance' : 'Update Balance'}</DialogTitle>
+          </DialogHeader>
+          <Form {...balanceChangeForm}>
+            <form onSubmit={balanceChangeForm.handleSubmit(handleBalanceSubmit)} className="space-y-4 py-4">
+              <FormField control={balanceChangeForm.control} name="balance" render={({ field }) => (
+                <FormItem><FormLabel>Outstanding Balance</FormLabel><FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={balanceChangeForm.control} name="date" render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Date of Balance</FormLabel>
+                  <Popover><PopoverTrigger asChild>
+                      <FormControl>
+                        <Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                          {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                  </PopoverTrigger><PopoverContent className="w-auto p-0" align="start">
+                      <ShadcnCalendar mode="single" selected={field.value} onSelect={field.onChange} disabled={{ after: new Date() }} />
+                  </PopoverContent></Popover>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsBalanceDialogOpen(false)}>Cancel</Button>
+                <Button type="submit">{editingBalanceChange ? 'Update' : 'Add'}</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Liability Edit Dialog */}
+      <Dialog open={isLiabilityDialogOpen} onOpenChange={setIsLiabilityDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader><DialogTitle>Edit Liability</DialogTitle></DialogHeader>
+          <Form {...liabilityForm}>
+            <form onSubmit={liabilityForm.handleSubmit(handleLiabilitySubmit)} className="space-y-4 py-4">
+              <FormField control={liabilityForm.control} name="name" render={({ field }) => (<FormItem><FormLabel>Liability Name</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <FormField control={liabilityForm.control} name="type" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Liability Type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value="credit_card">Credit Card</SelectItem>
+                      <SelectItem value="loan">Loan</SelectItem>
+                      <SelectItem value="mortgage">Mortgage</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select><FormMessage />
+                </FormItem>
+              )} />
+              <div className="grid grid-cols-3 gap-4">
+                <FormField control={liabilityForm.control} name="apr" render={({ field }) => (
+                  <FormItem><FormLabel>APR (%)</FormLabel><FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={liabilityForm.control} name="monthlyPayment" render={({ field }) => (
+                  <FormItem><FormLabel>Payment</FormLabel><FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={liabilityForm.control} name="termMonths" render={({ field }) => (
+                  <FormItem><FormLabel>Term (months)</FormLabel><FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={liabilityForm.control} name="startDate" render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Start Date</FormLabel>
+                  <Popover><PopoverTrigger asChild>
+                      <FormControl>
+                        <Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                          {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                  </PopoverTrigger><PopoverContent className="w-auto p-0" align="start">
+                      <ShadcnCalendar mode="single" selected={field.value} onSelect={field.onChange} disabled={{ after: new Date() }} />
+                  </PopoverContent></Popover>
+                  <p className="text-sm text-muted-foreground">Leave the payment at 0 to work it out from the term and start date.</p>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsLiabilityDialogOpen(false)}>Cancel</Button>
+                <Button type="submit">Update Liability</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Balance Confirmation */}
+      <AlertDialog open={!!balanceChangeToDelete} onOpenChange={(open) => !open && setBalanceChangeToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. This will permanently delete this balance entry.</AlertDialogDescription></AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setBalanceChangeToDelete(null)}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteBalanceChange}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+export default function LiabilityDetailPage() {
+  return (
+    <MainLayout>
+      <LiabilityDetail />
+    </MainLayout>
+  );
+}
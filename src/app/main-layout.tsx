@@ -41,12 +41,10 @@ import {
   CandlestickChart,
 } from 'lucide-react'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { CurrencyProvider } from '@/context/currency-context';
-import { ProjectionSettingsProvider } from '@/context/projection-settings-context';
 import { Logo } from '@/components/logo';
-import { UiSettingsProvider, useUiSettings } from '@/context/ui-settings-context';
+import { useUiSettings } from '@/context/ui-settings-context';
+import { SettingsProvider } from '@/context/settings-context';
 import { AppTourProvider } from './tour-guide';
-import { FinancialTargetsProvider } from '@/context/financial-targets-context';
 
 export const AuthContext = createContext<FirebaseUser | null>(null);
 
@@ -212,37 +210,31 @@ export function MainLayout({ children }: { children: React.ReactNode }) {
 
   return (
     <AuthContext.Provider value={user}>
-      <ProjectionSettingsProvider>
-        <CurrencyProvider>
-          <UiSettingsProvider>
-            <FinancialTargetsProvider>
-              <AppTourProvider>
-                <SidebarProvider>
-                  <Sidebar collapsible="icon" className="bg-card border-r">
-                    <SidebarHeader className="group-data-[collapsible=icon]:justify-center">
-                      <Link href="/dashboard" className="flex items-center gap-2 group-data-[collapsible=icon]:gap-0">
-                          <Logo className="h-7 w-7 transition-all" />
-                          <span className="text-lg font-semibold tracking-tight text-primary transition-opacity duration-200 group-data-[collapsible=icon]:w-0 group-data-[collapsible=icon]:opacity-0">
-                            WorthWatch
-                          </span>
-                        </Link>
-                    </SidebarHeader>
-                    <Navigation />
-                  </Sidebar>
-                  <SidebarInset>
-                    <div className="flex min-h-screen w-full flex-col">
-                      {children}
-                      <footer className="py-6 text-center text-muted-foreground text-sm">
-                        <p>WorthWatch © {new Date().getFullYear()}</p>
-                      </footer>
-                    </div>
-                  </SidebarInset>
-                </SidebarProvider>
-              </AppTourProvider>
-            </FinancialTargetsProvider>
-          </UiSettingsProvider>
-        </CurrencyProvider>
-      </ProjectionSettingsProvider>
+      <SettingsProvider>
+        <AppTourProvider>
+          <SidebarProvider>
+            <Sidebar collapsible="icon" className="bg-card border-r">
+              <SidebarHeader className="group-data-[collapsible=icon]:justify-center">
+                <Link href="/dashboard" className="flex items-center gap-2 group-data-[collapsible=icon]:gap-0">
+                    <Logo className="h-7 w-7 transition-all" />
+                    <span className="text-lg font-semibold tracking-tight text-primary transition-opacity duration-200 group-data-[collapsible=icon]:w-0 group-data-[collapsible=icon]:opacity-0">
+                      WorthWatch
+                    </span>
+                  </Link>
+              </SidebarHeader>
+              <Navigation />
+            </Sidebar>
+            <SidebarInset>
+              <div className="flex min-h-screen w-full flex-col">
+                {children}
+                <footer className="py-6 text-center text-muted-foreground text-sm">
+                  <p>WorthWatch © {new Date().getFullYear()}</p>
+                </footer>
+              </div>
+            </SidebarInset>
+          </SidebarProvider>
+        </AppTourProvider>
+      </SettingsProvider>
     </AuthContext.Provider>
   )
 }
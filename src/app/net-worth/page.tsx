@@ -11,35 +11,35 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
-import { db } from '@/lib/firebase';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { getConversionRate } from '@/services/currency-service';
-import { getHistoricalData, HistoricalDataPoint } from '@/services/investment-service';
+import { getBalanceForDate, getLiabilitySchedule, getScheduledBalance } from '@/lib/amortisation';
+import { createRateLookup, getRateSources, type RateSeries } from '@/lib/fx-rates';
+import { getRateProviders, resolveRateSeries } from '@/lib/fx-providers';
+import type { HistoricalDataPoint } from '@/lib/market-data';
+import { describePriceFailures, fetchPriceHistories } from '@/lib/investment-prices';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, TrendingUp, TrendingDown, Scale, PiggyBank, Landmark, Banknote, CandlestickChart, ChevronLeft, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
-import { defaultAssetTypes, DefaultCategory } from '@/lib/categories';
+import { Loader2, AlertTriangle, TrendingUp, TrendingDown, Scale, PiggyBank, Landmark, Banknote, CandlestickChart, ChevronLeft, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
 import DynamicIcon from '@/components/dynamic-icon';
 import { useFinancialTargets } from '@/context/financial-targets-context';
 import { Progress } from '@/components/ui/progress';
-import { addMonths, format as formatDate, isWithinInterval, subMonths, endOfMonth, isSameMonth, startOfDay } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { addMonths, format as formatDate, isWithinInterval, subMonths, endOfMonth, isSameMonth, startOfDay, startOfMonth } from 'date-fns';
 import { useProjectionSettings } from '@/context/projection-settings-context';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import type { AllocationScope, AllocationTarget, Asset, Category, Investment, Liability, SavingGoal } from '@/lib/types';
+import { getSharesHeld } from '@/lib/cost-basis';
+import { getUserAssets } from '@/repositories/assets';
+import { getUserSavingsGoals } from '@/repositories/savings';
+import { getUserLiabilities } from '@/repositories/liabilities';
+import { getUserInvestments } from '@/repositories/investments';
+import { getCategories } from '@/repositories/categories';
+import { getUserManualRates } from '@/repositories/manual-rates';
+import { RateSources } from '@/components/rate-sources';
+import { AllocationDrift } from '@/components/allocation-drift';
+import { getUserAllocationTargets, saveAllocationTargets } from '@/repositories/allocation-targets';
 
 
 // Types
-type AssetValueChange = { id: string; value: number; date: Date; };
-type AssetContribution = { id: string; amount: number; date: Date; };
-type Asset = { id: string; userId: string; name: string; type: string; currency: string; valueHistory: AssetValueChange[]; contributions: AssetContribution[]; };
-
-type SavingGoalContribution = { id: string; amount: number; date: Date; };
-type SavingGoal = { id: string; userId: string; name: string; targetAmount: number; targetDate: Date; startDate: Date; contributions: SavingGoalContribution[]; };
-
-type Liability = { id: string; userId: string; name: string; type: 'credit_card' | 'loan' | 'mortgage' | 'other'; currentBalance: number; apr: number; };
-
-type InvestmentTransaction = { id: string; date: Date; shares: number; price: number; currency: string; };
-type Investment = { id: string; userId: string; ticker: string; name: string; transactions: InvestmentTransaction[]; };
-
 type CombinedAsset = {
   id: string;
   name: string;
@@ -48,14 +48,9 @@ type CombinedAsset = {
   value: number;
   kind: 'asset' | 'savings' | 'investment';
   href: string;
+  rateUnavailable: boolean;
 };
 
-type Category = DefaultCategory & {
-  id:string;
-  userId?:string;
-  isDefault?: boolean;
-}
-
 type SortableKey = 'name' | 'type' | 'value';
 
 const liabilityIcons: Record<Liability['type'], React.ReactNode> = {
@@ -75,12 +70,13 @@ function NetWorth() {
     const [investments, setInvestments] = useState<Investment[]>([]);
     const [historicalInvestmentData, setHistoricalInvestmentData] = useState(new Map<string, HistoricalDataPoint[]>());
     const [assetTypes, setAssetTypes] = useState<Category[]>([]);
+    const [allocationTargets, setAllocationTargets] = useState<AllocationTarget[]>([]);
     const [loading, setLoading] = useState(true);
     const { netWorthTarget } = useFinancialTargets();
     const { defaultMonthlyContribution: savedDefaultContribution } = useProjectionSettings();
     
     const [selectedMonth, setSelectedMonth] = useState(new Date());
-    const [conversionRates, setConversionRates] = useState(new Map<string, number>());
+    const [rateSeries, setRateSeries] = useState<Record<string, RateSeries | null>>({});
     const [sortConfig, setSortConfig] = useState<{ key: SortableKey, direction: 'ascending' | 'descending' }>({ key: 'value', direction: 'descending' });
     const [liabilitySortConfig, setLiabilitySortConfig] = useState<{ key: SortableKey, direction: 'ascending' | 'descending' }>({ key: 'value', direction: 'descending' });
 
@@ -90,73 +86,32 @@ function NetWorth() {
         async function fetchData() {
             setLoading(true);
             try {
-                const assetsQuery = query(collection(db, 'assets'), where('userId', '==', user.uid));
-                const savingsQuery = query(collection(db, 'savings'), where('userId', '==', user.uid));
-                const liabilitiesQuery = query(collection(db, 'liabilities'), where('userId', '==', user.uid));
-                const assetTypesQuery = query(collection(db, 'assetTypes'), where('userId', '==', user.uid));
-                const investmentsQuery = query(collection(db, 'investments'), where('userId', '==', user.uid));
-
-                const [assetsSnapshot, savingsSnapshot, liabilitiesSnapshot, assetTypesSnapshot, investmentsSnapshot] = await Promise.all([
-                    getDocs(assetsQuery),
-                    getDocs(savingsQuery),
-                    getDocs(liabilitiesQuery),
-                    getDocs(assetTypesQuery),
-                    getDocs(investmentsQuery),
-                ]);
-                
-                // Asset Types
-                const customAssetTypes = assetTypesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-                setAssetTypes([
-                    ...defaultAssetTypes.map(c => ({...c, id: `default-${c.name}`, isDefault: true})), 
-                    ...customAssetTypes
+                const [assetsToProcess, savingsList, liabilitiesList, assetTypesList, investmentsToProcess, manualRates, targetsList] = await Promise.all([
+                    getUserAssets(user.uid),
+                    getUserSavingsGoals(user.uid),
+                    getUserLiabilities(user.uid),
+                    getCategories('assetTypes', user.uid),
+                    getUserInvestments(user.uid),
+                    getUserManualRates(user.uid),
+                    getUserAllocationTargets(user.uid),
                 ]);
-
-                // Liabilities
-                const liabilitiesList = liabilitiesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Liability));
+                setAssetTypes(assetTypesList);
+                setAllocationTargets(targetsList);
                 setLiabilities(liabilitiesList);
-
-                // Savings Goals
-                const savingsList = savingsSnapshot.docs.map(doc => {
-                    const data = doc.data();
-                    return { id: doc.id, ...data, contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() })) } as SavingGoal;
-                });
                 setSavingsGoals(savingsList);
-
-                // Assets (without currency conversion)
-                const assetsToProcess = assetsSnapshot.docs.map(doc => {
-                    const data = doc.data();
-                    return {
-                        id: doc.id, ...data,
-                        currency: data.currency || 'USD',
-                        valueHistory: (data.valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })),
-                        contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-                    } as Asset;
-                });
+                // Assets are stored without currency conversion
                 setAssets(assetsToProcess);
-
-                // Investments
-                const investmentsToProcess = investmentsSnapshot.docs.map(doc => {
-                  const data = doc.data();
-                  return {
-                    id: doc.id, ...data,
-                    transactions: (data.transactions || []).map((t: any) => ({ ...t, date: t.date.toDate() })),
-                  } as Investment;
-                });
                 setInvestments(investmentsToProcess);
                 
-                // Fetch all unique conversion rates needed
-                const rates = new Map<string, number>();
-                rates.set(currency, 1);
-                const uniqueCurrencies = [...new Set(assetsToProcess.map(a => a.currency).filter(c => c !== currency))];
-                uniqueCurrencies.push('USD'); // For investment prices
-                
-                await Promise.all(uniqueCurrencies.map(async (assetCurrency) => {
-                    if (!rates.has(assetCurrency) && assetCurrency) {
-                        const rate = await getConversionRate(assetCurrency, currency);
-                        rates.set(assetCurrency, rate);
-                    }
-                }));
-                setConversionRates(rates);
+                // Past months are converted at their own rates, so fetch the series back to the first value.
+                const firstDate = [
+                    ...assetsToProcess.flatMap(a => a.valueHistory.map(vh => vh.date)),
+                    ...investmentsToProcess.flatMap(i => i.transactions.map(t => t.date)),
+                ].reduce((earliest, date) => date < earliest ? date : earliest, new Date());
+                const rateCurrencies = [...assetsToProcess.map(a => a.currency), ...investmentsToProcess.map(i => i.quoteCurrency)];
+                setRateSeries(await resolveRateSeries(
+                    getRateProviders(manualRates), rateCurrencies, currency, startOfMonth(firstDate), new Date()
+                ));
                 
                 // Fetch historical investment prices
                 if (investmentsToProcess.length > 0) {
@@ -165,15 +120,11 @@ function NetWorth() {
                         ? allTransactions.reduce((earliest, tx) => tx.date < earliest ? tx.date : earliest, new Date())
                         : new Date();
 
-                    const uniqueTickers = [...new Set(investmentsToProcess.map(inv => inv.ticker))];
-                    const historicalData = new Map<string, HistoricalDataPoint[]>();
-                    
-                    await Promise.all(uniqueTickers.map(async (ticker) => {
-                        const history = await getHistoricalData(ticker, earliestTxDate);
-                        if (history) {
-                            historicalData.set(ticker, history.prices);
-                        }
-                    }));
+                    const { histories, failed } = await fetchPriceHistories(investmentsToProcess, earliestTxDate);
+                    if (failed.length > 0) {
+                        toast({ variant: 'destructive', title: "Prices unavailable", description: `${describePriceFailures(failed)} These holdings are left out of your net worth.` });
+                    }
+                    const historicalData = new Map(Array.from(histories, ([id, history]) => [id, history.prices]));
                     setHistoricalInvestmentData(historicalData);
                 }
 
@@ -198,18 +149,28 @@ function NetWorth() {
         return type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
     };
     
-    const { totalAssets, totalLiabilities, totalNetWorth, sortedCombinedAssets, sortedLiabilities, estimatedTargetDate, assetTypeBreakdown, liabilityTypeBreakdown } = useMemo(() => {
-        if (loading) return { totalAssets: 0, totalLiabilities: 0, totalNetWorth: 0, sortedCombinedAssets: [], sortedLiabilities: [], estimatedTargetDate: '', assetTypeBreakdown: [], liabilityTypeBreakdown: [] };
+    const { totalAssets, totalLiabilities, totalNetWorth, sortedCombinedAssets, sortedLiabilities, estimatedTargetDate, assetTypeBreakdown, liabilityTypeBreakdown, investmentValues, missingRates } = useMemo(() => {
+        if (loading) return { totalAssets: 0, totalLiabilities: 0, totalNetWorth: 0, sortedCombinedAssets: [], sortedLiabilities: [], estimatedTargetDate: '', assetTypeBreakdown: [], liabilityTypeBreakdown: [], investmentValues: [], missingRates: [] };
 
         const endDate = endOfMonth(selectedMonth);
-
-        const getAssetValueForDate = (asset: Asset): number => {
-            const rate = conversionRates.get(asset.currency) || 1;
+        const today = startOfDay(new Date());
+        // The current month is converted at today's rate; later days have none yet.
+        const rateDate = endDate > today ? today : endDate;
+        const rateFor = createRateLookup(currency, rateSeries);
+        const unavailable = new Set<string>();
+
+        // null when the value can't be converted into the display currency
+        const getAssetValueForDate = (asset: Asset): number | null => {
             const relevantValueEntry = asset.valueHistory
                 .filter(vh => vh.date <= endDate)
                 .sort((a,b) => b.date.getTime() - a.date.getTime())[0];
-            const nativeValue = relevantValueEntry ? relevantValueEntry.value : 0;
-            return nativeValue * rate;
+            if (!relevantValueEntry) return 0;
+            const rate = rateFor(asset.currency, rateDate);
+            if (rate === null) {
+                unavailable.add(asset.currency);
+                return null;
+            }
+            return relevantValueEntry.value * rate;
         };
 
         const getSavingsValueForDate = (goal: SavingGoal): number => {
@@ -218,14 +179,12 @@ function NetWorth() {
                 .reduce((sum, c) => sum + c.amount, 0);
         };
         
-        const getInvestmentValueForDate = (investment: Investment): number => {
-            const sharesOnDate = investment.transactions
-                .filter(t => t.date <= endDate)
-                .reduce((sum, t) => sum + t.shares, 0);
+        const getInvestmentValueForDate = (investment: Investment): number | null => {
+            const sharesOnDate = getSharesHeld(investment.transactions, endDate);
 
             if (sharesOnDate === 0) return 0;
             
-            const history = historicalInvestmentData.get(investment.ticker);
+            const history = historicalInvestmentData.get(investment.id);
             if (!history || history.length === 0) return 0;
 
             const relevantPrice = [...history]
@@ -233,27 +192,33 @@ function NetWorth() {
                 .pop(); // Already sorted by date ascending from service
             
             const price = relevantPrice?.close ?? 0;
-            const usdToGlobalRate = conversionRates.get('USD') || 1;
+            const priceRate = rateFor(investment.quoteCurrency, rateDate);
+            if (priceRate === null) {
+                unavailable.add(investment.quoteCurrency);
+                return null;
+            }
             
-            return sharesOnDate * price * usdToGlobalRate;
+            return sharesOnDate * price * priceRate;
         };
 
-        const assetsWithValue = assets.map(a => ({ ...a, value: getAssetValueForDate(a) }));
+        const withConvertedValue = (value: number | null) => ({ value: value ?? 0, rateUnavailable: value === null });
+        const assetsWithValue = assets.map(a => ({ ...a, ...withConvertedValue(getAssetValueForDate(a)) }));
         const savingsWithValue = savingsGoals.map(g => ({ ...g, value: getSavingsValueForDate(g) }));
-        const investmentsWithValue = investments.map(i => ({...i, value: getInvestmentValueForDate(i)}));
+        const investmentsWithValue = investments.map(i => ({ ...i, ...withConvertedValue(getInvestmentValueForDate(i)) }));
+        const liabilitiesWithValue = liabilities.map(l => ({ ...l, value: getBalanceForDate(l, endDate) }));
 
         const assetsValue = assetsWithValue.reduce((sum, asset) => sum + asset.value, 0);
         const savingsValue = savingsWithValue.reduce((sum, goal) => sum + goal.value, 0);
         const investmentsValue = investmentsWithValue.reduce((sum, inv) => sum + inv.value, 0);
-        const liabilitiesValue = liabilities.reduce((sum, liability) => sum + liability.currentBalance, 0);
+        const liabilitiesValue = liabilitiesWithValue.reduce((sum, liability) => sum + liability.value, 0);
         const netWorth = assetsValue + savingsValue + investmentsValue - liabilitiesValue;
 
         const assetTypesMap = new Map(assetTypes.map(t => [t.name, t]));
         
         const combined: CombinedAsset[] = [
-            ...assetsWithValue.map(a => ({ id: a.id, name: a.name, type: a.type, icon: assetTypesMap.get(a.type)?.icon || 'Landmark', value: a.value, kind: 'asset' as const, href: `/asset/${a.id}`})),
-            ...savingsWithValue.map(g => ({ id: g.id, name: g.name, type: 'Savings Goal', icon: 'PiggyBank', value: g.value, kind: 'savings' as const, href: `/savings/${g.id}`})),
-            ...investmentsWithValue.map(i => ({ id: i.id, name: i.name, type: 'Investment', icon: 'CandlestickChart', value: i.value, kind: 'investment' as const, href: `/investments/${i.id}`}))
+            ...assetsWithValue.map(a => ({ id: a.id, name: a.name, type: a.type, icon: assetTypesMap.get(a.type)?.icon || 'Landmark', value: a.value, kind: 'asset' as const, href: `/asset/${a.id}`, rateUnavailable: a.rateUnavailable})),
+            ...savingsWithValue.map(g => ({ id: g.id, name: g.name, type: 'Savings Goal', icon: 'PiggyBank', value: g.value, kind: 'savings' as const, href: `/savings/${g.id}`, rateUnavailable: false})),
+            ...investmentsWithValue.map(i => ({ id: i.id, name: i.name, type: 'Investment', icon: 'CandlestickChart', value: i.value, kind: 'investment' as const, href: `/investments/${i.id}`, rateUnavailable: i.rateUnavailable}))
         ];
 
         const sortedAssets = [...combined].sort((a, b) => {
@@ -269,12 +234,12 @@ function NetWorth() {
             return 0;
         });
 
-        const sortedLia = [...liabilities].sort((a, b) => {
-            const key = liabilitySortConfig.key === 'value' ? 'currentBalance' : liabilitySortConfig.key;
+        const sortedLia = [...liabilitiesWithValue].sort((a, b) => {
+            const key = liabilitySortConfig.key;
             const direction = liabilitySortConfig.direction === 'ascending' ? 1 : -1;
 
-            const valA = key === 'type' ? formatLiabilityType(a.type) : a[key as 'name' | 'currentBalance'];
-            const valB = key === 'type' ? formatLiabilityType(b.type) : b[key as 'name' | 'currentBalance'];
+            const valA = key === 'type' ? formatLiabilityType(a.type) : a[key];
+            const valB = key === 'type' ? formatLiabilityType(b.type) : b[key];
 
             if (typeof valA === 'string' && typeof valB === 'string') {
                  return valA.localeCompare(valB) * direction;
@@ -299,12 +264,12 @@ function NetWorth() {
             icon: data.icon,
         })).sort((a,b) => b.value - a.value);
 
-        const liabilityBreakdown = liabilities.reduce<Record<string, { value: number }>>((acc, liability) => {
+        const liabilityBreakdown = liabilitiesWithValue.reduce<Record<string, { value: number }>>((acc, liability) => {
             const formattedType = formatLiabilityType(liability.type);
              if (!acc[formattedType]) {
                 acc[formattedType] = { value: 0 };
             }
-            acc[formattedType].value += liability.currentBalance;
+            acc[formattedType].value += liability.value;
             return acc;
         }, {});
         
@@ -316,6 +281,9 @@ function NetWorth() {
         let dateStr = '';
         if (isCurrentMonth && netWorthTarget && netWorth < netWorthTarget) {
             const today = new Date();
+            const liabilitySchedules = liabilities.map(liability => ({ liability, schedule: getLiabilitySchedule(liability, today) }));
+            const getDebtForDate = (date: Date) => liabilitySchedules.reduce((sum, { liability, schedule }) => sum + getScheduledBalance(schedule, liability.currentBalance, date), 0);
+            const hasDebtPaydown = liabilitySchedules.some(({ schedule }) => schedule.rows.length > 0);
             const twelveMonthsAgo = subMonths(today, 12);
             
             const totalAssetContributions = assets
@@ -334,13 +302,18 @@ function NetWorth() {
             const annualGrowthRate = 7;
             const monthlyGrowthRate = annualGrowthRate / 100 / 12;
 
-            if (monthlyContribution > 0 || (netWorth > 0 && annualGrowthRate > 0)) {
+            if (monthlyContribution > 0 || hasDebtPaydown || (netWorth > 0 && annualGrowthRate > 0)) {
                 let projectedValue = netWorth;
+                let remainingDebt = liabilitiesValue;
                 let monthsToTarget = 0;
                 while (projectedValue < netWorthTarget) {
                     projectedValue += monthlyContribution;
                     projectedValue *= (1 + monthlyGrowthRate);
                     monthsToTarget++;
+                    // Scheduled debt repayments raise net worth as the balances fall.
+                    const debt = getDebtForDate(addMonths(today, monthsToTarget));
+                    projectedValue += remainingDebt - debt;
+                    remainingDebt = debt;
                     if (monthsToTarget > 1200) {
                         monthsToTarget = -1;
                         break;
@@ -361,9 +334,40 @@ function NetWorth() {
             sortedLiabilities: sortedLia,
             estimatedTargetDate: dateStr,
             assetTypeBreakdown: assetTypeArray,
-            liabilityTypeBreakdown: liabilityTypeArray
+            liabilityTypeBreakdown: liabilityTypeArray,
+            investmentValues: investmentsWithValue.map(i => ({ key: i.ticker, value: i.value })),
+            missingRates: [...unavailable],
         }
-    }, [assets, savingsGoals, liabilities, investments, historicalInvestmentData, assetTypes, netWorthTarget, savedDefaultContribution, selectedMonth, conversionRates, isCurrentMonth, loading, sortConfig, liabilitySortConfig]);
+    }, [assets, savingsGoals, liabilities, investments, historicalInvestmentData, assetTypes, netWorthTarget, savedDefaultContribution, selectedMonth, currency, rateSeries, isCurrentMonth, loading, sortConfig, liabilitySortConfig]);
+
+    const allocationValues = useMemo(() => assetTypeBreakdown.map(item => ({ key: item.type, value: item.value })), [assetTypeBreakdown]);
+    const assetTypeKeys = useMemo(() => [...assetTypes.map(t => t.name), 'Savings Goal', 'Investment'], [assetTypes]);
+    const tickerKeys = useMemo(() => [...new Set(investments.map(i => i.ticker))], [investments]);
+    const targetsFor = (scope: AllocationScope) => allocationTargets.filter(t => t.scope === scope);
+
+    const handleSaveTargets = async (scope: AllocationScope, targets: Pick<AllocationTarget, 'key' | 'percent'>[]) => {
+        if (!user) return false;
+        try {
+            await saveAllocationTargets(user.uid, scope, targets);
+            setAllocationTargets(await getUserAllocationTargets(user.uid));
+            toast({ title: "Targets saved", description: "Your target allocation has been updated." });
+            return true;
+        } catch (error) {
+            console.error("Error saving allocation targets:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not save your target allocation." });
+            return false;
+        }
+    };
+
+    const payoffDates = useMemo(() => {
+        return new Map(liabilities.map(liability => [liability.id, getLiabilitySchedule(liability).payoffDate]));
+    }, [liabilities]);
+
+    const formatPayoffDate = (liability: Liability) => {
+        const payoffDate = payoffDates.get(liability.id);
+        if (liability.currentBalance <= 0) return 'Paid off';
+        return payoffDate ? formatDate(payoffDate, 'MMM yyyy') : '—';
+    };
 
     const currencyOptions = { minimumFractionDigits: 0, maximumFractionDigits: 0 };
     
@@ -430,6 +434,15 @@ function NetWorth() {
                                 </Button>
                             </div>
                         </div>
+                        {missingRates.length > 0 && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertTitle>Exchange rates unavailable</AlertTitle>
+                                <AlertDescription>
+                                    No {missingRates.join(', ')} to {currency} rate could be found for {formatDate(selectedMonth, 'MMMM yyyy')}, so holdings in {missingRates.length === 1 ? 'that currency are' : 'those currencies are'} left out of the totals.
+                                </AlertDescription>
+                            </Alert>
+                        )}
                         <div className="grid gap-6 md:grid-cols-3">
                             <Card>
                                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2"><CardTitle className="text-sm font-medium">Total Net Worth</CardTitle><Scale className="h-4 w-4 text-muted-foreground" /></CardHeader>
@@ -539,6 +552,33 @@ function NetWorth() {
                     </Card>
                 </div>
 
+                {!loading && (
+                    <div className="max-w-7xl mx-auto w-full space-y-6">
+                        <AllocationDrift
+                            title="Allocation by Asset Type"
+                            description={`How ${formatDate(selectedMonth, 'MMMM yyyy')} compares with your target allocation, and what would bring it back.`}
+                            values={allocationValues}
+                            keys={assetTypeKeys}
+                            targets={targetsFor('assetType')}
+                            currency={currency}
+                            defaultContribution={savedDefaultContribution}
+                            onSaveTargets={(targets) => handleSaveTargets('assetType', targets)}
+                        />
+                        {investments.length > 0 && (
+                            <AllocationDrift
+                                title="Investment Allocation"
+                                description="Your investments by ticker, against the share of the investments you want each to be."
+                                values={investmentValues}
+                                keys={tickerKeys}
+                                targets={targetsFor('ticker')}
+                                currency={currency}
+                                defaultContribution={savedDefaultContribution}
+                                onSaveTargets={(targets) => handleSaveTargets('ticker', targets)}
+                            />
+                        )}
+                    </div>
+                )}
+
                 <div className="max-w-7xl mx-auto w-full">
                     <Card>
                         <CardHeader>
@@ -571,12 +611,19 @@ function NetWorth() {
                                                                 <span>{asset.type}</span>
                                                             </div>
                                                         </TableCell>
-                                                        <TableCell className="text-right font-mono">{formatCurrency(asset.value, currency)}</TableCell>
+                                                        {asset.rateUnavailable ? (
+                                                            <TableCell className="text-right text-muted-foreground">Rate unavailable</TableCell>
+                                                        ) : (
+                                                            <TableCell className="text-right font-mono">{formatCurrency(asset.value, currency)}</TableCell>
+                                                        )}
                                                     </TableRow>
                                                 ))}
                                             </TableBody>
                                         </Table>
                                     )}
+                                    <div className="mt-4">
+                                        <RateSources sources={getRateSources(rateSeries)} currency={currency} />
+                                    </div>
                                 </TabsContent>
                                 <TabsContent value="liabilities" className="mt-4">
                                     {loading ? <Loader2 className="mx-auto mt-8 h-8 w-8 animate-spin text-muted-foreground" /> : (
@@ -585,20 +632,22 @@ function NetWorth() {
                                                 <TableRow>
                                                     <SortableHeader title="Name" sortKey="name" onSort={requestLiabilitySort} currentSortConfig={liabilitySortConfig} />
                                                     <SortableHeader title="Type" sortKey="type" onSort={requestLiabilitySort} currentSortConfig={liabilitySortConfig} />
+                                                    <TableHead className="text-right">Projected Payoff</TableHead>
                                                     <SortableHeader title="Value" sortKey="value" onSort={requestLiabilitySort} currentSortConfig={liabilitySortConfig} className="text-right" />
                                                 </TableRow>
                                             </TableHeader>
                                             <TableBody>
                                                 {sortedLiabilities.map(liability => (
                                                     <TableRow key={liability.id}>
-                                                        <TableCell className="font-medium"><Link href="/liabilities" className="hover:underline">{liability.name}</Link></TableCell>
+                                                        <TableCell className="font-medium"><Link href={`/liability/${liability.id}`} className="hover:underline">{liability.name}</Link></TableCell>
                                                         <TableCell>
                                                             <div className="flex items-center gap-2 text-muted-foreground">
                                                                 {liabilityIcons[liability.type]}
                                                                 <span>{formatLiabilityType(liability.type)}</span>
                                                             </div>
                                                         </TableCell>
-                                                        <TableCell className="text-right font-mono text-destructive">{formatCurrency(liability.currentBalance, currency)}</TableCell>
+                                                        <TableCell className="text-right text-muted-foreground">{formatPayoffDate(liability)}</TableCell>
+                                                        <TableCell className="text-right font-mono text-destructive">{formatCurrency(liability.value, currency)}</TableCell>
                                                     </TableRow>
                                                 ))}
                                             </TableBody>
@@ -2,6 +2,7 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -13,60 +14,52 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ChartContainer, ChartTooltip, ChartLegend, ChartLegendContent, ChartConfig } from "@/components/ui/chart";
 import { CartesianGrid, Area, ComposedChart, XAxis, YAxis, Line } from "recharts";
-import { Info, TrendingUp, Loader2 } from 'lucide-react';
-import { collection, getDocs, query, where } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { Info, TrendingUp, Loader2, AlertTriangle } from 'lucide-react';
 import { useCurrency } from '@/context/currency-context';
 import { useProjectionSettings } from '@/context/projection-settings-context';
+import { useFinancialTargets } from '@/context/financial-targets-context';
 import { formatCurrency } from '@/lib/currency';
-import { subMonths, isWithinInterval, addMonths, subYears, eachMonthOfInterval, endOfMonth, format, isAfter, isSameMonth } from "date-fns";
+import { getBalanceForDate, getLiabilitySchedule, getScheduledBalance } from '@/lib/amortisation';
+import { DEFAULT_SIMULATIONS, runMonteCarlo, type AssetClassAssumption } from '@/lib/monte-carlo';
+import { createRateLookup, getRateSources, type RateSeries } from '@/lib/fx-rates';
+import { getRateProviders, resolveRateSeries } from '@/lib/fx-providers';
+import { subMonths, isWithinInterval, addMonths, subYears, eachMonthOfInterval, endOfMonth, format, isAfter, isSameMonth, startOfMonth } from "date-fns";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { getConversionRate } from '@/services/currency-service';
-import { getHistoricalData, HistoricalDataPoint } from '@/services/investment-service';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { HistoricalDataPoint } from '@/lib/market-data';
+import { describePriceFailures, fetchPriceHistories } from '@/lib/investment-prices';
 import { useToast } from '@/hooks/use-toast';
-
-type ValueChange = { id: string; value: number; date: Date; };
-type Contribution = { id: string; amount: number; date: Date; };
-type Asset = {
-  id: string;
-  name: string;
-  currency: string;
-  valueHistory: ValueChange[];
-  contributions: Contribution[];
-};
-
-type SavingGoalContribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  contributions: SavingGoalContribution[];
-};
-
-type Liability = { 
-    id: string; 
-    currentBalance: number 
-};
-
-type InvestmentTransaction = { id: string; date: Date; shares: number; price: number; currency: string; };
-type Investment = { id: string; userId: string; ticker: string; name: string; transactions: InvestmentTransaction[]; };
+import DynamicIcon from '@/components/dynamic-icon';
+import type { Asset, Category, Investment, Liability, SavingGoal } from '@/lib/types';
+import { getCashFlow, getSharesHeld } from '@/lib/cost-basis';
+import { getUserAssets } from '@/repositories/assets';
+import { getUserSavingsGoals } from '@/repositories/savings';
+import { getUserLiabilities } from '@/repositories/liabilities';
+import { getUserInvestments } from '@/repositories/investments';
+import { getCategories } from '@/repositories/categories';
+import { getUserManualRates } from '@/repositories/manual-rates';
+import { RateSources } from '@/components/rate-sources';
 
 
 const projectionSchema = z.object({
   projectionYears: z.coerce.number().int().min(1, "Must project at least 1 year."),
   annualGrowthRate: z.coerce.number().min(0, "Growth rate can't be negative."),
   monthlyContribution: z.coerce.number().min(0, "Contribution can't be negative."),
+  volatility: z.coerce.number().min(0, "Volatility can't be negative."),
 });
 
+const SIMULATION_COUNTS = [1000, DEFAULT_SIMULATIONS, 5000, 10000];
+
+// Savings goals and investments are simulated as these asset types.
+const SAVINGS_CLASS = 'Savings';
+const INVESTMENT_CLASS = 'Investment';
+
+type ClassAssumptions = Record<string, { meanReturn: number; volatility: number }>;
+
 const chartConfig = {
   netWorth: {
     label: "Historical Net Worth",
@@ -84,6 +77,18 @@ const chartConfig = {
     label: "Growth",
     color: "hsl(var(--chart-1))",
   },
+  debtRepaid: {
+    label: "Debt Repaid",
+    color: "hsl(var(--chart-5))",
+  },
+  p50: {
+    label: "Median",
+    color: "hsl(var(--chart-1))",
+  },
+  band: {
+    label: "10th–90th Percentile",
+    color: "hsl(var(--chart-1))",
+  },
 } satisfies ChartConfig;
 
 
@@ -92,87 +97,54 @@ function Projections() {
   const { toast } = useToast();
   const { currency } = useCurrency();
   const { defaultMonthlyContribution: savedDefaultContribution } = useProjectionSettings();
+  const { netWorthTarget } = useFinancialTargets();
   const [assets, setAssets] = useState<Asset[]>([]);
   const [savingsGoals, setSavingsGoals] = useState<SavingGoal[]>([]);
   const [liabilities, setLiabilities] = useState<Liability[]>([]);
   const [investments, setInvestments] = useState<Investment[]>([]);
+  const [assetTypes, setAssetTypes] = useState<Category[]>([]);
   const [historicalInvestmentData, setHistoricalInvestmentData] = useState(new Map<string, HistoricalDataPoint[]>());
-  const [conversionRates, setConversionRates] = useState(new Map<string, number>());
+  const [rateSeries, setRateSeries] = useState<Record<string, RateSeries | null> | null>(null);
 
   const [loading, setLoading] = useState(true);
   const [initialContributionSet, setInitialContributionSet] = useState(false);
   const [showHistory, setShowHistory] = useState(true);
+  const [isMonteCarlo, setIsMonteCarlo] = useState(false);
+  const [simulations, setSimulations] = useState(DEFAULT_SIMULATIONS);
+  const [isPerClass, setIsPerClass] = useState(false);
+  const [classAssumptions, setClassAssumptions] = useState<ClassAssumptions>({});
 
   useEffect(() => {
     async function fetchData() {
         if (!user) return;
         setLoading(true);
         try {
-            const assetsQuery = query(collection(db, 'assets'), where('userId', '==', user.uid));
-            const savingsQuery = query(collection(db, 'savings'), where('userId', '==', user.uid));
-            const liabilitiesQuery = query(collection(db, 'liabilities'), where('userId', '==', user.uid));
-            const investmentsQuery = query(collection(db, 'investments'), where('userId', '==', user.uid));
-            
-            const [assetsSnapshot, savingsSnapshot, liabilitiesSnapshot, investmentsSnapshot] = await Promise.all([
-              getDocs(assetsQuery),
-              getDocs(savingsQuery),
-              getDocs(liabilitiesQuery),
-              getDocs(investmentsQuery)
+            const [assetsList, savingsList, liabilitiesList, investmentsToProcess, assetTypesList, manualRates] = await Promise.all([
+              getUserAssets(user.uid),
+              getUserSavingsGoals(user.uid),
+              getUserLiabilities(user.uid),
+              getUserInvestments(user.uid),
+              getCategories('assetTypes', user.uid),
+              getUserManualRates(user.uid),
             ]);
-
-            const assetsList = assetsSnapshot.docs.map(doc => {
-                const data = doc.data();
-                return {
-                    id: doc.id,
-                    ...data,
-                    currency: data.currency || 'USD',
-                    valueHistory: (data.valueHistory || []).map((v: any) => ({ ...v, date: v.date.toDate() })),
-                    contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() })),
-                } as Asset;
-            });
             setAssets(assetsList);
-            
-            const savingsList = savingsSnapshot.docs.map(doc => {
-                const data = doc.data();
-                return {
-                    id: doc.id,
-                    ...data,
-                    startDate: data.startDate.toDate(),
-                    targetDate: data.targetDate.toDate(),
-                    contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() })),
-                } as SavingGoal;
-            });
             setSavingsGoals(savingsList);
-
-            const liabilitiesList = liabilitiesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Liability[];
             setLiabilities(liabilitiesList);
-
-            const investmentsToProcess = investmentsSnapshot.docs.map(doc => {
-                const data = doc.data();
-                return {
-                id: doc.id, ...data,
-                transactions: (data.transactions || []).map((t: any) => ({ ...t, date: t.date.toDate() })),
-                } as Investment;
-            });
             setInvestments(investmentsToProcess);
+            setAssetTypes(assetTypesList);
 
-            // Fetch conversion rates
-            const rates = new Map<string, number>();
-            rates.set(currency, 1);
+            // Fetch dated conversion rates covering the history shown on the chart
             const uniqueAssetCurrencies = assetsList.map(a => a.currency);
-            const uniqueInvestmentCurrencies = investmentsToProcess.flatMap(i => i.transactions.map(t => t.currency));
-            const uniqueCurrencies = [...new Set([...uniqueAssetCurrencies, ...uniqueInvestmentCurrencies, 'USD'])].filter(c => c !== currency);
-            
-
-            await Promise.all(
-              uniqueCurrencies.map(async (assetCurrency) => {
-                if (!rates.has(assetCurrency) && assetCurrency) {
-                  const rate = await getConversionRate(assetCurrency, currency);
-                  rates.set(assetCurrency, rate);
-                }
-              })
-            );
-            setConversionRates(rates);
+            const uniqueInvestmentCurrencies = investmentsToProcess.flatMap(i => [i.quoteCurrency, ...i.transactions.map(t => t.currency)]);
+            const uniqueCurrencies = [...new Set([...uniqueAssetCurrencies, ...uniqueInvestmentCurrencies])].filter(c => c !== currency);
+            const firstDate = [
+              ...assetsList.flatMap(a => a.valueHistory.map(vh => vh.date)),
+              ...investmentsToProcess.flatMap(i => i.transactions.map(t => t.date)),
+            ].reduce((earliest, date) => date < earliest ? date : earliest, subMonths(new Date(), 12));
+            const historyStart = subYears(new Date(), 5);
+            setRateSeries(await resolveRateSeries(
+              getRateProviders(manualRates), uniqueCurrencies, currency, startOfMonth(firstDate < historyStart ? historyStart : firstDate), new Date()
+            ));
             
             // Fetch historical investment data
             if (investmentsToProcess.length > 0) {
@@ -181,15 +153,11 @@ function Projections() {
                     ? allTransactions.reduce((earliest, tx) => tx.date < earliest ? tx.date : earliest, new Date())
                     : new Date();
 
-                const uniqueTickers = [...new Set(investmentsToProcess.map(inv => inv.ticker))];
-                const historicalData = new Map<string, HistoricalDataPoint[]>();
-                
-                await Promise.all(uniqueTickers.map(async (ticker) => {
-                    const history = await getHistoricalData(ticker, earliestTxDate);
-                    if (history) {
-                        historicalData.set(ticker, history.prices);
-                    }
-                }));
+                const { histories, failed } = await fetchPriceHistories(investmentsToProcess, earliestTxDate);
+                if (failed.length > 0) {
+                    toast({ variant: 'destructive', title: "Prices unavailable", description: `${describePriceFailures(failed)} These holdings are left out of the projections.` });
+                }
+                const historicalData = new Map(Array.from(histories, ([id, history]) => [id, history.prices]));
                 setHistoricalInvestmentData(historicalData);
             }
 
@@ -203,7 +171,8 @@ function Projections() {
   }, [user, currency, toast]);
 
   const monthlyContributionRate = useMemo(() => {
-    if (loading || conversionRates.size === 0) return 0;
+    if (loading || !rateSeries) return 0;
+    const rateFor = createRateLookup(currency, rateSeries);
 
     const today = new Date();
     const twelveMonthsAgo = subMonths(today, 12);
@@ -220,16 +189,16 @@ function Projections() {
     
     const totalInvestmentContributions = investments
         .flatMap(inv => inv.transactions || [])
-        .filter(t => t.shares > 0 && isWithinInterval(t.date, { start: twelveMonthsAgo, end: today }))
+        .filter(t => t.type === 'buy' && isWithinInterval(t.date, { start: twelveMonthsAgo, end: today }))
         .reduce((sum, t) => {
-            const rate = conversionRates.get(t.currency) || 1;
-            return sum + (t.price * t.shares * rate);
+            const rate = rateFor(t.currency, t.date);
+            return rate === null ? sum : sum + (getCashFlow(t) * rate);
         }, 0);
 
     const totalContributions = totalAssetContributions + totalSavingsContributions + totalInvestmentContributions;
     
     return totalContributions / 12;
-  }, [assets, savingsGoals, investments, loading, conversionRates]);
+  }, [assets, savingsGoals, investments, loading, currency, rateSeries]);
 
   const form = useForm<z.infer<typeof projectionSchema>>({
     resolver: zodResolver(projectionSchema),
@@ -237,6 +206,7 @@ function Projections() {
       projectionYears: 10,
       annualGrowthRate: 7,
       monthlyContribution: 0,
+      volatility: 15,
     },
   });
   
@@ -255,27 +225,35 @@ function Projections() {
 
   const formValues = form.watch();
 
-  const { projectionData, finalValue, totalContributions, totalInterest, tableData } = useMemo(() => {
-    const defaultResult = { projectionData: [], finalValue: 0, totalContributions: 0, totalInterest: 0, tableData: [] };
-    if (loading || conversionRates.size === 0) return defaultResult;
+  const { projectionData, finalValue, totalContributions, totalInterest, totalDebtRepaid, tableData, assetClassValues, monteCarloSummary, missingRates } = useMemo(() => {
+    const defaultResult = { projectionData: [], finalValue: 0, totalContributions: 0, totalInterest: 0, totalDebtRepaid: 0, tableData: [], assetClassValues: [], monteCarloSummary: null, missingRates: [] };
+    if (loading || !rateSeries) return defaultResult;
     
     const rawFormValues = form.getValues();
     const projectionYears = Number(rawFormValues.projectionYears) || 0;
     const annualGrowthRate = Number(rawFormValues.annualGrowthRate) || 0;
     const monthlyContribution = Number(rawFormValues.monthlyContribution) || 0;
+    const volatility = Number(rawFormValues.volatility) || 0;
 
     if (isNaN(projectionYears) || isNaN(annualGrowthRate) || isNaN(monthlyContribution)) {
         return defaultResult;
     }
+
+    // Each month is converted at its own rate; values without one are left out and reported.
+    const rateFor = createRateLookup(currency, rateSeries);
+    const unavailable = new Set<string>();
+    const getRate = (fromCurrency: string, date: Date) => {
+        const rate = rateFor(fromCurrency, date > new Date() ? new Date() : date);
+        if (rate === null) unavailable.add(fromCurrency);
+        return rate;
+    };
     
     const getInvestmentValueForDate = (investment: Investment, date: Date): number => {
-        const sharesOnDate = investment.transactions
-            .filter(t => t.date <= date)
-            .reduce((sum, t) => sum + t.shares, 0);
+        const sharesOnDate = getSharesHeld(investment.transactions, date);
 
         if (sharesOnDate === 0) return 0;
         
-        const history = historicalInvestmentData.get(investment.ticker);
+        const history = historicalInvestmentData.get(investment.id);
         if (!history || history.length === 0) return 0;
 
         const relevantPrice = [...history]
@@ -283,18 +261,18 @@ function Projections() {
             .pop();
         
         const price = relevantPrice?.close ?? 0;
-        const usdToGlobalRate = conversionRates.get('USD') || 1;
+        const priceRate = getRate(investment.quoteCurrency, date);
         
-        return sharesOnDate * price * usdToGlobalRate;
+        return priceRate === null ? 0 : sharesOnDate * price * priceRate;
     };
     
     const getAssetValueForDate = (asset: Asset, date: Date): number => {
-        const rate = conversionRates.get(asset.currency) || 1;
         const relevantValueEntry = asset.valueHistory
             .filter(vh => vh.date <= date)
             .sort((a,b) => b.date.getTime() - a.date.getTime())[0];
-        const nativeValue = relevantValueEntry ? relevantValueEntry.value : 0;
-        return nativeValue * rate;
+        if (!relevantValueEntry) return 0;
+        const rate = getRate(asset.currency, date);
+        return rate === null ? 0 : relevantValueEntry.value * rate;
     };
 
     const assetsTotal = assets.reduce((sum, asset) => sum + getAssetValueForDate(asset, new Date()), 0);
@@ -303,7 +281,7 @@ function Projections() {
     const investmentsTotal = investments.reduce((sum, inv) => sum + getInvestmentValueForDate(inv, new Date()), 0);
     const currentNetWorth = assetsTotal + savingsTotal + investmentsTotal - liabilitiesTotal;
     
-    let chartData: { date: Date, netWorth?: number | null, initialCapital?: number | null, contributions?: number | null, interest?: number | null }[] = [];
+    let chartData: { date: Date, netWorth?: number | null, initialCapital?: number | null, contributions?: number | null, interest?: number | null, debtRepaid?: number | null, p10?: number, p50?: number, p90?: number, band?: number }[] = [];
 
     const allAssetStartDates = assets.flatMap(a => a.valueHistory.map(vh => vh.date));
     const allSavingsStartDates = savingsGoals.map(g => g.startDate);
@@ -324,7 +302,8 @@ function Projections() {
                     const assetsValue = assets.reduce((sum, asset) => sum + getAssetValueForDate(asset, monthEnd), 0);
                     const savingsValue = savingsGoals.reduce((total, goal) => total + goal.contributions.filter(c => c.date <= monthEnd).reduce((sum, c) => sum + c.amount, 0), 0);
                     const investmentsValue = investments.reduce((sum, inv) => sum + getInvestmentValueForDate(inv, monthEnd), 0);
-                    const netWorthForMonth = assetsValue + savingsValue + investmentsValue - liabilitiesTotal;
+                    const liabilitiesValue = liabilities.reduce((sum, liability) => sum + getBalanceForDate(liability, monthEnd), 0);
+                    const netWorthForMonth = assetsValue + savingsValue + investmentsValue - liabilitiesValue;
                     chartData.push({ date: month, netWorth: parseFloat(netWorthForMonth.toFixed(2)) });
                 }
             }
@@ -333,26 +312,66 @@ function Projections() {
     
     const historicalDataPoints = chartData.map(d => ({ ...d }));
     // The connection point between history and future
-    historicalDataPoints.push({ date: today, netWorth: currentNetWorth, initialCapital: currentNetWorth, contributions: 0, interest: 0 });
+    historicalDataPoints.push({ date: today, netWorth: currentNetWorth, initialCapital: currentNetWorth, contributions: 0, interest: 0, debtRepaid: 0 });
 
     let projectedValue = currentNetWorth;
     const monthlyGrowthRate = annualGrowthRate / 100 / 12;
     let cumulativeContributions = 0;
+
+    // Liabilities follow their amortisation schedules; ones without payment terms stay at today's balance.
+    const liabilitySchedules = liabilities.map(liability => ({ liability, schedule: getLiabilitySchedule(liability, today) }));
+    const getDebtForDate = (date: Date) => liabilitySchedules.reduce((sum, { liability, schedule }) => sum + getScheduledBalance(schedule, liability.currentBalance, date), 0);
     
-    const futureDataPoints = [];
+    const futureDataPoints: typeof chartData = [];
     for (let i = 0; i < projectionYears * 12; i++) {
       projectedValue += monthlyContribution;
       projectedValue *= (1 + monthlyGrowthRate);
       cumulativeContributions += monthlyContribution;
       const interestSoFar = projectedValue - currentNetWorth - cumulativeContributions;
+      const date = addMonths(today, i + 1);
 
       futureDataPoints.push({
-        date: addMonths(today, i + 1),
+        date,
         netWorth: null,
         initialCapital: currentNetWorth,
         contributions: cumulativeContributions,
         interest: interestSoFar,
+        debtRepaid: liabilitiesTotal - getDebtForDate(date),
+      });
+    }
+
+    // Current value of each asset class, for per-class Monte Carlo assumptions.
+    const classValues = new Map<string, number>();
+    const addToClass = (name: string, value: number) => classValues.set(name, (classValues.get(name) || 0) + value);
+    assets.forEach(asset => addToClass(asset.type, getAssetValueForDate(asset, today)));
+    savingsGoals.forEach(goal => addToClass(SAVINGS_CLASS, goal.contributions.reduce((sum, c) => sum + c.amount, 0)));
+    investments.forEach(inv => addToClass(INVESTMENT_CLASS, getInvestmentValueForDate(inv, today)));
+    const classValueList = Array.from(classValues.entries())
+      .filter(([, value]) => value > 0)
+      .map(([name, value]) => ({ name, value }))
+      .sort((a, b) => b.value - a.value);
+
+    let summary: { p10: number, p50: number, p90: number, probabilityOfTarget: number | null } | null = null;
+    if (isMonteCarlo) {
+      const grossAssets = currentNetWorth + liabilitiesTotal;
+      const assumptionFor = (name: string) => classAssumptions[name] ?? { meanReturn: annualGrowthRate, volatility };
+      const assetClasses: AssetClassAssumption[] = isPerClass && classValueList.length > 0
+        ? classValueList.map(c => ({ ...c, ...assumptionFor(c.name) }))
+        : [{ name: 'Portfolio', value: grossAssets, meanReturn: annualGrowthRate, volatility }];
+
+      const { bands, probabilityOfTarget } = runMonteCarlo({
+        assetClasses,
+        monthlyContribution,
+        months: futureDataPoints.length,
+        simulations,
+        getDebtForMonth: month => getDebtForDate(addMonths(today, month)),
+        target: netWorthTarget && netWorthTarget > 0 ? netWorthTarget : null,
       });
+      bands.forEach((band, index) => Object.assign(futureDataPoints[index], { p10: band.p10, p50: band.p50, p90: band.p90, band: band.p90 - band.p10 }));
+      Object.assign(historicalDataPoints[historicalDataPoints.length - 1], { p10: currentNetWorth, p50: currentNetWorth, p90: currentNetWorth, band: 0 });
+
+      const lastBand = bands[bands.length - 1];
+      summary = { p10: lastBand?.p10 ?? currentNetWorth, p50: lastBand?.p50 ?? currentNetWorth, p90: lastBand?.p90 ?? currentNetWorth, probabilityOfTarget };
     }
 
     const fullProjectionData = [...historicalDataPoints, ...futureDataPoints];
@@ -362,24 +381,34 @@ function Projections() {
       : [historicalDataPoints[historicalDataPoints.length - 1], ...futureDataPoints];
 
     const finalDataPoint = fullProjectionData[fullProjectionData.length - 1];
-    const finalVal = finalDataPoint.initialCapital! + finalDataPoint.contributions! + finalDataPoint.interest!;
+    const finalVal = finalDataPoint.initialCapital! + finalDataPoint.contributions! + finalDataPoint.interest! + finalDataPoint.debtRepaid!;
     const totalContrib = finalDataPoint.contributions!;
     const totalInt = finalDataPoint.interest!;
+    const totalRepaid = finalDataPoint.debtRepaid!;
     
-    const yearlyTableData: {year: number, projectedNetWorth: number}[] = [];
+    const yearlyTableData: {year: number, projectedNetWorth: number, p10?: number, p90?: number}[] = [];
     const currentYear = today.getFullYear();
     yearlyTableData.push({ year: currentYear, projectedNetWorth: currentNetWorth });
 
     for (let i = 1; i <= projectionYears; i++) {
         const yearDataPoint = futureDataPoints[(i * 12) - 1];
         if(yearDataPoint) {
-            const projectedNetWorth = yearDataPoint.initialCapital! + yearDataPoint.contributions! + yearDataPoint.interest!;
-            yearlyTableData.push({ year: currentYear + i, projectedNetWorth });
+            const projectedNetWorth = isMonteCarlo
+                ? yearDataPoint.p50!
+                : yearDataPoint.initialCapital! + yearDataPoint.contributions! + yearDataPoint.interest! + yearDataPoint.debtRepaid!;
+            yearlyTableData.push({ year: currentYear + i, projectedNetWorth, p10: yearDataPoint.p10, p90: yearDataPoint.p90 });
         }
     }
     
-    return { projectionData: chartDataForRender, finalValue: finalVal, totalContributions: totalContrib, totalInterest: totalInt, tableData: yearlyTableData };
-  }, [assets, savingsGoals, liabilities, investments, historicalInvestmentData, conversionRates, formValues, loading, showHistory]);
+    return { projectionData: chartDataForRender, finalValue: finalVal, totalContributions: totalContrib, totalInterest: totalInt, totalDebtRepaid: totalRepaid, tableData: yearlyTableData, assetClassValues: classValueList, monteCarloSummary: summary, missingRates: [...unavailable] };
+  }, [assets, savingsGoals, liabilities, investments, historicalInvestmentData, currency, rateSeries, formValues, loading, showHistory, isMonteCarlo, isPerClass, classAssumptions, simulations, netWorthTarget]);
+
+  const assetTypeIcons = useMemo(() => new Map(assetTypes.map(t => [t.name, t.icon])), [assetTypes]);
+
+  const handleClassAssumptionChange = (name: string, field: 'meanReturn' | 'volatility', value: string) => {
+    const fallback = { meanReturn: Number(formValues.annualGrowthRate) || 0, volatility: Number(formValues.volatility) || 0 };
+    setClassAssumptions(prev => ({ ...prev, [name]: { ...fallback, ...prev[name], [field]: Number(value) || 0 } }));
+  };
 
   const currencyOptions = { minimumFractionDigits: 0, maximumFractionDigits: 0 };
 
@@ -388,7 +417,7 @@ function Projections() {
         const data = payload[0].payload;
         const isHistory = data.netWorth !== null && data.netWorth !== undefined;
         
-        const totalProjected = data.initialCapital + data.contributions + data.interest;
+        const totalProjected = data.initialCapital + data.contributions + data.interest + data.debtRepaid;
 
         return (
             <div className="rounded-lg border bg-background/95 p-2 text-xs shadow-lg backdrop-blur-sm animate-in fade-in-0 zoom-in-95">
@@ -398,6 +427,23 @@ function Projections() {
                         <span className="text-muted-foreground">Historical Net Worth</span>
                         <span className="font-mono font-semibold">{formatCurrency(data.netWorth, currency, currencyOptions)}</span>
                     </div>
+                ) : isMonteCarlo ? (
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between gap-4">
+                            <span className="font-semibold">Median</span>
+                            <span className="font-mono font-semibold">{formatCurrency(data.p50, currency, currencyOptions)}</span>
+                        </div>
+                        <div className="pl-2 space-y-1 text-muted-foreground">
+                            <div className="flex items-center justify-between gap-4">
+                                <span>90th percentile</span>
+                                <span className="font-mono">{formatCurrency(data.p90, currency, currencyOptions)}</span>
+                            </div>
+                            <div className="flex items-center justify-between gap-4">
+                                <span>10th percentile</span>
+                                <span className="font-mono">{formatCurrency(data.p10, currency, currencyOptions)}</span>
+                            </div>
+                        </div>
+                    </div>
                 ) : (
                     <div className="space-y-1">
                         <div className="flex items-center justify-between gap-4">
@@ -417,6 +463,12 @@ function Projections() {
                                 <span>Growth</span>
                                 <span className="font-mono">{formatCurrency(data.interest, currency, currencyOptions)}</span>
                             </div>
+                            {data.debtRepaid > 0 && (
+                                <div className="flex items-center justify-between gap-4">
+                                    <span>Debt Repaid</span>
+                                    <span className="font-mono">{formatCurrency(data.debtRepaid, currency, currencyOptions)}</span>
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
@@ -477,9 +529,90 @@ function Projections() {
                                 <FormMessage>{form.formState.errors.monthlyContribution?.message}</FormMessage>
                             </FormItem>
                         </CardContent>
+                        <CardContent className="space-y-4 border-t pt-6">
+                            <div className="flex items-center space-x-2">
+                                <Switch id="monte-carlo" checked={isMonteCarlo} onCheckedChange={setIsMonteCarlo} />
+                                <Label htmlFor="monte-carlo">Monte Carlo simulation</Label>
+                            </div>
+                            {isMonteCarlo && (
+                                <>
+                                    <p className="text-sm text-muted-foreground">
+                                        Runs many randomised market paths around your growth rate and shows the range of likely outcomes. Growth applies to your assets, while debts follow their payment schedules.
+                                    </p>
+                                    <div className="grid gap-4 sm:grid-cols-3">
+                                        <FormItem>
+                                            <FormLabel>Annual Volatility (%)</FormLabel>
+                                            <FormControl>
+                                                <Input type="number" step="1" {...form.register('volatility')} onFocus={(e) => e.target.select()} disabled={isPerClass} />
+                                            </FormControl>
+                                            <FormMessage>{form.formState.errors.volatility?.message}</FormMessage>
+                                        </FormItem>
+                                        <FormItem>
+                                            <FormLabel>Simulations</FormLabel>
+                                            <Select value={String(simulations)} onValueChange={(value) => setSimulations(Number(value))}>
+                                                <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                                                <SelectContent>
+                                                    {SIMULATION_COUNTS.map(count => (
+                                                        <SelectItem key={count} value={String(count)}>{count.toLocaleString()}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </FormItem>
+                                        <div className="flex items-center space-x-2 sm:pt-8">
+                                            <Switch id="per-class" checked={isPerClass} onCheckedChange={setIsPerClass} disabled={assetClassValues.length === 0} />
+                                            <Label htmlFor="per-class">Assumptions per asset type</Label>
+                                        </div>
+                                    </div>
+                                    {isPerClass && assetClassValues.length > 0 && (
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow>
+                                                    <TableHead>Asset Type</TableHead>
+                                                    <TableHead className="text-right">Current Value</TableHead>
+                                                    <TableHead className="w-[140px]">Return (%)</TableHead>
+                                                    <TableHead className="w-[140px]">Volatility (%)</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {assetClassValues.map(assetClass => {
+                                                    const assumption = classAssumptions[assetClass.name];
+                                                    return (
+                                                        <TableRow key={assetClass.name}>
+                                                            <TableCell>
+                                                                <div className="flex items-center gap-2">
+                                                                    <DynamicIcon name={assetTypeIcons.get(assetClass.name) || 'Landmark'} className="h-4 w-4 text-muted-foreground" />
+                                                                    <span className="font-medium">{assetClass.name}</span>
+                                                                </div>
+                                                            </TableCell>
+                                                            <TableCell className="text-right font-mono">{formatCurrency(assetClass.value, currency, currencyOptions)}</TableCell>
+                                                            <TableCell>
+                                                                <Input type="number" step="0.1" value={assumption?.meanReturn ?? formValues.annualGrowthRate} onChange={(e) => handleClassAssumptionChange(assetClass.name, 'meanReturn', e.target.value)} />
+                                                            </TableCell>
+                                                            <TableCell>
+                                                                <Input type="number" step="1" value={assumption?.volatility ?? formValues.volatility} onChange={(e) => handleClassAssumptionChange(assetClass.name, 'volatility', e.target.value)} />
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    );
+                                                })}
+                                            </TableBody>
+                                        </Table>
+                                    )}
+                                </>
+                            )}
+                        </CardContent>
                     </form>
                 </Form>
             </Card>
+
+            {missingRates.length > 0 && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Exchange rates unavailable</AlertTitle>
+                    <AlertDescription>
+                        No {missingRates.join(', ')} to {currency} rate could be found for some dates, so holdings in {missingRates.length === 1 ? 'that currency' : 'those currencies'} are left out of those points.
+                    </AlertDescription>
+                </Alert>
+            )}
             
             <Card>
                 <CardHeader>
@@ -522,6 +655,11 @@ function Projections() {
                                                 <TableCell className="font-medium">{data.year}</TableCell>
                                                 <TableCell className="text-right font-mono">
                                                     {formatCurrency(data.projectedNetWorth, currency, currencyOptions)}
+                                                    {isMonteCarlo && data.p10 !== undefined && data.p90 !== undefined && (
+                                                        <p className="text-xs text-muted-foreground">
+                                                            {formatCurrency(data.p10, currency, { notation: 'compact' })} – {formatCurrency(data.p90, currency, { notation: 'compact' })}
+                                                        </p>
+                                                    )}
                                                 </TableCell>
                                             </TableRow>
                                         ))}
@@ -537,15 +675,57 @@ function Projections() {
                                         <ChartTooltip cursor={true} content={<CustomTooltip />} />
                                         <ChartLegend content={<ChartLegendContent />} />
                                         
-                                        <Area dataKey="initialCapital" type="monotone" fill="var(--color-initialCapital)" stroke="var(--color-initialCapital)" stackId="1" name="Initial Capital" />
-                                        <Area dataKey="contributions" type="monotone" fill="var(--color-contributions)" stroke="var(--color-contributions)" stackId="1" name="Contributions" />
-                                        <Area dataKey="interest" type="monotone" fill="var(--color-interest)" stroke="var(--color-interest)" stackId="1" name="Growth" />
+                                        {isMonteCarlo ? (
+                                            <>
+                                                {/* The band is stacked on an invisible 10th-percentile area so it spans p10 to p90. */}
+                                                <Area dataKey="p10" type="monotone" fill="transparent" stroke="none" stackId="band" legendType="none" activeDot={false} />
+                                                <Area dataKey="band" type="monotone" fill="var(--color-band)" fillOpacity={0.25} stroke="none" stackId="band" name="10th–90th Percentile" />
+                                                <Line dataKey="p50" type="monotone" stroke="var(--color-p50)" strokeWidth={2} dot={false} name="Median" />
+                                            </>
+                                        ) : (
+                                            <>
+                                                <Area dataKey="initialCapital" type="monotone" fill="var(--color-initialCapital)" stroke="var(--color-initialCapital)" stackId="1" name="Initial Capital" />
+                                                <Area dataKey="contributions" type="monotone" fill="var(--color-contributions)" stroke="var(--color-contributions)" stackId="1" name="Contributions" />
+                                                <Area dataKey="interest" type="monotone" fill="var(--color-interest)" stroke="var(--color-interest)" stackId="1" name="Growth" />
+                                                {totalDebtRepaid > 0 && (
+                                                    <Area dataKey="debtRepaid" type="monotone" fill="var(--color-debtRepaid)" stroke="var(--color-debtRepaid)" stackId="1" name="Debt Repaid" />
+                                                )}
+                                            </>
+                                        )}
                                         
                                         <Line dataKey="netWorth" type="monotone" stroke="var(--color-netWorth)" strokeWidth={2} dot={false} name="Historical Net Worth" connectNulls />
                                     </ComposedChart>
                                 </ChartContainer>
+                                {rateSeries && <RateSources sources={getRateSources(rateSeries)} currency={currency} />}
 
-                                <div className="mt-6 border-t pt-6 grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+                                {isMonteCarlo && monteCarloSummary ? (
+                                <div className="mt-6 border-t pt-6 grid grid-cols-1 md:grid-cols-4 gap-4 text-center">
+                                    <div>
+                                        <p className="text-sm text-muted-foreground">Median Ending Balance</p>
+                                        <p className="text-xl font-bold tracking-tight">{formatCurrency(monteCarloSummary.p50, currency, currencyOptions)}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-sm text-muted-foreground">Pessimistic (10th)</p>
+                                        <p className="text-xl font-bold tracking-tight">{formatCurrency(monteCarloSummary.p10, currency, currencyOptions)}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-sm text-muted-foreground">Optimistic (90th)</p>
+                                        <p className="text-xl font-bold tracking-tight">{formatCurrency(monteCarloSummary.p90, currency, currencyOptions)}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-sm text-muted-foreground">Chance of Reaching Target</p>
+                                        {monteCarloSummary.probabilityOfTarget !== null ? (
+                                            <>
+                                                <p className="text-xl font-bold tracking-tight">{(monteCarloSummary.probabilityOfTarget * 100).toFixed(0)}%</p>
+                                                <p className="text-xs text-muted-foreground">of {formatCurrency(netWorthTarget!, currency, currencyOptions)} within {formValues.projectionYears} years</p>
+                                            </>
+                                        ) : (
+                                            <p className="text-sm pt-1"><Link href="/settings/financial" className="underline">Set a net worth target</Link></p>
+                                        )}
+                                    </div>
+                                </div>
+                                ) : (
+                                <div className={cn("mt-6 border-t pt-6 grid grid-cols-1 gap-4 text-center", totalDebtRepaid > 0 ? "md:grid-cols-4" : "md:grid-cols-3")}>
                                     <div>
                                         <p className="text-sm text-muted-foreground">Ending Balance</p>
                                         <p className="text-xl font-bold tracking-tight">{formatCurrency(finalValue, currency, currencyOptions)}</p>
@@ -558,7 +738,14 @@ function Projections() {
                                         <p className="text-sm text-muted-foreground">Total Interest Earned</p>
                                         <p className="text-xl font-bold tracking-tight">{formatCurrency(totalInterest, currency, currencyOptions)}</p>
                                     </div>
+                                    {totalDebtRepaid > 0 && (
+                                        <div>
+                                            <p className="text-sm text-muted-foreground">Debt Repaid</p>
+                                            <p className="text-xl font-bold tracking-tight">{formatCurrency(totalDebtRepaid, currency, currencyOptions)}</p>
+                                        </div>
+                                    )}
                                 </div>
+                                )}
                             </div>
                         </>
                     ) : (
@@ -28,28 +28,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDes
 import { Input } from '@/components/ui/input';
 
 // Libs and context
-import { db } from '@/lib/firebase';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 
+import type { SavingGoal, SavingGoalContribution as Contribution } from '@/lib/types';
+import { getSavingsGoal, updateSavingsGoal } from '@/repositories/savings';
+
 // Types
-type Contribution = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  contributions: Contribution[];
-};
 type FilterType = 'all' | 'contribution' | 'withdrawal';
 
 const contributionSchema = z.object({
@@ -87,23 +74,14 @@ function SavingGoalHistory() {
   async function fetchGoal() {
     if (!goalId || !user) return;
     setLoading(true);
-    const goalRef = doc(db, 'savings', goalId);
-    const goalSnap = await getDoc(goalRef);
+    const goalData = await getSavingsGoal(goalId);
 
-    if (goalSnap.exists()) {
-        const data = goalSnap.data();
-        if (data.userId !== user.uid) {
+    if (goalData) {
+        if (goalData.userId !== user.uid) {
             toast({ variant: 'destructive', title: 'Access Denied' });
             router.push('/savings');
             return;
         }
-        const goalData = {
-            id: goalSnap.id,
-            ...data,
-            startDate: data.startDate.toDate(),
-            targetDate: data.targetDate.toDate(),
-            contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-        } as SavingGoal;
         setGoal(goalData);
         setDateRange({ from: goalData.startDate, to: new Date() });
     } else {
@@ -141,8 +119,7 @@ function SavingGoalHistory() {
     }
     
     try {
-        const goalRef = doc(db, "savings", goal.id);
-        await updateDoc(goalRef, { contributions: updatedContributions });
+        await updateSavingsGoal(goal.id, { contributions: updatedContributions });
         toast({ title: editingContribution ? "Transaction Updated" : "Transaction Added" });
         fetchGoal();
     } catch(error) {
@@ -158,8 +135,7 @@ function SavingGoalHistory() {
     if (!goal || !contributionToDelete) return;
     const updatedContributions = goal.contributions.filter(c => c.id !== contributionToDelete.id);
     try {
-        const goalRef = doc(db, "savings", goal.id);
-        await updateDoc(goalRef, { contributions: updatedContributions });
+        await updateSavingsGoal(goal.id, { contributions: updatedContributions });
         toast({ title: "Transaction Deleted" });
         fetchGoal();
     } catch (error) {
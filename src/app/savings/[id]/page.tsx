@@ -24,40 +24,16 @@ import { Input } from '@/components/ui/input';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as ShadcnCalendar } from '@/components/ui/calendar';
 import { useToast } from '@/hooks/use-toast';
-import { db } from '@/lib/firebase';
-import { doc, getDoc, updateDoc, collection, query, where, getDocs } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
+import { hasPermission } from '@/lib/household-roles';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { ScrollArea } from '@/components/ui/scroll-area';
-
-
-type Contribution = {
-  id: string;
-  amount: number;
-  date: Date;
-  userId: string;
-  userName: string;
-};
-
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  sharing: 'personal' | string;
-  splitType?: 'equal' | 'contribution';
-  contributions: Contribution[];
-};
-
-type Household = {
-    id: string;
-    name: string;
-};
+import type { Household, SavingGoal, SavingGoalContribution as Contribution } from '@/lib/types';
+import { getUserHouseholds } from '@/repositories/households';
+import { getSavingsGoal, updateSavingsGoal } from '@/repositories/savings';
 
 const contributionSchema = z.object({
   amount: z.coerce.number().refine(val => val !== 0, 'Amount cannot be zero.'),
@@ -121,16 +97,12 @@ function SavingGoalDetail() {
     if (!goalId || !user) return;
     setLoading(true);
 
-    const householdsQuery = query(collection(db, 'households'), where('memberIds', 'array-contains', user.uid));
-    const householdsSnapshot = await getDocs(householdsQuery);
-    const householdsList = householdsSnapshot.docs.map(doc => ({ id: doc.id, name: doc.data().name }));
+    const householdsList = await getUserHouseholds(user.uid);
     setHouseholds(householdsList);
     
-    const goalRef = doc(db, 'savings', goalId);
-    const goalSnap = await getDoc(goalRef);
+    const data = await getSavingsGoal(goalId);
 
-    if (goalSnap.exists()) {
-        const data = goalSnap.data();
+    if (data) {
         const householdIds = householdsList.map(h => h.id);
         const isPersonal = data.sharing === 'personal' && data.userId === user.uid;
         const isSharedWithUser = data.sharing !== 'personal' && householdIds.includes(data.sharing);
@@ -141,13 +113,7 @@ function SavingGoalDetail() {
             return;
         }
 
-        setGoal({
-            id: goalSnap.id,
-            ...data,
-            startDate: data.startDate.toDate(),
-            targetDate: data.targetDate.toDate(),
-            contributions: (data.contributions || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-        } as SavingGoal);
+        setGoal(data);
     } else {
         toast({ variant: 'destructive', title: 'Not Found'});
         setGoal(null);
@@ -206,8 +172,7 @@ function SavingGoalDetail() {
     }
     
     try {
-        const goalRef = doc(db, "savings", goal.id);
-        await updateDoc(goalRef, { contributions: updatedContributions });
+        await updateSavingsGoal(goal.id, { contributions: updatedContributions });
         toast({ title: editingContribution ? "Transaction Updated" : "Transaction Added" });
         fetchGoal();
     } catch(error) {
@@ -222,12 +187,11 @@ function SavingGoalDetail() {
   const handleGoalSubmit = async (values: z.infer<typeof savingGoalSchema>) => {
       if (!goal || !user || goal.userId !== user.uid) return;
       try {
-          const goalRef = doc(db, 'savings', goal.id);
           const payload = {
               ...values,
               splitType: values.sharing === 'personal' ? undefined : values.splitType
           };
-          await updateDoc(goalRef, payload);
+          await updateSavingsGoal(goal.id, payload);
           toast({ title: "Goal Updated" });
           fetchGoal();
       } catch (error) {
@@ -248,8 +212,7 @@ function SavingGoalDetail() {
 
     const updatedContributions = goal.contributions.filter(c => c.id !== contributionToDelete.id);
     try {
-        const goalRef = doc(db, "savings", goal.id);
-        await updateDoc(goalRef, { contributions: updatedContributions });
+        await updateSavingsGoal(goal.id, { contributions: updatedContributions });
         toast({ title: "Transaction Deleted" });
         fetchGoal();
     } catch (error) {
@@ -283,8 +246,9 @@ function SavingGoalDetail() {
     const memberTotals: Record<string, { userId: string; name: string, total: number }> = {};
     if (goal.sharing !== 'personal' && goal.splitType === 'contribution') {
       goal.contributions.forEach(c => {
+        if (!c.userId) return; // Entries added from the history page carry no contributor
         if (!memberTotals[c.userId]) {
-          memberTotals[c.userId] = { userId: c.userId, name: c.userName, total: 0 };
+          memberTotals[c.userId] = { userId: c.userId, name: c.userName || 'Unknown', total: 0 };
         }
         memberTotals[c.userId].total += c.amount;
       });
@@ -344,6 +308,8 @@ function SavingGoalDetail() {
   
   const currencyOptions = { minimumFractionDigits: 0, maximumFractionDigits: 0 };
   const canPerformActions = goal.userId === user.uid;
+  // Household viewers can see a shared goal but not add to it
+  const canContribute = canPerformActions || hasPermission(households.find(h => h.id === goal.sharing), user.uid, 'editShared');
 
   return (
     <>
@@ -403,11 +369,13 @@ function SavingGoalDetail() {
                       <CardTitle>Recent Transactions</CardTitle>
                       <CardDescription>The last 3 transactions for this goal.</CardDescription>
                   </div>
-                   <div className="flex gap-2">
-                      <Button size="sm" onClick={() => { setEditingContribution(null); setIsContribDialogOpen(true); }}>
-                          <PlusCircle className="mr-2 h-4 w-4" /> Add
-                      </Button>
-                   </div>
+                   {canContribute && (
+                      <div className="flex gap-2">
+                          <Button size="sm" onClick={() => { setEditingContribution(null); setIsContribDialogOpen(true); }}>
+                              <PlusCircle className="mr-2 h-4 w-4" /> Add
+                          </Button>
+                      </div>
+                   )}
                   </CardHeader>
                   <CardContent className="flex-grow">
                       {recentTransactions.length > 0 ? (
@@ -426,7 +394,7 @@ function SavingGoalDetail() {
                                               </div>
                                               <div className="text-right">
                                                   <p className={`font-mono ${isContribution ? 'text-green-400' : 'text-red-400'}`}>{formatCurrency(c.amount, currency)}</p>
-                                                  {c.userId === user.uid && (
+                                                  {c.userId === user.uid && canContribute && (
                                                       <div className="-mr-2">
                                                           <Button variant="ghost" size="icon" onClick={() => { setEditingContribution(c); setIsContribDialogOpen(true); }}><Edit className="h-4 w-4" /></Button>
                                                           <Button variant="ghost" size="icon" onClick={() => { setContributionToDelete(c); setIsDeleteConfirmOpen(true); }}><Trash2 className="h-4 w-4" /></Button>
@@ -464,7 +432,7 @@ function SavingGoalDetail() {
                                                   {formatCurrency(c.amount, currency)}
                                               </TableCell>
                                               <TableCell className="text-right">
-                                              {c.userId === user.uid && (
+                                              {c.userId === user.uid && canContribute && (
                                                   <>
                                                       <Button variant="ghost" size="icon" onClick={() => { setEditingContribution(c); setIsContribDialogOpen(true); }}><Edit className="h-4 w-4" /></Button>
                                                       <Button variant="ghost" size="icon" onClick={() => { setContributionToDelete(c); setIsDeleteConfirmOpen(true); }}><Trash2 className="h-4 w-4" /></Button>
@@ -22,37 +22,13 @@ import { CalendarIcon, Edit, Loader2, PiggyBank, PlusCircle, Trash2, Info, Users
 import { useToast } from "@/hooks/use-toast";
 import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
-import { db } from '@/lib/firebase';
-import { collection, getDocs, addDoc, doc, updateDoc, deleteDoc, query, where } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-
-type SavingGoalContribution = {
-  id: string;
-  amount: number;
-  date: Date;
-  userId: string;
-  userName: string;
-};
-
-type SavingGoal = {
-  id: string;
-  userId: string;
-  name: string;
-  targetAmount: number;
-  targetDate: Date;
-  startDate: Date;
-  sharing: 'personal' | string;
-  splitType?: 'equal' | 'contribution';
-  contributions: SavingGoalContribution[];
-};
-
-type Household = {
-    id: string;
-    name: string;
-}
+import type { Household, SavingGoal } from '@/lib/types';
+import { getUserHouseholds } from '@/repositories/households';
+import { addSavingsGoal, deleteSavingsGoal, getHouseholdSavingsGoals, getPersonalSavingsGoals, updateSavingsGoal } from '@/repositories/savings';
 
 const savingGoalSchema = z.object({
   name: z.string().min(1, 'Goal name is required.'),
@@ -87,40 +63,17 @@ function Savings() {
     if (!user) return;
     setIsLoading(true);
 
-    const householdsQuery = query(collection(db, 'households'), where('memberIds', 'array-contains', user.uid));
-    const householdsSnapshot = await getDocs(householdsQuery);
-    const householdsList = householdsSnapshot.docs.map(doc => ({ id: doc.id, name: doc.data().name }));
+    const householdsList = await getUserHouseholds(user.uid);
     setHouseholds(householdsList);
     const householdIds = householdsList.map(h => h.id);
 
-    const personalGoalsQuery = query(collection(db, 'savings'), where('userId', '==', user.uid), where('sharing', '==', 'personal'));
-    const sharedGoalsQuery = householdIds.length > 0
-        ? query(collection(db, 'savings'), where('sharing', 'in', householdIds))
-        : null;
-
-    const [personalGoalsSnapshot, sharedGoalsSnapshot] = await Promise.all([
-        getDocs(personalGoalsQuery),
-        sharedGoalsQuery ? getDocs(sharedGoalsQuery) : Promise.resolve({ docs: [] })
+    const [personalGoals, sharedGoals] = await Promise.all([
+        getPersonalSavingsGoals(user.uid),
+        getHouseholdSavingsGoals(householdIds),
     ]);
     
     const goalsMap = new Map<string, SavingGoal>();
-
-    const processSnapshot = (snapshot: any) => {
-        snapshot.docs.forEach((doc: any) => {
-            const data = doc.data();
-            const goal = {
-                id: doc.id,
-                ...data,
-                targetDate: data.targetDate.toDate(),
-                startDate: data.startDate.toDate(),
-                contributions: data.contributions ? data.contributions.map((c: any) => ({ ...c, date: c.date.toDate() })) : [],
-            } as SavingGoal;
-            goalsMap.set(goal.id, goal);
-        });
-    };
-    
-    processSnapshot(personalGoalsSnapshot);
-    processSnapshot(sharedGoalsSnapshot);
+    [...personalGoals, ...sharedGoals].forEach(goal => goalsMap.set(goal.id, goal));
 
     setGoals(Array.from(goalsMap.values()));
     setIsLoading(false);
@@ -158,14 +111,13 @@ function Savings() {
     if (!user) return;
     try {
       if (editingGoal) {
-        const goalRef = doc(db, "savings", editingGoal.id);
         const payload = { 
             ...values, 
             userId: editingGoal.userId, 
             contributions: editingGoal.contributions,
             splitType: values.sharing === 'personal' ? undefined : values.splitType
         };
-        await updateDoc(goalRef, payload);
+        await updateSavingsGoal(editingGoal.id, payload);
         toast({ title: "Goal Updated" });
       } else {
         const payload = { 
@@ -174,7 +126,7 @@ function Savings() {
             contributions: [],
             splitType: values.sharing === 'personal' ? undefined : values.splitType
         };
-        await addDoc(collection(db, "savings"), payload);
+        await addSavingsGoal(payload);
         toast({ title: "Goal Added" });
       }
       setEditingGoal(null);
@@ -189,7 +141,7 @@ function Savings() {
   const handleDeleteGoal = async () => {
     if (!goalToDelete) return;
     try {
-      await deleteDoc(doc(db, "savings", goalToDelete.id));
+      await deleteSavingsGoal(goalToDelete.id);
       toast({ title: "Goal Deleted", description: `"${goalToDelete.name}" has been removed.` });
       setGoalToDelete(null);
       fetchData(); 
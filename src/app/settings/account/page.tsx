@@ -11,11 +11,10 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { AlertTriangle, KeyRound, Loader2, User } from 'lucide-react';
+import { AlertTriangle, Archive, Download, KeyRound, Loader2, Upload, User } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { auth, db } from '@/lib/firebase';
+import { auth } from '@/lib/firebase';
 import { EmailAuthProvider, reauthenticateWithCredential, updatePassword, updateProfile, deleteUser } from 'firebase/auth';
-import { collection, query, where, getDocs, writeBatch } from 'firebase/firestore';
 import {
   AlertDialog,
   AlertDialogCancel,
@@ -27,6 +26,12 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { parseLocalSettings } from '@/lib/user-settings';
+import { deleteUserSettings, saveUserSettings } from '@/repositories/settings';
+import { createArchive, parseArchive, readLocalSettings, serializeArchive, writeLocalSettings, ARCHIVE_COLLECTIONS, type DataArchive } from '@/lib/data-archive';
+import { deleteUserData, exportUserData, restoreUserData } from '@/repositories/archive';
+import { getUserHouseholds } from '@/repositories/households';
 
 const passwordChangeSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required.'),
@@ -53,6 +58,9 @@ function AccountSettings() {
   const [profileLoading, setProfileLoading] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [exportLoading, setExportLoading] = useState(false);
+  const [restoreLoading, setRestoreLoading] = useState(false);
+  const [archiveToRestore, setArchiveToRestore] = useState<DataArchive | null>(null);
 
   const passwordForm = useForm<z.infer<typeof passwordChangeSchema>>({
     resolver: zodResolver(passwordChangeSchema),
@@ -114,6 +122,61 @@ function AccountSettings() {
       }
   };
 
+  const handleExport = async () => {
+    if (!user) return;
+    setExportLoading(true);
+    try {
+      const archive = createArchive(user.uid, await exportUserData(user.uid), readLocalSettings());
+      const blob = new Blob([serializeArchive(archive)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `worthwatch-export-${format(new Date(), 'yyyy-MM-dd')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast({ title: 'Export Ready', description: 'Your data archive has been downloaded.' });
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({ variant: 'destructive', title: 'Export Failed', description: 'Could not export your data.' });
+    } finally {
+      setExportLoading(false);
+    }
+  };
+
+  const handleArchiveFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setArchiveToRestore(parseArchive(await file.text()));
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Cannot Restore Archive', description: error.message });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!user || !archiveToRestore) return;
+    setRestoreLoading(true);
+    try {
+      const householdIds = (await getUserHouseholds(user.uid)).map(h => h.id);
+      const count = await restoreUserData(user.uid, archiveToRestore, householdIds);
+      writeLocalSettings(archiveToRestore.settings);
+      await saveUserSettings(user.uid, parseLocalSettings(archiveToRestore.settings));
+      toast({ title: 'Restore Complete', description: `${count} records were restored. Reloading to apply your settings…` });
+      setArchiveToRestore(null);
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error) {
+      console.error("Restore error:", error);
+      toast({ variant: 'destructive', title: 'Restore Failed', description: 'Some records may not have been restored. Check your data before trying again.' });
+    } finally {
+      setRestoreLoading(false);
+    }
+  };
+
+  const archiveRecordCount = archiveToRestore
+    ? ARCHIVE_COLLECTIONS.reduce((sum, name) => sum + archiveToRestore.collections[name].length, 0)
+    : 0;
+
   const handleAccountDelete = async (values: z.infer<typeof deleteAccountSchema>) => {
       if (!user || !user.email) {
         toast({ variant: 'destructive', title: 'Error', description: 'User not found.' });
@@ -127,17 +190,9 @@ function AccountSettings() {
         await reauthenticateWithCredential(user, credential);
 
         // 2. Delete all Firestore data
-        const collectionsToDelete = ['transactions', 'assets', 'liabilities', 'savings', 'expenseCategories', 'incomeCategories'];
-        const batch = writeBatch(db);
-
-        for (const collectionName of collectionsToDelete) {
-            const q = query(collection(db, collectionName), where('userId', '==', user.uid));
-            const querySnapshot = await getDocs(q);
-            querySnapshot.forEach((doc) => {
-                batch.delete(doc.ref);
-            });
-        }
-        await batch.commit();
+        const collectionsToDelete = ['transactions', 'postings', 'assets', 'liabilities', 'savings', 'expenseCategories', 'incomeCategories', 'importProfiles', 'categoryRules', 'manualRates', 'allocationTargets'];
+        await deleteUserData(user.uid, collectionsToDelete);
+        await deleteUserSettings(user.uid);
 
         // 3. Delete user from Auth
         await deleteUser(user);
@@ -201,6 +256,41 @@ function AccountSettings() {
                 </Form>
             </Card>
 
+            <Card className="md:col-span-2">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2"><Archive className="h-6 w-6" />Your Data</CardTitle>
+                    <CardDescription>Download everything you have entered as a JSON archive, or restore one. Restoring adds the archived records alongside your current data.</CardDescription>
+                </CardHeader>
+                <CardFooter className="flex flex-col sm:flex-row gap-2 items-stretch sm:items-center">
+                    <Button onClick={handleExport} disabled={exportLoading}>
+                        {exportLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}Export My Data
+                    </Button>
+                    <Button variant="outline" asChild disabled={restoreLoading}>
+                        <label className="cursor-pointer">
+                            <Upload className="mr-2 h-4 w-4" />Restore from Archive
+                            <input type="file" accept=".json,application/json" className="hidden" onChange={handleArchiveFileChange} />
+                        </label>
+                    </Button>
+                </CardFooter>
+                <AlertDialog open={!!archiveToRestore} onOpenChange={(open) => !open && !restoreLoading && setArchiveToRestore(null)}>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>Restore this archive?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                {archiveRecordCount} records exported on {archiveToRestore ? format(new Date(archiveToRestore.exportedAt), 'PPP') : ''} will be added to your account with new IDs. Items shared with a household you are no longer in will be restored as personal.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel disabled={restoreLoading}>Cancel</AlertDialogCancel>
+                            <Button onClick={handleRestore} disabled={restoreLoading}>
+                                {restoreLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Restore
+                            </Button>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+            </Card>
+
             <Card className="border-destructive md:col-span-2">
                 <CardHeader>
                     <CardTitle className="flex items-center gap-2 text-destructive"><AlertTriangle className="h-6 w-6" />Danger Zone</CardTitle>
@@ -4,6 +4,7 @@
 import { useTheme } from 'next-themes';
 import { useUiSettings } from '@/context/ui-settings-context';
 import { AccentColor, useAccentColor } from '@/context/accent-color-context';
+import { useSettings } from '@/context/settings-context';
 import { MainLayout } from '@/components/main-layout';
 import { Header } from '@/components/header';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -28,7 +29,8 @@ const accentColorOptions: AccentColor[] = [
 function AppearanceSettings() {
   const { expandSidebarMenus, setExpandSidebarMenus } = useUiSettings();
   const { setTheme, theme } = useTheme();
-  const { accentColor, setAccentColor } = useAccentColor();
+  const { accentColor } = useAccentColor();
+  const { updateSettings } = useSettings();
   const router = useRouter();
 
   return (
@@ -68,7 +70,7 @@ function AppearanceSettings() {
                                     accentColor.name === color.name ? 'border-ring ring-2 ring-offset-2 ring-offset-background' : 'border-transparent'
                                 )}
                                 style={{ backgroundColor: `hsl(${color.primary})` }}
-                                onClick={() => setAccentColor(color)}
+                                onClick={() => updateSettings({ accentColor: color })}
                                 aria-label={`Set accent color to ${color.name}`}
                             />
                         ))}
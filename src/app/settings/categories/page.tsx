@@ -13,9 +13,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Input } from '@/components/ui/input';
 import { Loader2, List, PlusCircle, Edit, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { db } from '@/lib/firebase';
-import { collection, query, where, getDocs, addDoc, doc, updateDoc, deleteDoc } from 'firebase/firestore';
-import { defaultAssetTypes, defaultExpenseCategories, defaultIncomeCategories, DefaultCategory } from '@/lib/categories';
+import type { Category, CategoryCollection } from '@/lib/types';
+import { addCategory, deleteCategory, getCustomCategories, getDefaultCategories, updateCategory } from '@/repositories/categories';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { IconPicker } from '@/components/ui/icon-picker';
@@ -29,23 +28,13 @@ const categorySchema = z.object({
   color: z.string().min(1, 'A color is required.'),
 });
 
-type Category = {
-  id: string;
-  userId?: string;
-  name: string;
-  icon: string;
-  color: string;
-  isDefault?: boolean;
-};
-
 type CategoryManagerProps = {
     title: string;
     description: string;
-    collectionName: 'expenseCategories' | 'incomeCategories' | 'assetTypes';
-    defaultCategories: DefaultCategory[];
+    collectionName: CategoryCollection;
 };
 
-function CategoryManager({ title, description, collectionName, defaultCategories }: CategoryManagerProps) {
+function CategoryManager({ title, description, collectionName }: CategoryManagerProps) {
     const user = useAuth();
     const { toast } = useToast();
     const [customCategories, setCustomCategories] = useState<Category[]>([]);
@@ -60,22 +49,14 @@ function CategoryManager({ title, description, collectionName, defaultCategories
         defaultValues: { name: '', icon: 'Paperclip', color: 'hsl(var(--chart-1))' },
     });
     
-    const mappedDefaultCategories: Category[] = defaultCategories.map(cat => ({
-        ...cat,
-        id: `default-${collectionName}-${cat.name.replace(/\s+/g, '-')}`,
-        isDefault: true,
-    })).sort((a,b) => a.name.localeCompare(b.name));
+    const mappedDefaultCategories = getDefaultCategories(collectionName).sort((a,b) => a.name.localeCompare(b.name));
 
     async function fetchCategories() {
         if (!user) return;
         setLoading(true);
 
-        const customCategoriesQuery = query(collection(db, collectionName), where('userId', '==', user.uid));
-        const querySnapshot = await getDocs(customCategoriesQuery);
-        const fetchedCustomCategories = querySnapshot.docs.map(doc => ({
-            id: doc.id,
-            ...(doc.data() as Omit<Category, 'id'>)
-        })).sort((a,b) => a.name.localeCompare(b.name));
+        const fetchedCustomCategories = (await getCustomCategories(collectionName, user.uid))
+            .sort((a,b) => a.name.localeCompare(b.name));
 
         setCustomCategories(fetchedCustomCategories);
         setLoading(false);
@@ -101,11 +82,10 @@ function CategoryManager({ title, description, collectionName, defaultCategories
         if (!user) return;
         try {
             if (editingCategory) {
-                const categoryRef = doc(db, collectionName, editingCategory.id);
-                await updateDoc(categoryRef, { name: values.name, icon: values.icon, color: values.color });
+                await updateCategory(collectionName, editingCategory.id, { name: values.name, icon: values.icon, color: values.color });
                 toast({ title: 'Category Updated' });
             } else {
-                await addDoc(collection(db, collectionName), { ...values, userId: user.uid });
+                await addCategory(collectionName, { ...values, userId: user.uid });
                 toast({ title: 'Category Added' });
             }
             setIsDialogOpen(false);
@@ -119,7 +99,7 @@ function CategoryManager({ title, description, collectionName, defaultCategories
     const handleDeleteCategory = async () => {
         if (!categoryToDelete) return;
         try {
-            await deleteDoc(doc(db, collectionName, categoryToDelete.id));
+            await deleteCategory(collectionName, categoryToDelete.id);
             toast({ title: 'Category Deleted' });
             setCategoryToDelete(null);
             setIsDeleteConfirmOpen(false);
@@ -247,20 +227,17 @@ function CategoriesSettings() {
                             title="Asset Types" 
                             description="Manage the types of assets you can create."
                             collectionName="assetTypes"
-                            defaultCategories={defaultAssetTypes}
                         />
                          <CategoryManager 
                             title="Income Categories" 
                             description="Manage your custom income categories."
                             collectionName="incomeCategories"
-                            defaultCategories={defaultIncomeCategories}
                         />
                     </div>
                     <CategoryManager 
                         title="Expense Categories" 
                         description="Manage your custom expense categories."
                         collectionName="expenseCategories"
-                        defaultCategories={defaultExpenseCategories}
                     />
                 </div>
             </main>
@@ -1,22 +1,235 @@
 
 'use client';
 
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
 import { useCurrency } from '@/context/currency-context';
 import { useProjectionSettings } from '@/context/projection-settings-context';
-import { MainLayout } from '@/components/main-layout';
+import { MainLayout, useAuth } from '@/components/main-layout';
 import { Header } from '@/components/header';
+import { CurrencySelect } from '@/components/currency-select';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { DollarSign, HelpCircle } from 'lucide-react';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar as ShadcnCalendar } from '@/components/ui/calendar';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowRightLeft, CalendarIcon, DollarSign, Edit, HelpCircle, Loader2, PlusCircle, Trash2 } from 'lucide-react';
 import { useFinancialTargets } from '@/context/financial-targets-context';
 import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { formatCurrency, getLocaleName, LOCALES } from '@/lib/currency';
+import type { ManualRate, NewDocument } from '@/lib/types';
+import { addManualRate, deleteManualRate, getUserManualRates, updateManualRate } from '@/repositories/manual-rates';
+
+const currencyCode = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Use a three-letter currency code.');
+
+const manualRateSchema = z.object({
+  from: currencyCode,
+  to: currencyCode,
+  rate: z.coerce.number().positive('Rate must be greater than zero.'),
+  date: z.date({ required_error: 'Pick the date the rate applies from.' }),
+}).refine(data => data.from !== data.to, { message: 'Choose two different currencies.', path: ['to'] });
+
+function ManualRates() {
+  const user = useAuth();
+  const { currency } = useCurrency();
+  const { toast } = useToast();
+  const [rates, setRates] = useState<ManualRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<ManualRate | null>(null);
+  const [rateToDelete, setRateToDelete] = useState<ManualRate | null>(null);
+
+  const form = useForm<z.infer<typeof manualRateSchema>>({
+    resolver: zodResolver(manualRateSchema),
+  });
+
+  async function fetchRates() {
+    if (!user) return;
+    setLoading(true);
+    try {
+      setRates(await getUserManualRates(user.uid));
+    } catch (error) {
+      console.error("Error fetching manual rates:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not load your exchange rates.' });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchRates();
+  }, [user]);
+
+  useEffect(() => {
+    if (!isDialogOpen) return;
+    form.reset({
+      from: editingRate?.from || '',
+      to: editingRate?.to || currency,
+      rate: editingRate?.rate ?? 0,
+      date: editingRate?.date ?? new Date(),
+    });
+  }, [isDialogOpen, editingRate, currency, form]);
+
+  const openDialog = (rate: ManualRate | null) => {
+    setEditingRate(rate);
+    setIsDialogOpen(true);
+  };
+
+  const handleFormSubmit = async (values: z.infer<typeof manualRateSchema>) => {
+    if (!user) return;
+    const payload: NewDocument<ManualRate> = { userId: user.uid, ...values };
+    try {
+      if (editingRate) {
+        await updateManualRate(editingRate.id, payload);
+        toast({ title: 'Exchange Rate Updated' });
+      } else {
+        await addManualRate(payload);
+        toast({ title: 'Exchange Rate Added' });
+      }
+      setIsDialogOpen(false);
+      fetchRates();
+    } catch (error) {
+      console.error("Error saving manual rate:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not save the exchange rate.' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!rateToDelete) return;
+    try {
+      await deleteManualRate(rateToDelete.id);
+      toast({ title: 'Exchange Rate Deleted' });
+      fetchRates();
+    } catch (error) {
+      console.error("Error deleting manual rate:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not delete the exchange rate.' });
+    } finally {
+      setRateToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2"><ArrowRightLeft className="h-6 w-6" />Manual Exchange Rates</CardTitle>
+            <CardDescription>
+              Rates entered here take priority over the published ECB rates, and cover currencies the ECB doesn't publish. Each rate applies from its date until the next one for the same pair, and works in both directions.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}><PlusCircle className="mr-2 h-4 w-4" /> Add Rate</Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+          ) : rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No manual rates. Published rates are used for every conversion.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pair</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Applies From</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map(rate => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="font-medium">{rate.from} → {rate.to}</TableCell>
+                    <TableCell className="text-right font-mono">{rate.rate}</TableCell>
+                    <TableCell>{format(rate.date, 'PPP')}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(rate)}><Edit className="h-4 w-4" /></Button>
+                      <Button variant="ghost" size="icon" onClick={() => setRateToDelete(rate)}><Trash2 className="h-4 w-4" /></Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRate ? 'Edit Exchange Rate' : 'Add Exchange Rate'}</DialogTitle>
+            <DialogDescription>How many units of the second currency one unit of the first is worth.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="from" render={({ field }) => (
+                  <FormItem><FormLabel>From</FormLabel><FormControl><Input placeholder="e.g. CHF" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="to" render={({ field }) => (
+                  <FormItem><FormLabel>To</FormLabel><FormControl><Input placeholder="e.g. EUR" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="rate" render={({ field }) => (
+                <FormItem><FormLabel>Rate</FormLabel><FormControl><Input type="number" step="any" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="date" render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Applies From</FormLabel>
+                  <Popover><PopoverTrigger asChild>
+                      <FormControl>
+                        <Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                          {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                  </PopoverTrigger><PopoverContent className="w-auto p-0" align="start">
+                      <ShadcnCalendar mode="single" selected={field.value} onSelect={field.onChange} disabled={{ after: new Date() }} />
+                  </PopoverContent></Popover>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button type="submit">{editingRate ? 'Update Rate' : 'Add Rate'}</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!rateToDelete} onOpenChange={(open) => !open && setRateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this exchange rate?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Conversions that used it will fall back to the previous manual rate for the pair, or to the published rate.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
 
 
 function FinancialSettings() {
-  const { currency, setCurrency } = useCurrency();
+  const { currency, setCurrency, locale, setLocale } = useCurrency();
   const { defaultMonthlyContribution, setDefaultMonthlyContribution } = useProjectionSettings();
   const { netWorthTarget, setNetWorthTarget } = useFinancialTargets();
   
@@ -24,7 +237,7 @@ function FinancialSettings() {
     <>
       <Header title="Financial Settings" />
       <main className="flex-1 space-y-6 p-4 sm:p-6">
-        <div className="max-w-2xl mx-auto w-full">
+        <div className="max-w-2xl mx-auto w-full space-y-6">
           <Card>
             <CardHeader>
                 <CardTitle className="flex items-center gap-2"><DollarSign className="h-6 w-6" />Financial Settings</CardTitle>
@@ -33,17 +246,23 @@ function FinancialSettings() {
             <CardContent className="space-y-6">
                 <div className="space-y-2">
                     <Label htmlFor="currency-select">Currency</Label>
-                    <Select value={currency} onValueChange={(value) => setCurrency(value as any)}>
-                        <SelectTrigger id="currency-select" className="w-full md:w-[300px]">
-                            <SelectValue placeholder="Select a currency" />
+                    <CurrencySelect id="currency-select" value={currency} onChange={setCurrency} className="md:w-[300px]" />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="locale-select">Number Format</Label>
+                    <Select value={locale} onValueChange={setLocale}>
+                        <SelectTrigger id="locale-select" className="w-full md:w-[300px]">
+                            <SelectValue placeholder="Select a format" />
                         </SelectTrigger>
                         <SelectContent>
-                        <SelectItem value="USD">USD - United States Dollar</SelectItem>
-                        <SelectItem value="EUR">EUR - Euro</SelectItem>
-                        <SelectItem value="GBP">GBP - British Pound</SelectItem>
-                        <SelectItem value="HUF">HUF - Hungarian Forint</SelectItem>
+                        {LOCALES.map(option => (
+                            <SelectItem key={option} value={option}>{getLocaleName(option)}</SelectItem>
+                        ))}
                         </SelectContent>
                     </Select>
+                    <p className="text-sm text-muted-foreground">
+                        Decimal and thousands separators, independent of the currency. For example: {formatCurrency(1234567.89, currency)}
+                    </p>
                 </div>
                 <Separator />
                 <div className="space-y-2">
@@ -105,6 +324,7 @@ function FinancialSettings() {
                 </div>
             </CardContent>
           </Card>
+          <ManualRates />
         </div>
       </main>
     </>
@@ -0,0 +1,456 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { MainLayout, useAuth } from '@/components/main-layout';
+import { Header } from '@/components/header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ArrowDown, ArrowUp, Edit, Loader2, PlusCircle, RefreshCw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { Category, CategoryRule, Household, NewDocument } from '@/lib/types';
+import { isValidRegex, previewRules, type RuleChanges, type RulePreview } from '@/lib/categorisation-rules';
+import { addCategoryRule, deleteCategoryRule, getUserCategoryRules, updateCategoryRule } from '@/repositories/category-rules';
+import { getUserTransactions, updateTransactions } from '@/repositories/transactions';
+import { getCategories } from '@/repositories/categories';
+import { getUserHouseholds } from '@/repositories/households';
+
+// Select values standing in for "no condition" / "leave unchanged"
+const ANY = 'any';
+const UNCHANGED = 'unchanged';
+
+const optionalAmount = z.string().optional().refine(v => !v || !isNaN(Number(v)), 'Must be a number.');
+
+const ruleSchema = z.object({
+  name: z.string().min(1, 'Rule name is required.'),
+  transactionType: z.enum(['income', 'expense']),
+  nameContains: z.string().optional(),
+  nameRegex: z.string().optional().refine(v => !v || isValidRegex(v), 'This is not a valid regular expression.'),
+  minAmount: optionalAmount,
+  maxAmount: optionalAmount,
+  sharingIs: z.string(),
+  setCategoryId: z.string(),
+  setClassification: z.string(),
+  setSharing: z.string(),
+})
+.refine(data => !!(data.nameContains || data.nameRegex || data.minAmount || data.maxAmount || data.sharingIs !== ANY), { message: 'Add at least one condition.', path: ['nameContains'] })
+.refine(data => data.setCategoryId !== UNCHANGED || data.setClassification !== UNCHANGED || data.setSharing !== UNCHANGED, { message: 'Choose at least one thing for the rule to set.', path: ['setCategoryId'] })
+.refine(data => !data.minAmount || !data.maxAmount || Number(data.minAmount) <= Number(data.maxAmount), { message: 'Minimum must not exceed maximum.', path: ['maxAmount'] });
+
+function RulesSettings() {
+  const user = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<CategoryRule | null>(null);
+  const [preview, setPreview] = useState<RulePreview[] | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const form = useForm<z.infer<typeof ruleSchema>>({
+    resolver: zodResolver(ruleSchema),
+  });
+
+  const transactionTypeWatcher = form.watch('transactionType');
+
+  async function fetchData() {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [rulesList, expenseCategoriesList, incomeCategoriesList, householdsList] = await Promise.all([
+        getUserCategoryRules(user.uid),
+        getCategories('expenseCategories', user.uid),
+        getCategories('incomeCategories', user.uid),
+        getUserHouseholds(user.uid),
+      ]);
+      setRules(rulesList);
+      setExpenseCategories(expenseCategoriesList);
+      setIncomeCategories(incomeCategoriesList);
+      setHouseholds(householdsList);
+    } catch (error) {
+      console.error("Error fetching rules:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not load your rules.' });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchData();
+  }, [user]);
+
+  useEffect(() => {
+    if (!isDialogOpen) return;
+    form.reset({
+      name: editingRule?.name || '',
+      transactionType: editingRule?.transactionType || 'expense',
+      nameContains: editingRule?.nameContains || '',
+      nameRegex: editingRule?.nameRegex || '',
+      minAmount: editingRule?.minAmount?.toString() ?? '',
+      maxAmount: editingRule?.maxAmount?.toString() ?? '',
+      sharingIs: editingRule?.sharingIs || ANY,
+      setCategoryId: editingRule?.setCategoryId || UNCHANGED,
+      setClassification: editingRule?.setClassification || UNCHANGED,
+      setSharing: editingRule?.setSharing || UNCHANGED,
+    });
+  }, [isDialogOpen, editingRule, form]);
+
+  const categoriesMap = useMemo(() => new Map(
+    [...expenseCategories, ...incomeCategories].map(c => [c.id, c])
+  ), [expenseCategories, incomeCategories]);
+
+  const sharingName = (sharing: string) => sharing === 'personal' ? 'Personal' : households.find(h => h.id === sharing)?.name || 'Unknown household';
+
+  const describeConditions = (rule: CategoryRule) => {
+    const parts = [rule.transactionType === 'income' ? 'Income' : 'Expense'];
+    if (rule.nameContains) parts.push(`name contains "${rule.nameContains}"`);
+    if (rule.nameRegex) parts.push(`name matches /${rule.nameRegex}/`);
+    if (rule.minAmount !== null && rule.minAmount !== undefined) parts.push(`amount ≥ ${rule.minAmount}`);
+    if (rule.maxAmount !== null && rule.maxAmount !== undefined) parts.push(`amount ≤ ${rule.maxAmount}`);
+    if (rule.sharingIs) parts.push(`sharing is ${sharingName(rule.sharingIs)}`);
+    return parts.join(', ');
+  };
+
+  const describeChanges = (changes: RuleChanges) => {
+    const parts: string[] = [];
+    if (changes.categoryId) parts.push(`Category → ${categoriesMap.get(changes.categoryId)?.name || 'Unknown'}`);
+    if (changes.classification) parts.push(`${changes.classification === 'need' ? 'Need' : 'Want'}`);
+    if (changes.sharing) parts.push(`Sharing → ${sharingName(changes.sharing)}`);
+    return parts;
+  };
+
+  const handleFormSubmit = async (values: z.infer<typeof ruleSchema>) => {
+    if (!user) return;
+    const payload: NewDocument<CategoryRule> = {
+      userId: user.uid,
+      name: values.name,
+      order: editingRule ? editingRule.order : (rules.length > 0 ? Math.max(...rules.map(r => r.order)) + 1 : 0),
+      transactionType: values.transactionType,
+      nameContains: values.nameContains || '',
+      nameRegex: values.nameRegex || '',
+      minAmount: values.minAmount ? Number(values.minAmount) : null,
+      maxAmount: values.maxAmount ? Number(values.maxAmount) : null,
+      sharingIs: values.sharingIs === ANY ? null : values.sharingIs,
+      setCategoryId: values.setCategoryId === UNCHANGED ? null : values.setCategoryId,
+      setClassification: values.transactionType === 'expense' && values.setClassification !== UNCHANGED ? values.setClassification as 'need' | 'want' : null,
+      setSharing: values.setSharing === UNCHANGED ? null : values.setSharing,
+    };
+    try {
+      if (editingRule) {
+        await updateCategoryRule(editingRule.id, payload);
+        toast({ title: 'Rule Updated' });
+      } else {
+        await addCategoryRule(payload);
+        toast({ title: 'Rule Added' });
+      }
+      setIsDialogOpen(false);
+      setEditingRule(null);
+      fetchData();
+    } catch (error) {
+      console.error("Error saving rule:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not save rule.' });
+    }
+  };
+
+  const handleDeleteRule = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteCategoryRule(ruleToDelete.id);
+      toast({ title: 'Rule Deleted' });
+      setRuleToDelete(null);
+      fetchData();
+    } catch (error) {
+      console.error("Error deleting rule:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not delete rule.' });
+    }
+  };
+
+  const handleMoveRule = async (index: number, direction: -1 | 1) => {
+    const reordered = [...rules];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    try {
+      // Renumber from the list position so rules that shared an order value end up distinct.
+      await Promise.all(reordered
+        .map((rule, position) => ({ rule, position }))
+        .filter(({ rule, position }) => rule.order !== position)
+        .map(({ rule, position }) => updateCategoryRule(rule.id, { order: position })));
+      fetchData();
+    } catch (error) {
+      console.error("Error reordering rules:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not reorder rules.' });
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!user) return;
+    setIsPreviewLoading(true);
+    try {
+      // Only the user's own transactions: shared ones created by others aren't theirs to edit.
+      const transactions = await getUserTransactions(user.uid);
+      setPreview(previewRules(rules, transactions));
+    } catch (error) {
+      console.error("Error previewing rules:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not load your transactions.' });
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  const handleApplyPreview = async () => {
+    if (!preview || preview.length === 0) return;
+    setIsApplying(true);
+    try {
+      await updateTransactions(preview.map(({ transaction, changes }) => ({ id: transaction.id, data: changes })));
+      toast({ title: 'Rules Applied', description: `${preview.length} transactions were updated.` });
+      setPreview(null);
+    } catch (error) {
+      console.error("Error applying rules:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not update your transactions.' });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const categoriesForType = transactionTypeWatcher === 'income' ? incomeCategories : expenseCategories;
+
+  return (
+    <>
+      <Header title="Rules" />
+      <main className="flex-1 space-y-6 p-4 sm:p-6">
+        <div className="max-w-4xl mx-auto w-full space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Auto-categorisation Rules</CardTitle>
+                  <CardDescription>Rules fill in the category, need/want and sharing when you add or import transactions. They run top to bottom.</CardDescription>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                  <Button variant="outline" onClick={handlePreview} disabled={rules.length === 0 || isPreviewLoading}>
+                    {isPreviewLoading ? <Loader2 className="animate-spin" /> : <RefreshCw />} Re-apply to Existing
+                  </Button>
+                  <Button onClick={() => { setEditingRule(null); setIsDialogOpen(true); }}>
+                    <PlusCircle /> Add Rule
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? <div className="flex justify-center items-center py-12"><Loader2 className="animate-spin" /></div> : rules.length === 0 ? (
+                <div className="text-center text-sm text-muted-foreground border-2 border-dashed rounded-lg p-6">
+                  <p>No rules yet. Add one to stop categorising the same payees by hand.</p>
+                </div>
+              ) : (
+                <ul className="space-y-2">
+                  {rules.map((rule, index) => {
+                    const category = rule.setCategoryId ? categoriesMap.get(rule.setCategoryId) : undefined;
+                    return (
+                      <li key={rule.id} className="flex items-center justify-between gap-2 rounded-md border p-2 pl-4">
+                        <div className="min-w-0 space-y-1">
+                          <p className="font-medium">{rule.name}</p>
+                          <p className="text-sm text-muted-foreground truncate">{describeConditions(rule)}</p>
+                          <div className="flex flex-wrap gap-1">
+                            {rule.setCategoryId && <Badge variant="outline">{category?.name || 'Missing category'}</Badge>}
+                            {rule.setClassification && <Badge variant="outline">{rule.setClassification === 'need' ? 'Need' : 'Want'}</Badge>}
+                            {rule.setSharing && <Badge variant="outline">{sharingName(rule.setSharing)}</Badge>}
+                          </div>
+                        </div>
+                        <div className="flex items-center -mr-2 shrink-0">
+                          <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => handleMoveRule(index, -1)}><ArrowUp className="h-4 w-4" /></Button>
+                          <Button variant="ghost" size="icon" disabled={index === rules.length - 1} onClick={() => handleMoveRule(index, 1)}><ArrowDown className="h-4 w-4" /></Button>
+                          <Button variant="ghost" size="icon" onClick={() => { setEditingRule(rule); setIsDialogOpen(true); }}><Edit className="h-4 w-4" /></Button>
+                          <Button variant="ghost" size="icon" onClick={() => setRuleToDelete(rule)}><Trash2 className="h-4 w-4" /></Button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg flex flex-col max-h-[85dvh]">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+            <DialogDescription>Every condition you fill in must match for the rule to apply.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleFormSubmit)} className="flex flex-col flex-1 min-h-0">
+              <div className="flex-1 overflow-y-scroll overflow-x-hidden pl-2 pr-4 -mr-4 space-y-4 py-2">
+                <FormField control={form.control} name="name" render={({ field }) => (
+                  <FormItem><FormLabel>Rule Name</FormLabel><FormControl><Input placeholder="e.g., Supermarkets" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="transactionType" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Applies To</FormLabel>
+                    <Select onValueChange={(v) => { field.onChange(v); form.setValue('setCategoryId', UNCHANGED); }} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent><SelectItem value="expense">Expenses</SelectItem><SelectItem value="income">Income</SelectItem></SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+
+                <Separator />
+                <h4 className="text-sm font-medium text-muted-foreground">When</h4>
+                <FormField control={form.control} name="nameContains" render={({ field }) => (
+                  <FormItem><FormLabel>Name Contains</FormLabel><FormControl><Input placeholder="e.g., tesco" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="nameRegex" render={({ field }) => (
+                  <FormItem><FormLabel>Name Matches (Regex)</FormLabel><FormControl><Input placeholder="e.g., ^(uber|bolt)\b" {...field} /></FormControl><FormDescription>Case-insensitive.</FormDescription><FormMessage /></FormItem>
+                )} />
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField control={form.control} name="minAmount" render={({ field }) => (
+                    <FormItem><FormLabel>Min Amount</FormLabel><FormControl><Input type="number" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="maxAmount" render={({ field }) => (
+                    <FormItem><FormLabel>Max Amount</FormLabel><FormControl><Input type="number" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="sharingIs" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Current Sharing</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any</SelectItem>
+                        <SelectItem value="personal">Personal</SelectItem>
+                        {households.map(h => <SelectItem key={h.id} value={h.id}>{h.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+
+                <Separator />
+                <h4 className="text-sm font-medium text-muted-foreground">Then Set</h4>
+                <FormField control={form.control} name="setCategoryId" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value={UNCHANGED}>Leave unchanged</SelectItem>
+                        {categoriesForType.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                {transactionTypeWatcher === 'expense' && (
+                  <FormField control={form.control} name="setClassification" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Need / Want</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value={UNCHANGED}>Leave unchanged</SelectItem>
+                          <SelectItem value="need">Need</SelectItem>
+                          <SelectItem value="want">Want</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                )}
+                <FormField control={form.control} name="setSharing" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sharing</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value={UNCHANGED}>Leave unchanged</SelectItem>
+                        <SelectItem value="personal">Personal</SelectItem>
+                        {households.map(h => <SelectItem key={h.id} value={h.id}>{h.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              </div>
+              <DialogFooter className="pt-4 flex-shrink-0">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button type="submit">{editingRule ? 'Update' : 'Add'}</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-2xl flex flex-col max-h-[85dvh]">
+          <DialogHeader>
+            <DialogTitle>Re-apply Rules</DialogTitle>
+            <DialogDescription>
+              {preview?.length ? `${preview.length} of your transactions would change.` : 'Your transactions already match your rules.'}
+            </DialogDescription>
+          </DialogHeader>
+          {!!preview?.length && (
+            <div className="flex-1 overflow-y-auto min-h-0">
+              <Table>
+                <TableHeader><TableRow><TableHead>Transaction</TableHead><TableHead>Changes</TableHead></TableRow></TableHeader>
+                <TableBody>
+                  {preview.map(({ transaction, changes }) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="font-medium">{transaction.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {describeChanges(changes).map(change => <Badge key={change} variant="secondary">{change}</Badge>)}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          <DialogFooter className="pt-4 flex-shrink-0">
+            <Button variant="outline" onClick={() => setPreview(null)}>Cancel</Button>
+            <Button onClick={handleApplyPreview} disabled={!preview?.length || isApplying}>
+              {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Apply Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>This will delete the rule "{ruleToDelete?.name}". Transactions it already categorised keep their values.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setRuleToDelete(null)}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteRule}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+export default function RulesSettingsPage() {
+  return (
+    <MainLayout>
+      <RulesSettings />
+    </MainLayout>
+  )
+}
@@ -27,16 +27,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Input } from '@/components/ui/input';
 
 // Libs and context
-import { db } from '@/lib/firebase';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
-
-// Types
-type AmountChange = { id: string; amount: number; date: Date; };
-type BaseTransaction = { id: string; userId: string; name: string; amounts: AmountChange[]; transactionType: 'income' | 'expense' };
+import type { AmountChange, Transaction } from '@/lib/types';
+import { getTransaction, updateTransaction } from '@/repositories/transactions';
 
 const amountChangeSchema = z.object({
   amount: z.coerce.number().positive('Amount must be positive.'),
@@ -52,7 +48,7 @@ function TransactionHistory() {
   const { toast } = useToast();
   const { currency } = useCurrency();
   
-  const [transaction, setTransaction] = useState<BaseTransaction | null>(null);
+  const [transaction, setTransaction] = useState<Transaction | null>(null);
   const [loading, setLoading] = useState(true);
   
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
@@ -69,17 +65,10 @@ function TransactionHistory() {
   async function fetchTransaction() {
     if (!transactionId || !user) return;
     setLoading(true);
-    const txRef = doc(db, 'transactions', transactionId);
-    const txSnap = await getDoc(txRef);
+    // Security rules handle access, so we just need to load if it exists
+    const txData = await getTransaction(transactionId);
 
-    if (txSnap.exists()) {
-        const data = txSnap.data();
-        // Security rules handle access, so we just need to load if it exists
-        const txData = {
-            id: txSnap.id,
-            ...data,
-            amounts: (data.amounts || []).map((c: any) => ({ ...c, date: c.date.toDate() }))
-        } as BaseTransaction;
+    if (txData) {
         setTransaction(txData);
         if (txData.amounts.length > 0) {
             const sortedHistory = [...txData.amounts].sort((a,b) => a.date.getTime() - b.date.getTime());
@@ -120,8 +109,7 @@ function TransactionHistory() {
     updatedAmounts.sort((a,b) => a.date.getTime() - b.date.getTime());
     
     try {
-        const transactionRef = doc(db, "transactions", transaction.id);
-        await updateDoc(transactionRef, { amounts: updatedAmounts });
+        await updateTransaction(transaction.id, { amounts: updatedAmounts });
         toast({ title: editingAmount ? "Amount Updated" : "Amount Added" });
         fetchTransaction();
     } catch(error) {
@@ -143,8 +131,7 @@ function TransactionHistory() {
     
     const updatedAmounts = transaction.amounts.filter(a => a.id !== amountToDelete.id);
     try {
-        const transactionRef = doc(db, "transactions", transaction.id);
-        await updateDoc(transactionRef, { amounts: updatedAmounts });
+        await updateTransaction(transaction.id, { amounts: updatedAmounts });
         toast({ title: "Amount Deleted" });
         fetchTransaction();
     } catch (error) {
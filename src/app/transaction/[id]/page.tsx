@@ -27,66 +27,17 @@ import { Calendar as ShadcnCalendar } from '@/components/ui/calendar';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { db } from '@/lib/firebase';
-import { doc, getDoc, updateDoc, deleteDoc, collection, query, where, getDocs } from 'firebase/firestore';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import DynamicIcon from '@/components/dynamic-icon';
 import { Badge } from '@/components/ui/badge';
-import { defaultExpenseCategories, defaultIncomeCategories } from '@/lib/categories';
+import type { AmountChange, Category, Household, Transaction } from '@/lib/types';
+import { deleteTransaction, getTransaction, updateTransaction } from '@/repositories/transactions';
+import { getCategories } from '@/repositories/categories';
+import { getUserHouseholds } from '@/repositories/households';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
 
-type TransactionType = 'income' | 'expense';
-type Frequency = 'one-off' | 'recurring';
-
-type AmountChange = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-
-type BaseTransaction = {
-  id: string;
-  userId: string;
-  name: string;
-  amounts: AmountChange[];
-  frequency: Frequency;
-  endDate?: Date | null;
-};
-
-type Income = BaseTransaction & {
-  transactionType: 'income';
-  categoryId?: string;
-  sharing: string;
-};
-
-type Expense = BaseTransaction & {
-  transactionType: 'expense';
-  sharing: string;
-  classification?: 'need' | 'want';
-  categoryId?: string;
-};
-
-type Transaction = Income | Expense;
-
-type Category = {
-    id: string;
-    userId?: string;
-    name: string;
-    icon: string;
-    color: string;
-}
-
-type Member = { id: string; name: string; email: string; };
-type Household = {
-  id: string;
-  ownerId: string;
-  name: string;
-  members: Member[];
-};
-
-
 const amountChangeSchema = z.object({
   amount: z.coerce.number().positive('Amount must be positive.'),
   date: z.date({ required_error: 'An effective date is required.' }),
@@ -164,36 +115,18 @@ function TransactionDetail() {
     if (!transactionId || !user) return;
     setLoading(true);
     
-    const expenseCategoriesQuery = query(collection(db, 'expenseCategories'), where('userId', '==', user.uid));
-    const incomeCategoriesQuery = query(collection(db, 'incomeCategories'), where('userId', '==', user.uid));
-    const householdQuery = query(collection(db, 'households'), where('memberIds', 'array-contains', user.uid));
-
-    const [expenseCategoriesSnapshot, incomeCategoriesSnapshot, householdSnapshot] = await Promise.all([
-        getDocs(expenseCategoriesQuery),
-        getDocs(incomeCategoriesQuery),
-        getDocs(householdQuery)
+    const [expenseCategoriesList, incomeCategoriesList, householdsData] = await Promise.all([
+        getCategories('expenseCategories', user.uid),
+        getCategories('incomeCategories', user.uid),
+        getUserHouseholds(user.uid),
     ]);
-    const customExpense = expenseCategoriesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-    const mappedDefaultExpense = defaultExpenseCategories.map(cat => ({...cat, id: `default-expenseCategories-${cat.name.replace(/\s+/g, '-')}`}));
-    const expenseCategoriesList = [...mappedDefaultExpense, ...customExpense].sort((a,b) => a.name.localeCompare(b.name));
     setExpenseCategories(expenseCategoriesList);
-    
-    const customIncome = incomeCategoriesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-    const mappedDefaultIncome = defaultIncomeCategories.map(cat => ({...cat, id: `default-incomeCategories-${cat.name.replace(/\s+/g, '-')}`}));
-    const incomeCategoriesList = [...mappedDefaultIncome, ...customIncome].sort((a,b) => a.name.localeCompare(b.name));
     setIncomeCategories(incomeCategoriesList);
-    
-    const householdsData = householdSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...(doc.data() as Omit<Household, 'id'>)
-    }));
     setHouseholds(householdsData);
 
-    const transactionRef = doc(db, 'transactions', transactionId);
-    const transactionSnap = await getDoc(transactionRef);
+    const data = await getTransaction(transactionId);
 
-    if (transactionSnap.exists()) {
-        const data = transactionSnap.data();
+    if (data) {
         const isOwner = data.userId === user.uid;
         const userHouseholdIds = householdsData.map(h => h.id);
         const isSharedWithUser = data.sharing !== 'personal' && userHouseholdIds.includes(data.sharing);
@@ -204,16 +137,7 @@ function TransactionDetail() {
             return;
         }
 
-        let amounts = (data.amounts || []).map((a: any) => ({ ...a, date: a.date.toDate() }));
-        if (amounts.length === 0 && data.amount && data.startDate) {
-            amounts.push({ id: 'legacy-0', amount: data.amount, date: data.startDate.toDate() });
-        }
-        setTransaction({
-            id: transactionSnap.id,
-            ...data,
-            amounts,
-            endDate: data.endDate ? data.endDate.toDate() : null
-        } as Transaction);
+        setTransaction(data);
     } else {
         toast({ variant: 'destructive', title: 'Not Found' });
         setTransaction(null);
@@ -255,8 +179,7 @@ function TransactionDetail() {
     updatedAmounts.sort((a,b) => a.date.getTime() - b.date.getTime());
     
     try {
-        const transactionRef = doc(db, "transactions", transaction.id);
-        await updateDoc(transactionRef, { amounts: updatedAmounts });
+        await updateTransaction(transaction.id, { amounts: updatedAmounts });
         toast({ title: editingAmount ? "Amount Updated" : "Amount Added" });
         fetchTransactionData();
     } catch(error) {
@@ -278,8 +201,7 @@ function TransactionDetail() {
     
     const updatedAmounts = transaction.amounts.filter(a => a.id !== amountToDelete.id);
     try {
-        const transactionRef = doc(db, "transactions", transaction.id);
-        await updateDoc(transactionRef, { amounts: updatedAmounts });
+        await updateTransaction(transaction.id, { amounts: updatedAmounts });
         toast({ title: "Amount Deleted" });
         fetchTransactionData();
     } catch (error) {
@@ -294,7 +216,7 @@ function TransactionDetail() {
   const handleTransactionDelete = async () => {
     if (!transaction) return;
     try {
-        await deleteDoc(doc(db, "transactions", transaction.id));
+        await deleteTransaction(transaction.id);
         toast({ title: "Transaction Deleted" });
         router.push('/transactions');
     } catch (error) {
@@ -321,10 +243,13 @@ function TransactionDetail() {
     if (payload.transactionType === 'income') {
       delete payload.classification;
     }
+    // An expense's own split names members of the household it was shared with.
+    if (values.sharing !== transaction.sharing) {
+      payload.split = null;
+    }
 
     try {
-      const transactionRef = doc(db, "transactions", transaction.id);
-      await updateDoc(transactionRef, payload);
+      await updateTransaction(transaction.id, payload);
       toast({ title: "Transaction Updated" });
       fetchTransactionData();
     } catch (error) {
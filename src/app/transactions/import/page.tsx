@@ -0,0 +1,501 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { MainLayout, useAuth } from '@/components/main-layout';
+import { Header } from '@/components/header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ArrowLeft, FileUp, Info, Loader2, Save } from 'lucide-react';
+import { useCurrency } from '@/context/currency-context';
+import { formatCurrency } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+import type { Category, CategoryRule, Classification, Household, ImportProfile, NewDocument, Transaction } from '@/lib/types';
+import { DATE_FORMATS, applyCsvMapping, detectStatementFormat, findDuplicate, parseCsv, parseOfx, parseQif, type CsvMapping, type StatementFormat, type StatementRow } from '@/lib/statement-import';
+import { addTransactions, getVisibleTransactions } from '@/repositories/transactions';
+import { getCategories } from '@/repositories/categories';
+import { getUserHouseholds } from '@/repositories/households';
+import { addImportProfile, getUserImportProfiles, updateImportProfile } from '@/repositories/import-profiles';
+import { getUserCategoryRules } from '@/repositories/category-rules';
+import { applyRules } from '@/lib/categorisation-rules';
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+type ImportRow = StatementRow & {
+  selected: boolean;
+  duplicateOf?: Transaction;
+  categoryId?: string;
+  classification: Classification;
+  sharing: string;
+};
+
+const NO_COLUMN = 'none';
+
+const defaultMapping: CsvMapping = {
+  delimiter: ',',
+  hasHeader: true,
+  dateFormat: 'yyyy-MM-dd',
+  dateColumn: 0,
+  descriptionColumn: 1,
+  amountColumn: 2,
+  debitColumn: null,
+  creditColumn: null,
+  invertAmounts: false,
+  decimalSeparator: null,
+};
+
+function ColumnSelect({ label, value, columns, onChange, allowNone }: {
+  label: string,
+  value: number | null | undefined,
+  columns: string[],
+  onChange: (value: number | null) => void,
+  allowNone?: boolean,
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value === null || value === undefined ? NO_COLUMN : String(value)} onValueChange={(v) => onChange(v === NO_COLUMN ? null : Number(v))}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {allowNone && <SelectItem value={NO_COLUMN}>Not used</SelectItem>}
+          {columns.map((column, index) => <SelectItem key={index} value={String(index)}>{column}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function ImportStatement() {
+  const user = useAuth();
+  const router = useRouter();
+  const { currency } = useCurrency();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [fileFormat, setFileFormat] = useState<StatementFormat>('csv');
+  const [mapping, setMapping] = useState<CsvMapping>(defaultMapping);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('');
+  const [profileName, setProfileName] = useState('');
+  const [qifDateFormat, setQifDateFormat] = useState('MM/dd/yyyy');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+
+  async function fetchData() {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const householdsData = await getUserHouseholds(user.uid);
+      setHouseholds(householdsData);
+      const [transactionsList, expenseCategoriesList, incomeCategoriesList, profilesList, rulesList] = await Promise.all([
+        getVisibleTransactions(user.uid, householdsData.map(h => h.id)),
+        getCategories('expenseCategories', user.uid),
+        getCategories('incomeCategories', user.uid),
+        getUserImportProfiles(user.uid),
+        getUserCategoryRules(user.uid),
+      ]);
+      setRules(rulesList);
+      setTransactions(transactionsList);
+      setExpenseCategories(expenseCategoriesList);
+      setIncomeCategories(incomeCategoriesList);
+      setProfiles(profilesList);
+    } catch (error) {
+      console.error("Error fetching data:", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not load your data." });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchData();
+  }, [user]);
+
+  const csvRows = useMemo(() => fileFormat === 'csv' ? parseCsv(fileText, mapping.delimiter) : [], [fileText, fileFormat, mapping.delimiter]);
+
+  const columns = useMemo(() => {
+    const width = Math.max(0, ...csvRows.slice(0, 10).map(r => r.length));
+    return Array.from({ length: width }, (_, i) => (mapping.hasHeader && csvRows[0]?.[i]) || `Column ${i + 1}`);
+  }, [csvRows, mapping.hasHeader]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setFileText(text);
+    setFileFormat(detectStatementFormat(file.name, text));
+  };
+
+  const handleProfileChange = (profileId: string) => {
+    setSelectedProfileId(profileId);
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    const { id, userId, name, ...profileMapping } = profile;
+    setMapping({ ...defaultMapping, ...profileMapping });
+    setProfileName(name);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!user || !profileName.trim()) return;
+    const existing = profiles.find(p => p.name.toLowerCase() === profileName.trim().toLowerCase());
+    try {
+      if (existing) {
+        await updateImportProfile(existing.id, mapping);
+        setSelectedProfileId(existing.id);
+      } else {
+        const id = await addImportProfile({ ...mapping, userId: user.uid, name: profileName.trim() });
+        setSelectedProfileId(id);
+      }
+      toast({ title: "Profile Saved", description: `Column mapping saved as "${profileName.trim()}".` });
+      setProfiles(await getUserImportProfiles(user.uid));
+    } catch (error) {
+      console.error("Error saving import profile:", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not save the mapping profile." });
+    }
+  };
+
+  const buildPreview = () => {
+    let parsed: StatementRow[];
+    if (fileFormat === 'ofx') parsed = parseOfx(fileText);
+    else if (fileFormat === 'qif') parsed = parseQif(fileText, qifDateFormat);
+    else parsed = applyCsvMapping(csvRows, mapping);
+
+    if (parsed.length === 0) {
+      toast({ variant: 'destructive', title: "Nothing to Import", description: "No rows could be read from this file. Check the format and column mapping." });
+      return;
+    }
+
+    setRows(parsed.map(row => {
+      const duplicateOf = findDuplicate(row, transactions);
+      const transactionType = row.amount >= 0 ? 'income' : 'expense';
+      const categories = transactionType === 'income' ? incomeCategories : expenseCategories;
+      const ruled = applyRules(rules, { name: row.name, amount: Math.abs(row.amount), transactionType, sharing: 'personal' });
+      return {
+        ...row,
+        selected: !duplicateOf,
+        duplicateOf,
+        categoryId: ruled.categoryId ?? categories[0]?.id,
+        classification: ruled.classification ?? 'need',
+        sharing: ruled.sharing ?? 'personal',
+      };
+    }));
+    setStep('preview');
+  };
+
+  const handleContinue = () => {
+    if (fileFormat === 'csv') {
+      setStep('mapping');
+    } else {
+      buildPreview();
+    }
+  };
+
+  const updateRow = (id: string, changes: Partial<ImportRow>) => {
+    setRows(current => current.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const applyToSelected = (changes: Partial<Pick<ImportRow, 'classification' | 'sharing'>>) => {
+    setRows(current => current.map(r => r.selected ? { ...r, ...changes } : r));
+  };
+
+  const selectedRows = rows.filter(r => r.selected);
+  const duplicateCount = rows.filter(r => r.duplicateOf).length;
+
+  const handleCommit = async () => {
+    if (!user || selectedRows.length === 0) return;
+    setIsCommitting(true);
+    const payload = selectedRows.map(row => {
+      const transactionType = row.amount >= 0 ? 'income' : 'expense';
+      const transaction: { [key: string]: any } = {
+        userId: user.uid,
+        name: row.name,
+        transactionType,
+        frequency: 'one-off',
+        endDate: null,
+        amounts: [{ id: crypto.randomUUID(), amount: Math.abs(row.amount), date: row.date }],
+        sharing: row.sharing,
+      };
+      if (row.categoryId) transaction.categoryId = row.categoryId;
+      if (transactionType === 'expense') transaction.classification = row.classification;
+      if (row.importId) transaction.importId = row.importId;
+      return transaction as NewDocument<Transaction>;
+    });
+
+    try {
+      await addTransactions(payload);
+      toast({ title: "Import Complete", description: `${payload.length} transactions were imported.` });
+      router.push('/transactions');
+    } catch (error) {
+      console.error("Error importing transactions:", error);
+      toast({ variant: 'destructive', title: "Import Failed", description: "Some or all transactions could not be saved. Please check your list before retrying." });
+      setIsCommitting(false);
+    }
+  };
+
+  if (loading) {
+    return (<><Header title="Import Statement" /><main className="flex-1 p-4 sm:p-6 text-center"><Loader2 className="mx-auto h-12 w-12 animate-spin text-muted-foreground" /></main></>);
+  }
+
+  return (
+    <>
+      <Header title="Import Statement" />
+      <main className="flex-1 space-y-6 p-4 sm:p-6">
+        <div className="max-w-7xl mx-auto w-full space-y-6">
+          <Button variant="ghost" asChild className="-ml-4">
+            <Link href="/transactions"><ArrowLeft className="mr-2 h-4 w-4" /> Back to Transactions</Link>
+          </Button>
+
+          {step === 'upload' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Upload a Statement</CardTitle>
+                <CardDescription>CSV, OFX/QFX and QIF files are read in your browser; nothing is uploaded until you confirm the import.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Input type="file" accept=".csv,.txt,.ofx,.qfx,.qif" onChange={handleFileChange} />
+                {fileName && (
+                  <p className="text-sm text-muted-foreground">
+                    {fileName} <Badge variant="outline" className="ml-2 uppercase">{fileFormat}</Badge>
+                  </p>
+                )}
+                {fileFormat === 'qif' && fileName && (
+                  <div className="space-y-2 max-w-xs">
+                    <Label>Date Format</Label>
+                    <Select value={qifDateFormat} onValueChange={setQifDateFormat}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="MM/dd/yyyy">MM/DD/YYYY</SelectItem>
+                        <SelectItem value="dd/MM/yyyy">DD/MM/YYYY</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </CardContent>
+              <CardFooter>
+                <Button onClick={handleContinue} disabled={!fileText}><FileUp className="mr-2 h-4 w-4" /> Continue</Button>
+              </CardFooter>
+            </Card>
+          )}
+
+          {step === 'mapping' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Map Columns</CardTitle>
+                <CardDescription>Tell us which columns hold the date, description and amount. Save the mapping to reuse it for this bank next time.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid gap-4 sm:grid-cols-3 items-end">
+                  <div className="space-y-2">
+                    <Label>Saved Profile</Label>
+                    <Select value={selectedProfileId} onValueChange={handleProfileChange}>
+                      <SelectTrigger><SelectValue placeholder={profiles.length ? "Choose a profile" : "No saved profiles"} /></SelectTrigger>
+                      <SelectContent>{profiles.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}</SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Profile Name</Label>
+                    <Input placeholder="e.g., Monzo" value={profileName} onChange={(e) => setProfileName(e.target.value)} />
+                  </div>
+                  <Button variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim()}><Save className="mr-2 h-4 w-4" /> Save Profile</Button>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                  <div className="space-y-2">
+                    <Label>Delimiter</Label>
+                    <Select value={mapping.delimiter} onValueChange={(v) => setMapping({ ...mapping, delimiter: v })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value=",">Comma (,)</SelectItem>
+                        <SelectItem value=";">Semicolon (;)</SelectItem>
+                        <SelectItem value={'\t'}>Tab</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Date Format</Label>
+                    <Select value={mapping.dateFormat} onValueChange={(v) => setMapping({ ...mapping, dateFormat: v })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>{DATE_FORMATS.map(f => <SelectItem key={f} value={f}>{f}</SelectItem>)}</SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Decimal Separator</Label>
+                    <Select value={mapping.decimalSeparator ?? 'auto'} onValueChange={(v) => setMapping({ ...mapping, decimalSeparator: v === 'auto' ? null : v as '.' | ',' })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Detect</SelectItem>
+                        <SelectItem value=".">Dot (1,234.56)</SelectItem>
+                        <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex flex-col justify-end gap-3 pb-1">
+                    <div className="flex items-center gap-2"><Switch checked={mapping.hasHeader} onCheckedChange={(v) => setMapping({ ...mapping, hasHeader: v })} /><Label>First row is a header</Label></div>
+                    <div className="flex items-center gap-2"><Switch checked={!!mapping.invertAmounts} onCheckedChange={(v) => setMapping({ ...mapping, invertAmounts: v })} /><Label>Spending is positive</Label></div>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <ColumnSelect label="Date" value={mapping.dateColumn} columns={columns} onChange={(v) => setMapping({ ...mapping, dateColumn: v ?? 0 })} />
+                  <ColumnSelect label="Description" value={mapping.descriptionColumn} columns={columns} onChange={(v) => setMapping({ ...mapping, descriptionColumn: v ?? 0 })} />
+                  <ColumnSelect label="Amount" value={mapping.amountColumn} columns={columns} allowNone onChange={(v) => setMapping({ ...mapping, amountColumn: v })} />
+                  {mapping.amountColumn === null && (
+                    <>
+                      <ColumnSelect label="Money Out (Debit)" value={mapping.debitColumn} columns={columns} allowNone onChange={(v) => setMapping({ ...mapping, debitColumn: v })} />
+                      <ColumnSelect label="Money In (Credit)" value={mapping.creditColumn} columns={columns} allowNone onChange={(v) => setMapping({ ...mapping, creditColumn: v })} />
+                    </>
+                  )}
+                </div>
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader><TableRow>{columns.map((c, i) => <TableHead key={i}>{c}</TableHead>)}</TableRow></TableHeader>
+                    <TableBody>
+                      {csvRows.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + 5).map((row, i) => (
+                        <TableRow key={i}>{columns.map((_, j) => <TableCell key={j} className="whitespace-nowrap">{row[j]}</TableCell>)}</TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+              <CardFooter className="gap-2">
+                <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+                <Button onClick={buildPreview}>Preview Import</Button>
+              </CardFooter>
+            </Card>
+          )}
+
+          {step === 'preview' && (
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                  <div>
+                    <CardTitle>Review Transactions</CardTitle>
+                    <CardDescription>{selectedRows.length} of {rows.length} rows selected. Each row becomes a one-off transaction.</CardDescription>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select onValueChange={(v) => applyToSelected({ classification: v as Classification })}>
+                      <SelectTrigger className="w-[160px]"><SelectValue placeholder="Set need/want" /></SelectTrigger>
+                      <SelectContent><SelectItem value="need">All Needs</SelectItem><SelectItem value="want">All Wants</SelectItem></SelectContent>
+                    </Select>
+                    <Select onValueChange={(v) => applyToSelected({ sharing: v })}>
+                      <SelectTrigger className="w-[160px]"><SelectValue placeholder="Set sharing" /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="personal">Personal</SelectItem>
+                        {households.map(h => <SelectItem key={h.id} value={h.id}>{h.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {duplicateCount > 0 && (
+                  <Alert>
+                    <Info className="h-4 w-4" />
+                    <AlertTitle>Possible Duplicates</AlertTitle>
+                    <AlertDescription>{duplicateCount} rows match transactions you already have and were deselected. Tick them to import anyway.</AlertDescription>
+                  </Alert>
+                )}
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[40px]">
+                          <Checkbox checked={rows.length > 0 && selectedRows.length === rows.length} onCheckedChange={(checked) => setRows(rows.map(r => ({ ...r, selected: !!checked })))} />
+                        </TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Need / Want</TableHead>
+                        <TableHead>Sharing</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map(row => {
+                        const isIncome = row.amount >= 0;
+                        const categories = isIncome ? incomeCategories : expenseCategories;
+                        return (
+                          <TableRow key={row.id} className={cn(!row.selected && 'opacity-60')}>
+                            <TableCell><Checkbox checked={row.selected} onCheckedChange={(checked) => updateRow(row.id, { selected: !!checked })} /></TableCell>
+                            <TableCell className="whitespace-nowrap">{format(row.date, 'dd MMM yyyy')}</TableCell>
+                            <TableCell className="font-medium">
+                              <div className="flex items-center gap-2">
+                                <span className="truncate max-w-[240px]">{row.name}</span>
+                                {row.duplicateOf && <Badge variant="destructive" className="text-xs">Duplicate</Badge>}
+                              </div>
+                            </TableCell>
+                            <TableCell className={cn('text-right font-mono whitespace-nowrap', isIncome ? 'text-chart-2' : 'text-destructive')}>{formatCurrency(Math.abs(row.amount), currency)}</TableCell>
+                            <TableCell>
+                              <Select value={row.categoryId} onValueChange={(v) => updateRow(row.id, { categoryId: v })}>
+                                <SelectTrigger className="w-[160px]"><SelectValue placeholder="Category" /></SelectTrigger>
+                                <SelectContent>{categories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              {!isIncome && (
+                                <Select value={row.classification} onValueChange={(v) => updateRow(row.id, { classification: v as Classification })}>
+                                  <SelectTrigger className="w-[100px]"><SelectValue /></SelectTrigger>
+                                  <SelectContent><SelectItem value="need">Need</SelectItem><SelectItem value="want">Want</SelectItem></SelectContent>
+                                </Select>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Select value={row.sharing} onValueChange={(v) => updateRow(row.id, { sharing: v })}>
+                                <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="personal">Personal</SelectItem>
+                                  {households.map(h => <SelectItem key={h.id} value={h.id}>{h.name}</SelectItem>)}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+              <CardFooter className="gap-2">
+                <Button variant="outline" onClick={() => setStep(fileFormat === 'csv' ? 'mapping' : 'upload')} disabled={isCommitting}>Back</Button>
+                <Button onClick={handleCommit} disabled={isCommitting || selectedRows.length === 0}>
+                  {isCommitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Import {selectedRows.length} Transactions
+                </Button>
+              </CardFooter>
+            </Card>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
+
+export default function ImportStatementPage() {
+  return (
+    <MainLayout>
+      <ImportStatement />
+    </MainLayout>
+  )
+}
@@ -2,6 +2,7 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -24,59 +25,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { CalendarIcon, PlusCircle, Trash2, Repeat, Repeat1, Loader2, ArrowUp, ArrowDown, XCircle } from 'lucide-react';
-import { db } from '@/lib/firebase';
-import { collection, getDocs, addDoc, doc, deleteDoc, query, where } from 'firebase/firestore';
+import { CalendarIcon, PlusCircle, Trash2, Repeat, Repeat1, Loader2, ArrowUp, ArrowDown, XCircle, FileUp } from 'lucide-react';
 import { useCurrency } from '@/context/currency-context';
 import { formatCurrency } from '@/lib/currency';
 import { Badge } from '@/components/ui/badge';
 import DynamicIcon from '@/components/dynamic-icon';
-import { defaultExpenseCategories, defaultIncomeCategories } from '@/lib/categories';
-
-type TransactionType = 'income' | 'expense';
-type Frequency = 'one-off' | 'recurring';
-
-type AmountChange = {
-  id: string;
-  amount: number;
-  date: Date;
-};
-
-type BaseTransaction = {
-  id: string;
-  userId: string;
-  name: string;
-  amounts: AmountChange[];
-  frequency: Frequency;
-  endDate?: Date | null;
-};
-
-type Income = BaseTransaction & {
-  transactionType: 'income';
-  categoryId?: string;
-  sharing: string; // 'personal' or householdId
-};
-
-type Expense = BaseTransaction & {
-  transactionType: 'expense';
-  sharing: string; // 'personal' or householdId
-  classification?: 'need' | 'want';
-  categoryId?: string;
-};
-
-type Transaction = Income | Expense;
-
-type Category = {
-    id: string;
-    userId?: string;
-    name: string;
-    icon: string;
-    color: string;
-};
-
-type Member = { id: string; name: string; email: string; income?: number; };
-type Household = { id: string; ownerId: string; name: string; members: Member[]; memberIds: string[]; splitType?: 'equal' | 'shares' | 'income_ratio'; splits?: { memberId: string, share: number }[]; };
-
+import type { Category, CategoryRule, Household, NewDocument, Transaction } from '@/lib/types';
+import { addTransaction, deleteTransaction, getVisibleTransactions } from '@/repositories/transactions';
+import { getCategories } from '@/repositories/categories';
+import { getUserHouseholds } from '@/repositories/households';
+import { getUserCategoryRules } from '@/repositories/category-rules';
+import { applyRules, type RuleChanges } from '@/lib/categorisation-rules';
 
 const transactionSchema = z.object({
   id: z.string().optional(),
@@ -348,6 +307,7 @@ function Transactions() {
     const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
     const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
     const [households, setHouseholds] = useState<Household[]>([]);
+    const [rules, setRules] = useState<CategoryRule[]>([]);
     const [loading, setLoading] = useState(true);
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [transactionToDelete, setTransactionToDelete] = useState<Transaction | null>(null);
@@ -379,57 +339,20 @@ function Transactions() {
         if(!user) return;
         setLoading(true);
 
-        const householdQuery = query(collection(db, "households"), where("memberIds", "array-contains", user.uid));
-        const householdSnap = await getDocs(householdQuery);
-        const householdsData = householdSnap.docs.map(doc => ({ id: doc.id, ...(doc.data() as Omit<Household, 'id'>) }));
+        const householdsData = await getUserHouseholds(user.uid);
         setHouseholds(householdsData);
         const householdIds = householdsData.map(h => h.id);
 
-        const userTransactionsQuery = query(collection(db, 'transactions'), where('userId', '==', user.uid));
-        const sharedTransactionsQuery = householdIds.length > 0 
-            ? query(collection(db, 'transactions'), where('sharing', 'in', householdIds))
-            : null;
-
-        const queries = [
-            getDocs(query(collection(db, 'expenseCategories'), where('userId', '==', user.uid))),
-            getDocs(query(collection(db, 'incomeCategories'), where('userId', '==', user.uid))),
-            getDocs(userTransactionsQuery),
-        ];
-
-        if (sharedTransactionsQuery) {
-            queries.push(getDocs(sharedTransactionsQuery));
-        }
-        
-        const [expenseCategoriesSnapshot, incomeCategoriesSnapshot, userTxSnap, sharedTxSnap] = await Promise.all(queries);
-
-        const customExpense = expenseCategoriesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-        const mappedDefaultExpense = defaultExpenseCategories.map(cat => ({...cat, id: `default-expenseCategories-${cat.name.replace(/\s+/g, '-')}`}));
-        const expenseCategoriesList = [...mappedDefaultExpense, ...customExpense].sort((a,b) => a.name.localeCompare(b.name));
+        const [expenseCategoriesList, incomeCategoriesList, transactionsList, rulesList] = await Promise.all([
+            getCategories('expenseCategories', user.uid),
+            getCategories('incomeCategories', user.uid),
+            getVisibleTransactions(user.uid, householdIds),
+            getUserCategoryRules(user.uid),
+        ]);
+        setRules(rulesList);
         setExpenseCategories(expenseCategoriesList);
-        
-        const customIncome = incomeCategoriesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
-        const mappedDefaultIncome = defaultIncomeCategories.map(cat => ({...cat, id: `default-incomeCategories-${cat.name.replace(/\s+/g, '-')}`}));
-        const incomeCategoriesList = [...mappedDefaultIncome, ...customIncome].sort((a,b) => a.name.localeCompare(b.name));
         setIncomeCategories(incomeCategoriesList);
-        
-        const allTransactions = new Map<string, Transaction>();
-        const processSnapshot = (snapshot: any) => {
-            snapshot.docs.forEach((doc: any) => {
-                const data = doc.data();
-                let amounts = (data.amounts || []).map((a: any) => ({ ...a, date: a.date.toDate() }));
-                if (amounts.length === 0 && data.amount && data.startDate) {
-                    amounts.push({ id: 'legacy-0', amount: data.amount, date: data.startDate.toDate() });
-                }
-                const transaction: Transaction = { id: doc.id, ...data, amounts, endDate: data.endDate ? data.endDate.toDate() : null } as Transaction;
-                allTransactions.set(doc.id, transaction);
-            });
-        };
-
-        processSnapshot(userTxSnap);
-        if (sharedTxSnap) {
-            processSnapshot(sharedTxSnap);
-        }
-        setTransactions(Array.from(allTransactions.values()));
+        setTransactions(transactionsList);
 
         setLoading(false);
     }
@@ -458,6 +381,21 @@ function Transactions() {
         }
     }, [transactionTypeWatcher, form, incomeCategories, expenseCategories]);
 
+    // What the user's rules set, leaving out any field the user has already chosen themselves.
+    const getRuleDefaults = (values: z.infer<typeof transactionSchema>): RuleChanges => {
+        const changes = applyRules(rules, { name: values.name, amount: Number(values.amount) || 0, transactionType: values.transactionType, sharing: values.sharing });
+        (Object.keys(changes) as (keyof RuleChanges)[]).forEach(field => {
+            if (form.getFieldState(field, form.formState).isDirty) delete changes[field];
+        });
+        return changes;
+    };
+
+    // Shows what the rules will set as soon as the name or amount is entered; saving applies them again.
+    const handleApplyRules = () => {
+        const changes = getRuleDefaults(form.getValues());
+        (Object.keys(changes) as (keyof RuleChanges)[]).forEach(field => form.setValue(field, changes[field]));
+    };
+
     const requestSort = (type: 'income' | 'expense') => (key: SortableKey) => {
         const setSortConfig = type === 'income' ? setIncomeSortConfig : setExpenseSortConfig;
         const sortConfig = type === 'income' ? incomeSortConfig : expenseSortConfig;
@@ -527,6 +465,7 @@ function Transactions() {
 
     const handleFormSubmit = async (values: z.infer<typeof transactionSchema>) => {
         if (!user) return;
+        values = { ...values, ...getRuleDefaults(values) };
         
         const payload: { [key: string]: any } = {
             userId: user.uid,
@@ -546,7 +485,7 @@ function Transactions() {
         }
 
         try {
-            await addDoc(collection(db, "transactions"), payload);
+            await addTransaction(payload as NewDocument<Transaction>);
             toast({ title: "Transaction Added" });
             setIsDialogOpen(false);
             fetchData();
@@ -559,7 +498,7 @@ function Transactions() {
     const handleDeleteTransaction = async () => {
         if (!transactionToDelete) return;
         try {
-            await deleteDoc(doc(db, "transactions", transactionToDelete.id));
+            await deleteTransaction(transactionToDelete.id);
             toast({ title: "Transaction Deleted" });
             setTransactionToDelete(null);
             fetchData();
@@ -584,9 +523,14 @@ function Transactions() {
                                     <CardTitle>Transaction Records</CardTitle>
                                     <CardDescription>A complete list of all your income and expense records. Click a transaction to view its history.</CardDescription>
                                 </div>
-                                <Button id="tour-step-3-add-transaction-button" onClick={() => setIsDialogOpen(true)} className="w-full sm:w-auto">
-                                    <PlusCircle /> Add Transaction
-                                </Button>
+                                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                                    <Button variant="outline" asChild className="w-full sm:w-auto">
+                                        <Link href="/transactions/import"><FileUp /> Import Statement</Link>
+                                    </Button>
+                                    <Button id="tour-step-3-add-transaction-button" onClick={() => setIsDialogOpen(true)} className="w-full sm:w-auto">
+                                        <PlusCircle /> Add Transaction
+                                    </Button>
+                                </div>
                             </div>
                         </CardHeader>
                         <CardContent>
@@ -662,9 +606,9 @@ function Transactions() {
                             <div className="flex-1 overflow-y-scroll overflow-x-hidden pl-2 pr-4 -mr-4 space-y-4 py-2">
                                 <FormField control={form.control} name="transactionType" render={({ field }) => (<FormItem><FormLabel>Type</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="income">Income</SelectItem><SelectItem value="expense">Expense</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
                                 
-                                <FormField control={form.control} name="name" render={({ field }) => (<FormItem><FormLabel>Name</FormLabel><FormControl><Input placeholder="e.g., Salary, Rent" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                <FormField control={form.control} name="name" render={({ field }) => (<FormItem><FormLabel>Name</FormLabel><FormControl><Input placeholder="e.g., Salary, Rent" {...field} onBlur={() => { field.onBlur(); handleApplyRules(); }} /></FormControl><FormMessage /></FormItem>)} />
 
-                                <FormField control={form.control} name="amount" render={({ field }) => (<FormItem><FormLabel>Amount</FormLabel><FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} /></FormControl><FormMessage /></FormItem>)} />
+                                <FormField control={form.control} name="amount" render={({ field }) => (<FormItem><FormLabel>Amount</FormLabel><FormControl><Input type="number" {...field} onFocus={(e) => e.target.select()} onBlur={() => { field.onBlur(); handleApplyRules(); }} /></FormControl><FormMessage /></FormItem>)} />
 
                                 <FormField
                                     control={form.control}
@@ -672,7 +616,7 @@ function Transactions() {
                                     render={({ field }) => (
                                         <FormItem>
                                         <FormLabel>Sharing</FormLabel>
-                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                        <Select onValueChange={field.onChange} value={field.value}>
                                             <FormControl>
                                             <SelectTrigger><SelectValue /></SelectTrigger>
                                             </FormControl>
@@ -690,11 +634,11 @@ function Transactions() {
 
                                 {transactionTypeWatcher === 'expense' ? (
                                     <>
-                                    <FormField control={form.control} name="classification" render={({ field }) => (<FormItem className="space-y-3"><FormLabel>Classification</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="flex items-center space-x-4"><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="need" /></FormControl><FormLabel className="font-normal">Need</FormLabel></FormItem><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="want" /></FormControl><FormLabel className="font-normal">Want</FormLabel></FormItem></RadioGroup></FormControl><FormMessage /></FormItem>)} />
-                                    <FormField control={form.control} name="categoryId" render={({ field }) => (<FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a category"/></SelectTrigger></FormControl><SelectContent>{expenseCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="classification" render={({ field }) => (<FormItem className="space-y-3"><FormLabel>Classification</FormLabel><FormControl><RadioGroup onValueChange={field.onChange} value={field.value} className="flex items-center space-x-4"><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="need" /></FormControl><FormLabel className="font-normal">Need</FormLabel></FormItem><FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="want" /></FormControl><FormLabel className="font-normal">Want</FormLabel></FormItem></RadioGroup></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="categoryId" render={({ field }) => (<FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a category"/></SelectTrigger></FormControl><SelectContent>{expenseCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
                                     </>
                                 ) : (
-                                    <FormField control={form.control} name="categoryId" render={({ field }) => (<FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a category"/></SelectTrigger></FormControl><SelectContent>{incomeCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="categoryId" render={({ field }) => (<FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select a category"/></SelectTrigger></FormControl><SelectContent>{incomeCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
                                 )}
                                 
                                 <FormField control={form.control} name="frequency" render={({ field }) => (<FormItem className="space-y-3"><FormLabel>Frequency</FormLabel><FormControl>
@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Target } from 'lucide-react';
+import { allocateContribution, calculateDrift, getRebalanceTrades, targetsAddUp, toTargetMap, type AllocationValue } from '@/lib/allocation';
+import { formatCurrency } from '@/lib/currency';
+import type { AllocationTarget } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface AllocationDriftProps {
+  title: string;
+  description: string;
+  values: AllocationValue[];
+  keys: string[]; // Everything a target can be set for
+  targets: Pick<AllocationTarget, 'key' | 'percent'>[];
+  currency: string;
+  defaultContribution: number | null;
+  onSaveTargets: (targets: Pick<AllocationTarget, 'key' | 'percent'>[]) => Promise<boolean>; // false keeps the dialog open
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+/** Actual against target percentages, with the trades or contributions that would close the gap. */
+export function AllocationDrift({ title, description, values, keys, targets, currency, defaultContribution, onSaveTargets }: AllocationDriftProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [contribution, setContribution] = useState(defaultContribution ? String(defaultContribution) : '');
+
+  const rows = useMemo(() => calculateDrift(values, toTargetMap(targets)), [values, targets]);
+  const trades = useMemo(() => new Map(getRebalanceTrades(rows).map(t => [t.key, t.amount])), [rows]);
+  const contributionSplit = useMemo(() => allocateContribution(rows, parseFloat(contribution) || 0), [rows, contribution]);
+
+  const targetKeys = useMemo(() => Array.from(new Set([...keys, ...targets.map(t => t.key)])).sort((a, b) => a.localeCompare(b)), [keys, targets]);
+  const draftPercents = Object.values(draft).filter(value => value.trim() !== '').map(Number);
+  const draftTotal = draftPercents.reduce((sum, percent) => sum + percent, 0);
+  const draftIsValid = draftPercents.every(percent => !isNaN(percent) && percent >= 0 && percent <= 100)
+    && (draftPercents.length === 0 || targetsAddUp(draftPercents));
+
+  const openDialog = () => {
+    const current = toTargetMap(targets);
+    setDraft(Object.fromEntries(targetKeys.map(key => [key, current[key] !== undefined ? String(current[key]) : ''])));
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await onSaveTargets(Object.entries(draft)
+        .filter(([, value]) => value.trim() !== '')
+        .map(([key, value]) => ({ key, percent: Number(value) })));
+      if (saved) setIsDialogOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          <Button variant="outline" onClick={openDialog} className="w-full sm:w-auto">
+            <Target className="mr-2 h-4 w-4" /> Set Targets
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {targets.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No targets set yet. Set the percentages you're aiming for to see how far you've drifted from them.</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Holding</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Actual</TableHead>
+                    <TableHead className="text-right">Target</TableHead>
+                    <TableHead className="text-right">Drift</TableHead>
+                    <TableHead className="text-right">To Rebalance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => {
+                    const trade = trades.get(row.key);
+                    return (
+                      <TableRow key={row.key} className={cn(row.targetPercent === null && 'text-muted-foreground')}>
+                        <TableCell className="font-medium">{row.key}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(row.value, currency)}</TableCell>
+                        <TableCell className="text-right font-mono">{row.actualPercent !== null ? formatPercent(row.actualPercent) : '—'}</TableCell>
+                        <TableCell className="text-right font-mono">{row.targetPercent !== null ? formatPercent(row.targetPercent) : 'No target'}</TableCell>
+                        <TableCell className={cn("text-right font-mono", row.drift !== null && Math.abs(row.drift) >= 5 && 'text-destructive')}>
+                          {row.drift !== null ? `${row.drift > 0 ? '+' : ''}${row.drift.toFixed(1)} pp` : '—'}
+                        </TableCell>
+                        <TableCell className={cn("text-right font-mono", trade !== undefined && (trade > 0 ? 'text-green-500' : 'text-red-500'))}>
+                          {trade === undefined ? '—' : `${trade > 0 ? 'Buy' : 'Sell'} ${formatCurrency(Math.abs(trade), currency)}`}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="space-y-3 rounded-lg border p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <Label htmlFor={`${title}-contribution`} className="sm:w-64">Or direct new contributions of</Label>
+                  <Input
+                    id={`${title}-contribution`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={contribution}
+                    onChange={(e) => setContribution(e.target.value)}
+                    placeholder="0.00"
+                    className="sm:w-40"
+                  />
+                </div>
+                {contributionSplit.length > 0 ? (
+                  <ul className="text-sm space-y-1">
+                    {contributionSplit.map(split => (
+                      <li key={split.key} className="flex justify-between">
+                        <span>{split.key}</span>
+                        <span className="font-mono">{formatCurrency(split.amount, currency)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Enter an amount to see how to split it without selling anything.</p>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Target Allocation</DialogTitle>
+            <DialogDescription>Leave a row empty to keep it out of the targets. The percentages you set must add up to 100%.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-1">
+            {targetKeys.map(key => (
+              <div key={key} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`target-${key}`} className="font-normal">{key}</Label>
+                <div className="flex items-center gap-1">
+                  <Input
+                    id={`target-${key}`}
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    value={draft[key] ?? ''}
+                    onChange={(e) => setDraft(current => ({ ...current, [key]: e.target.value }))}
+                    className="w-24 text-right"
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className={cn("text-sm font-medium text-right", !draftIsValid && 'text-destructive')}>Total: {formatPercent(draftTotal)}</p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!draftIsValid || isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Targets
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { formatReturn, returnColor } from '@/components/performance-summary';
+import { useSettings } from '@/context/settings-context';
+import { useToast } from '@/hooks/use-toast';
+import { compareWithBenchmark } from '@/lib/benchmark';
+import { formatCurrency } from '@/lib/currency';
+import { toHoldingHistory, type HoldingHistory } from '@/lib/performance';
+import { TICKER_PATTERN } from '@/lib/user-settings';
+import type { AmountConverter } from '@/lib/cost-basis';
+import { cn } from '@/lib/utils';
+import { MARKET_DATA_ERROR_MESSAGES, type FullHistoricalData } from '@/lib/market-data';
+import { getHistoricalData } from '@/services/investment-service';
+
+interface BenchmarkComparisonProps {
+  title: string;
+  holdings: HoldingHistory[] | undefined; // undefined while their price history loads
+  convert: AmountConverter; // Transaction amounts into the display currency
+  priceRate: number; // Benchmark prices into the display currency
+  currency: string;
+}
+
+/**
+ * Overlays the holdings on the benchmark ticker from the user's settings, bought and sold with
+ * the same cash flows, to show whether picking these investments beat buying the index.
+ */
+export function BenchmarkComparison({ title, holdings, convert, priceRate, currency }: BenchmarkComparisonProps) {
+  const { settings, updateSettings } = useSettings();
+  const { toast } = useToast();
+  const ticker = settings.benchmarkTicker;
+  const [tickerInput, setTickerInput] = useState(ticker);
+  const [history, setHistory] = useState<FullHistoricalData | null | undefined>(undefined);
+
+  useEffect(() => {
+    setTickerInput(ticker);
+  }, [ticker]);
+
+  const firstTransactionTime = useMemo(() => {
+    const times = (holdings ?? []).flatMap(h => h.transactions.map(t => t.date.getTime()));
+    return times.length > 0 ? Math.min(...times) : null;
+  }, [holdings]);
+
+  useEffect(() => {
+    if (firstTransactionTime === null) return;
+    let cancelled = false;
+    setHistory(undefined);
+    (async () => {
+      try {
+        const data = await getHistoricalData(ticker, new Date(firstTransactionTime));
+        if (cancelled) return;
+        if (!data.ok || data.data.prices.length === 0) {
+          const reason = data.ok ? `No price history was found for ${ticker}.` : MARKET_DATA_ERROR_MESSAGES[data.error];
+          toast({ variant: 'destructive', title: "Benchmark unavailable", description: reason });
+          setHistory(null);
+          return;
+        }
+        setHistory(data.data);
+      } catch (error) {
+        if (cancelled) return;
+        console.error(`Error fetching benchmark history for ${ticker}:`, error);
+        toast({ variant: 'destructive', title: "Error", description: `Could not load the price history for ${ticker}.` });
+        setHistory(null);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [ticker, firstTransactionTime, toast]);
+
+  const comparison = useMemo(() => {
+    if (!holdings || !history) return null;
+    const benchmark = toHoldingHistory([], history, () => priceRate);
+    return benchmark && compareWithBenchmark(holdings, benchmark, convert);
+  }, [holdings, history, priceRate, convert]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = tickerInput.trim().toUpperCase();
+    if (!TICKER_PATTERN.test(next)) {
+      toast({ variant: 'destructive', title: "Invalid ticker", description: "Enter a ticker symbol such as SPY or VWRL." });
+      return;
+    }
+    if (next !== ticker) updateSettings({ benchmarkTicker: next });
+  };
+
+  const chartConfig = useMemo(() => ({
+    holdings: { label: 'Your investments', color: 'hsl(var(--chart-1))' },
+    benchmark: { label: ticker, color: 'hsl(var(--chart-2))' },
+    invested: { label: 'Net invested', color: 'hsl(var(--muted-foreground))' },
+  } satisfies ChartConfig), [ticker]);
+
+  const last = comparison?.points[comparison.points.length - 1];
+  const difference = last ? last.holdings - last.benchmark : 0;
+  const isLoading = holdings === undefined || (firstTransactionTime !== null && history === undefined);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>
+            What the same buys and sales would be worth had they gone into {ticker} instead. Dividends are counted as cash on both sides.
+          </CardDescription>
+        </div>
+        <form onSubmit={handleSubmit} className="flex gap-2 w-full sm:w-auto">
+          <Input
+            value={tickerInput}
+            onChange={(e) => setTickerInput(e.target.value.toUpperCase())}
+            placeholder="e.g. SPY"
+            className="sm:w-28"
+            aria-label="Benchmark ticker"
+          />
+          <Button type="submit" variant="outline">Compare</Button>
+        </form>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : !comparison || !last ? (
+          <p className="text-sm text-muted-foreground">Not enough price history to compare against {ticker}.</p>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Your investments</p>
+                <p className="text-2xl font-bold tracking-tight">{formatCurrency(last.holdings, currency)}</p>
+                <p className={cn("text-xs", returnColor(comparison.holdingsXirr))}>{formatReturn(comparison.holdingsXirr)} a year</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">{ticker} with the same cash flows</p>
+                <p className="text-2xl font-bold tracking-tight">{formatCurrency(last.benchmark, currency)}</p>
+                <p className={cn("text-xs", returnColor(comparison.benchmarkXirr))}>{formatReturn(comparison.benchmarkXirr)} a year</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">{difference >= 0 ? 'Ahead of' : 'Behind'} {ticker}</p>
+                <p className={cn("text-2xl font-bold tracking-tight", returnColor(difference))}>{formatCurrency(Math.abs(difference), currency)}</p>
+                <p className="text-xs text-muted-foreground">Net invested: {formatCurrency(last.invested, currency)}</p>
+              </div>
+            </div>
+            <ChartContainer config={chartConfig} className="h-[300px] w-full">
+              <LineChart data={comparison.points} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={32} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  tickFormatter={(value) => formatCurrency(Number(value), currency, { notation: 'compact' })}
+                  domain={['auto', 'auto']}
+                />
+                <ChartTooltip
+                  content={<ChartTooltipContent
+                    formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${formatCurrency(Number(value), currency)}`}
+                    indicator="dot"
+                  />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="holdings" type="monotone" stroke="var(--color-holdings)" strokeWidth={2} dot={false} />
+                <Line dataKey="benchmark" type="monotone" stroke="var(--color-benchmark)" strokeWidth={2} dot={false} />
+                <Line dataKey="invested" type="stepAfter" stroke="var(--color-invested)" strokeWidth={1} strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CURRENCY_CODES, getCurrencyName } from '@/lib/currency';
+import { QUOTE_UNITS } from '@/lib/exchanges';
+import { cn } from '@/lib/utils';
+
+interface CurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+  id?: string;
+  className?: string;
+  includeQuoteUnits?: boolean; // Offer GBX and the like, for what a listing is quoted in
+}
+
+const currencyName = (code: string) => QUOTE_UNITS[code]?.name ?? getCurrencyName(code);
+
+/** A searchable picker over every ISO 4217 currency. */
+export function CurrencySelect({ value, onChange, id, className, includeQuoteUnits }: CurrencySelectProps) {
+  const [open, setOpen] = useState(false);
+  const options = useMemo(
+    () => [...CURRENCY_CODES, ...(includeQuoteUnits ? Object.keys(QUOTE_UNITS) : [])].map(code => ({ code, name: currencyName(code) })),
+    [includeQuoteUnits]
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", !value && "text-muted-foreground", className)}
+        >
+          <span className="truncate">{value ? `${value} - ${currencyName(value)}` : 'Select a currency'}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search by code or name..." />
+          <CommandList>
+            <CommandEmpty>No currency found.</CommandEmpty>
+            <CommandGroup>
+              {options.map(({ code, name }) => (
+                <CommandItem
+                  key={code}
+                  value={`${code} ${name}`}
+                  onSelect={() => {
+                    onChange(code);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value === code ? "opacity-100" : "opacity-0")} />
+                  <span className="font-medium">{code}</span>
+                  <span className="ml-2 truncate text-muted-foreground">{name}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
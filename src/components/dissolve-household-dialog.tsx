@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/components/main-layout';
+import { useToast } from '@/hooks/use-toast';
+import type { Household, SavingGoal, Transaction } from '@/lib/types';
+import { canDissolveAtOnce, dissolveHousehold } from '@/repositories/households';
+import { getHouseholdTransactions } from '@/repositories/transactions';
+import { getHouseholdSavingsGoals } from '@/repositories/savings';
+
+interface DissolveHouseholdDialogProps {
+  household: Household | null; // Open while set
+  onOpenChange: (open: boolean) => void;
+  onDissolved: () => void;
+}
+
+/** Confirms deleting a household and asks what becomes of everything shared with it. */
+export function DissolveHouseholdDialog({ household, onOpenChange, onDissolved }: DissolveHouseholdDialogProps) {
+  const user = useAuth();
+  const { toast } = useToast();
+  const [shared, setShared] = useState<(Transaction | SavingGoal)[] | null>(null);
+  const [mode, setMode] = useState<'unshare' | 'delete'>('unshare');
+  const [isDissolving, setIsDissolving] = useState(false);
+
+  useEffect(() => {
+    if (!household) return;
+    setShared(null);
+    setMode('unshare');
+    Promise.all([getHouseholdTransactions([household.id]), getHouseholdSavingsGoals([household.id])])
+      .then(([transactions, goals]) => setShared([...transactions, ...goals]))
+      .catch(error => {
+        console.error("Error fetching shared items:", error);
+        toast({ variant: 'destructive', title: "Error", description: "Could not load what is shared with this household." });
+        onOpenChange(false);
+      });
+  }, [household]);
+
+  const transactionCount = shared?.filter(item => 'transactionType' in item).length ?? 0;
+  const goalCount = (shared?.length ?? 0) - transactionCount;
+
+  const handleDissolve = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!household || !shared || !user) return;
+    setIsDissolving(true);
+    try {
+      await dissolveHousehold(household, shared, mode, { id: user.uid, name: user.displayName || 'A user' },
+        `${user.displayName} dissolved the household, ${mode === 'unshare' ? 'making shared items personal to whoever added them' : 'deleting shared items'}.`);
+      toast({ title: "Household Dissolved" });
+      onOpenChange(false);
+      onDissolved();
+    } catch (error) {
+      console.error("Error dissolving household:", error);
+      toast({ variant: 'destructive', title: "Error", description: "Could not dissolve the household." });
+    } finally {
+      setIsDissolving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!household} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Dissolve "{household?.name}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This permanently deletes the household for every member. {shared
+              ? `${transactionCount} transaction(s) and ${goalCount} savings goal(s) are shared with it.`
+              : 'Checking what is shared with it...'}
+            {household && shared && !canDissolveAtOnce(household, shared) &&
+              ' That is too much to do in one step: if this is interrupted, the items already handled stay that way and the household stays until you dissolve it again.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as 'unshare' | 'delete')} className="space-y-2">
+          <div className="flex items-center space-x-3">
+            <RadioGroupItem value="unshare" id="dissolve-unshare" />
+            <Label htmlFor="dissolve-unshare" className="font-normal">Make them personal to whoever added them</Label>
+          </div>
+          <div className="flex items-center space-x-3">
+            <RadioGroupItem value="delete" id="dissolve-delete" />
+            <Label htmlFor="dissolve-delete" className="font-normal">Delete them</Label>
+          </div>
+        </RadioGroup>
+        <AlertDialogFooter className="gap-2 sm:gap-0">
+          <AlertDialogCancel disabled={isDissolving}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleDissolve} disabled={!shared || isDissolving}>
+            {isDissolving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Dissolve
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,362 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CurrencySelect } from '@/components/currency-select';
+import { CalendarIcon, Edit, HandCoins, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+import type { AmountConverter } from '@/lib/cost-basis';
+import { createReinvestment, findUnrecordedDividends, getNetDividend, summariseDividendsByYear, type DividendYear, type UnrecordedDividend } from '@/lib/dividends';
+import type { Investment, InvestmentDividend } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const dividendSchema = z.object({
+  date: z.date({ required_error: 'A payment date is required.' }),
+  exDate: z.date().nullable(),
+  grossAmount: z.coerce.number().positive('The dividend must be more than zero.'),
+  withholdingTax: z.coerce.number().min(0, 'Tax withheld cannot be negative.'),
+  currency: z.string().length(3, 'A currency is required.'),
+  handling: z.enum(['cash', 'reinvest']),
+  reinvestPrice: z.coerce.number().min(0),
+}).refine(values => values.withholdingTax <= values.grossAmount, {
+  message: "Tax withheld can't be more than the dividend.",
+  path: ['withholdingTax'],
+}).refine(values => values.handling === 'cash' || values.reinvestPrice > 0, {
+  message: 'Enter the price the reinvested shares were bought at.',
+  path: ['reinvestPrice'],
+});
+
+type DividendFormValues = z.infer<typeof dividendSchema>;
+
+interface DividendLedgerProps {
+  investment: Investment;
+  marketDividends: { date: string; amount: number }[]; // Per share, in the quote currency
+  convert: AmountConverter; // Dividend amounts into the display currency
+  currency: string;
+  onSave: (changes: Pick<Investment, 'dividends' | 'transactions'>, message: string) => Promise<boolean>; // false keeps the dialog open
+}
+
+const formatDate = (date: Date | null) => date ? format(date, 'PP') : '—';
+
+/** Dividends paid per calendar year, for one holding or the whole portfolio. */
+export function DividendYearsTable({ years, currency }: { years: DividendYear[], currency: string }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Year</TableHead>
+          <TableHead className="text-right">Payments</TableHead>
+          <TableHead className="text-right">Gross</TableHead>
+          <TableHead className="text-right">Tax Withheld</TableHead>
+          <TableHead className="text-right">Net</TableHead>
+          <TableHead className="text-right">Reinvested</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {years.map(year => (
+          <TableRow key={year.year}>
+            <TableCell className="font-medium">{year.year}</TableCell>
+            <TableCell className="text-right">{year.payments}</TableCell>
+            <TableCell className="text-right font-mono">{formatCurrency(year.gross, currency)}</TableCell>
+            <TableCell className="text-right font-mono">{formatCurrency(year.withholdingTax, currency)}</TableCell>
+            <TableCell className="text-right font-mono text-green-400">{formatCurrency(year.net, currency)}</TableCell>
+            <TableCell className="text-right font-mono">{formatCurrency(year.reinvested, currency)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * The dividends recorded on a holding, with the ones market data says it was paid but that
+ * haven't been recorded yet. Reinvesting a dividend adds the buy it made to the holding's
+ * transactions, so both are always saved together.
+ */
+export function DividendLedger({ investment, marketDividends, convert, currency, onSave }: DividendLedgerProps) {
+  const { quoteCurrency } = investment;
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingDividend, setEditingDividend] = useState<InvestmentDividend | null>(null);
+  const [prefill, setPrefill] = useState<UnrecordedDividend | null>(null);
+  const [dividendToDelete, setDividendToDelete] = useState<InvestmentDividend | null>(null);
+
+  const form = useForm<DividendFormValues>({
+    resolver: zodResolver(dividendSchema),
+  });
+  const handling = form.watch('handling');
+
+  const dividends = useMemo(() => [...investment.dividends].sort((a, b) => b.date.getTime() - a.date.getTime()), [investment.dividends]);
+  const unrecorded = useMemo(() => findUnrecordedDividends(investment.transactions, marketDividends, investment.dividends), [investment, marketDividends]);
+  const years = useMemo(() => summariseDividendsByYear(investment.dividends, convert), [investment.dividends, convert]);
+  const reinvestments = useMemo(() => new Map(investment.transactions.map(t => [t.id, t])), [investment.transactions]);
+  const totalNet = years.reduce((sum, year) => sum + year.net, 0);
+
+  useEffect(() => {
+    if (!isDialogOpen) return;
+    if (editingDividend) {
+      const reinvestment = editingDividend.reinvestTransactionId ? reinvestments.get(editingDividend.reinvestTransactionId) : undefined;
+      form.reset({ ...editingDividend, reinvestPrice: reinvestment?.price ?? 0 });
+    } else if (prefill) {
+      form.reset({ date: prefill.exDate, exDate: prefill.exDate, grossAmount: prefill.grossAmount, withholdingTax: 0, currency: quoteCurrency, handling: 'cash', reinvestPrice: 0 });
+    } else {
+      form.reset({ date: new Date(), exDate: null, grossAmount: 0, withholdingTax: 0, currency, handling: 'cash', reinvestPrice: 0 });
+    }
+  }, [isDialogOpen, editingDividend, prefill, reinvestments, form, currency, quoteCurrency]);
+
+  const openDialog = (dividend: InvestmentDividend | null, unrecordedDividend: UnrecordedDividend | null = null) => {
+    setEditingDividend(dividend);
+    setPrefill(unrecordedDividend);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async ({ reinvestPrice, ...values }: DividendFormValues) => {
+    const linkedId = editingDividend?.reinvestTransactionId ?? null;
+    const dividend: InvestmentDividend = { ...values, id: editingDividend?.id ?? crypto.randomUUID(), reinvestTransactionId: null };
+    const transactions = investment.transactions.filter(t => t.id !== linkedId);
+    if (dividend.handling === 'reinvest') {
+      const reinvestment = createReinvestment(dividend, reinvestPrice, linkedId ?? crypto.randomUUID());
+      transactions.push(reinvestment);
+      dividend.reinvestTransactionId = reinvestment.id;
+    }
+    const updatedDividends = editingDividend
+      ? investment.dividends.map(d => d.id === dividend.id ? dividend : d)
+      : [...investment.dividends, dividend];
+
+    setIsSaving(true);
+    try {
+      const saved = await onSave({ dividends: updatedDividends, transactions }, editingDividend ? 'Dividend Updated' : 'Dividend Recorded');
+      if (saved) setIsDialogOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!dividendToDelete) return;
+    await onSave({
+      dividends: investment.dividends.filter(d => d.id !== dividendToDelete.id),
+      transactions: investment.transactions.filter(t => t.id !== dividendToDelete.reinvestTransactionId),
+    }, 'Dividend Deleted');
+    setDividendToDelete(null);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2"><HandCoins className="h-6 w-6 text-primary" />Dividends</CardTitle>
+            <CardDescription>
+              You've received <span className="font-bold">{formatCurrency(totalNet, currency)}</span> in dividends after tax. Cash dividends count as income in your budget.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)} className="w-full sm:w-auto">
+            <PlusCircle className="mr-2 h-4 w-4" /> Record Dividend
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {unrecorded.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Not Recorded Yet</h3>
+              <p className="text-sm text-muted-foreground">Market data shows these dividends for the shares you held. Record them once they're paid, with any tax withheld.</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ex-Dividend Date</TableHead>
+                    <TableHead className="text-right">Amount per Share</TableHead>
+                    <TableHead className="text-right">Shares Held</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right w-[100px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {unrecorded.map(div => (
+                    <TableRow key={div.exDate.getTime()}>
+                      <TableCell>{formatDate(div.exDate)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(div.amountPerShare, quoteCurrency)}</TableCell>
+                      <TableCell className="text-right">{div.shares.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(div.grossAmount, quoteCurrency)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => openDialog(null, div)}>Record</Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Paid</TableHead>
+                <TableHead>Ex-Dividend Date</TableHead>
+                <TableHead className="text-right">Gross</TableHead>
+                <TableHead className="text-right">Tax Withheld</TableHead>
+                <TableHead className="text-right">Net</TableHead>
+                <TableHead>Handling</TableHead>
+                <TableHead className="text-right w-[100px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dividends.length === 0 ? (
+                <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground">No dividends recorded.</TableCell></TableRow>
+              ) : dividends.map(div => {
+                const reinvestment = div.reinvestTransactionId ? reinvestments.get(div.reinvestTransactionId) : undefined;
+                return (
+                  <TableRow key={div.id}>
+                    <TableCell>{formatDate(div.date)}</TableCell>
+                    <TableCell>{formatDate(div.exDate)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(div.grossAmount, div.currency)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(div.withholdingTax, div.currency)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(getNetDividend(div), div.currency)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {div.handling === 'cash' ? 'Cash' : `Reinvested${reinvestment ? ` in ${reinvestment.shares.toLocaleString(undefined, { maximumFractionDigits: 6 })} shares` : ''}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(div)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setDividendToDelete(div)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {years.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">By Year</h3>
+              <DividendYearsTable years={years} currency={currency} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingDividend ? 'Edit Dividend' : 'Record Dividend'}</DialogTitle>
+            <DialogDescription>Enter the dividend before tax, and whatever was withheld from it at source.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="grossAmount" render={({ field }) => (
+                  <FormItem><FormLabel>Gross Amount</FormLabel><FormControl><Input type="number" step="any" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="withholdingTax" render={({ field }) => (
+                  <FormItem><FormLabel>Tax Withheld</FormLabel><FormControl><Input type="number" step="any" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="currency" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <CurrencySelect value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="date" render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Paid On</FormLabel>
+                    <Popover><PopoverTrigger asChild><FormControl>
+                      <Button variant="outline" className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                        {field.value ? format(field.value, "PP") : <span>Pick a date</span>}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl></PopoverTrigger><PopoverContent className="w-auto p-0" align="start">
+                      <Calendar mode="single" selected={field.value} onSelect={field.onChange} disabled={(date) => date > new Date() || date < new Date('1900-01-01')} initialFocus />
+                    </PopoverContent></Popover>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="exDate" render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Ex-Dividend Date</FormLabel>
+                    <Popover><PopoverTrigger asChild><FormControl>
+                      <Button variant="outline" className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                        {field.value ? format(field.value, "PP") : <span>Optional</span>}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl></PopoverTrigger><PopoverContent className="w-auto p-0" align="start">
+                      <Calendar mode="single" selected={field.value ?? undefined} onSelect={(date) => field.onChange(date ?? null)} disabled={(date) => date > new Date() || date < new Date('1900-01-01')} initialFocus />
+                    </PopoverContent></Popover>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="handling" render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel>What happened to it</FormLabel>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-6">
+                      <FormItem className="flex items-center space-x-2 space-y-0">
+                        <FormControl><RadioGroupItem value="cash" /></FormControl>
+                        <FormLabel className="font-normal">Paid as cash</FormLabel>
+                      </FormItem>
+                      <FormItem className="flex items-center space-x-2 space-y-0">
+                        <FormControl><RadioGroupItem value="reinvest" /></FormControl>
+                        <FormLabel className="font-normal">Reinvested</FormLabel>
+                      </FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {handling === 'reinvest' && (
+                <FormField control={form.control} name="reinvestPrice" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reinvestment Price per Share</FormLabel>
+                    <FormControl><Input type="number" step="any" {...field} /></FormControl>
+                    <FormDescription>The amount after tax buys fractional shares at this price, in the dividend's currency.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              )}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingDividend ? 'Update' : 'Record'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!dividendToDelete} onOpenChange={(open) => !open && setDividendToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete this dividend{dividendToDelete?.reinvestTransactionId ? ', and the shares it bought' : ''}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
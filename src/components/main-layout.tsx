@@ -39,14 +39,15 @@ import {
   LifeBuoy,
   Scale,
   CandlestickChart,
+  BookOpenCheck,
+  Wand2,
+  Milestone,
 } from 'lucide-react'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { CurrencyProvider } from '@/context/currency-context';
-import { ProjectionSettingsProvider } from '@/context/projection-settings-context';
 import { Logo } from '@/components/logo';
-import { UiSettingsProvider, useUiSettings } from '@/context/ui-settings-context';
+import { useUiSettings } from '@/context/ui-settings-context';
+import { SettingsProvider } from '@/context/settings-context';
 import { AppTourProvider } from './tour-guide';
-import { FinancialTargetsProvider } from '@/context/financial-targets-context';
 
 export const AuthContext = createContext<FirebaseUser | null>(null);
 
@@ -70,6 +71,7 @@ const navItems = [
       { href: '/budget/compare', label: 'Comparison', icon: GitCompareArrows },
       { href: '/savings', label: 'Savings Goals', icon: PiggyBank },
       { href: '/transactions', label: 'All Transactions', icon: ArrowRightLeft },
+      { href: '/ledger', label: 'Ledger', icon: BookOpenCheck },
     ],
   },
   {
@@ -80,6 +82,7 @@ const navItems = [
       { href: '/net-worth', label: 'Net Worth', icon: Scale },
       { href: '/assets', label: 'Assets', icon: Wallet },
       { href: '/liabilities', label: 'Liabilities', icon: Banknote },
+      { href: '/liabilities/planner', label: 'Debt Planner', icon: Milestone },
       { href: '/investments', label: 'Investments', icon: CandlestickChart },
       { href: '/history', label: 'History', icon: History },
       { href: '/projections', label: 'Projections', icon: TrendingUp },
@@ -93,6 +96,7 @@ const navItems = [
         { href: '/settings/appearance', label: 'Appearance', icon: Paintbrush },
         { href: '/settings/financial', label: 'Financial', icon: DollarSign },
         { href: '/settings/categories', label: 'Categories', icon: List },
+        { href: '/settings/rules', label: 'Rules', icon: Wand2 },
     ]
   },
 ]
@@ -212,37 +216,31 @@ export function MainLayout({ children }: { children: React.ReactNode }) {
 
   return (
     <AuthContext.Provider value={user}>
-      <ProjectionSettingsProvider>
-        <CurrencyProvider>
-          <UiSettingsProvider>
-            <FinancialTargetsProvider>
-              <AppTourProvider>
-                <SidebarProvider>
-                  <Sidebar collapsible="icon" className="bg-card border-r">
-                    <SidebarHeader className="group-data-[collapsible=icon]:justify-center">
-                      <Link href="/dashboard" className="flex items-center gap-2 group-data-[collapsible=icon]:gap-0">
-                          <Logo className="h-7 w-7 transition-all" />
-                          <span className="text-lg font-semibold tracking-tight text-primary transition-opacity duration-200 group-data-[collapsible=icon]:w-0 group-data-[collapsible=icon]:opacity-0">
-                            Kiadas
-                          </span>
-                        </Link>
-                    </SidebarHeader>
-                    <Navigation />
-                  </Sidebar>
-                  <SidebarInset>
-                    <div className="flex min-h-screen w-full flex-col">
-                      {children}
-                      <footer className="py-6 text-center text-muted-foreground text-sm">
-                        <p>Kiadas © {new Date().getFullYear()}</p>
-                      </footer>
-                    </div>
-                  </SidebarInset>
-                </SidebarProvider>
-              </AppTourProvider>
-            </FinancialTargetsProvider>
-          </UiSettingsProvider>
-        </CurrencyProvider>
-      </ProjectionSettingsProvider>
+      <SettingsProvider>
+        <AppTourProvider>
+          <SidebarProvider>
+            <Sidebar collapsible="icon" className="bg-card border-r">
+              <SidebarHeader className="group-data-[collapsible=icon]:justify-center">
+                <Link href="/dashboard" className="flex items-center gap-2 group-data-[collapsible=icon]:gap-0">
+                    <Logo className="h-7 w-7 transition-all" />
+                    <span className="text-lg font-semibold tracking-tight text-primary transition-opacity duration-200 group-data-[collapsible=icon]:w-0 group-data-[collapsible=icon]:opacity-0">
+                      Kiadas
+                    </span>
+                  </Link>
+              </SidebarHeader>
+              <Navigation />
+            </Sidebar>
+            <SidebarInset>
+              <div className="flex min-h-screen w-full flex-col">
+                {children}
+                <footer className="py-6 text-center text-muted-foreground text-sm">
+                  <p>Kiadas © {new Date().getFullYear()}</p>
+                </footer>
+              </div>
+            </SidebarInset>
+          </SidebarProvider>
+        </AppTourProvider>
+      </SettingsProvider>
     </AuthContext.Provider>
   )
 }
@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarIcon, Loader2, Trash2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+import { toRateDate } from '@/lib/fx-rates';
+import type { InvestmentPrice } from '@/lib/types';
+
+interface ManualPricesProps {
+  prices: InvestmentPrice[];
+  currency: string; // The holding's quote currency
+  onSave: (prices: InvestmentPrice[]) => Promise<boolean>; // false keeps what was entered
+}
+
+/** The price history of a holding market data doesn't cover, entered one valuation at a time. */
+export function ManualPrices({ prices, currency, onSave }: ManualPricesProps) {
+  const [date, setDate] = useState<Date | undefined>(new Date());
+  const [price, setPrice] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sorted = useMemo(() => [...prices].sort((a, b) => b.date.getTime() - a.date.getTime()), [prices]);
+  const parsedPrice = parseFloat(price);
+  const canAdd = !!date && !isNaN(parsedPrice) && parsedPrice > 0;
+
+  const save = async (updated: InvestmentPrice[]) => {
+    setIsSaving(true);
+    try {
+      return await onSave(updated);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // A date has one price: entering another replaces it.
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || !canAdd) return;
+    const key = toRateDate(date);
+    const saved = await save([
+      ...prices.filter(p => toRateDate(p.date) !== key),
+      { id: crypto.randomUUID(), date, price: parsedPrice },
+    ]);
+    if (saved) setPrice('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Prices</CardTitle>
+        <CardDescription>
+          This holding is priced manually. Each price stands until the next one, so enter a new one whenever you get a valuation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleAdd} className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full sm:w-[200px] pl-3 text-left font-normal">
+                  {date ? format(date, 'PP') : <span className="text-muted-foreground">Pick a date</span>}
+                  <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar mode="single" selected={date} onSelect={setDate} disabled={(day) => day > new Date() || day < new Date('1900-01-01')} initialFocus />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="manual-price">Price per Share ({currency})</Label>
+            <Input id="manual-price" type="number" min="0" step="any" value={price} onChange={(e) => setPrice(e.target.value)} className="sm:w-40" />
+          </div>
+          <Button type="submit" disabled={!canAdd || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Price
+          </Button>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right w-[100px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.length === 0 ? (
+              <TableRow><TableCell colSpan={3} className="text-center text-muted-foreground">No prices entered yet, so this holding has no current value.</TableCell></TableRow>
+            ) : sorted.map(p => (
+              <TableRow key={p.id}>
+                <TableCell>{format(p.date, 'PP')}</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(p.price, currency)}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" disabled={isSaving} onClick={() => save(prices.filter(other => other.id !== p.id))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
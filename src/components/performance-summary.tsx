@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatCurrency } from '@/lib/currency';
+import { PERFORMANCE_PERIOD_LABELS, type PerformancePeriod, type PerformanceResult } from '@/lib/performance';
+import { cn } from '@/lib/utils';
+
+interface PerformanceSummaryProps {
+  title: string;
+  period: PerformancePeriod;
+  onPeriodChange: (period: PerformancePeriod) => void;
+  result: PerformanceResult | null | undefined; // undefined while the price history loads
+  currency: string;
+  footnote?: React.ReactNode; // e.g. which holdings are left out
+}
+
+export function formatReturn(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(2)}%`;
+}
+
+export function returnColor(value: number | null): string {
+  if (value === null) return '';
+  return value >= 0 ? 'text-green-500' : 'text-red-500';
+}
+
+/** Time- and money-weighted returns over a selectable period. */
+export function PerformanceSummary({ title, period, onPeriodChange, result, currency, footnote }: PerformanceSummaryProps) {
+  const stats = result ? [
+    { label: 'Time-Weighted Return', value: formatReturn(result.twr), color: returnColor(result.twr), note: result.annualisedTwr !== null ? `${formatReturn(result.annualisedTwr)} a year` : 'Not annualised' },
+    { label: 'Money-Weighted Return (XIRR)', value: formatReturn(result.xirr), color: returnColor(result.xirr), note: 'A year' },
+    { label: 'Dividends', value: formatCurrency(result.dividends, currency), color: '', note: 'Included in both returns' },
+  ] : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>
+            Time-weighted return measures the investments alone; the money-weighted return also reflects when you added or withdrew money.
+          </CardDescription>
+        </div>
+        <Tabs value={period} onValueChange={(value) => onPeriodChange(value as PerformancePeriod)}>
+          <TabsList>
+            {(Object.keys(PERFORMANCE_PERIOD_LABELS) as PerformancePeriod[]).map(option => (
+              <TabsTrigger key={option} value={option}>{PERFORMANCE_PERIOD_LABELS[option]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {result === undefined ? (
+          <Skeleton className="h-16 w-full" />
+        ) : result === null ? (
+          <p className="text-sm text-muted-foreground">Not enough history to measure performance.</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="space-y-1">
+                <p className="text-sm text-muted-foreground">{stat.label}</p>
+                <p className={cn("text-2xl font-bold tracking-tight", stat.color)}>{stat.value}</p>
+                <p className="text-xs text-muted-foreground">{stat.note}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        {footnote && <p className="mt-4 text-sm text-destructive">{footnote}</p>}
+      </CardContent>
+    </Card>
+  );
+}
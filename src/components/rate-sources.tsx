@@ -0,0 +1,20 @@
+'use client';
+
+import { RATE_SOURCE_LABELS, type RateSource } from '@/lib/fx-rates';
+
+interface RateSourcesProps {
+  sources: Record<string, RateSource>; // Keyed by the currency converted from
+  currency: string; // The display currency everything is converted into
+}
+
+/** A footnote naming where each exchange rate on the page came from. */
+export function RateSources({ sources, currency }: RateSourcesProps) {
+  const entries = Object.entries(sources).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return null;
+
+  return (
+    <p className="text-xs text-muted-foreground">
+      Exchange rates: {entries.map(([from, source]) => `${from} → ${currency}: ${RATE_SOURCE_LABELS[source]}`).join(' · ')}
+    </p>
+  );
+}
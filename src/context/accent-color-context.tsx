@@ -1,19 +1,17 @@
 'use client';
 
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { LOCAL_SETTING_KEYS } from '@/lib/user-settings';
+import type { AccentColor } from '@/lib/types';
 
-export interface AccentColor {
-  name: string;
-  primary: string; // HSL value string
-  foreground: string; // HSL value string
-}
+export type { AccentColor };
 
 interface AccentColorContextType {
   accentColor: AccentColor;
   setAccentColor: (color: AccentColor) => void;
 }
 
-const defaultAccentColor: AccentColor = {
+export const defaultAccentColor: AccentColor = {
   name: 'Default Blue',
   primary: '217.2 91.2% 59.8%',
   foreground: '210 40% 98%',
@@ -25,8 +23,9 @@ export function AccentColorProvider({ children }: { children: ReactNode }) {
   const [accentColor, setAccentColor] = useState<AccentColor>(defaultAccentColor);
 
   useEffect(() => {
-    // On mount, read from localStorage
-    const storedColor = localStorage.getItem('app-accent-color');
+    // On mount, read the copy of the user's settings saved on this device so pages outside
+    // the signed-in layout (e.g. login) keep the accent. The SettingsProvider keeps it current.
+    const storedColor = localStorage.getItem(LOCAL_SETTING_KEYS.accentColor);
     if (storedColor) {
       try {
         const parsedColor = JSON.parse(storedColor);
@@ -47,13 +46,8 @@ export function AccentColorProvider({ children }: { children: ReactNode }) {
     document.documentElement.style.setProperty('--ring', accentColor.primary);
   }, [accentColor]);
 
-  const handleSetAccentColor = (newColor: AccentColor) => {
-    setAccentColor(newColor);
-    localStorage.setItem('app-accent-color', JSON.stringify(newColor));
-  };
-
   return (
-    <AccentColorContext.Provider value={{ accentColor, setAccentColor: handleSetAccentColor }}>
+    <AccentColorContext.Provider value={{ accentColor, setAccentColor }}>
       {children}
     </AccentColorContext.Provider>
   );
@@ -1,43 +1,14 @@
 'use client';
 
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
-
-type Currency = 'USD' | 'EUR' | 'GBP' | 'HUF';
-
-interface CurrencyContextType {
-  currency: Currency;
-  setCurrency: (currency: Currency) => void;
-}
-
-const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
-
-export function CurrencyProvider({ children }: { children: ReactNode }) {
-  const [currency, setCurrency] = useState<Currency>('USD');
-
-  useEffect(() => {
-    const storedCurrency = localStorage.getItem('app-currency');
-    const validCurrencies: Currency[] = ['USD', 'EUR', 'GBP', 'HUF'];
-    if (storedCurrency && validCurrencies.includes(storedCurrency as Currency)) {
-      setCurrency(storedCurrency as Currency);
-    }
-  }, []);
-
-  const handleSetCurrency = (newCurrency: Currency) => {
-    setCurrency(newCurrency);
-    localStorage.setItem('app-currency', newCurrency);
-  };
-
-  return (
-    <CurrencyContext.Provider value={{ currency, setCurrency: handleSetCurrency }}>
-      {children}
-    </CurrencyContext.Provider>
-  );
-}
+import { useSettings } from '@/context/settings-context';
 
+/** The display currency and number format locale, stored with the user's settings. */
 export function useCurrency() {
-  const context = useContext(CurrencyContext);
-  if (context === undefined) {
-    throw new Error('useCurrency must be used within a CurrencyProvider');
-  }
-  return context;
+  const { settings, updateSettings } = useSettings();
+  return {
+    currency: settings.currency,
+    setCurrency: (currency: string) => updateSettings({ currency }),
+    locale: settings.locale,
+    setLocale: (locale: string) => updateSettings({ locale }),
+  };
 }
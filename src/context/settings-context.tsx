@@ -0,0 +1,87 @@
+'use client';
+
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
+import { useAuth } from '@/components/main-layout';
+import { defaultAccentColor, useAccentColor } from '@/context/accent-color-context';
+import { readLocalSettings, readLocalSettingsOwner, writeLocalSettings } from '@/lib/data-archive';
+import { setFormatLocale } from '@/lib/currency';
+import { DEFAULT_SETTINGS, parseLocalSettings, toLocalSettings } from '@/lib/user-settings';
+import { getUserSettings, saveUserSettings } from '@/repositories/settings';
+import type { UserSettings } from '@/lib/types';
+
+interface SettingsContextType {
+  settings: UserSettings;
+  updateSettings: (changes: Partial<UserSettings>) => void;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+/**
+ * Holds the signed-in user's settings. Starts from the localStorage mirror, then loads
+ * `users/{uid}/settings/preferences`; if that has never been written, the mirror is migrated
+ * into it. The mirror is tagged with the uid that wrote it and only used for that user (or
+ * when untagged, as it was before tagging), so another account on the same browser doesn't
+ * leak in. Changes apply immediately and are saved to both, so an offline change still sticks
+ * on this device and Firestore syncs it once the connection is back.
+ */
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const user = useAuth();
+  const { setAccentColor } = useAccentColor();
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const settingsRef = useRef(settings);
+
+  const applySettings = (next: UserSettings) => {
+    // Set before the re-render so every formatCurrency call in it sees the new locale.
+    setFormatLocale(next.locale);
+    settingsRef.current = next;
+    setSettings(next);
+    writeLocalSettings(toLocalSettings(next), user?.uid);
+    setAccentColor(next.accentColor ?? defaultAccentColor);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    const owner = readLocalSettingsOwner();
+    const isOwnMirror = owner === null || owner === user.uid;
+    const local: UserSettings = { ...DEFAULT_SETTINGS, ...(isOwnMirror ? parseLocalSettings(readLocalSettings()) : {}) };
+    applySettings(local);
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const stored = await getUserSettings(user.uid);
+        if (cancelled) return;
+        if (stored) {
+          applySettings({ ...DEFAULT_SETTINGS, ...stored });
+        } else if (isOwnMirror) {
+          await saveUserSettings(user.uid, local);
+        }
+      } catch (error) {
+        console.error("Error loading settings, using the copy saved on this device:", error);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [user]);
+
+  const updateSettings = (changes: Partial<UserSettings>) => {
+    applySettings({ ...settingsRef.current, ...changes });
+    if (!user) return;
+    saveUserSettings(user.uid, changes).catch(error => {
+      console.error("Error saving settings:", error);
+    });
+  };
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
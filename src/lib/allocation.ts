@@ -0,0 +1,92 @@
+/**
+ * @fileOverview Target allocations: how far holdings have drifted from the percentages the user
+ * set, and what would bring them back. Only keys with a target take part — a key without one
+ * (a car, say) is listed but neither counted in the total the percentages are of nor suggested
+ * for sale.
+ */
+import type { AllocationTarget } from '@/lib/types';
+
+export type AllocationValue = {
+  key: string;
+  value: number; // In the display currency
+};
+
+export type AllocationRow = {
+  key: string;
+  value: number;
+  targetPercent: number | null; // null when no target is set
+  actualPercent: number | null; // Of the total of the keys with a target
+  drift: number | null; // Percentage points over (positive) or under (negative) the target
+  targetValue: number | null;
+};
+
+export type RebalanceSuggestion = {
+  key: string;
+  amount: number; // To buy (positive) or sell (negative)
+};
+
+/** Targets are entered as whole percentages; anything this close to 100 adds up. */
+export const TARGET_TOTAL_TOLERANCE = 0.01;
+
+export function targetsAddUp(percents: number[]): boolean {
+  return Math.abs(percents.reduce((sum, percent) => sum + percent, 0) - 100) <= TARGET_TOTAL_TOLERANCE;
+}
+
+export function toTargetMap(targets: Pick<AllocationTarget, 'key' | 'percent'>[]): Record<string, number> {
+  return Object.fromEntries(targets.map(t => [t.key, t.percent]));
+}
+
+/** Rows for every key with a value or a target, largest drift first and keys without a target last. */
+export function calculateDrift(values: AllocationValue[], targets: Record<string, number>): AllocationRow[] {
+  const totals = new Map<string, number>();
+  values.forEach(({ key, value }) => totals.set(key, (totals.get(key) ?? 0) + value));
+  Object.keys(targets).forEach(key => totals.set(key, totals.get(key) ?? 0));
+
+  const targetedTotal = Array.from(totals)
+    .filter(([key]) => targets[key] !== undefined)
+    .reduce((sum, [, value]) => sum + value, 0);
+
+  return Array.from(totals, ([key, value]): AllocationRow => {
+    const targetPercent = targets[key] ?? null;
+    if (targetPercent === null) {
+      return { key, value, targetPercent, actualPercent: null, drift: null, targetValue: null };
+    }
+    const actualPercent = targetedTotal > 0 ? (value / targetedTotal) * 100 : 0;
+    return { key, value, targetPercent, actualPercent, drift: actualPercent - targetPercent, targetValue: targetedTotal * targetPercent / 100 };
+  }).sort((a, b) =>
+    (a.drift === null ? 1 : 0) - (b.drift === null ? 1 : 0)
+    || Math.abs(b.drift ?? 0) - Math.abs(a.drift ?? 0)
+    || b.value - a.value
+  );
+}
+
+/** Buys and sales that bring every key back to its target without changing the total. */
+export function getRebalanceTrades(rows: AllocationRow[]): RebalanceSuggestion[] {
+  return rows
+    .filter((row): row is AllocationRow & { targetValue: number } => row.targetValue !== null)
+    .map(row => ({ key: row.key, amount: row.targetValue - row.value }))
+    .filter(suggestion => Math.abs(suggestion.amount) >= 0.005);
+}
+
+/**
+ * Splits new money between the keys that would be under target once it is added, in
+ * proportion to how far under each one is, so nothing has to be sold.
+ */
+export function allocateContribution(rows: AllocationRow[], contribution: number): RebalanceSuggestion[] {
+  const targeted = rows.filter((row): row is AllocationRow & { targetPercent: number } => row.targetPercent !== null);
+  if (targeted.length === 0 || contribution <= 0) return [];
+
+  const newTotal = targeted.reduce((sum, row) => sum + row.value, 0) + contribution;
+  const shortfalls = targeted.map(row => Math.max(0, newTotal * row.targetPercent / 100 - row.value));
+  const totalShortfall = shortfalls.reduce((sum, shortfall) => sum + shortfall, 0);
+
+  return targeted
+    .map((row, i) => ({
+      key: row.key,
+      amount: totalShortfall > 0
+        ? contribution * shortfalls[i] / totalShortfall
+        : contribution * row.targetPercent / 100,
+    }))
+    .filter(suggestion => suggestion.amount >= 0.005)
+    .sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileOverview Liability balances over time. Past balances come from the recorded
+ * balanceHistory; future ones from a month-by-month amortisation that runs forward from the
+ * current balance with one payment a month. A liability with no payment, or a payment that
+ * doesn't cover its monthly interest, can't be projected and keeps its balance.
+ */
+import { addMonths, differenceInCalendarMonths } from 'date-fns';
+import type { Liability } from '@/lib/types';
+
+export const MAX_SCHEDULE_MONTHS = 600; // 50 years
+
+export type AmortisationRow = {
+  period: number;
+  date: Date;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // Remaining after this payment
+};
+
+export type AmortisationSchedule = {
+  rows: AmortisationRow[];
+  totalInterest: number;
+  totalPaid: number;
+  payoffDate: Date | null; // null when the payment never clears the balance
+};
+
+/** The recorded balance in effect at `date`, or 0 before the first entry. */
+export function getBalanceForDate(liability: Pick<Liability, 'balanceHistory'>, date: Date): number {
+  let latest: Liability['balanceHistory'][number] | undefined;
+  for (const entry of liability.balanceHistory) {
+    if (entry.date <= date && (!latest || entry.date >= latest.date)) latest = entry;
+  }
+  return latest?.balance ?? 0;
+}
+
+type PaymentTerms = Pick<Liability, 'currentBalance' | 'apr' | 'monthlyPayment' | 'termMonths' | 'startDate'>;
+
+/** The level monthly payment that clears `balance` over `months` at `apr` percent a year. */
+export function getAnnuityPayment(balance: number, apr: number, months: number): number {
+  if (months <= 0) return balance;
+  const monthlyRate = apr / 100 / 12;
+  if (monthlyRate === 0) return balance / months;
+  return (balance * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+/** Months of the term left at `asOf`, or null when the liability has no fixed term. */
+export function getRemainingTermMonths(liability: PaymentTerms, asOf: Date = new Date()): number | null {
+  if (!liability.termMonths) return null;
+  const elapsed = liability.startDate ? Math.max(0, differenceInCalendarMonths(asOf, liability.startDate)) : 0;
+  return Math.max(liability.termMonths - elapsed, 1);
+}
+
+/** The payment the user entered, otherwise the one that clears the balance by the end of the term. */
+export function getScheduledPayment(liability: PaymentTerms, asOf: Date = new Date()): number {
+  if (liability.monthlyPayment && liability.monthlyPayment > 0) return liability.monthlyPayment;
+  const remaining = getRemainingTermMonths(liability, asOf);
+  return remaining ? getAnnuityPayment(liability.currentBalance, liability.apr, remaining) : 0;
+}
+
+export function buildAmortisationSchedule(balance: number, apr: number, payment: number, from: Date = new Date()): AmortisationSchedule {
+  const monthlyRate = apr / 100 / 12;
+  if (balance <= 0) return { rows: [], totalInterest: 0, totalPaid: 0, payoffDate: from };
+  if (payment <= 0 || payment <= balance * monthlyRate) return { rows: [], totalInterest: 0, totalPaid: 0, payoffDate: null };
+
+  const rows: AmortisationRow[] = [];
+  let remaining = balance;
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  for (let period = 1; remaining > 0 && period <= MAX_SCHEDULE_MONTHS; period++) {
+    const interest = remaining * monthlyRate;
+    const paymentThisMonth = Math.min(payment, remaining + interest);
+    const principal = paymentThisMonth - interest;
+    remaining -= principal;
+    if (remaining < 0.005) remaining = 0;
+
+    totalInterest += interest;
+    totalPaid += paymentThisMonth;
+    rows.push({ period, date: addMonths(from, period), payment: paymentThisMonth, interest, principal, balance: remaining });
+  }
+
+  const last = rows[rows.length - 1];
+  return { rows, totalInterest, totalPaid, payoffDate: last.balance === 0 ? last.date : null };
+}
+
+export function getLiabilitySchedule(liability: PaymentTerms, from: Date = new Date()): AmortisationSchedule {
+  return buildAmortisationSchedule(liability.currentBalance, liability.apr, getScheduledPayment(liability, from), from);
+}
+
+/** The balance left after every payment scheduled on or before `date`. */
+export function getScheduledBalance(schedule: AmortisationSchedule, openingBalance: number, date: Date): number {
+  const row = schedule.rows.findLast(r => r.date <= date);
+  return row ? row.balance : openingBalance;
+}
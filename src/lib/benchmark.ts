@@ -0,0 +1,135 @@
+/**
+ * @fileOverview "What if the same money had bought the benchmark": replays the cash that went
+ * into and came out of a set of holdings against a benchmark ticker. Every buy puts the same
+ * amount into the benchmark at its close that day and every sale takes the same amount back
+ * out, as far as the benchmark holding goes, so the two lines only differ in what the money was
+ * invested in. Both sides count dividends as cash received, as calculatePerformance does, and
+ * both hold more shares after a split rather than losing value at it.
+ */
+import { endOfDay, startOfDay } from 'date-fns';
+import { getRateForDate, toRateDate } from '@/lib/fx-rates';
+import { getCashFlow, sortTransactions, type AmountConverter } from '@/lib/cost-basis';
+import { getDividendPayments, getHoldingsValue, xirr, type CashFlow, type HoldingHistory } from '@/lib/performance';
+
+export type BenchmarkPoint = {
+  date: string; // yyyy-MM-dd
+  holdings: number; // Market value plus the dividends received so far
+  benchmark: number; // Likewise, for the benchmark bought with the same cash flows
+  invested: number; // Net money put in so far
+};
+
+export type BenchmarkComparison = {
+  points: BenchmarkPoint[];
+  holdingsXirr: number | null;
+  benchmarkXirr: number | null;
+};
+
+const toDate = (key: string) => new Date(`${key}T00:00:00`);
+
+/**
+ * One point per day the benchmark traded, from the first transaction to `today`. `benchmark`
+ * is priced like the holdings (see toHoldingHistory) and `convert` turns transaction amounts
+ * into that currency.
+ */
+export function compareWithBenchmark(
+  holdings: HoldingHistory[],
+  benchmark: Omit<HoldingHistory, 'transactions'>,
+  convert: AmountConverter = amount => amount,
+  today: Date = new Date(),
+): BenchmarkComparison | null {
+  const trades = sortTransactions(holdings.flatMap(h => h.transactions));
+  if (trades.length === 0 || benchmark.prices.length === 0) return null;
+
+  const start = startOfDay(trades[0].date);
+  const end = startOfDay(today);
+  const startKey = toRateDate(start);
+  const endKey = toRateDate(end);
+  const days = benchmark.prices.map(p => p.date).filter(date => date >= startKey && date <= endKey);
+  if (days.length === 0) return null;
+
+  const holdingDividends = getDividendPayments(holdings, start, end);
+  const benchmarkDividends = benchmark.dividends.filter(d => d.date >= startKey && d.date <= endKey);
+  const benchmarkSplits = (benchmark.splits ?? []).filter(s => s.date > startKey && s.date <= endKey);
+  // A trade before the benchmark's first close in range buys at that close.
+  const benchmarkPrice = (date: Date) => getRateForDate(benchmark.prices, date, Infinity) ?? benchmark.prices[0].rate;
+
+  const holdingFlows: CashFlow[] = [];
+  const benchmarkFlows: CashFlow[] = [];
+  let units = 0;
+  let benchmarkCash = 0;
+  let invested = 0;
+  let tradeIndex = 0;
+  let dividendIndex = 0;
+  let splitIndex = 0;
+
+  const applyUntil = (dayKey: string) => {
+    for (;;) {
+      const trade = trades[tradeIndex];
+      const dividend = benchmarkDividends[dividendIndex];
+      const split = benchmarkSplits[splitIndex];
+      const tradeKey = trade && toRateDate(trade.date) <= dayKey ? toRateDate(trade.date) : null;
+      const dividendKey = dividend && dividend.date <= dayKey ? dividend.date : null;
+      const splitKey = split && split.date <= dayKey ? split.date : null;
+      if (tradeKey === null && dividendKey === null && splitKey === null) return;
+
+      // A split applies from the open, so that day's dividend and trades are in split units.
+      if (splitKey !== null && (tradeKey === null || splitKey <= tradeKey) && (dividendKey === null || splitKey <= dividendKey)) {
+        units *= split.rate;
+        splitIndex++;
+        continue;
+      }
+
+      // An ex-date's dividend is paid on the units held before that day's trades.
+      if (dividendKey !== null && (tradeKey === null || dividendKey <= tradeKey)) {
+        const amount = units * dividend.rate;
+        if (amount > 0) {
+          benchmarkCash += amount;
+          benchmarkFlows.push({ date: toDate(dividendKey), amount });
+        }
+        dividendIndex++;
+        continue;
+      }
+
+      const amount = convert(getCashFlow(trade), trade.currency, trade.date);
+      const price = benchmarkPrice(trade.date);
+      const day = startOfDay(trade.date);
+      invested += amount;
+      holdingFlows.push({ date: day, amount: -amount });
+      if (amount >= 0) {
+        units += amount / price;
+        benchmarkFlows.push({ date: day, amount: -amount });
+      } else {
+        const withdrawn = Math.min(-amount, units * price);
+        units -= withdrawn / price;
+        benchmarkFlows.push({ date: day, amount: withdrawn });
+      }
+      tradeIndex++;
+    }
+  };
+
+  let holdingsMarketValue = 0;
+  let benchmarkMarketValue = 0;
+  const points = days.map(dayKey => {
+    applyUntil(dayKey);
+    const date = toDate(dayKey);
+    holdingsMarketValue = getHoldingsValue(holdings, date, endOfDay(date));
+    benchmarkMarketValue = units * benchmarkPrice(date);
+    const holdingDividendsSoFar = holdingDividends
+      .filter(p => p.date <= date)
+      .reduce((sum, p) => sum + p.amount, 0);
+    return {
+      date: dayKey,
+      holdings: holdingsMarketValue + holdingDividendsSoFar,
+      benchmark: benchmarkMarketValue + benchmarkCash,
+      invested,
+    };
+  });
+
+  const lastDay = toDate(days[days.length - 1]);
+  const byDate = (a: CashFlow, b: CashFlow) => a.date.getTime() - b.date.getTime();
+  return {
+    points,
+    holdingsXirr: xirr([...holdingFlows, ...holdingDividends, { date: lastDay, amount: holdingsMarketValue }].sort(byDate)),
+    benchmarkXirr: xirr([...benchmarkFlows, { date: lastDay, amount: benchmarkMarketValue }].sort(byDate)),
+  };
+}
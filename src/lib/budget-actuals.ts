@@ -0,0 +1,34 @@
+/**
+ * @fileOverview What actually came in and went out against the budget. Postings are summed by
+ * the planned line (budget line) they pay and compared with what was planned for it. A shared
+ * expense is planned at the user's share of it, so postings to it are scaled down to the same
+ * share before they are compared.
+ */
+import type { Posting, TransactionType } from '@/lib/types';
+
+/** The part of a shared line's postings that is the user's, keyed by budget line ID; lines not in it count in full. */
+export type LineShares = Map<string, number>;
+
+/** The fraction of a line the user plans to pay: their share of the planned total. */
+export function getShareRatio(plannedTotal: number, plannedShare: number): number {
+  return plannedTotal > 0 ? plannedShare / plannedTotal : 1;
+}
+
+/** The posting's amount, scaled to the user's share when it pays a shared line. */
+export function getPostingActual(posting: Pick<Posting, 'amount' | 'budgetLineId'>, shares: LineShares = new Map()): number {
+  return posting.amount * (posting.budgetLineId ? shares.get(posting.budgetLineId) ?? 1 : 1);
+}
+
+/** Sums the posted amounts by the budget line they were linked to. */
+export function getActualsByBudgetLine(postings: Pick<Posting, 'amount' | 'budgetLineId'>[], shares: LineShares = new Map()): Map<string, number> {
+  const actuals = new Map<string, number>();
+  postings.forEach(p => {
+    if (p.budgetLineId) actuals.set(p.budgetLineId, (actuals.get(p.budgetLineId) || 0) + getPostingActual(p, shares));
+  });
+  return actuals;
+}
+
+/** Positive variance is favourable: spent less than planned, or received more. */
+export function getVariance(type: TransactionType, planned: number, actual: number): number {
+  return type === 'expense' ? planned - actual : actual - planned;
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileOverview Evaluates the user's auto-categorisation rules. Rules are checked in
+ * `order`; for each field (category, classification, sharing) the first matching rule
+ * that sets it wins, so a broad rule lower down can still fill in what a specific one left alone.
+ */
+import type { CategoryRule, Classification, Transaction, TransactionType } from '@/lib/types';
+
+export type RuleSubject = {
+  name: string;
+  amount: number;
+  transactionType: TransactionType;
+  sharing: string;
+};
+
+export type RuleChanges = {
+  categoryId?: string;
+  classification?: Classification;
+  sharing?: string;
+};
+
+export type RulePreview = {
+  transaction: Transaction;
+  changes: RuleChanges;
+};
+
+/** Returns false for an invalid pattern rather than throwing, so one bad rule can't break saving. */
+export function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function ruleMatches(rule: CategoryRule, subject: RuleSubject): boolean {
+  if (rule.transactionType !== subject.transactionType) return false;
+  if (rule.nameContains && !subject.name.toLowerCase().includes(rule.nameContains.toLowerCase())) return false;
+  if (rule.nameRegex && !(isValidRegex(rule.nameRegex) && new RegExp(rule.nameRegex, 'i').test(subject.name))) return false;
+  if (rule.minAmount !== null && rule.minAmount !== undefined && subject.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && rule.maxAmount !== undefined && subject.amount > rule.maxAmount) return false;
+  if (rule.sharingIs && rule.sharingIs !== subject.sharing) return false;
+  return true;
+}
+
+export function applyRules(rules: CategoryRule[], subject: RuleSubject): RuleChanges {
+  const changes: RuleChanges = {};
+  [...rules].sort((a, b) => a.order - b.order).forEach(rule => {
+    if (!ruleMatches(rule, subject)) return;
+    if (rule.setCategoryId && changes.categoryId === undefined) changes.categoryId = rule.setCategoryId;
+    if (rule.setClassification && subject.transactionType === 'expense' && changes.classification === undefined) changes.classification = rule.setClassification;
+    if (rule.setSharing && changes.sharing === undefined) changes.sharing = rule.setSharing;
+  });
+  return changes;
+}
+
+const getLatestAmount = (transaction: Transaction): number => {
+  if (!transaction.amounts || transaction.amounts.length === 0) return 0;
+  return [...transaction.amounts].sort((a, b) => b.date.getTime() - a.date.getTime())[0].amount;
+};
+
+/** Lists the transactions whose category, classification or sharing the rules would change. */
+export function previewRules(rules: CategoryRule[], transactions: Transaction[]): RulePreview[] {
+  return transactions.flatMap(transaction => {
+    const proposed = applyRules(rules, {
+      name: transaction.name,
+      amount: getLatestAmount(transaction),
+      transactionType: transaction.transactionType,
+      sharing: transaction.sharing,
+    });
+    const changes: RuleChanges = {};
+    if (proposed.categoryId && proposed.categoryId !== transaction.categoryId) changes.categoryId = proposed.categoryId;
+    if (proposed.classification && transaction.transactionType === 'expense' && proposed.classification !== transaction.classification) changes.classification = proposed.classification;
+    if (proposed.sharing && proposed.sharing !== transaction.sharing) changes.sharing = proposed.sharing;
+    return Object.keys(changes).length > 0 ? [{ transaction, changes }] : [];
+  });
+}
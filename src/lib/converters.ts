@@ -0,0 +1,190 @@
+import type { DocumentData, FirestoreDataConverter, QueryDocumentSnapshot, SnapshotOptions, Timestamp } from 'firebase/firestore';
+import type {
+  AllocationTarget,
+  AmountChange,
+  Asset,
+  Category,
+  CategoryRule,
+  Household,
+  HouseholdEvent,
+  IncomeChange,
+  ImportProfile,
+  Investment,
+  InvestmentDividend,
+  InvestmentPrice,
+  InvestmentTransaction,
+  Invitation,
+  Liability,
+  LiabilityBalanceChange,
+  ManualRate,
+  Member,
+  PastHouseholdEvent,
+  Posting,
+  SavingGoal,
+  Transaction,
+} from '@/lib/types';
+
+/** A date as it is read back: a Timestamp, or an already-converted Date, ISO string or epoch millis. */
+export type StoredDate = Timestamp | Date | string | number | null | undefined;
+
+/** `T` as it is read back, before its `K` date fields are converted. */
+type Stored<T, K extends keyof T> = Omit<T, K> & { [P in K]: StoredDate };
+
+/**
+ * Converts a Firestore Timestamp (or an already-converted Date, ISO string or epoch
+ * millis) into a Date. Firestore stores JS Dates as Timestamps, so reads always need this.
+ */
+export function toDate(value: StoredDate): Date {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') return new Date(value);
+  if (value && typeof value.toDate === 'function') return value.toDate();
+  return new Date(NaN);
+}
+
+export function toOptionalDate(value: StoredDate): Date | null {
+  return value === null || value === undefined ? null : toDate(value);
+}
+
+function withDates<T extends { date: StoredDate }>(entries: T[] | undefined): (T & { date: Date })[] {
+  return (entries || []).map(entry => ({ ...entry, date: toDate(entry.date) }));
+}
+
+/**
+ * Builds a converter that adds the document ID on read and strips it on write.
+ * `normalize` receives the raw document data and is where Timestamps are turned into
+ * Dates and legacy document shapes are upgraded.
+ */
+function createConverter<T extends { id: string }>(normalize: (data: DocumentData) => Omit<T, 'id'>): FirestoreDataConverter<T> {
+  return {
+    toFirestore(model) {
+      const { id, ...data } = model as DocumentData;
+      return data;
+    },
+    fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): T {
+      return { ...normalize(snapshot.data(options)), id: snapshot.id } as T;
+    },
+  };
+}
+
+export const transactionConverter = createConverter<Transaction>(data => {
+  const amounts: AmountChange[] = withDates(data.amounts);
+  // Early transactions stored a single `amount` and `startDate` instead of an amounts history.
+  if (amounts.length === 0 && data.amount && data.startDate) {
+    amounts.push({ id: 'legacy-0', amount: data.amount, date: toDate(data.startDate) });
+  }
+  return {
+    ...data,
+    sharing: data.sharing || 'personal',
+    amounts,
+    endDate: toOptionalDate(data.endDate),
+  } as Omit<Transaction, 'id'>;
+});
+
+export const postingConverter = createConverter<Posting>(data => ({
+  ...data,
+  amount: data.amount || 0,
+  date: toDate(data.date),
+  budgetLineId: data.budgetLineId || null,
+}) as Omit<Posting, 'id'>);
+
+export const savingGoalConverter = createConverter<SavingGoal>(data => ({
+  ...data,
+  sharing: data.sharing || 'personal',
+  startDate: toDate(data.startDate),
+  targetDate: toDate(data.targetDate),
+  contributions: withDates(data.contributions),
+}) as Omit<SavingGoal, 'id'>);
+
+export const assetConverter = createConverter<Asset>(data => ({
+  ...data,
+  currency: data.currency || 'USD',
+  valueHistory: withDates(data.valueHistory),
+  contributions: withDates(data.contributions),
+}) as Omit<Asset, 'id'>);
+
+export const liabilityConverter = createConverter<Liability>(data => {
+  const balanceHistory: LiabilityBalanceChange[] = withDates(data.balanceHistory);
+  const startDate = toOptionalDate(data.startDate);
+  // Liabilities saved before balance history existed only have `currentBalance`. Treat it as the
+  // balance since the loan started, or since before any other data if there's no start date.
+  if (balanceHistory.length === 0) {
+    balanceHistory.push({ id: 'legacy-0', balance: data.currentBalance || 0, date: startDate ?? new Date(0) });
+  }
+  return {
+    ...data,
+    currentBalance: data.currentBalance || 0,
+    apr: data.apr || 0,
+    balanceHistory,
+    monthlyPayment: data.monthlyPayment ?? null,
+    termMonths: data.termMonths ?? null,
+    startDate,
+  } as Omit<Liability, 'id'>;
+});
+
+export const investmentConverter = createConverter<Investment>(data => ({
+  ...data,
+  // Older investments were all priced by Tiingo, in USD.
+  exchange: data.exchange ?? null,
+  quoteCurrency: data.quoteCurrency || 'USD',
+  priceSource: data.priceSource || 'market',
+  manualPrices: withDates<InvestmentPrice>(data.manualPrices),
+  costBasisMethod: data.costBasisMethod || 'fifo',
+  // Older transactions have no type and record a sale as negative shares.
+  transactions: withDates<InvestmentTransaction>(data.transactions).map(t => ({
+    ...t,
+    type: t.type || (t.shares < 0 ? 'sell' : 'buy'),
+    shares: Math.abs(t.shares),
+    fees: t.fees ?? 0,
+    currency: t.currency || 'USD',
+  })),
+  dividends: withDates<InvestmentDividend>(data.dividends).map(d => ({
+    ...d,
+    exDate: d.exDate ? toDate(d.exDate) : null,
+    withholdingTax: d.withholdingTax ?? 0,
+    reinvestTransactionId: d.reinvestTransactionId ?? null,
+  })),
+}) as Omit<Investment, 'id'>);
+
+export const manualRateConverter = createConverter<ManualRate>(data => ({
+  ...data,
+  date: toDate(data.date),
+}) as Omit<ManualRate, 'id'>);
+
+export const allocationTargetConverter = createConverter<AllocationTarget>(data => data as Omit<AllocationTarget, 'id'>);
+
+export const categoryConverter = createConverter<Category>(data => data as Omit<Category, 'id'>);
+
+export const categoryRuleConverter = createConverter<CategoryRule>(data => ({
+  ...data,
+  order: data.order ?? 0,
+}) as Omit<CategoryRule, 'id'>);
+
+export const householdConverter = createConverter<Household>(data => ({
+  ...data,
+  members: (data.members || []).map((m: Omit<Member, 'incomeHistory'> & { incomeHistory?: Stored<IncomeChange, 'date'>[] }) => {
+    const incomeHistory: IncomeChange[] = withDates(m.incomeHistory);
+    // Members from before incomeHistory had a flat `income`, which has always applied.
+    if (incomeHistory.length === 0 && m.income) {
+      incomeHistory.push({ id: 'legacy-0', amount: m.income, date: new Date(0) });
+    }
+    return { ...m, incomeHistory };
+  }),
+  memberIds: data.memberIds || [],
+  roles: data.roles || {},
+  events: (data.events || [])
+    .map((e: Stored<HouseholdEvent, 'timestamp'>): HouseholdEvent => ({ ...e, timestamp: toDate(e.timestamp) }))
+    .sort((a: HouseholdEvent, b: HouseholdEvent) => b.timestamp.getTime() - a.timestamp.getTime()),
+  settlements: withDates(data.settlements),
+}) as Omit<Household, 'id'>);
+
+export const pastHouseholdEventConverter = createConverter<PastHouseholdEvent>(data => ({
+  ...data,
+  timestamp: toDate(data.timestamp),
+}) as Omit<PastHouseholdEvent, 'id'>);
+
+export const importProfileConverter = createConverter<ImportProfile>(data => ({
+  ...data,
+  amountColumn: data.amountColumn ?? null,
+}) as Omit<ImportProfile, 'id'>);
+
+export const invitationConverter = createConverter<Invitation>(data => data as Omit<Invitation, 'id'>);
@@ -0,0 +1,126 @@
+/**
+ * @fileOverview Lot tracking for an investment. Every buy opens a lot carrying its shares and
+ * cost per share (fees included); every sale closes shares out of the open lots in the order
+ * the cost basis method says — oldest first (FIFO), newest first (LIFO) or at the pooled
+ * average cost — and the difference between what the sale raised (net of fees) and the cost of
+ * the shares it closed is its realised gain. What is left open is the cost basis that the
+ * unrealised gain is measured against.
+ */
+import type { CostBasisMethod, InvestmentTransaction } from '@/lib/types';
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'First in, first out (FIFO)',
+  lifo: 'Last in, first out (LIFO)',
+  average: 'Average cost',
+};
+
+export type Lot = {
+  transactionId: string;
+  date: Date;
+  shares: number; // Still held
+  costPerShare: number; // Including the buy's fees
+};
+
+export type RealisedSale = {
+  transactionId: string;
+  date: Date;
+  shares: number;
+  proceeds: number; // After the sale's fees
+  cost: number;
+  gain: number;
+};
+
+export type Position = {
+  shares: number;
+  costBasis: number; // Of the shares still held
+  lots: Lot[];
+  sales: RealisedSale[];
+  realisedGain: number;
+  oversold: string[]; // IDs of sales of more shares than were held at the time
+};
+
+/** Converts an amount in a transaction's currency; the default leaves it as it is. */
+export type AmountConverter = (amount: number, currency: string, date: Date) => number;
+
+const EPSILON = 1e-9;
+
+export function signedShares(transaction: Pick<InvestmentTransaction, 'type' | 'shares'>): number {
+  return transaction.type === 'sell' ? -transaction.shares : transaction.shares;
+}
+
+/** Shares held after every transaction on or before `asOf` (all of them by default). */
+export function getSharesHeld(transactions: InvestmentTransaction[], asOf?: Date): number {
+  return transactions
+    .filter(t => !asOf || t.date <= asOf)
+    .reduce((sum, t) => sum + signedShares(t), 0);
+}
+
+/** Money put in (positive, for a buy) or taken out (negative, for a sale), in the transaction currency. */
+export function getCashFlow(transaction: InvestmentTransaction): number {
+  const gross = transaction.shares * transaction.price;
+  return transaction.type === 'sell' ? -(gross - transaction.fees) : gross + transaction.fees;
+}
+
+/** Oldest first, and a day's buys before its sales so selling shares bought that day works. */
+export function sortTransactions(transactions: InvestmentTransaction[]): InvestmentTransaction[] {
+  return [...transactions].sort((a, b) =>
+    a.date.getTime() - b.date.getTime() || (a.type === b.type ? 0 : a.type === 'buy' ? -1 : 1)
+  );
+}
+
+export function calculatePosition(
+  transactions: InvestmentTransaction[],
+  method: CostBasisMethod,
+  convert: AmountConverter = amount => amount,
+): Position {
+  let lots: Lot[] = [];
+  const sales: RealisedSale[] = [];
+  const oversold: string[] = [];
+
+  for (const t of sortTransactions(transactions)) {
+    if (t.shares <= 0) continue;
+
+    if (t.type === 'buy') {
+      const cost = convert(t.shares * t.price + t.fees, t.currency, t.date);
+      lots.push({ transactionId: t.id, date: t.date, shares: t.shares, costPerShare: cost / t.shares });
+      continue;
+    }
+
+    const held = lots.reduce((sum, lot) => sum + lot.shares, 0);
+    if (t.shares > held + EPSILON) oversold.push(t.id);
+    const sharesSold = Math.min(t.shares, held);
+    if (sharesSold <= EPSILON) continue;
+
+    let cost = 0;
+    if (method === 'average') {
+      const heldCost = lots.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0);
+      cost = heldCost * (sharesSold / held);
+      // Shrinking every lot by the same fraction keeps the pooled average cost unchanged.
+      lots = lots.map(lot => ({ ...lot, shares: lot.shares * (1 - sharesSold / held) }));
+    } else {
+      let remaining = sharesSold;
+      const order = method === 'fifo' ? lots : [...lots].reverse();
+      for (const lot of order) {
+        if (remaining <= EPSILON) break;
+        const taken = Math.min(lot.shares, remaining);
+        cost += taken * lot.costPerShare;
+        lot.shares -= taken;
+        remaining -= taken;
+      }
+    }
+    lots = lots.filter(lot => lot.shares > EPSILON);
+
+    // Fees are spread over the shares that were actually held when a sale is oversold.
+    const proceeds = convert((t.shares * t.price - t.fees) * (sharesSold / t.shares), t.currency, t.date);
+    sales.push({ transactionId: t.id, date: t.date, shares: sharesSold, proceeds, cost, gain: proceeds - cost });
+  }
+
+  return {
+    shares: lots.reduce((sum, lot) => sum + lot.shares, 0),
+    costBasis: lots.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0),
+    lots,
+    sales,
+    realisedGain: sales.reduce((sum, sale) => sum + sale.gain, 0),
+    oversold,
+  };
+}
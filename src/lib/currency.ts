@@ -1,10 +1,85 @@
-export const formatCurrency = (value: number, currency: string, options: Intl.NumberFormatOptions = {}) => {
-  const defaultOptions: Intl.NumberFormatOptions = {
+/**
+ * @fileOverview Currency and number formatting. The display currency can be any active ISO 4217
+ * code, and the locale preference (separate from the currency) decides the decimal and grouping
+ * separators and where the symbol goes. formatCurrency uses the locale set by the
+ * SettingsProvider unless a caller passes one, so every page and chart axis follows the setting.
+ */
+
+/** Active ISO 4217 currency codes. */
+export const CURRENCY_CODES = [
+  'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN', 'BAM', 'BBD', 'BDT', 'BGN', 'BHD', 'BIF',
+  'BMD', 'BND', 'BOB', 'BRL', 'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF', 'CLP', 'CNY', 'COP', 'CRC',
+  'CUP', 'CVE', 'CZK', 'DJF', 'DKK', 'DOP', 'DZD', 'EGP', 'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS',
+  'GIP', 'GMD', 'GNF', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR', 'IQD', 'IRR', 'ISK', 'JMD',
+  'JOD', 'JPY', 'KES', 'KGS', 'KHR', 'KMF', 'KPW', 'KRW', 'KWD', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL',
+  'LYD', 'MAD', 'MDL', 'MGA', 'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR', 'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD',
+  'NGN', 'NIO', 'NOK', 'NPR', 'NZD', 'OMR', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'PYG', 'QAR', 'RON', 'RSD',
+  'RUB', 'RWF', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD', 'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP',
+  'SZL', 'THB', 'TJS', 'TMT', 'TND', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'UGX', 'USD', 'UYU', 'UZS', 'VES',
+  'VND', 'VUV', 'WST', 'XAF', 'XCD', 'XCG', 'XOF', 'XPF', 'YER', 'ZAR', 'ZMW', 'ZWG',
+];
+
+/** Locales offered for number formatting. */
+export const LOCALES = [
+  'en-US', 'en-GB', 'en-CA', 'en-AU', 'en-IE', 'en-IN', 'de-DE', 'de-AT', 'de-CH', 'fr-FR', 'fr-CA', 'fr-CH',
+  'es-ES', 'es-MX', 'it-IT', 'nl-NL', 'pt-PT', 'pt-BR', 'pl-PL', 'cs-CZ', 'hu-HU', 'ro-RO', 'sv-SE', 'da-DK',
+  'nb-NO', 'fi-FI', 'tr-TR', 'ja-JP', 'ko-KR', 'zh-CN',
+];
+
+export const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Currencies shown without minor units even though ISO 4217 gives them some, because nothing is
+ * priced in them any more. Everything else uses its ISO minor units (JPY and KRW have none).
+ */
+const DISPLAY_FRACTION_DIGITS: Record<string, number> = {
+  HUF: 0,
+};
+
+let formatLocale = DEFAULT_LOCALE;
+
+/** Called by SettingsProvider.applySettings whenever the settings change. */
+export function setFormatLocale(locale: string) {
+  formatLocale = locale;
+}
+
+export function isCurrencyCode(value: string | null | undefined): value is string {
+  return !!value && CURRENCY_CODES.includes(value);
+}
+
+export function isSupportedLocale(value: string | null | undefined): value is string {
+  return !!value && LOCALES.includes(value);
+}
+
+export function getCurrencyFractionDigits(currency: string): number {
+  if (currency in DISPLAY_FRACTION_DIGITS) return DISPLAY_FRACTION_DIGITS[currency];
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+export function getCurrencyName(currency: string): string {
+  return new Intl.DisplayNames(['en'], { type: 'currency' }).of(currency) ?? currency;
+}
+
+export function getLocaleName(locale: string): string {
+  return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) ?? locale;
+}
+
+export const formatCurrency = (
+  value: number,
+  currency: string,
+  options: Intl.NumberFormatOptions = {},
+  locale: string = formatLocale,
+) => {
+  const digits = getCurrencyFractionDigits(currency);
+  // A caller may pin only one end of the range; keep the other consistent so Intl doesn't throw.
+  const minimumFractionDigits = options.minimumFractionDigits ?? Math.min(digits, options.maximumFractionDigits ?? digits);
+  const maximumFractionDigits = options.maximumFractionDigits ?? Math.max(digits, minimumFractionDigits);
+
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  };
-  
-  return new Intl.NumberFormat('en-US', { ...defaultOptions, ...options }).format(value);
+    ...options,
+    minimumFractionDigits,
+    maximumFractionDigits,
+  }).format(value);
 };
@@ -0,0 +1,208 @@
+/**
+ * @fileOverview The versioned JSON archive behind "Export my data" and "Restore from archive".
+ * This module only builds, validates and re-keys archives; reading and writing Firestore
+ * happens in src/repositories/archive.ts. Bump ARCHIVE_VERSION whenever the shape of a
+ * stored collection changes, and teach parseArchive to upgrade the older version.
+ */
+import * as z from 'zod';
+import type {
+  AllocationTarget,
+  Asset,
+  Category,
+  CategoryRule,
+  ImportProfile,
+  Investment,
+  Liability,
+  ManualRate,
+  Posting,
+  SavingGoal,
+  Transaction,
+} from '@/lib/types';
+
+export const ARCHIVE_FORMAT = 'worthwatch-archive';
+export const ARCHIVE_VERSION = 1;
+
+/** localStorage keys written by the providers in src/context. */
+const SETTINGS_KEY_PREFIX = 'app-';
+/** The uid whose settings the mirror holds; outside the prefix so archives don't carry it. */
+const SETTINGS_OWNER_KEY = 'settings-owner';
+
+export type ArchiveCollections = {
+  transactions: Transaction[];
+  postings: Posting[];
+  savings: SavingGoal[];
+  assets: Asset[];
+  liabilities: Liability[];
+  investments: Investment[];
+  expenseCategories: Category[];
+  incomeCategories: Category[];
+  assetTypes: Category[];
+  categoryRules: CategoryRule[];
+  importProfiles: ImportProfile[];
+  manualRates: ManualRate[];
+  allocationTargets: AllocationTarget[];
+};
+
+export type ArchiveCollectionName = keyof ArchiveCollections;
+
+export type DataArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy: string; // uid of the exporting account, used to re-own savings contributions
+  collections: ArchiveCollections;
+  settings: Record<string, string>;
+};
+
+export type RestorePlan = Record<ArchiveCollectionName, RestoreDocument[]>;
+
+export const ARCHIVE_COLLECTIONS: ArchiveCollectionName[] = [
+  'transactions', 'postings', 'savings', 'assets', 'liabilities', 'investments',
+  'expenseCategories', 'incomeCategories', 'assetTypes', 'categoryRules', 'importProfiles',
+  'manualRates', 'allocationTargets',
+];
+
+const archivedDocument = z.object({ id: z.string() }).passthrough();
+const documentList = z.array(archivedDocument).default([]);
+
+/** An archived document's fields under its new ID, owned by the restoring user. */
+export type RestoreDocument = { id: string; data: Omit<z.infer<typeof archivedDocument>, 'id'> & { userId: string } };
+
+const archiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  exportedBy: z.string(),
+  collections: z.object(Object.fromEntries(ARCHIVE_COLLECTIONS.map(name => [name, documentList])) as Record<ArchiveCollectionName, typeof documentList>),
+  settings: z.record(z.string()).default({}),
+});
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+/** Every Date field in the archived collections, top level or in a nested history entry. */
+const DATE_FIELDS = new Set(['date', 'startDate', 'endDate', 'targetDate', 'exDate']);
+
+export function readLocalSettings(): Record<string, string> {
+  const settings: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(SETTINGS_KEY_PREFIX)) settings[key] = localStorage.getItem(key) || '';
+  }
+  return settings;
+}
+
+/** A null value removes the setting. `ownerId` tags the mirror with the user it belongs to. */
+export function writeLocalSettings(settings: Record<string, string | null>, ownerId?: string) {
+  Object.entries(settings)
+    .filter(([key]) => key.startsWith(SETTINGS_KEY_PREFIX))
+    .forEach(([key, value]) => value === null ? localStorage.removeItem(key) : localStorage.setItem(key, value));
+  if (ownerId) localStorage.setItem(SETTINGS_OWNER_KEY, ownerId);
+}
+
+/** Null when the mirror was written before it was tagged with its owner. */
+export function readLocalSettingsOwner(): string | null {
+  return localStorage.getItem(SETTINGS_OWNER_KEY);
+}
+
+export function createArchive(userId: string, collections: ArchiveCollections, settings: Record<string, string>): DataArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: userId,
+    collections,
+    settings,
+  };
+}
+
+/** JSON.stringify writes Dates as ISO strings, which parseArchive turns back into Dates (see DATE_FIELDS). */
+export function serializeArchive(archive: DataArchive): string {
+  return JSON.stringify(archive, null, 2);
+}
+
+/** Parses and validates an archive file. Throws an Error with a user-facing message if it can't be restored. */
+export function parseArchive(text: string): DataArchive {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text, (key, value) => DATE_FIELDS.has(key) && typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(raw);
+  if (!header.success || header.data.format !== ARCHIVE_FORMAT) {
+    throw new Error('This file is not a data archive exported from this app.');
+  }
+  if (header.data.version > ARCHIVE_VERSION) {
+    throw new Error(`This archive was created by a newer version of the app (version ${header.data.version}). Please update before restoring it.`);
+  }
+  if (header.data.version < 1) {
+    throw new Error(`Archive version ${header.data.version} is not supported.`);
+  }
+
+  const parsed = archiveSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error('This archive is incomplete or damaged and cannot be restored.');
+  }
+  return parsed.data as unknown as DataArchive;
+}
+
+/**
+ * Gives every archived document a new ID owned by `userId` and rewrites the references
+ * between them: categoryId (custom categories get new IDs, built-in ones keep theirs),
+ * posting budget lines and rule categories. Sharing is kept for households the user still
+ * belongs to; anything shared with a household they've left comes back as personal.
+ */
+export function planRestore(
+  archive: DataArchive,
+  options: { userId: string; householdIds: string[]; newId: (collectionName: ArchiveCollectionName) => string },
+): RestorePlan {
+  const { userId, householdIds, newId } = options;
+  const { collections } = archive;
+
+  const idMaps = Object.fromEntries(ARCHIVE_COLLECTIONS.map(name => [
+    name,
+    new Map(collections[name].map(d => [d.id, newId(name)])),
+  ])) as Record<ArchiveCollectionName, Map<string, string>>;
+
+  const categoryIds = new Map([...idMaps.expenseCategories, ...idMaps.incomeCategories, ...idMaps.assetTypes]);
+  const mapCategory = (id?: string | null) => id ? (categoryIds.get(id) ?? id) : id;
+  const knownSharing = (sharing?: string | null) => sharing === 'personal' || (sharing && householdIds.includes(sharing)) ? sharing : null;
+
+  const rekey = <T extends { id: string }>(name: ArchiveCollectionName, docs: T[], transform: (data: Omit<T, 'id'>) => object = data => data): RestoreDocument[] =>
+    docs.map(({ id, ...data }) => ({
+      id: idMaps[name].get(id)!,
+      data: { ...transform(data), userId },
+    }));
+
+  return {
+    transactions: rekey('transactions', collections.transactions, t => ({
+      ...t,
+      categoryId: mapCategory(t.categoryId) ?? '',
+      sharing: knownSharing(t.sharing) ?? 'personal',
+    })),
+    postings: rekey('postings', collections.postings, p => ({
+      ...p,
+      categoryId: mapCategory(p.categoryId) ?? '',
+      budgetLineId: p.budgetLineId ? (idMaps.transactions.get(p.budgetLineId) ?? null) : null,
+    })),
+    savings: rekey('savings', collections.savings, g => ({
+      ...g,
+      sharing: knownSharing(g.sharing) ?? 'personal',
+      contributions: g.contributions.map(c => c.userId === archive.exportedBy ? { ...c, userId } : c),
+    })),
+    assets: rekey('assets', collections.assets),
+    liabilities: rekey('liabilities', collections.liabilities),
+    investments: rekey('investments', collections.investments),
+    expenseCategories: rekey('expenseCategories', collections.expenseCategories),
+    incomeCategories: rekey('incomeCategories', collections.incomeCategories),
+    assetTypes: rekey('assetTypes', collections.assetTypes),
+    categoryRules: rekey('categoryRules', collections.categoryRules, r => ({
+      ...r,
+      setCategoryId: mapCategory(r.setCategoryId) ?? null,
+      setSharing: knownSharing(r.setSharing),
+    })),
+    importProfiles: rekey('importProfiles', collections.importProfiles),
+    manualRates: rekey('manualRates', collections.manualRates),
+    allocationTargets: rekey('allocationTargets', collections.allocationTargets),
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileOverview Simulates paying down several debts from one monthly budget. Every debt gets
+ * its minimum payment first; whatever is left goes to the debts in strategy order, so money
+ * freed up by a cleared debt rolls into the next one.
+ */
+import { addMonths, startOfMonth } from 'date-fns';
+import type { AmountChange, Liability, NewDocument, Transaction } from '@/lib/types';
+import { MAX_SCHEDULE_MONTHS, getScheduledPayment } from '@/lib/amortisation';
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export type PayoffDebt = {
+  id: string;
+  name: string;
+  balance: number;
+  apr: number;
+  minimumPayment: number;
+};
+
+export type PayoffMonth = {
+  period: number;
+  date: Date; // First of the month the payments are made in
+  payments: Record<string, number>;
+  balances: Record<string, number>; // Remaining after this month's payments
+  interest: number;
+};
+
+export type PayoffPlan = {
+  months: PayoffMonth[];
+  totalInterest: number;
+  totalPaid: number;
+  monthsToDebtFree: number | null; // null when the budget never clears every debt
+  payoffPeriods: Record<string, number | null>;
+};
+
+export function toPayoffDebts(liabilities: Liability[]): PayoffDebt[] {
+  return liabilities
+    .filter(liability => liability.currentBalance > 0)
+    .map(liability => ({
+      id: liability.id,
+      name: liability.name,
+      balance: liability.currentBalance,
+      apr: liability.apr,
+      minimumPayment: getScheduledPayment(liability),
+    }));
+}
+
+export function getMinimumPaymentTotal(debts: PayoffDebt[]): number {
+  return debts.reduce((sum, debt) => sum + Math.min(debt.minimumPayment, debt.balance), 0);
+}
+
+/** Avalanche targets the highest APR, snowball the smallest starting balance; custom keeps `customOrder`. */
+export function orderDebts(debts: PayoffDebt[], strategy: PayoffStrategy, customOrder: string[] = []): PayoffDebt[] {
+  if (strategy === 'avalanche') return [...debts].sort((a, b) => b.apr - a.apr || a.balance - b.balance);
+  if (strategy === 'snowball') return [...debts].sort((a, b) => a.balance - b.balance || b.apr - a.apr);
+  const position = (id: string) => {
+    const index = customOrder.indexOf(id);
+    return index === -1 ? customOrder.length : index;
+  };
+  return [...debts].sort((a, b) => position(a.id) - position(b.id));
+}
+
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  monthlyBudget: number,
+  strategy: PayoffStrategy,
+  customOrder: string[] = [],
+  from: Date = new Date(),
+): PayoffPlan {
+  const ordered = orderDebts(debts, strategy, customOrder);
+  const balances = new Map(ordered.map(debt => [debt.id, debt.balance]));
+  const payoffPeriods: Record<string, number | null> = Object.fromEntries(ordered.map(debt => [debt.id, debt.balance > 0 ? null : 0]));
+  const months: PayoffMonth[] = [];
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  const outstanding = () => ordered.some(debt => (balances.get(debt.id) ?? 0) > 0);
+
+  for (let period = 1; outstanding() && period <= MAX_SCHEDULE_MONTHS; period++) {
+    let interest = 0;
+    ordered.forEach(debt => {
+      const balance = balances.get(debt.id)!;
+      if (balance <= 0) return;
+      const accrued = balance * debt.apr / 100 / 12;
+      interest += accrued;
+      balances.set(debt.id, balance + accrued);
+    });
+
+    const payments: Record<string, number> = Object.fromEntries(ordered.map(debt => [debt.id, 0]));
+    let available = monthlyBudget;
+    const pay = (debt: PayoffDebt, amount: number) => {
+      const paid = Math.min(amount, balances.get(debt.id)!, available);
+      if (paid <= 0) return;
+      payments[debt.id] += paid;
+      balances.set(debt.id, balances.get(debt.id)! - paid);
+      available -= paid;
+    };
+
+    ordered.forEach(debt => pay(debt, debt.minimumPayment));
+    ordered.forEach(debt => pay(debt, available));
+
+    ordered.forEach(debt => {
+      if (balances.get(debt.id)! < 0.005) balances.set(debt.id, 0);
+      if (balances.get(debt.id) === 0 && payoffPeriods[debt.id] === null) payoffPeriods[debt.id] = period;
+    });
+
+    const paidThisMonth = Object.values(payments).reduce((sum, amount) => sum + amount, 0);
+    totalInterest += interest;
+    totalPaid += paidThisMonth;
+    months.push({
+      period,
+      date: startOfMonth(addMonths(from, period)),
+      payments,
+      balances: Object.fromEntries(balances),
+      interest,
+    });
+  }
+
+  return {
+    months,
+    totalInterest,
+    totalPaid,
+    monthsToDebtFree: outstanding() ? null : months.length,
+    payoffPeriods,
+  };
+}
+
+/**
+ * One recurring budget expense per debt. Its amount history follows the plan, so a payment
+ * that grows once an earlier debt is cleared shows up from that month, and it ends the month
+ * the debt is paid off.
+ */
+export function planToBudgetLines(plan: PayoffPlan, debts: PayoffDebt[], options: { userId: string; categoryId: string }): NewDocument<Transaction>[] {
+  return debts.flatMap(debt => {
+    const amounts: AmountChange[] = [];
+    plan.months.forEach(month => {
+      const amount = Math.round((month.payments[debt.id] ?? 0) * 100) / 100;
+      if (amount <= 0 || amounts[amounts.length - 1]?.amount === amount) return;
+      amounts.push({ id: crypto.randomUUID(), amount, date: month.date });
+    });
+    if (amounts.length === 0) return [];
+
+    const payoffPeriod = plan.payoffPeriods[debt.id];
+    return [{
+      userId: options.userId,
+      name: `${debt.name} payment`,
+      transactionType: 'expense' as const,
+      frequency: 'recurring' as const,
+      classification: 'need' as const,
+      categoryId: options.categoryId,
+      sharing: 'personal',
+      amounts,
+      endDate: payoffPeriod ? plan.months[payoffPeriod - 1].date : null,
+    }];
+  });
+}
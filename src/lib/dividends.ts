@@ -0,0 +1,99 @@
+/**
+ * @fileOverview The dividend ledger kept on each investment. A dividend is recorded once it has
+ * been paid, with any tax withheld at source. A reinvested one (DRIP) also records the buy it
+ * made, so the shares it bought count everywhere shares do; a cash one is income, and is what
+ * the budget and analytics pick up. Market data only says what a share paid on its ex-dividend
+ * date, which is what findUnrecordedDividends offers up for recording.
+ */
+import { addDays, endOfDay, isWithinInterval } from 'date-fns';
+import { getSharesHeld, type AmountConverter } from '@/lib/cost-basis';
+import { toRateDate, type RateLookup } from '@/lib/fx-rates';
+import type { Investment, InvestmentDividend, InvestmentTransaction } from '@/lib/types';
+
+export type UnrecordedDividend = {
+  exDate: Date;
+  amountPerShare: number;
+  shares: number; // Held at the end of the day before the ex-date
+  grossAmount: number;
+};
+
+export type DividendYear = {
+  year: number;
+  gross: number;
+  withholdingTax: number;
+  net: number;
+  reinvested: number; // The part of `net` that bought shares
+  payments: number;
+};
+
+export type DividendIncome = {
+  investment: Investment;
+  dividend: InvestmentDividend;
+  amount: number | null; // Net, in the display currency; null when there's no rate for the day
+};
+
+export function getNetDividend(dividend: Pick<InvestmentDividend, 'grossAmount' | 'withholdingTax'>): number {
+  return dividend.grossAmount - dividend.withholdingTax;
+}
+
+/** The buy a reinvested dividend makes: its net amount in fractional shares at `price`. */
+export function createReinvestment(dividend: InvestmentDividend, price: number, id: string): InvestmentTransaction {
+  return {
+    id,
+    type: 'buy',
+    date: dividend.date,
+    shares: getNetDividend(dividend) / price,
+    price,
+    fees: 0,
+    currency: dividend.currency,
+  };
+}
+
+/** Market dividends the holding qualified for that no recorded dividend has the ex-date of. Newest first. */
+export function findUnrecordedDividends(
+  transactions: InvestmentTransaction[],
+  marketDividends: { date: string; amount: number }[],
+  recorded: InvestmentDividend[],
+): UnrecordedDividend[] {
+  const recordedExDates = new Set(recorded.flatMap(d => d.exDate ? [toRateDate(d.exDate)] : []));
+  return marketDividends
+    .flatMap(({ date, amount }) => {
+      const key = date.split('T')[0];
+      if (recordedExDates.has(key)) return [];
+      const exDate = new Date(`${key}T00:00:00`);
+      const shares = getSharesHeld(transactions, endOfDay(addDays(exDate, -1)));
+      return shares > 0 ? [{ exDate, amountPerShare: amount, shares, grossAmount: shares * amount }] : [];
+    })
+    .sort((a, b) => b.exDate.getTime() - a.exDate.getTime());
+}
+
+/** Totals per calendar year of payment, newest first, with each amount converted on its pay date. */
+export function summariseDividendsByYear(dividends: InvestmentDividend[], convert: AmountConverter = amount => amount): DividendYear[] {
+  const years = new Map<number, DividendYear>();
+  dividends.forEach(d => {
+    const year = d.date.getFullYear();
+    const entry = years.get(year) ?? { year, gross: 0, withholdingTax: 0, net: 0, reinvested: 0, payments: 0 };
+    const gross = convert(d.grossAmount, d.currency, d.date);
+    const tax = convert(d.withholdingTax, d.currency, d.date);
+    entry.gross += gross;
+    entry.withholdingTax += tax;
+    entry.net += gross - tax;
+    if (d.handling === 'reinvest') entry.reinvested += gross - tax;
+    entry.payments++;
+    years.set(year, entry);
+  });
+  return [...years.values()].sort((a, b) => b.year - a.year);
+}
+
+/**
+ * Cash dividends paid from `start` to `end`, net of tax and converted at the rate on the day
+ * each was paid. Reinvested dividends never arrive as cash, so budgets leave them out.
+ */
+export function getCashDividendIncome(investments: Investment[], start: Date, end: Date, rateFor: RateLookup): DividendIncome[] {
+  return investments.flatMap(investment => investment.dividends
+    .filter(d => d.handling === 'cash' && isWithinInterval(d.date, { start, end }))
+    .map(dividend => {
+      const rate = rateFor(dividend.currency, dividend.date);
+      return { investment, dividend, amount: rate === null ? null : getNetDividend(dividend) * rate };
+    }));
+}
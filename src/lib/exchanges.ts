@@ -0,0 +1,53 @@
+/**
+ * @fileOverview The exchanges a holding can be listed on, and the currency each one quotes in.
+ * A listing's quote currency is what its prices are converted from, so a share bought on the
+ * LSE for euros is still valued in pounds. Some exchanges quote in a currency's minor unit
+ * (see QUOTE_UNITS), which is divided down to the currency before it is converted.
+ */
+
+export type Exchange = {
+  code: string;
+  name: string;
+  countryCode: string; // ISO 3166-1 alpha-2, as market data search results give it
+  currency: string;
+};
+
+/** Quote units that aren't ISO currencies: LSE prices are in pence and JSE prices in cents. */
+export const QUOTE_UNITS: Record<string, { name: string; currency: string; divisor: number }> = {
+  GBX: { name: 'Pence sterling', currency: 'GBP', divisor: 100 },
+  ZAc: { name: 'South African cents', currency: 'ZAR', divisor: 100 },
+};
+
+export const EXCHANGES: Exchange[] = [
+  { code: 'NYSE', name: 'New York Stock Exchange', countryCode: 'US', currency: 'USD' },
+  { code: 'NASDAQ', name: 'Nasdaq', countryCode: 'US', currency: 'USD' },
+  { code: 'TSX', name: 'Toronto Stock Exchange', countryCode: 'CA', currency: 'CAD' },
+  { code: 'LSE', name: 'London Stock Exchange', countryCode: 'GB', currency: 'GBX' },
+  { code: 'XETRA', name: 'Xetra (Frankfurt)', countryCode: 'DE', currency: 'EUR' },
+  { code: 'EPA', name: 'Euronext Paris', countryCode: 'FR', currency: 'EUR' },
+  { code: 'AMS', name: 'Euronext Amsterdam', countryCode: 'NL', currency: 'EUR' },
+  { code: 'SIX', name: 'SIX Swiss Exchange', countryCode: 'CH', currency: 'CHF' },
+  { code: 'STO', name: 'Nasdaq Stockholm', countryCode: 'SE', currency: 'SEK' },
+  { code: 'WSE', name: 'Warsaw Stock Exchange', countryCode: 'PL', currency: 'PLN' },
+  { code: 'BÉT', name: 'Budapest Stock Exchange', countryCode: 'HU', currency: 'HUF' },
+  { code: 'TSE', name: 'Tokyo Stock Exchange', countryCode: 'JP', currency: 'JPY' },
+  { code: 'HKEX', name: 'Hong Kong Stock Exchange', countryCode: 'HK', currency: 'HKD' },
+  { code: 'ASX', name: 'Australian Securities Exchange', countryCode: 'AU', currency: 'AUD' },
+];
+
+export function getExchange(code: string | null): Exchange | undefined {
+  return code ? EXCHANGES.find(e => e.code === code) : undefined;
+}
+
+/**
+ * The exchange and quote currency a listing in `countryCode` most likely has. The exchange is
+ * only given when the country has one; the currency falls back to USD, which is what market
+ * data quotes unknown listings in.
+ */
+export function guessListing(countryCode: string | null | undefined): { exchange: string | null; currency: string } {
+  const exchanges = EXCHANGES.filter(e => e.countryCode === countryCode?.toUpperCase());
+  return {
+    exchange: exchanges.length === 1 ? exchanges[0].code : null,
+    currency: exchanges[0]?.currency ?? 'USD',
+  };
+}
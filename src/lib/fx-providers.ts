@@ -0,0 +1,128 @@
+/**
+ * @fileOverview Where exchange rates come from. A provider quotes the currency pairs it
+ * supports; resolveRateSeries and resolveConversionRate ask the providers in order and the
+ * first one that supports a pair and has rates for it wins, with the next ones covering any dates
+ * before its first rate. getRateProviders puts the user's manual rate table ahead of Frankfurter,
+ * so a manual entry overrides the published rate from its date on and covers pairs the ECB
+ * doesn't publish. The fixture provider serves canned rates in tests.
+ */
+import { QUOTE_UNITS } from '@/lib/exchanges';
+import { toRateDate, type DatedRate, type RateSeries, type RateSource } from '@/lib/fx-rates';
+import type { ManualRate } from '@/lib/types';
+import { getConversionRate, getConversionRateSeries } from '@/services/currency-service';
+
+export interface FxRateProvider {
+  source: RateSource;
+  supports(from: string, to: string): boolean;
+  /** Rates from the last one on or before `start` through `end`, oldest first; null when the request fails. */
+  getRateSeries(from: string, to: string, start: Date, end: Date): Promise<DatedRate[] | null>;
+  getLatestRate(from: string, to: string): Promise<DatedRate | null>;
+}
+
+export type SourcedRate = DatedRate & { source: RateSource };
+
+/** The currencies the ECB publishes reference rates for. */
+export const FRANKFURTER_CURRENCIES = [
+  'AUD', 'BGN', 'BRL', 'CAD', 'CHF', 'CNY', 'CZK', 'DKK', 'EUR', 'GBP', 'HKD', 'HUF', 'IDR', 'ILS', 'INR', 'ISK',
+  'JPY', 'KRW', 'MXN', 'MYR', 'NOK', 'NZD', 'PHP', 'PLN', 'RON', 'SEK', 'SGD', 'THB', 'TRY', 'USD', 'ZAR',
+];
+
+export const frankfurterProvider: FxRateProvider = {
+  source: 'frankfurter',
+  supports: (from, to) => FRANKFURTER_CURRENCIES.includes(from) && FRANKFURTER_CURRENCIES.includes(to),
+  getRateSeries: getConversionRateSeries,
+  async getLatestRate(from, to) {
+    const rate = await getConversionRate(from, to);
+    return rate === null ? null : { date: toRateDate(new Date()), rate };
+  },
+};
+
+/** Keeps the last rate before `start` (it is still in effect then) and everything up to `end`. */
+function sliceSeries(series: DatedRate[], start: Date, end: Date): DatedRate[] {
+  const startKey = toRateDate(start);
+  const endKey = toRateDate(end);
+  const firstIndex = Math.max(0, series.findLastIndex(r => r.date <= startKey));
+  return series.slice(firstIndex).filter(r => r.date <= endKey);
+}
+
+/** Entries for the pair itself, plus inverted entries entered the other way round. */
+export function createManualRateProvider(rates: Pick<ManualRate, 'from' | 'to' | 'rate' | 'date'>[]): FxRateProvider {
+  const seriesFor = (from: string, to: string): DatedRate[] => {
+    const byDate = new Map<string, number>();
+    rates
+      .filter(r => r.from === to && r.to === from && r.rate > 0)
+      .forEach(r => byDate.set(toRateDate(r.date), 1 / r.rate));
+    // An entry for the pair as asked wins over an inverted one on the same day.
+    rates
+      .filter(r => r.from === from && r.to === to && r.rate > 0)
+      .forEach(r => byDate.set(toRateDate(r.date), r.rate));
+    return Array.from(byDate, ([date, rate]) => ({ date, rate })).sort((a, b) => a.date.localeCompare(b.date));
+  };
+
+  return {
+    source: 'manual',
+    supports: (from, to) => seriesFor(from, to).length > 0,
+    getRateSeries: async (from, to, start, end) => sliceSeries(seriesFor(from, to), start, end),
+    getLatestRate: async (from, to) => sliceSeries(seriesFor(from, to), new Date(), new Date()).at(-1) ?? null,
+  };
+}
+
+/** `fixtures` is keyed by pair, e.g. `USD-EUR`. */
+export function createFixtureProvider(fixtures: Record<string, DatedRate[]>): FxRateProvider {
+  const seriesFor = (from: string, to: string) => fixtures[`${from}-${to}`] ?? [];
+  return {
+    source: 'fixture',
+    supports: (from, to) => `${from}-${to}` in fixtures,
+    getRateSeries: async (from, to, start, end) => sliceSeries(seriesFor(from, to), start, end),
+    getLatestRate: async (from, to) => seriesFor(from, to).at(-1) ?? null,
+  };
+}
+
+export function getRateProviders(manualRates: Pick<ManualRate, 'from' | 'to' | 'rate' | 'date'>[]): FxRateProvider[] {
+  return [createManualRateProvider(manualRates), frankfurterProvider];
+}
+
+/**
+ * The rates from each of `currencies` into `to`; a currency no provider can quote maps to null.
+ * Quote units are fetched as their currency, which createRateLookup divides down.
+ */
+export async function resolveRateSeries(
+  providers: FxRateProvider[],
+  currencies: string[],
+  to: string,
+  start: Date,
+  end: Date,
+): Promise<Record<string, RateSeries | null>> {
+  const unique = [...new Set(currencies.map(c => QUOTE_UNITS[c]?.currency ?? c).filter(c => c && c !== to))];
+  const entries = await Promise.all(unique.map(async (from) => [from, await resolvePairSeries(providers, from, to, start, end)] as const));
+  return Object.fromEntries(entries);
+}
+
+/** When the winning series starts after `start`, the remaining providers fill in the dates before it. */
+async function resolvePairSeries(providers: FxRateProvider[], from: string, to: string, start: Date, end: Date): Promise<RateSeries | null> {
+  for (const [index, provider] of providers.entries()) {
+    if (!provider.supports(from, to)) continue;
+    const rates = await provider.getRateSeries(from, to, start, end);
+    if (!rates || rates.length === 0) continue;
+    if (rates[0].date <= toRateDate(start)) return { source: provider.source, rates };
+    const fallback = await resolvePairSeries(providers.slice(index + 1), from, to, start, end);
+    return { source: provider.source, rates, ...(fallback && { fallback }) };
+  }
+  return null;
+}
+
+/** The latest rate from `from` into another currency `to`, or null when no provider has one. */
+export async function resolveConversionRate(providers: FxRateProvider[], from: string, to: string): Promise<SourcedRate | null> {
+  const unit = QUOTE_UNITS[from];
+  if (unit) {
+    const base: SourcedRate | null = unit.currency === to
+      ? { date: toRateDate(new Date()), rate: 1, source: 'fixed' }
+      : await resolveConversionRate(providers, unit.currency, to);
+    return base && { ...base, rate: base.rate / unit.divisor };
+  }
+  for (const provider of providers.filter(p => p.supports(from, to))) {
+    const latest = await provider.getLatestRate(from, to);
+    if (latest) return { ...latest, source: provider.source };
+  }
+  return null;
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileOverview Dated exchange rates. A series holds one rate per published day (there are
+ * none for weekends or bank holidays) and a value is converted at the latest rate published on
+ * or before its own date. A rate that is missing, or too old to stand in for the date, is
+ * reported as unavailable (null) rather than guessed. Each series remembers the provider it
+ * came from (see src/lib/fx-providers.ts) so the UI can say where a conversion's rate came from.
+ */
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { QUOTE_UNITS } from '@/lib/exchanges';
+
+export type DatedRate = {
+  date: string; // yyyy-MM-dd
+  rate: number;
+};
+
+export type RateSource = 'frankfurter' | 'manual' | 'fixture' | 'fixed';
+
+export type RateSeries = {
+  source: RateSource;
+  rates: DatedRate[]; // Sorted by date, oldest first
+  fallback?: RateSeries | null; // Covers dates before the first rate, e.g. published rates before the first manual entry
+};
+
+export const RATE_SOURCE_LABELS: Record<RateSource, string> = {
+  frankfurter: 'ECB reference rate (Frankfurter)',
+  manual: 'Manual rate',
+  fixture: 'Fixture',
+  fixed: 'Fixed (minor unit)',
+};
+
+/** Long enough to bridge a weekend plus a run of bank holidays. */
+export const MAX_RATE_AGE_DAYS = 7;
+
+/** Published rates go stale; a manual or fixture rate holds until the next entry replaces it. */
+const MAX_AGE_BY_SOURCE: Record<RateSource, number> = {
+  frankfurter: MAX_RATE_AGE_DAYS,
+  manual: Infinity,
+  fixture: Infinity,
+  fixed: Infinity,
+};
+
+/** Converts `currency` into the lookup's target currency at `date`, or null when no rate is available. */
+export type RateLookup = (currency: string, date: Date) => number | null;
+
+export function toRateDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** `series` must be sorted by date, oldest first. */
+export function getRateForDate(series: DatedRate[], date: Date, maxAgeDays: number = MAX_RATE_AGE_DAYS): number | null {
+  const key = toRateDate(date);
+  let low = 0;
+  let high = series.length - 1;
+  let found: DatedRate | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (series[mid].date <= key) {
+      found = series[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (!found || differenceInCalendarDays(date, parseISO(found.date)) > maxAgeDays) return null;
+  return found.rate;
+}
+
+/**
+ * `series` maps each source currency to its rates into `target`; null marks a series that
+ * couldn't be fetched. A quote unit such as GBX uses its currency's series, divided down.
+ */
+export function createRateLookup(target: string, series: Record<string, RateSeries | null>): RateLookup {
+  const lookup: RateLookup = (currency, date) => {
+    const unit = QUOTE_UNITS[currency];
+    if (unit) {
+      const rate = lookup(unit.currency, date);
+      return rate === null ? null : rate / unit.divisor;
+    }
+    if (!currency || currency === target) return 1;
+    return rateFromSeries(series[currency], date);
+  };
+  return lookup;
+}
+
+function rateFromSeries(series: RateSeries | null | undefined, date: Date): number | null {
+  if (!series) return null;
+  if (series.fallback && toRateDate(date) < series.rates[0].date) return rateFromSeries(series.fallback, date);
+  return getRateForDate(series.rates, date, MAX_AGE_BY_SOURCE[series.source]);
+}
+
+/** Where the rate for each converted currency came from. */
+export function getRateSources(series: Record<string, RateSeries | null>): Record<string, RateSource> {
+  return Object.fromEntries(
+    Object.entries(series).flatMap(([currency, found]) => found ? [[currency, found.source]] : [])
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileOverview Who may do what in a household. The owner (`ownerId`) may do everything, admins
+ * run the household but can't change roles, editors can only record who paid, how an expense is
+ * split, payments between members and goal contributions, and viewers can only look. Members
+ * without a role are editors, which is what every member could do before roles existed.
+ * firestore.rules enforces the same table, so change both together.
+ */
+import type { Household, HouseholdRole } from '@/lib/types';
+
+export type HouseholdPermission =
+  | 'rename'
+  | 'manageRoles'
+  | 'manageMembers' // Invite, remove and rename members
+  | 'manageSplitRule'
+  | 'editIncomes'
+  | 'editShared'; // Payers, split overrides, settlements and goal contributions
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export const HOUSEHOLD_ROLE_DESCRIPTIONS: Record<HouseholdRole, string> = {
+  owner: 'Can do everything, including changing roles.',
+  admin: 'Can manage members, incomes and the split rule.',
+  editor: 'Can record who paid, splits, payments and contributions.',
+  viewer: 'Can see the household but not change it.',
+};
+
+/** Roles the owner can hand out; there is only ever one owner. */
+export const ASSIGNABLE_ROLES: HouseholdRole[] = ['admin', 'editor', 'viewer'];
+
+const PERMISSIONS: Record<HouseholdRole, HouseholdPermission[]> = {
+  owner: ['rename', 'manageRoles', 'manageMembers', 'manageSplitRule', 'editIncomes', 'editShared'],
+  admin: ['rename', 'manageMembers', 'manageSplitRule', 'editIncomes', 'editShared'],
+  editor: ['editShared'],
+  viewer: [],
+};
+
+const RANK: Record<HouseholdRole, number> = { owner: 3, admin: 2, editor: 1, viewer: 0 };
+
+/** The member's role, or null when they aren't in the household. */
+export function getMemberRole(household: Pick<Household, 'ownerId' | 'memberIds' | 'roles'>, memberId: string): HouseholdRole | null {
+  if (memberId === household.ownerId) return 'owner';
+  if (!household.memberIds.includes(memberId)) return null;
+  return household.roles?.[memberId] ?? 'editor';
+}
+
+export function hasPermission(household: Pick<Household, 'ownerId' | 'memberIds' | 'roles'> | undefined, memberId: string, permission: HouseholdPermission): boolean {
+  if (!household) return false;
+  const role = getMemberRole(household, memberId);
+  return !!role && PERMISSIONS[role].includes(permission);
+}
+
+/** Members can be removed by anyone who manages members and outranks them. */
+export function canRemoveMember(household: Pick<Household, 'ownerId' | 'memberIds' | 'roles'>, actorId: string, memberId: string): boolean {
+  const actorRole = getMemberRole(household, actorId);
+  const memberRole = getMemberRole(household, memberId);
+  if (!actorRole || !memberRole) return false;
+  return hasPermission(household, actorId, 'manageMembers') && RANK[actorRole] > RANK[memberRole];
+}
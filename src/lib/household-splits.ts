@@ -0,0 +1,79 @@
+/**
+ * @fileOverview How a household divides a shared expense between its members, by the rule in
+ * its `splitType`: equally, by fixed shares, or in proportion to each member's income. Shares
+ * and income ratios fall back to an equal split until they add up to something. An expense can
+ * replace the rule with its own split (see SplitOverride), which every total that divides the
+ * expense should go through splitExpense or getMemberShare to respect.
+ */
+import type { Expense, Household, Member, Split, SplitOverride } from '@/lib/types';
+
+export type MemberAmount = {
+  memberId: string;
+  amount: number;
+};
+
+/** The member's monthly income in effect on `targetDate`, from their income history. */
+export function getIncomeForDate(member: Member | undefined, targetDate: Date): number {
+  if (!member || !member.incomeHistory || member.incomeHistory.length === 0) return 0;
+  const sortedHistory = [...member.incomeHistory].sort((a, b) => b.date.getTime() - a.date.getTime());
+  const activeIncome = sortedHistory.find(i => i.date <= targetDate);
+  return activeIncome ? activeIncome.amount : 0;
+}
+
+/** Divides `amount` in proportion to each split's share; null when the shares add up to nothing. */
+export function splitByShares(amount: number, splits: Split[]): MemberAmount[] | null {
+  const totalShares = splits.reduce((sum, split) => sum + (split.share || 0), 0);
+  if (totalShares <= 0) return null;
+  return splits.map(split => ({ memberId: split.memberId, amount: (amount * (split.share || 0)) / totalShares }));
+}
+
+/**
+ * Each member's part of `amount` under the household's split rule. Income ratios use the
+ * incomes in effect on `incomeDate`.
+ */
+export function splitAmount(household: Pick<Household, 'members' | 'splitType' | 'splits'>, amount: number, incomeDate: Date): MemberAmount[] {
+  const { members } = household;
+  const equal = () => members.map(m => ({ memberId: m.id, amount: members.length > 0 ? amount / members.length : 0 }));
+
+  switch (household.splitType) {
+    case 'shares':
+      return splitByShares(amount, members.map(m => ({ memberId: m.id, share: household.splits?.find(s => s.memberId === m.id)?.share || 0 }))) ?? equal();
+    case 'income_ratio':
+      return splitByShares(amount, members.map(m => ({ memberId: m.id, share: getIncomeForDate(m, incomeDate) }))) ?? equal();
+    default: // 'equal'
+      return equal();
+  }
+}
+
+/** Each member's part of `amount` of this expense: its own split if it has one, else the household's. */
+export function splitExpense(household: Pick<Household, 'members' | 'splitType' | 'splits'>, expense: Pick<Expense, 'split'>, amount: number, incomeDate: Date): MemberAmount[] {
+  const override = expense.split;
+  if (override) {
+    const weights = override.type === 'members' ? override.splits.map(s => ({ memberId: s.memberId, share: 1 })) : override.splits;
+    const parts = splitByShares(amount, weights);
+    if (parts) return parts;
+  }
+  return splitAmount(household, amount, incomeDate);
+}
+
+/** A member's part of a shared expense; 0 when the household is gone or they aren't in it. */
+export function getMemberShare(household: Household | undefined, expense: Pick<Expense, 'split'>, amount: number, memberId: string, incomeDate: Date): number {
+  if (!household || !household.members.some(m => m.id === memberId)) return 0;
+  return splitExpense(household, expense, amount, incomeDate).find(s => s.memberId === memberId)?.amount ?? 0;
+}
+
+/** Why an expense's own split can't be saved for `amount`, or null when it can. */
+export function validateSplitOverride(override: SplitOverride, amount: number): string | null {
+  if (override.splits.some(s => s.share < 0)) return 'Splits cannot be negative.';
+  const total = override.splits.reduce((sum, s) => sum + s.share, 0);
+  switch (override.type) {
+    case 'exact':
+      return Math.abs(total - amount) < 0.005 ? null : `The amounts add up to ${total.toFixed(2)}, not the expense's ${amount.toFixed(2)}.`;
+    case 'percent':
+      return Math.abs(total - 100) < 0.005 ? null : `The percentages add up to ${total.toFixed(2)}%, not 100%.`;
+    case 'shares':
+      return total > 0 ? null : 'Total shares must be greater than 0.';
+    case 'members':
+      return override.splits.length > 0 ? null : 'Choose at least one member.';
+  }
+}
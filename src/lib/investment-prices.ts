@@ -0,0 +1,69 @@
+/**
+ * @fileOverview Where a holding's prices come from. Market-priced holdings are quoted by the
+ * market data provider; manually priced ones (funds, bonds, anything the provider doesn't list)
+ * by the prices the user enters, read like a daily series with gaps: a day's price is the latest
+ * one on or before it. Either way prices are in the holding's quote currency, so convert them
+ * with its rate.
+ */
+import { toRateDate } from '@/lib/fx-rates';
+import { fail, ok, toQuote, MARKET_DATA_ERROR_MESSAGES, type FullHistoricalData, type MarketDataErrorCode, type MarketDataResult, type StockPriceData } from '@/lib/market-data';
+import type { Investment, InvestmentPrice } from '@/lib/types';
+import { getHistoricalData, getStockPrice } from '@/services/investment-service';
+
+type PricedInvestment = Pick<Investment, 'ticker' | 'priceSource' | 'manualPrices'>;
+
+const sortByDate = (prices: InvestmentPrice[]) => [...prices].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+/** Manual prices in the shape of a market price history. They carry no dividends or splits. */
+export function toManualPriceHistory(prices: InvestmentPrice[]): FullHistoricalData {
+  return {
+    prices: sortByDate(prices).map(p => ({
+      date: `${toRateDate(p.date)}T00:00:00.000Z`,
+      close: p.price,
+      unadjustedClose: p.price,
+      volume: 0,
+    })),
+    dividends: [],
+    splits: [],
+  };
+}
+
+/** The latest manual price, changed since the one before it; null before any is entered. */
+export function getManualQuote(prices: InvestmentPrice[]): StockPriceData | null {
+  const sorted = sortByDate(prices);
+  const latest = sorted[sorted.length - 1];
+  if (!latest) return null;
+  return toQuote(latest.price, sorted[sorted.length - 2]?.price ?? latest.price);
+}
+
+export async function fetchQuote(investment: PricedInvestment): Promise<MarketDataResult<StockPriceData>> {
+  if (investment.priceSource === 'market') return getStockPrice(investment.ticker);
+  const quote = getManualQuote(investment.manualPrices);
+  return quote ? ok(quote) : fail('no-manual-price');
+}
+
+export async function fetchPriceHistory(investment: PricedInvestment, startDate: Date): Promise<MarketDataResult<FullHistoricalData>> {
+  if (investment.priceSource === 'market') return getHistoricalData(investment.ticker, startDate);
+  return investment.manualPrices.length > 0 ? ok(toManualPriceHistory(investment.manualPrices)) : fail('no-manual-price');
+}
+
+export type PriceHistoryFailure = { ticker: string; error: MarketDataErrorCode };
+
+/** Price histories for several holdings, by investment ID, and the holdings that have none. */
+export async function fetchPriceHistories<T extends PricedInvestment & { id: string }>(investments: T[], startDate: Date): Promise<{ histories: Map<string, FullHistoricalData>; failed: PriceHistoryFailure[] }> {
+  const results = await Promise.all(investments.map(async inv => ({ inv, history: await fetchPriceHistory(inv, startDate) })));
+  const histories = new Map<string, FullHistoricalData>();
+  const failed: PriceHistoryFailure[] = [];
+  results.forEach(({ inv, history }) => {
+    if (history.ok) histories.set(inv.id, history.data);
+    else failed.push({ ticker: inv.ticker, error: history.error });
+  });
+  return { histories, failed };
+}
+
+/** The failed tickers grouped by why, e.g. "VOD, SPY: The market data provider could not be reached." */
+export function describePriceFailures(failed: PriceHistoryFailure[]): string {
+  const byError = new Map<MarketDataErrorCode, string[]>();
+  failed.forEach(({ ticker, error }) => byError.set(error, [...(byError.get(error) ?? []), ticker]));
+  return Array.from(byError, ([error, tickers]) => `${tickers.join(', ')}: ${MARKET_DATA_ERROR_MESSAGES[error]}`).join(' ');
+}
@@ -0,0 +1,144 @@
+/**
+ * @fileOverview What market data providers serve, and how they fail. Every call returns a
+ * MarketDataResult rather than an empty list or a price of 0, so the UI can say why a price is
+ * missing. Tiingo is the live provider (see services/tiingo-provider); the fixture provider
+ * serves canned securities from a JSON file, the same way every time, for development without
+ * an API key and for tests.
+ */
+import { toRateDate } from '@/lib/fx-rates';
+
+export type MarketDataSource = 'tiingo' | 'fixture';
+
+export type MarketDataErrorCode = 'not-configured' | 'not-found' | 'rate-limited' | 'unavailable' | 'no-manual-price';
+
+export type MarketDataResult<T> = { ok: true; data: T } | { ok: false; error: MarketDataErrorCode };
+
+export const MARKET_DATA_ERROR_MESSAGES: Record<MarketDataErrorCode, string> = {
+  'not-configured': 'No market data provider is set up, so there are no prices.',
+  'not-found': 'The market data provider has no data for this ticker.',
+  'rate-limited': 'The market data provider is limiting requests. Try again later.',
+  'unavailable': 'The market data provider could not be reached.',
+  'no-manual-price': 'No price has been entered for this holding yet.',
+};
+
+export type StockSearchResult = {
+  uniqueKey: string;
+  symbol: string;
+  name: string;
+  type: string;
+  region: string;
+  exchange: string | null;
+  currency: string; // The listing's quote currency
+};
+
+export type StockPriceData = {
+  price: number;
+  change: number;
+  changePercent: number;
+};
+
+export type HistoricalDataPoint = {
+  date: string;
+  close: number; // Adjusted for splits and dividends
+  unadjustedClose: number; // As traded, to value the shares actually held on the day
+  volume: number;
+};
+
+export type Dividend = {
+  date: string; // Ex-dividend
+  amount: number; // Per share
+};
+
+export type StockSplit = {
+  date: string;
+  ratio: number; // New shares per old share, e.g. 4 for a 4-for-1 split
+};
+
+export type FullHistoricalData = {
+  prices: HistoricalDataPoint[];
+  dividends: Dividend[];
+  splits: StockSplit[];
+};
+
+export interface MarketDataProvider {
+  source: MarketDataSource;
+  search(query: string): Promise<MarketDataResult<StockSearchResult[]>>;
+  getQuote(ticker: string): Promise<MarketDataResult<StockPriceData>>;
+  /** Daily prices from `start`, oldest first. */
+  getPriceHistory(ticker: string, start: Date): Promise<MarketDataResult<HistoricalDataPoint[]>>;
+  getDividends(ticker: string, start: Date): Promise<MarketDataResult<Dividend[]>>;
+  getSplits(ticker: string, start: Date): Promise<MarketDataResult<StockSplit[]>>;
+}
+
+export const ok = <T>(data: T): MarketDataResult<T> => ({ ok: true, data });
+export const fail = <T>(error: MarketDataErrorCode): MarketDataResult<T> => ({ ok: false, error });
+
+/** The change from the previous close to the latest price. */
+export function toQuote(price: number, previousClose: number): StockPriceData {
+  const change = price - previousClose;
+  return { price, change, changePercent: previousClose !== 0 ? (change / previousClose) * 100 : 0 };
+}
+
+/** Prices, dividends and splits together, failing with the first of them that does. */
+export async function getFullHistory(provider: MarketDataProvider, ticker: string, start: Date): Promise<MarketDataResult<FullHistoricalData>> {
+  const [prices, dividends, splits] = await Promise.all([
+    provider.getPriceHistory(ticker, start),
+    provider.getDividends(ticker, start),
+    provider.getSplits(ticker, start),
+  ]);
+  if (!prices.ok) return prices;
+  if (!dividends.ok) return dividends;
+  if (!splits.ok) return splits;
+  return ok({ prices: prices.data, dividends: dividends.data, splits: splits.data });
+}
+
+export type FixtureSecurity = {
+  name: string;
+  type: string;
+  countryCode: string;
+  exchange: string | null;
+  currency: string;
+  prices: { date: string; close: number; unadjustedClose?: number }[]; // Dates as YYYY-MM-DD, oldest first
+  dividends: { date: string; amount: number }[];
+  splits: { date: string; ratio: number }[];
+};
+
+/** Keyed by ticker. */
+export type MarketDataFixtures = Record<string, FixtureSecurity>;
+
+const toTimestamp = (date: string) => `${date}T00:00:00.000Z`;
+
+export function createFixtureMarketDataProvider(fixtures: MarketDataFixtures): MarketDataProvider {
+  const find = (ticker: string) => fixtures[ticker.toUpperCase()];
+  const fromStart = <T extends { date: string }>(entries: T[], start: Date) => entries.filter(e => e.date >= toRateDate(start));
+
+  return {
+    source: 'fixture',
+    search: async (query) => {
+      const q = query.trim().toLowerCase();
+      return ok(Object.entries(fixtures)
+        .filter(([ticker, s]) => q.length > 0 && (ticker.toLowerCase().includes(q) || s.name.toLowerCase().includes(q)))
+        .map(([ticker, s]) => ({ uniqueKey: ticker, symbol: ticker, name: s.name, type: s.type, region: s.countryCode, exchange: s.exchange, currency: s.currency })));
+    },
+    getQuote: async (ticker) => {
+      const prices = find(ticker)?.prices ?? [];
+      const latest = prices.at(-1);
+      if (!latest) return fail('not-found');
+      const traded = (p: typeof latest) => p.unadjustedClose ?? p.close;
+      return ok(toQuote(traded(latest), traded(prices.at(-2) ?? latest)));
+    },
+    getPriceHistory: async (ticker, start) => {
+      const security = find(ticker);
+      if (!security) return fail('not-found');
+      return ok(fromStart(security.prices, start).map(p => ({ date: toTimestamp(p.date), close: p.close, unadjustedClose: p.unadjustedClose ?? p.close, volume: 0 })));
+    },
+    getDividends: async (ticker, start) => {
+      const security = find(ticker);
+      return security ? ok(fromStart(security.dividends, start).map(d => ({ ...d, date: toTimestamp(d.date) }))) : fail('not-found');
+    },
+    getSplits: async (ticker, start) => {
+      const security = find(ticker);
+      return security ? ok(fromStart(security.splits, start).map(s => ({ ...s, date: toTimestamp(s.date) }))) : fail('not-found');
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileOverview Stochastic net-worth projections. Each asset class grows by a random monthly
+ * return drawn from a log-normal distribution whose expected annual growth is `meanReturn`;
+ * contributions are split across classes in proportion to their starting values and debt
+ * follows its deterministic amortisation. A fixed seed keeps the bands stable between renders.
+ */
+
+export type AssetClassAssumption = {
+  name: string;
+  value: number; // Starting value in the display currency
+  meanReturn: number; // Expected annual return, in percent
+  volatility: number; // Annual standard deviation, in percent
+};
+
+export type MonteCarloOptions = {
+  assetClasses: AssetClassAssumption[];
+  monthlyContribution: number;
+  months: number;
+  simulations: number;
+  /** Outstanding debt after `month` months; month 0 is today. */
+  getDebtForMonth?: (month: number) => number;
+  target?: number | null;
+  seed?: number;
+};
+
+export type PercentileBand = {
+  month: number;
+  p10: number;
+  p50: number;
+  p90: number;
+};
+
+export type MonteCarloResult = {
+  bands: PercentileBand[]; // One per month, starting with month 1
+  /** Share of simulations whose net worth reaches `target` at any point in the period, or null without a target. */
+  probabilityOfTarget: number | null;
+};
+
+export const DEFAULT_SIMULATIONS = 2000;
+
+/** mulberry32: small, fast and good enough for simulation noise. */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = 1 - random(); // (0, 1], so the log is finite
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/** Linear interpolation between the closest ranks of an ascending array. */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function runMonteCarlo(options: MonteCarloOptions): MonteCarloResult {
+  const { assetClasses, monthlyContribution, months, simulations, getDebtForMonth = () => 0, target = null, seed = 1 } = options;
+  const normal = createNormal(createRandom(seed));
+
+  const totalValue = assetClasses.reduce((sum, c) => sum + Math.max(c.value, 0), 0);
+  const classes = assetClasses.map(c => {
+    const sigma = c.volatility / 100 / Math.sqrt(12);
+    return {
+      value: Math.max(c.value, 0),
+      // exp(mu + sigma²/2) = (1 + meanReturn)^(1/12), so the expected annual growth is meanReturn.
+      mu: Math.log(1 + c.meanReturn / 100) / 12 - (sigma * sigma) / 2,
+      sigma,
+      share: totalValue > 0 ? Math.max(c.value, 0) / totalValue : 1 / assetClasses.length,
+    };
+  });
+
+  const debts = Array.from({ length: months + 1 }, (_, month) => getDebtForMonth(month));
+  const results = Array.from({ length: months }, () => new Float64Array(simulations));
+  let reachedTarget = 0;
+
+  for (let sim = 0; sim < simulations; sim++) {
+    const values = classes.map(c => c.value);
+    let reached = target !== null && values.reduce((a, b) => a + b, 0) - debts[0] >= target;
+
+    for (let month = 0; month < months; month++) {
+      let total = 0;
+      for (let i = 0; i < classes.length; i++) {
+        const c = classes[i];
+        values[i] = (values[i] + monthlyContribution * c.share) * Math.exp(c.mu + c.sigma * normal());
+        total += values[i];
+      }
+      const netWorth = total - debts[month + 1];
+      results[month][sim] = netWorth;
+      if (target !== null && netWorth >= target) reached = true;
+    }
+    if (reached) reachedTarget++;
+  }
+
+  const bands = results.map((values, index) => {
+    values.sort();
+    return { month: index + 1, p10: percentile(values, 0.1), p50: percentile(values, 0.5), p90: percentile(values, 0.9) };
+  });
+
+  return {
+    bands,
+    probabilityOfTarget: target !== null && simulations > 0 ? reachedTarget / simulations : null,
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileOverview Investment performance over a period, for one holding or a whole portfolio.
+ *
+ * Time-weighted return (TWR) measures the investments themselves: the period is cut at every
+ * day money went in or out, each piece's growth is measured on its own and the pieces are
+ * chained, so the size and timing of contributions don't move the result. The money-weighted
+ * return (XIRR) is the annual rate at which the money actually put in grows to what came back
+ * out plus what is still held, so it does reflect timing. Both count dividends as returned
+ * cash, which is why holdings are valued at the unadjusted close: the adjusted close already
+ * folds dividends into the price. The unadjusted close drops at a split, so the shares it is
+ * multiplied by are scaled up by the splits since they were bought (see getSplitAdjustedShares).
+ */
+import { addDays, differenceInCalendarDays, endOfDay, startOfDay, startOfYear, subYears } from 'date-fns';
+import { getRateForDate, toRateDate, type DatedRate } from '@/lib/fx-rates';
+import { getCashFlow, signedShares, sortTransactions, type AmountConverter } from '@/lib/cost-basis';
+import type { InvestmentTransaction } from '@/lib/types';
+
+export type PerformancePeriod = 'ytd' | '1y' | '3y' | 'inception';
+
+export const PERFORMANCE_PERIOD_LABELS: Record<PerformancePeriod, string> = {
+  ytd: 'YTD',
+  '1y': '1Y',
+  '3y': '3Y',
+  inception: 'Since Inception',
+};
+
+export type HoldingHistory = {
+  transactions: InvestmentTransaction[];
+  prices: DatedRate[]; // Unadjusted close per share, oldest first
+  dividends: DatedRate[]; // Cash per share, keyed by ex-dividend date
+  splits?: DatedRate[]; // New shares per old share, keyed by the first day prices are split
+};
+
+export type CashFlow = {
+  date: Date;
+  amount: number; // From the investor's side: negative when money goes in
+};
+
+export type PerformanceResult = {
+  start: Date;
+  end: Date;
+  startValue: number;
+  endValue: number;
+  dividends: number;
+  twr: number | null; // Over the whole period, not annualised
+  annualisedTwr: number | null; // Only for periods of a year or more
+  xirr: number | null; // Annualised
+};
+
+const EPSILON = 1e-9;
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Builds a holding's history from a daily price series (see getHistoricalData), with
+ * `priceRate` converting each price and dividend into the currency performance is measured in
+ * at the rate on its own date. Null when any of those dates has no rate.
+ */
+export function toHoldingHistory(
+  transactions: InvestmentTransaction[],
+  history: {
+    prices: { date: string; unadjustedClose: number }[];
+    dividends: { date: string; amount: number }[];
+    splits?: { date: string; ratio: number }[];
+  },
+  priceRate: (date: Date) => number | null,
+): HoldingHistory | null {
+  const convert = (date: string, amount: number): DatedRate | null => {
+    const key = date.split('T')[0];
+    const rate = priceRate(new Date(`${key}T00:00:00`));
+    return rate === null ? null : { date: key, rate: amount * rate };
+  };
+  const prices = history.prices.map(p => convert(p.date, p.unadjustedClose));
+  const dividends = history.dividends.map(d => convert(d.date, d.amount));
+  if (prices.includes(null) || dividends.includes(null)) return null;
+  const splits = (history.splits ?? []).map(s => ({ date: s.date.split('T')[0], rate: s.ratio }));
+  return { transactions, prices: prices as DatedRate[], dividends: dividends as DatedRate[], splits };
+}
+
+/**
+ * Shares held at the close of `date` from the transactions up to `sharesAsOf`, in the units
+ * `date`'s prices are quoted for: each transaction is multiplied by the splits after its day
+ * up to `date`, since transactions keep the share count they were made in.
+ */
+export function getSplitAdjustedShares(holding: Pick<HoldingHistory, 'transactions' | 'splits'>, date: Date, sharesAsOf: Date): number {
+  const dateKey = toRateDate(date);
+  const splits = (holding.splits ?? []).filter(s => s.date <= dateKey);
+  return holding.transactions
+    .filter(t => t.date <= sharesAsOf)
+    .reduce((sum, t) => {
+      const tradeKey = toRateDate(t.date);
+      const ratio = splits.filter(s => s.date > tradeKey).reduce((product, s) => product * s.rate, 1);
+      return sum + signedShares(t) * ratio;
+    }, 0);
+}
+
+/** The first day of `period` ending today, never before the first transaction. */
+export function getPeriodStart(period: PerformancePeriod, firstTransaction: Date, today: Date = new Date()): Date {
+  const inception = startOfDay(firstTransaction);
+  const start = period === 'ytd' ? startOfYear(today)
+    : period === '1y' ? subYears(startOfDay(today), 1)
+    : period === '3y' ? subYears(startOfDay(today), 3)
+    : inception;
+  return start < inception ? inception : start;
+}
+
+/** Value of every holding at the close of `date`, with the shares held at `sharesAsOf`. */
+export function getHoldingsValue(holdings: HoldingHistory[], date: Date, sharesAsOf: Date): number {
+  return holdings.reduce((sum, holding) => {
+    const shares = getSplitAdjustedShares(holding, date, sharesAsOf);
+    if (shares <= EPSILON) return sum;
+    return sum + shares * (getRateForDate(holding.prices, date, Infinity) ?? 0);
+  }, 0);
+}
+
+/** Dividends with an ex-date from `start` to `end`, paid on the shares held the day before. */
+export function getDividendPayments(holdings: HoldingHistory[], start: Date, end: Date): CashFlow[] {
+  const startKey = toRateDate(start);
+  const endKey = toRateDate(end);
+  return holdings.flatMap(holding => holding.dividends
+    .filter(d => d.date >= startKey && d.date <= endKey)
+    .map(d => {
+      const exDate = new Date(`${d.date}T00:00:00`);
+      return { date: exDate, amount: getSplitAdjustedShares(holding, exDate, endOfDay(addDays(exDate, -1))) * d.rate };
+    })
+    .filter(payment => payment.amount > 0));
+}
+
+/** Total of the payments after `from` up to the end of `to`. */
+function sumBetween(payments: CashFlow[], from: Date, to: Date): number {
+  return payments
+    .filter(p => p.date > endOfDay(from) && p.date <= endOfDay(to))
+    .reduce((sum, p) => sum + p.amount, 0);
+}
+
+/** The annual rate at which `flows` net to zero, or null when there isn't one. */
+export function xirr(flows: CashFlow[]): number | null {
+  if (flows.length < 2 || !flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+  const first = flows[0].date;
+  const years = flows.map(f => differenceInCalendarDays(f.date, first) / DAYS_PER_YEAR);
+  const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+
+  // Bisection on (-100%, +10,000%): slower than Newton's method but it can't diverge.
+  let low = -0.9999;
+  let high = 100;
+  let npvLow = npv(low);
+  if (npvLow * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 1e-7) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * `convert` turns transaction amounts into the currency the prices and dividends are in.
+ * Transactions are taken to happen during their day: the value before a day's trades is
+ * what the shares held coming into it closed at.
+ */
+export function calculatePerformance(
+  holdings: HoldingHistory[],
+  period: PerformancePeriod,
+  convert: AmountConverter = amount => amount,
+  today: Date = new Date(),
+): PerformanceResult | null {
+  const transactions = sortTransactions(holdings.flatMap(h => h.transactions));
+  if (transactions.length === 0) return null;
+
+  const end = startOfDay(today);
+  const start = getPeriodStart(period, transactions[0].date, today);
+  const dayBefore = addDays(start, -1);
+
+  const startValue = getHoldingsValue(holdings, dayBefore, endOfDay(dayBefore));
+  const endValue = getHoldingsValue(holdings, end, endOfDay(end));
+
+  // Net money in on each day of the period with trades.
+  const tradesByDay = new Map<string, { date: Date; amount: number }>();
+  transactions
+    .filter(t => t.date >= start && t.date <= endOfDay(end))
+    .forEach(t => {
+      const day = startOfDay(t.date);
+      const key = toRateDate(day);
+      const entry = tradesByDay.get(key) ?? { date: day, amount: 0 };
+      entry.amount += convert(getCashFlow(t), t.currency, t.date);
+      tradesByDay.set(key, entry);
+    });
+  const tradeDays = [...tradesByDay.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const dividendPayments = getDividendPayments(holdings, start, end);
+
+  let growth = 1;
+  let measured = false;
+  let periodStartValue = startValue;
+  let previous = dayBefore;
+  for (const trade of tradeDays) {
+    const dividends = sumBetween(dividendPayments, previous, trade.date);
+    const valueBefore = getHoldingsValue(holdings, trade.date, endOfDay(addDays(trade.date, -1)));
+    if (periodStartValue > EPSILON) {
+      growth *= (valueBefore + dividends) / periodStartValue;
+      measured = true;
+    }
+    periodStartValue = valueBefore + trade.amount;
+    previous = trade.date;
+  }
+  const finalDividends = sumBetween(dividendPayments, previous, end);
+  if (periodStartValue > EPSILON) {
+    growth *= (endValue + finalDividends) / periodStartValue;
+    measured = true;
+  }
+
+  const days = differenceInCalendarDays(end, start);
+  const twr = measured ? growth - 1 : null;
+  const annualisedTwr = twr !== null && days >= DAYS_PER_YEAR ? Math.pow(1 + twr, DAYS_PER_YEAR / days) - 1 : null;
+
+  const flows: CashFlow[] = [];
+  if (startValue > EPSILON) flows.push({ date: start, amount: -startValue });
+  tradeDays.forEach(trade => flows.push({ date: trade.date, amount: -trade.amount }));
+  flows.push(...dividendPayments);
+  if (endValue > EPSILON) flows.push({ date: end, amount: endValue });
+  flows.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return { start, end, startValue, endValue, dividends: dividendPayments.reduce((sum, p) => sum + p.amount, 0), twr, annualisedTwr, xirr: xirr(flows) };
+}
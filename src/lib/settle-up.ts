@@ -0,0 +1,106 @@
+/**
+ * @fileOverview Who owes whom in a household. Every month a shared expense runs, its payers
+ * paid it (the creator, unless others are recorded) and each member owes their part under its
+ * split. A member's balance is what they paid less what they owe, moved by the settlements
+ * they have sent or received: positive means they are owed money. suggestTransfers evens every
+ * balance out in at most one transfer fewer than there are members.
+ */
+import { eachMonthOfInterval, endOfMonth, isAfter, startOfMonth } from 'date-fns';
+import { splitByShares, splitExpense, type MemberAmount } from '@/lib/household-splits';
+import type { Expense, Household } from '@/lib/types';
+
+export type ExpenseOccurrence = {
+  date: Date; // End of the month it falls in, as the budget counts it
+  amount: number;
+};
+
+export type MemberBalance = {
+  memberId: string;
+  paid: number;
+  owed: number;
+  settled: number; // Sent less received
+  balance: number;
+};
+
+export type Transfer = {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+};
+
+// Anything under half a cent is rounding, not a debt.
+const EPSILON = 0.005;
+
+const getAmountForDate = (expense: Expense, targetDate: Date): number => {
+  const sortedAmounts = [...expense.amounts].sort((a, b) => b.date.getTime() - a.date.getTime());
+  return sortedAmounts.find(a => a.date <= targetDate)?.amount ?? 0;
+};
+
+/** Each month the expense ran up to and including the month of `asOf`, with its amount then. */
+export function getExpenseOccurrences(expense: Expense, asOf: Date): ExpenseOccurrence[] {
+  if (expense.amounts.length === 0) return [];
+  const firstDate = [...expense.amounts].sort((a, b) => a.date.getTime() - b.date.getTime())[0].date;
+  if (isAfter(startOfMonth(firstDate), asOf)) return [];
+
+  const lastDate = expense.endDate && expense.endDate < asOf ? expense.endDate : asOf;
+  const months = expense.frequency === 'one-off' || lastDate < firstDate
+    ? [firstDate]
+    : eachMonthOfInterval({ start: firstDate, end: lastDate });
+  return months.map(month => {
+    const date = endOfMonth(month);
+    return { date, amount: getAmountForDate(expense, date) };
+  });
+}
+
+/** What each payer paid of `amount`. */
+export function splitPayment(expense: Expense, amount: number): MemberAmount[] {
+  return (expense.payers && splitByShares(amount, expense.payers)) ?? [{ memberId: expense.userId, amount }];
+}
+
+/** Balances for every current member, and for anyone else who paid, owes or settled. */
+export function getMemberBalances(household: Household, expenses: Expense[], asOf: Date): MemberBalance[] {
+  const balances = new Map<string, MemberBalance>();
+  const balanceFor = (memberId: string) => {
+    if (!balances.has(memberId)) balances.set(memberId, { memberId, paid: 0, owed: 0, settled: 0, balance: 0 });
+    return balances.get(memberId)!;
+  };
+  household.members.forEach(m => balanceFor(m.id));
+
+  expenses.forEach(expense => {
+    getExpenseOccurrences(expense, asOf).forEach(({ date, amount }) => {
+      splitPayment(expense, amount).forEach(p => { balanceFor(p.memberId).paid += p.amount; });
+      splitExpense(household, expense, amount, date).forEach(s => { balanceFor(s.memberId).owed += s.amount; });
+    });
+  });
+
+  (household.settlements || []).filter(s => s.date <= asOf).forEach(settlement => {
+    balanceFor(settlement.fromMemberId).settled += settlement.amount;
+    balanceFor(settlement.toMemberId).settled -= settlement.amount;
+  });
+
+  return Array.from(balances.values()).map(b => ({ ...b, balance: b.paid - b.owed + b.settled }));
+}
+
+/**
+ * Transfers that settle every balance: the member owing most pays the member owed most, as
+ * much as either needs, until nobody is owed anything.
+ */
+export function suggestTransfers(balances: Pick<MemberBalance, 'memberId' | 'balance'>[]): Transfer[] {
+  const creditors = balances.filter(b => b.balance > EPSILON).map(b => ({ ...b }));
+  const debtors = balances.filter(b => b.balance < -EPSILON).map(b => ({ ...b, balance: -b.balance }));
+  const transfers: Transfer[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.balance - a.balance);
+    debtors.sort((a, b) => b.balance - a.balance);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = Math.min(creditor.balance, debtor.balance);
+    transfers.push({ fromMemberId: debtor.memberId, toMemberId: creditor.memberId, amount: Math.round(amount * 100) / 100 });
+    creditor.balance -= amount;
+    debtor.balance -= amount;
+    if (creditor.balance <= EPSILON) creditors.shift();
+    if (debtor.balance <= EPSILON) debtors.shift();
+  }
+  return transfers;
+}
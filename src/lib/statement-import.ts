@@ -0,0 +1,202 @@
+/**
+ * @fileOverview Client-side parsers for bank statement files (CSV, OFX and QIF).
+ * Every format is reduced to a list of StatementRows; the import page decides what
+ * becomes a transaction. Amounts are signed: money in is positive, money out negative.
+ */
+import { isSameDay, isValid, parse } from 'date-fns';
+import type { ImportProfile, Transaction } from '@/lib/types';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export type StatementRow = {
+  id: string;
+  date: Date;
+  name: string;
+  amount: number;
+  importId?: string; // Bank-assigned ID (OFX FITID), when the format has one
+};
+
+export type CsvMapping = Omit<ImportProfile, 'id' | 'userId' | 'name'>;
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'dd-MM-yyyy', 'yyyyMMdd'];
+
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === 'qif' || /^!Type:/im.test(text)) return 'qif';
+  return 'csv';
+}
+
+/** Splits CSV text into rows of cells, honouring quoted cells with embedded delimiters, quotes and newlines. */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(c => c !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(c => c !== '')) rows.push(row);
+  return rows;
+}
+
+/**
+ * Parses "1,234.56", "(12.00)", "-12,50" and currency-prefixed amounts. Without a decimal
+ * separator, the last of a comma and a dot is the decimal point when both appear, and a lone
+ * comma only when one or two digits follow it, so "1,200" is twelve hundred. Returns NaN when
+ * unreadable.
+ */
+export function parseAmount(value: string | undefined, decimalSeparator?: '.' | ',' | null): number {
+  if (!value) return NaN;
+  let cleaned = value.replace(/[^\d,.\-()]/g, '');
+  const negative = cleaned.startsWith('(') && cleaned.endsWith(')');
+  cleaned = cleaned.replace(/[()]/g, '');
+  const separator = decimalSeparator ?? detectDecimalSeparator(cleaned);
+  cleaned = separator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const amount = parseFloat(cleaned);
+  return negative ? -amount : amount;
+}
+
+function detectDecimalSeparator(cleaned: string): '.' | ',' {
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma === -1) return '.';
+  if (lastDot !== -1) return lastComma > lastDot ? ',' : '.';
+  // Only commas: one with one or two digits after it is decimal (12,5 or 950,00), anything else groups thousands
+  return /^[^,]*,\d{1,2}$/.test(cleaned) ? ',' : '.';
+}
+
+function parseDate(value: string, dateFormat: string): Date | null {
+  const date = parse(value.trim(), dateFormat, new Date());
+  return isValid(date) ? date : null;
+}
+
+/** Applies a column mapping to parsed CSV rows. Rows whose date or amount can't be read are skipped. */
+export function applyCsvMapping(rows: string[][], mapping: CsvMapping): StatementRow[] {
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const result: StatementRow[] = [];
+
+  dataRows.forEach((cells, index) => {
+    const date = parseDate(cells[mapping.dateColumn] || '', mapping.dateFormat);
+    let amount: number;
+    if (mapping.amountColumn !== null && mapping.amountColumn !== undefined) {
+      amount = parseAmount(cells[mapping.amountColumn], mapping.decimalSeparator);
+    } else {
+      const credit = parseAmount(cells[mapping.creditColumn ?? -1], mapping.decimalSeparator);
+      const debit = parseAmount(cells[mapping.debitColumn ?? -1], mapping.decimalSeparator);
+      amount = (isNaN(credit) ? 0 : Math.abs(credit)) - (isNaN(debit) ? 0 : Math.abs(debit));
+    }
+    if (!date || isNaN(amount) || amount === 0) return;
+    if (mapping.invertAmounts) amount = -amount;
+
+    result.push({
+      id: `csv-${index}`,
+      date,
+      name: cells[mapping.descriptionColumn] || 'Imported transaction',
+      amount,
+    });
+  });
+  return result;
+}
+
+function ofxTag(block: string, tag: string): string | undefined {
+  // OFX 1.x is SGML and often omits closing tags, so read up to the next tag or line end.
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+}
+
+export function parseOfx(text: string): StatementRow[] {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  const result: StatementRow[] = [];
+
+  blocks.forEach((block, index) => {
+    const posted = ofxTag(block, 'DTPOSTED');
+    const amount = parseFloat(ofxTag(block, 'TRNAMT') || '');
+    const date = posted ? parseDate(posted.slice(0, 8), 'yyyyMMdd') : null;
+    if (!date || isNaN(amount)) return;
+    const fitId = ofxTag(block, 'FITID');
+
+    result.push({
+      id: `ofx-${index}`,
+      date,
+      name: ofxTag(block, 'NAME') || ofxTag(block, 'MEMO') || 'Imported transaction',
+      amount,
+      importId: fitId,
+    });
+  });
+  return result;
+}
+
+/** QIF dates are locale-dependent, so the caller supplies the day/month order. */
+export function parseQif(text: string, dateFormat = 'MM/dd/yyyy'): StatementRow[] {
+  const result: StatementRow[] = [];
+  let entry: { date?: string; amount?: string; payee?: string; memo?: string } = {};
+
+  const flush = () => {
+    if (entry.date && entry.amount) {
+      // Quicken writes years after 2000 as 1/31'24
+      const normalized = entry.date.replace(/'\s*/, '/').replace(/-/g, '/');
+      const twoDigitYear = /\/\d{2}$/.test(normalized);
+      const date = parseDate(normalized, twoDigitYear ? dateFormat.replace('yyyy', 'yy') : dateFormat.replace(/[.-]/g, '/'));
+      const amount = parseAmount(entry.amount);
+      if (date && !isNaN(amount)) {
+        result.push({ id: `qif-${result.length}`, date, name: entry.payee || entry.memo || 'Imported transaction', amount });
+      }
+    }
+    entry = {};
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    const code = line.charAt(0);
+    const value = line.slice(1).trim();
+    if (code === 'D') entry.date = value;
+    else if (code === 'T' || code === 'U') entry.amount = entry.amount ?? value;
+    else if (code === 'P') entry.payee = value;
+    else if (code === 'M') entry.memo = value;
+    else if (code === '^') flush();
+  });
+  flush();
+  return result;
+}
+
+/**
+ * Finds an existing transaction that looks like the same bank entry: the same import ID,
+ * or a one-off of the same type and amount on the same day.
+ */
+export function findDuplicate(row: StatementRow, transactions: Transaction[]): Transaction | undefined {
+  const transactionType = row.amount >= 0 ? 'income' : 'expense';
+  const amount = Math.abs(row.amount);
+  return transactions.find(t => {
+    if (row.importId && t.importId) return t.importId === row.importId;
+    if (t.frequency !== 'one-off' || t.transactionType !== transactionType) return false;
+    const first = t.amounts[0];
+    return !!first && isSameDay(first.date, row.date) && Math.abs(first.amount - amount) < 0.005;
+  });
+}
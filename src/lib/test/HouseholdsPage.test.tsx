@@ -6,7 +6,6 @@ import { getDocs, getDoc, writeBatch } from 'firebase/firestore';
 
 // Import providers and original components that need to be mocked
 import { SidebarProvider } from '@/components/ui/sidebar';
-import { UiSettingsProvider } from '@/context/ui-settings-context';
 import { AppTourProvider } from '@/components/tour-guide';
 import { TooltipProvider } from '@/components/ui/tooltip';
 
@@ -28,15 +27,13 @@ vi.mock('@/components/main-layout', async (importOriginal) => {
         useAuth: () => mockUser,
         MainLayout: ({ children }: { children: React.ReactNode }) => (
              <original.AuthContext.Provider value={mockUser}>
-                <UiSettingsProvider>
-                    <AppTourProvider>
-                        <SidebarProvider>
-                            <TooltipProvider>
-                                <div>{children}</div>
-                            </TooltipProvider>
-                        </SidebarProvider>
-                    </AppTourProvider>
-                </UiSettingsProvider>
+                <AppTourProvider>
+                    <SidebarProvider>
+                        <TooltipProvider>
+                            <div>{children}</div>
+                        </TooltipProvider>
+                    </SidebarProvider>
+                </AppTourProvider>
             </original.AuthContext.Provider>
         ),
     };
@@ -65,21 +62,25 @@ vi.mock('@/context/currency-context', () => ({
 const mockUpdateFn = vi.fn();
 const mockDeleteFn = vi.fn();
 const mockCommitFn = vi.fn().mockResolvedValue(undefined);
+const mockSetFn = vi.fn();
 
 vi.mock('firebase/firestore', async (importOriginal) => {
     const originalFirestore = await importOriginal<typeof import('firebase/firestore')>();
+    // Repositories read through `withConverter`, so refs need to support it.
+    const mockRef = () => ({ withConverter() { return this; } });
     return {
         ...originalFirestore,
         getDocs: vi.fn(),
         getDoc: vi.fn(),
         writeBatch: vi.fn(() => ({
+            set: mockSetFn,
             update: mockUpdateFn,
             delete: mockDeleteFn,
             commit: mockCommitFn,
         })),
-        doc: vi.fn(),
-        collection: vi.fn(),
-        query: vi.fn(),
+        doc: vi.fn(mockRef),
+        collection: vi.fn(mockRef),
+        query: vi.fn(mockRef),
         where: vi.fn(),
         serverTimestamp: vi.fn(),
     };
@@ -97,6 +98,7 @@ const mockInvitations = [
   {
     id: 'invitation-1',
     data: () => ({
+      id: 'invitation-1',
       householdId: 'household-1',
       householdName: 'Test Household',
       invitedBy: 'owner-id',
@@ -108,6 +110,7 @@ const mockInvitations = [
 const mockHouseholdDoc = {
     exists: () => true,
     data: () => ({
+      id: 'household-1',
       ownerId: 'owner-id',
       name: 'Test Household',
       members: [{ id: 'owner-id', name: 'Owner', email: 'owner@test.com' }],
@@ -121,11 +124,14 @@ describe('HouseholdsPage - Invitation Flow', () => {
     // Clear all mock history and reset implementations
     vi.clearAllMocks();
     vi.mocked(getDocs).mockReset();
+    // Anything not set up by the test, such as the refetch after accepting or declining, finds nothing.
+    vi.mocked(getDocs).mockResolvedValue({ docs: [], empty: true } as any);
     vi.mocked(getDoc).mockReset();
     vi.mocked(writeBatch).mockClear();
     mockUpdateFn.mockClear();
     mockDeleteFn.mockClear();
     mockCommitFn.mockClear();
+    mockSetFn.mockClear();
     mockToast.mockClear();
   });
 
@@ -133,7 +139,8 @@ describe('HouseholdsPage - Invitation Flow', () => {
     // Arrange: Setup mock return values for the initial fetch
     vi.mocked(getDocs)
         .mockResolvedValueOnce({ docs: [] } as any) // householdQuery
-        .mockResolvedValueOnce({ docs: mockInvitations } as any); // invitationQuery
+        .mockResolvedValueOnce({ docs: mockInvitations } as any) // invitationQuery
+        .mockResolvedValueOnce({ docs: [] } as any); // pastHouseholdEvents
 
     // Setup mock for getDoc inside handleAcceptInvitation
     vi.mocked(getDoc).mockResolvedValue(mockHouseholdDoc as any);
@@ -164,7 +171,8 @@ describe('HouseholdsPage - Invitation Flow', () => {
     // Arrange: Setup mock return values for the initial fetch
     vi.mocked(getDocs)
         .mockResolvedValueOnce({ docs: [] } as any)
-        .mockResolvedValueOnce({ docs: mockInvitations } as any);
+        .mockResolvedValueOnce({ docs: mockInvitations } as any)
+        .mockResolvedValueOnce({ docs: [] } as any);
     
     // Setup mock for getDoc inside handleDeclineInvitation
     vi.mocked(getDoc).mockResolvedValue(mockHouseholdDoc as any);
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { allocateContribution, calculateDrift, getRebalanceTrades, targetsAddUp } from '@/lib/allocation';
+
+const values = [
+  { key: 'Investment', value: 7000 },
+  { key: 'Savings Goal', value: 2000 },
+  { key: 'Savings Goal', value: 1000 },
+  { key: 'Vehicle', value: 15000 },
+];
+const targets = { Investment: 60, 'Savings Goal': 30, Property: 10 };
+
+describe('allocation', () => {
+  it('measures drift against the total of the keys with a target', () => {
+    const rows = calculateDrift(values, targets);
+    expect(rows.map(r => r.key)).toEqual(['Investment', 'Property', 'Savings Goal', 'Vehicle']);
+    expect(rows[0]).toEqual({ key: 'Investment', value: 7000, targetPercent: 60, actualPercent: 70, drift: 10, targetValue: 6000 });
+    expect(rows[3]).toMatchObject({ key: 'Vehicle', targetPercent: null, drift: null });
+  });
+
+  it('suggests trades that return to target without changing the total', () => {
+    const trades = getRebalanceTrades(calculateDrift(values, targets));
+    expect(trades).toEqual([
+      { key: 'Investment', amount: -1000 },
+      { key: 'Property', amount: 1000 },
+    ]);
+  });
+
+  it('directs new money to what is under target without selling', () => {
+    const rows = calculateDrift(values, targets);
+    // With 12000 in total Property is 1200 short, Savings Goal 600 and Investment 200.
+    expect(allocateContribution(rows, 2000)).toEqual([
+      { key: 'Property', amount: 1200 },
+      { key: 'Savings Goal', amount: 600 },
+      { key: 'Investment', amount: 200 },
+    ]);
+    // 500 is not enough for all of that, so it is shared in proportion: Investment stays over target.
+    const small = allocateContribution(rows, 500);
+    expect(small.map(s => s.key)).toEqual(['Property', 'Savings Goal']);
+    expect(small[0].amount).toBeCloseTo(500 * 1050 / 1200);
+    expect(small.reduce((sum, s) => sum + s.amount, 0)).toBeCloseTo(500);
+    expect(allocateContribution(rows, 0)).toEqual([]);
+  });
+
+  it('checks that targets add up to 100%', () => {
+    expect(targetsAddUp([60, 30, 10])).toBe(true);
+    expect(targetsAddUp([33.33, 33.33, 33.34])).toBe(true);
+    expect(targetsAddUp([50, 40])).toBe(false);
+  });
+});
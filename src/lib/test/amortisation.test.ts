@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildAmortisationSchedule, getAnnuityPayment, getBalanceForDate, getLiabilitySchedule, getScheduledBalance } from '@/lib/amortisation';
+
+describe('amortisation', () => {
+  it('pays off a term loan in exactly its term', () => {
+    const payment = getAnnuityPayment(10000, 6, 24);
+    expect(payment).toBeCloseTo(443.21, 2);
+
+    const schedule = buildAmortisationSchedule(10000, 6, payment, new Date(2024, 0, 15));
+    expect(schedule.rows).toHaveLength(24);
+    expect(schedule.totalInterest).toBeCloseTo(637.0, 0);
+    expect(schedule.payoffDate).toEqual(new Date(2026, 0, 15));
+    expect(getScheduledBalance(schedule, 10000, new Date(2024, 0, 31))).toBe(10000);
+    expect(getScheduledBalance(schedule, 10000, new Date(2030, 0, 1))).toBe(0);
+  });
+
+  it('derives the payment from the remaining term when none is entered', () => {
+    const schedule = getLiabilitySchedule(
+      { currentBalance: 1200, apr: 0, monthlyPayment: null, termMonths: 24, startDate: new Date(2024, 0, 1) },
+      new Date(2024, 11, 1),
+    );
+    expect(schedule.rows).toHaveLength(13);
+    expect(schedule.rows[0].payment).toBeCloseTo(1200 / 13, 6);
+  });
+
+  it("can't project a payment that doesn't cover the interest", () => {
+    const schedule = buildAmortisationSchedule(5000, 24, 100);
+    expect(schedule.rows).toHaveLength(0);
+    expect(schedule.payoffDate).toBeNull();
+    expect(getScheduledBalance(schedule, 5000, new Date(2099, 0, 1))).toBe(5000);
+  });
+
+  it('uses the balance recorded on or before a date', () => {
+    const liability = {
+      balanceHistory: [
+        { id: 'b2', balance: 800, date: new Date(2024, 5, 1) },
+        { id: 'b1', balance: 1000, date: new Date(2024, 0, 1) },
+      ],
+    };
+    expect(getBalanceForDate(liability, new Date(2023, 11, 31))).toBe(0);
+    expect(getBalanceForDate(liability, new Date(2024, 4, 31))).toBe(1000);
+    expect(getBalanceForDate(liability, new Date(2024, 5, 30))).toBe(800);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { compareWithBenchmark } from '@/lib/benchmark';
+import type { HoldingHistory } from '@/lib/performance';
+import type { InvestmentTransaction } from '@/lib/types';
+
+const trade = (id: string, type: 'buy' | 'sell', date: string, shares: number, price: number): InvestmentTransaction => ({
+  id, type, date: new Date(`${date}T12:00:00`), shares, price, fees: 0, currency: 'USD',
+});
+
+const holding: HoldingHistory = {
+  transactions: [trade('b1', 'buy', '2024-01-02', 10, 100), trade('b2', 'buy', '2024-07-01', 10, 110)],
+  prices: [
+    { date: '2024-01-02', rate: 100 },
+    { date: '2024-07-01', rate: 110 },
+    { date: '2024-12-31', rate: 121 },
+  ],
+  dividends: [],
+};
+
+const benchmark = {
+  prices: [
+    { date: '2024-01-02', rate: 50 },
+    { date: '2024-07-01', rate: 40 },
+    { date: '2024-12-31', rate: 60 },
+  ],
+  dividends: [],
+};
+
+describe('benchmark comparison', () => {
+  it('buys the benchmark with the same cash flows', () => {
+    const result = compareWithBenchmark([holding], benchmark, undefined, new Date(2024, 11, 31))!;
+    // 1000 buys 20 units at 50 and 1100 buys 27.5 at 40.
+    expect(result.points).toEqual([
+      { date: '2024-01-02', holdings: 1000, benchmark: 1000, invested: 1000 },
+      { date: '2024-07-01', holdings: 2200, benchmark: 1900, invested: 2100 },
+      { date: '2024-12-31', holdings: 2420, benchmark: 2850, invested: 2100 },
+    ]);
+    expect(result.benchmarkXirr!).toBeGreaterThan(result.holdingsXirr!);
+  });
+
+  it('sells no more of the benchmark than it holds and pays its dividends on the units held', () => {
+    const withSale = { ...holding, transactions: [...holding.transactions, trade('s1', 'sell', '2024-12-31', 20, 121)] };
+    const paying = {
+      prices: [...benchmark.prices.slice(0, 2), { date: '2024-12-31', rate: 40 }],
+      dividends: [{ date: '2024-07-01', rate: 1 }],
+    };
+    const last = compareWithBenchmark([withSale], paying, undefined, new Date(2024, 11, 31))!.points[2];
+    expect(last.invested).toBe(2100 - 2420);
+    // The dividend is paid on the 20 units held before the second buy; the 1900 left can't cover the 2420 sale.
+    expect(last.benchmark).toBeCloseTo(20);
+    expect(last.holdings).toBe(0);
+  });
+
+  it('keeps both lines level through a split', () => {
+    const split: HoldingHistory = {
+      transactions: [trade('b1', 'buy', '2024-01-02', 10, 100)],
+      prices: [
+        { date: '2024-01-02', rate: 100 },
+        { date: '2024-07-01', rate: 50 },
+      ],
+      dividends: [],
+      splits: [{ date: '2024-07-01', rate: 2 }],
+    };
+    const flat = {
+      prices: [{ date: '2024-01-02', rate: 50 }, { date: '2024-07-01', rate: 25 }],
+      dividends: [],
+      splits: [{ date: '2024-07-01', rate: 2 }],
+    };
+    const result = compareWithBenchmark([split], flat, undefined, new Date(2024, 6, 1))!;
+    expect(result.points.map(p => [p.holdings, p.benchmark])).toEqual([[1000, 1000], [1000, 1000]]);
+  });
+
+  it('needs transactions and benchmark prices', () => {
+    expect(compareWithBenchmark([{ ...holding, transactions: [] }], benchmark)).toBeNull();
+    expect(compareWithBenchmark([holding], { prices: [], dividends: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getActualsByBudgetLine, getPostingActual, getShareRatio, getVariance } from '@/lib/budget-actuals';
+
+const postings = [
+  { amount: 40, budgetLineId: 'groceries' },
+  { amount: 25, budgetLineId: 'groceries' },
+  { amount: 1200, budgetLineId: 'rent' },
+  { amount: 9.99, budgetLineId: null },
+  { amount: 15 },
+];
+
+describe('budget actuals', () => {
+  it('sums postings by the budget line they pay, leaving out unlinked ones', () => {
+    expect(getActualsByBudgetLine(postings)).toEqual(new Map([['groceries', 65], ['rent', 1200]]));
+  });
+
+  it("counts postings to a shared line at the user's planned share", () => {
+    // Rent of 1,200 planned with the user paying 300 of it
+    const shares = new Map([['rent', getShareRatio(1200, 300)]]);
+    expect(getActualsByBudgetLine(postings, shares).get('rent')).toBe(300);
+    expect(getPostingActual({ amount: 40, budgetLineId: 'groceries' }, shares)).toBe(40);
+    expect(getShareRatio(0, 0)).toBe(1);
+  });
+
+  it('treats underspending and extra income as favourable', () => {
+    expect(getVariance('expense', 300, 250)).toBe(50);
+    expect(getVariance('expense', 300, 320)).toBe(-20);
+    expect(getVariance('income', 2000, 2100)).toBe(100);
+    expect(getVariance('income', 2000, 1900)).toBe(-100);
+  });
+});
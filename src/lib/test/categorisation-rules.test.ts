@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { applyRules, previewRules } from '@/lib/categorisation-rules';
+import type { CategoryRule, Transaction } from '@/lib/types';
+
+const rule = (overrides: Partial<CategoryRule>): CategoryRule => ({
+  id: overrides.name || 'rule', userId: 'u1', name: 'rule', order: 0, transactionType: 'expense', ...overrides,
+});
+
+describe('categorisation rules', () => {
+  const rules = [
+    rule({ name: 'big shops', order: 0, nameRegex: '^(tesco|sainsbury)', minAmount: 100, setClassification: 'need', setSharing: 'house-1' }),
+    rule({ name: 'groceries', order: 1, nameContains: 'tesco', setCategoryId: 'groceries', setClassification: 'want' }),
+  ];
+
+  it('lets the first matching rule set each field', () => {
+    expect(applyRules(rules, { name: 'TESCO Metro', amount: 150, transactionType: 'expense', sharing: 'personal' }))
+      .toEqual({ categoryId: 'groceries', classification: 'need', sharing: 'house-1' });
+    expect(applyRules(rules, { name: 'TESCO Metro', amount: 20, transactionType: 'expense', sharing: 'personal' }))
+      .toEqual({ categoryId: 'groceries', classification: 'want' });
+    expect(applyRules(rules, { name: 'Tesco refund', amount: 20, transactionType: 'income', sharing: 'personal' })).toEqual({});
+  });
+
+  it('previews only the transactions that would change', () => {
+    const base = { userId: 'u1', transactionType: 'expense', frequency: 'one-off', sharing: 'personal', classification: 'want' } as const;
+    const transactions = [
+      { ...base, id: 't1', name: 'Tesco', categoryId: 'groceries', amounts: [{ id: 'a', amount: 20, date: new Date() }] },
+      { ...base, id: 't2', name: 'Tesco Extra', categoryId: 'other', amounts: [{ id: 'a', amount: 20, date: new Date() }] },
+    ] as Transaction[];
+    const preview = previewRules(rules, transactions);
+    expect(preview).toHaveLength(1);
+    expect(preview[0].transaction.id).toBe('t2');
+    expect(preview[0].changes).toEqual({ categoryId: 'groceries' });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePosition, getSharesHeld } from '@/lib/cost-basis';
+import type { InvestmentTransaction } from '@/lib/types';
+
+const tx = (id: string, type: 'buy' | 'sell', date: string, shares: number, price: number, fees = 0): InvestmentTransaction => ({
+  id, type, date: new Date(date), shares, price, fees, currency: 'USD',
+});
+
+const transactions = [
+  tx('b1', 'buy', '2023-01-10', 10, 100, 10), // 101 a share with fees
+  tx('b2', 'buy', '2023-06-10', 10, 150),
+  tx('s1', 'sell', '2024-01-10', 15, 200, 20), // Proceeds 2980
+];
+
+describe('cost basis', () => {
+  it('sells the oldest lots first with FIFO', () => {
+    const position = calculatePosition(transactions, 'fifo');
+    expect(position.shares).toBe(5);
+    expect(position.lots).toEqual([expect.objectContaining({ transactionId: 'b2', shares: 5, costPerShare: 150 })]);
+    expect(position.costBasis).toBe(750);
+    expect(position.sales[0]).toMatchObject({ proceeds: 2980, cost: 1010 + 750, gain: 1220 });
+    expect(position.realisedGain).toBe(1220);
+  });
+
+  it('sells the newest lots first with LIFO', () => {
+    const position = calculatePosition(transactions, 'lifo');
+    expect(position.lots).toEqual([expect.objectContaining({ transactionId: 'b1', shares: 5, costPerShare: 101 })]);
+    expect(position.realisedGain).toBeCloseTo(2980 - (1500 + 505));
+  });
+
+  it('sells at the pooled cost with average cost', () => {
+    const position = calculatePosition(transactions, 'average');
+    const average = (1010 + 1500) / 20;
+    expect(position.costBasis).toBeCloseTo(5 * average);
+    expect(position.realisedGain).toBeCloseTo(2980 - 15 * average);
+  });
+
+  it('flags sales of more shares than were held and converts amounts', () => {
+    const position = calculatePosition(
+      [tx('b1', 'buy', '2023-01-10', 10, 100), tx('s1', 'sell', '2023-01-09', 5, 120)],
+      'fifo',
+      amount => amount * 2,
+    );
+    expect(position.oversold).toEqual(['s1']);
+    expect(position.costBasis).toBe(2000);
+    expect(getSharesHeld(transactions, new Date('2023-12-31'))).toBe(20);
+    expect(getSharesHeld(transactions)).toBe(5);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { formatCurrency, getCurrencyFractionDigits, isCurrencyCode } from '@/lib/currency';
+
+// Intl uses narrow no-break spaces in some locales; normalise them for readable expectations.
+const plain = (value: string) => value.replace(/[\u00a0\u202f]/g, ' ');
+
+describe('currency formatting', () => {
+  it('uses the locale for separators independently of the currency', () => {
+    expect(formatCurrency(1234.5, 'USD', {}, 'en-US')).toBe('$1,234.50');
+    expect(plain(formatCurrency(1234.5, 'USD', {}, 'de-DE'))).toBe('1.234,50 $');
+    expect(plain(formatCurrency(1234.5, 'EUR', {}, 'fr-FR'))).toBe('1 234,50 €');
+  });
+
+  it('drops minor units for zero-decimal currencies', () => {
+    expect(getCurrencyFractionDigits('JPY')).toBe(0);
+    expect(getCurrencyFractionDigits('HUF')).toBe(0);
+    expect(getCurrencyFractionDigits('BHD')).toBe(3);
+    expect(formatCurrency(1234.56, 'JPY', {}, 'en-US')).toBe('¥1,235');
+    expect(plain(formatCurrency(1234567.4, 'HUF', {}, 'hu-HU'))).toBe('1 234 567 Ft');
+  });
+
+  it('keeps the fraction digit range valid when a caller pins one end', () => {
+    expect(formatCurrency(1234.56, 'USD', { maximumFractionDigits: 0 }, 'en-US')).toBe('$1,235');
+    expect(formatCurrency(1234, 'JPY', { minimumFractionDigits: 2 }, 'en-US')).toBe('¥1,234.00');
+  });
+
+  it('recognises active ISO 4217 codes only', () => {
+    expect(isCurrencyCode('CHF')).toBe(true);
+    expect(isCurrencyCode('HRK')).toBe(false);
+    expect(isCurrencyCode(null)).toBe(false);
+  });
+});
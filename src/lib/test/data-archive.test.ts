@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { ARCHIVE_VERSION, createArchive, parseArchive, planRestore, serializeArchive, type ArchiveCollections } from '@/lib/data-archive';
+
+const emptyCollections = (): ArchiveCollections => ({
+  transactions: [], postings: [], savings: [], assets: [], liabilities: [], investments: [],
+  expenseCategories: [], incomeCategories: [], assetTypes: [], categoryRules: [], importProfiles: [], manualRates: [], allocationTargets: [],
+});
+
+describe('data archive', () => {
+  it('round-trips dates and rejects archives from a newer version', () => {
+    const collections = emptyCollections();
+    collections.liabilities.push({ id: 'l1', userId: 'old', name: 'Card', type: 'credit_card', currentBalance: 10, apr: 20, balanceHistory: [] });
+    collections.postings.push({ id: 'p1', userId: 'old', transactionType: 'expense', amount: 5, date: new Date('2024-03-01T10:00:00.000Z'), payee: 'Cafe' });
+    const text = serializeArchive(createArchive('old', collections, { 'app-currency': 'EUR' }));
+
+    const parsed = parseArchive(text.replace('"payee": "Cafe"', '"payee": "2024-03-01T10:00:00.000Z"'));
+    expect(parsed.collections.postings[0].date).toBeInstanceOf(Date);
+    expect(parsed.collections.postings[0].payee).toBe('2024-03-01T10:00:00.000Z');
+    expect(parsed.settings).toEqual({ 'app-currency': 'EUR' });
+
+    expect(() => parseArchive(text.replace(`"version": ${ARCHIVE_VERSION}`, `"version": ${ARCHIVE_VERSION + 1}`))).toThrow(/newer version/);
+    expect(() => parseArchive('{"hello": true}')).toThrow(/not a data archive/);
+  });
+
+  it('re-keys documents and rewrites references between them', () => {
+    const collections = emptyCollections();
+    collections.expenseCategories.push({ id: 'cat-old', userId: 'old', name: 'Pets', icon: 'Dog', color: 'red' });
+    collections.transactions.push(
+      { id: 't-old', userId: 'old', name: 'Vet', transactionType: 'expense', frequency: 'one-off', amounts: [], categoryId: 'cat-old', sharing: 'house-kept' },
+      { id: 't-left', userId: 'old', name: 'Rent', transactionType: 'expense', frequency: 'recurring', amounts: [], categoryId: 'default-expenseCategories-Housing', sharing: 'house-left' },
+    );
+    collections.postings.push({ id: 'p-old', userId: 'old', transactionType: 'expense', amount: 40, date: new Date(), payee: 'Vet', budgetLineId: 't-old', categoryId: 'cat-old' });
+
+    let counter = 0;
+    const plan = planRestore(createArchive('old', collections, {}), { userId: 'new', householdIds: ['house-kept'], newId: name => `${name}-${++counter}` });
+
+    const [vet, rent] = plan.transactions;
+    const pets = plan.expenseCategories[0];
+    expect(vet.id).not.toBe('t-old');
+    expect(vet.data).toMatchObject({ userId: 'new', categoryId: pets.id, sharing: 'house-kept' });
+    expect(rent.data).toMatchObject({ categoryId: 'default-expenseCategories-Housing', sharing: 'personal' });
+    expect(plan.postings[0].data).toMatchObject({ budgetLineId: vet.id, categoryId: pets.id });
+  });
+});
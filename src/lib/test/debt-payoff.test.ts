@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { orderDebts, planToBudgetLines, simulatePayoff, type PayoffDebt } from '@/lib/debt-payoff';
+
+const debts: PayoffDebt[] = [
+  { id: 'card', name: 'Credit Card', balance: 3000, apr: 22, minimumPayment: 90 },
+  { id: 'car', name: 'Car Loan', balance: 1000, apr: 6, minimumPayment: 100 },
+];
+
+describe('debt payoff', () => {
+  it('orders debts by strategy', () => {
+    expect(orderDebts(debts, 'avalanche').map(d => d.id)).toEqual(['card', 'car']);
+    expect(orderDebts(debts, 'snowball').map(d => d.id)).toEqual(['car', 'card']);
+    expect(orderDebts(debts, 'custom', ['car']).map(d => d.id)).toEqual(['car', 'card']);
+  });
+
+  it('rolls freed-up payments into the next debt and costs less interest with avalanche', () => {
+    const avalanche = simulatePayoff(debts, 400, 'avalanche', [], new Date(2025, 0, 10));
+    const snowball = simulatePayoff(debts, 400, 'snowball', [], new Date(2025, 0, 10));
+
+    expect(avalanche.monthsToDebtFree).not.toBeNull();
+    expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest);
+    expect(snowball.payoffPeriods.car).toBeLessThan(snowball.payoffPeriods.card!);
+
+    const firstMonth = snowball.months[0];
+    expect(firstMonth.payments).toEqual({ car: 310, card: 90 });
+    expect(firstMonth.date).toEqual(new Date(2025, 1, 1));
+    const afterCar = snowball.months[snowball.payoffPeriods.car!];
+    expect(afterCar.payments.card).toBeCloseTo(400, 6);
+  });
+
+  it("reports no debt-free date when the budget can't outpace the interest", () => {
+    const plan = simulatePayoff([{ id: 'card', name: 'Card', balance: 10000, apr: 30, minimumPayment: 0 }], 200, 'avalanche');
+    expect(plan.monthsToDebtFree).toBeNull();
+  });
+
+  it('turns the plan into recurring budget lines that end at payoff', () => {
+    const plan = simulatePayoff(debts, 400, 'snowball', [], new Date(2025, 0, 10));
+    const [car, card] = planToBudgetLines(plan, orderDebts(debts, 'snowball'), { userId: 'u1', categoryId: 'cat' });
+
+    expect(car).toMatchObject({ name: 'Car Loan payment', frequency: 'recurring', transactionType: 'expense', sharing: 'personal' });
+    expect(car.endDate).toEqual(plan.months[plan.payoffPeriods.car! - 1].date);
+    expect(card.amounts[0]).toMatchObject({ amount: 90, date: new Date(2025, 1, 1) });
+    expect(card.amounts.some(a => a.amount === 400)).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createReinvestment, findUnrecordedDividends, getCashDividendIncome, summariseDividendsByYear } from '@/lib/dividends';
+import type { Investment, InvestmentDividend, InvestmentTransaction } from '@/lib/types';
+
+const buy = (id: string, date: string, shares: number): InvestmentTransaction => ({
+  id, type: 'buy', date: new Date(`${date}T12:00:00`), shares, price: 100, fees: 0, currency: 'USD',
+});
+
+const dividend = (id: string, date: string, grossAmount: number, withholdingTax: number, handling: InvestmentDividend['handling'], exDate: string | null = null): InvestmentDividend => ({
+  id, date: new Date(`${date}T12:00:00`), exDate: exDate ? new Date(`${exDate}T00:00:00`) : null, grossAmount, withholdingTax, currency: 'USD', handling, reinvestTransactionId: null,
+});
+
+describe('dividends', () => {
+  it('offers market dividends the holding qualified for and has not recorded', () => {
+    const transactions = [buy('b1', '2024-01-10', 10), buy('b2', '2024-06-14', 5)];
+    const market = [
+      { date: '2024-01-05T00:00:00.000Z', amount: 0.5 }, // Before the first buy
+      { date: '2024-03-15T00:00:00.000Z', amount: 0.5 },
+      { date: '2024-06-14T00:00:00.000Z', amount: 0.5 }, // Bought on the ex-date: doesn't qualify
+      { date: '2024-09-13T00:00:00.000Z', amount: 0.6 },
+    ];
+    const recorded = [dividend('d1', '2024-04-01', 5, 0.75, 'cash', '2024-03-15')];
+
+    const unrecorded = findUnrecordedDividends(transactions, market, recorded);
+    expect(unrecorded.map(d => [d.exDate.getMonth() + 1, d.shares, d.grossAmount])).toEqual([
+      [9, 15, 9],
+      [6, 10, 5],
+    ]);
+  });
+
+  it('reinvests the net amount in fractional shares', () => {
+    const reinvestment = createReinvestment(dividend('d1', '2024-04-01', 10, 1.5, 'reinvest'), 170, 'tx');
+    expect(reinvestment).toMatchObject({ id: 'tx', type: 'buy', price: 170, fees: 0, currency: 'USD' });
+    expect(reinvestment.shares).toBeCloseTo(0.05);
+  });
+
+  it('sums each year and counts only cash dividends as income', () => {
+    const dividends = [
+      dividend('d1', '2023-12-20', 10, 1.5, 'cash'),
+      dividend('d2', '2024-03-20', 12, 1.8, 'reinvest'),
+      dividend('d3', '2024-06-20', 12, 1.8, 'cash'),
+    ];
+    const years = summariseDividendsByYear(dividends, amount => amount * 2);
+    expect(years.map(y => y.year)).toEqual([2024, 2023]);
+    expect(years[0]).toMatchObject({ gross: 48, payments: 2 });
+    expect(years[0].net).toBeCloseTo(40.8);
+    expect(years[0].reinvested).toBeCloseTo(20.4);
+
+    const investment = { id: 'i1', userId: 'u', ticker: 'KO', name: 'Coca-Cola', exchange: 'NYSE', quoteCurrency: 'USD', priceSource: 'market', manualPrices: [], costBasisMethod: 'fifo', transactions: [], dividends } satisfies Investment;
+    const income = getCashDividendIncome([investment], new Date(2024, 0, 1), new Date(2024, 11, 31), () => 0.9);
+    expect(income.map(i => i.dividend.id)).toEqual(['d3']);
+    expect(income[0].amount).toBeCloseTo(10.2 * 0.9);
+    expect(getCashDividendIncome([investment], new Date(2024, 0, 1), new Date(2024, 11, 31), () => null)[0].amount).toBeNull();
+  });
+});
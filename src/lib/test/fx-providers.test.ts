@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createFixtureProvider, createManualRateProvider, resolveConversionRate, resolveRateSeries } from '@/lib/fx-providers';
+import { createRateLookup } from '@/lib/fx-rates';
+
+const fixtures = createFixtureProvider({
+  'USD-EUR': [
+    { date: '2024-01-02', rate: 0.91 },
+    { date: '2024-02-01', rate: 0.92 },
+    { date: '2024-03-01', rate: 0.93 },
+  ],
+  'GBP-EUR': [{ date: '2024-01-02', rate: 1.15 }],
+});
+
+describe('fx providers', () => {
+  it('uses the first provider that quotes a pair and records its source', async () => {
+    const manual = createManualRateProvider([
+      { from: 'EUR', to: 'HUF', rate: 400, date: new Date(2024, 0, 1) },
+      { from: 'USD', to: 'EUR', rate: 0.9, date: new Date(2024, 0, 1) },
+    ]);
+    const series = await resolveRateSeries([manual, fixtures], ['USD', 'GBP', 'HUF', 'EUR', 'JPY'], 'EUR', new Date(2024, 1, 15), new Date(2024, 2, 31));
+
+    expect(series.USD).toEqual({ source: 'manual', rates: [{ date: '2024-01-01', rate: 0.9 }] });
+    expect(series.GBP?.source).toBe('fixture');
+    expect(series.HUF).toEqual({ source: 'manual', rates: [{ date: '2024-01-01', rate: 1 / 400 }] });
+    expect(series.JPY).toBeNull();
+    expect('EUR' in series).toBe(false);
+  });
+
+  it('falls back to the next provider for dates before the first manual entry', async () => {
+    const manual = createManualRateProvider([{ from: 'USD', to: 'EUR', rate: 0.95, date: new Date(2024, 1, 20) }]);
+    const series = await resolveRateSeries([manual, fixtures], ['USD'], 'EUR', new Date(2024, 0, 15), new Date(2024, 2, 31));
+    const lookup = createRateLookup('EUR', series);
+
+    expect(series.USD?.source).toBe('manual');
+    expect(lookup('USD', new Date(2024, 0, 20))).toBe(0.91);
+    expect(lookup('USD', new Date(2024, 1, 19))).toBe(0.92);
+    expect(lookup('USD', new Date(2024, 2, 15))).toBe(0.95);
+  });
+
+  it('converts pence quotes through pounds', async () => {
+    expect(await resolveConversionRate([fixtures], 'GBX', 'EUR')).toEqual({ date: '2024-01-02', rate: 0.0115, source: 'fixture' });
+    expect((await resolveConversionRate([fixtures], 'GBX', 'GBP'))?.rate).toBe(0.01);
+
+    const series = await resolveRateSeries([fixtures], ['GBX'], 'EUR', new Date(2024, 0, 15), new Date(2024, 0, 31));
+    expect(Object.keys(series)).toEqual(['GBP']);
+    expect(createRateLookup('EUR', series)('GBX', new Date(2024, 0, 2))).toBe(0.0115);
+  });
+
+  it('keeps the rate in effect at the start of the range', async () => {
+    const series = await resolveRateSeries([fixtures], ['USD'], 'EUR', new Date(2024, 1, 15), new Date(2024, 1, 29));
+    expect(series.USD?.rates).toEqual([{ date: '2024-02-01', rate: 0.92 }]);
+  });
+
+  it('reports the latest rate and falls through providers without one', async () => {
+    const empty = createManualRateProvider([]);
+    expect(await resolveConversionRate([empty, fixtures], 'USD', 'EUR')).toEqual({ date: '2024-03-01', rate: 0.93, source: 'fixture' });
+    expect(await resolveConversionRate([empty, fixtures], 'EUR', 'USD')).toBeNull();
+  });
+});
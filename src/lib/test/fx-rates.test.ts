@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { createRateLookup, getRateForDate } from '@/lib/fx-rates';
+
+const series = [
+  { date: '2024-03-01', rate: 0.92 }, // Friday
+  { date: '2024-03-04', rate: 0.93 },
+  { date: '2024-03-05', rate: 0.91 },
+];
+
+describe('fx rates', () => {
+  it('converts at the latest rate published on or before the date', () => {
+    expect(getRateForDate(series, new Date(2024, 2, 1))).toBe(0.92);
+    expect(getRateForDate(series, new Date(2024, 2, 3))).toBe(0.92); // Weekend uses Friday's rate
+    expect(getRateForDate(series, new Date(2024, 2, 4, 18))).toBe(0.93);
+    expect(getRateForDate(series, new Date(2024, 2, 12))).toBe(0.91);
+  });
+
+  it('reports a rate as unavailable instead of falling back to 1:1', () => {
+    expect(getRateForDate(series, new Date(2024, 1, 29))).toBeNull();
+    expect(getRateForDate(series, new Date(2024, 2, 13))).toBeNull();
+    expect(getRateForDate([], new Date(2024, 2, 1))).toBeNull();
+
+    const lookup = createRateLookup('EUR', { USD: { source: 'frankfurter', rates: series }, HUF: null });
+    expect(lookup('EUR', new Date(2000, 0, 1))).toBe(1);
+    expect(lookup('USD', new Date(2024, 2, 4))).toBe(0.93);
+    expect(lookup('HUF', new Date(2024, 2, 4))).toBeNull();
+    expect(lookup('GBP', new Date(2024, 2, 4))).toBeNull();
+  });
+
+  it('keeps a manual rate in effect until the next entry', () => {
+    const lookup = createRateLookup('EUR', { HUF: { source: 'manual', rates: [{ date: '2023-01-01', rate: 0.0025 }] } });
+    expect(lookup('HUF', new Date(2024, 5, 1))).toBe(0.0025);
+    expect(lookup('HUF', new Date(2022, 11, 31))).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { canRemoveMember, getMemberRole, hasPermission } from '@/lib/household-roles';
+import type { Household } from '@/lib/types';
+
+const household: Pick<Household, 'ownerId' | 'memberIds' | 'roles'> = {
+  ownerId: 'ann',
+  memberIds: ['ann', 'bob', 'cat', 'dan', 'eve'],
+  roles: { bob: 'admin', cat: 'editor', dan: 'viewer', ann: 'viewer' },
+};
+
+describe('household roles', () => {
+  it('reads roles from the owner and the roles map, defaulting members to editors', () => {
+    expect(getMemberRole(household, 'ann')).toBe('owner');
+    expect(getMemberRole(household, 'bob')).toBe('admin');
+    expect(getMemberRole(household, 'dan')).toBe('viewer');
+    expect(getMemberRole(household, 'eve')).toBe('editor');
+    expect(getMemberRole({ ownerId: 'ann', memberIds: ['ann', 'bob'] }, 'bob')).toBe('editor');
+    expect(getMemberRole(household, 'zed')).toBeNull();
+  });
+
+  it('grants each role its permissions', () => {
+    expect(hasPermission(household, 'ann', 'manageRoles')).toBe(true);
+    expect(hasPermission(household, 'bob', 'manageRoles')).toBe(false);
+    expect(hasPermission(household, 'bob', 'editIncomes')).toBe(true);
+    expect(hasPermission(household, 'cat', 'manageSplitRule')).toBe(false);
+    expect(hasPermission(household, 'cat', 'editShared')).toBe(true);
+    expect(hasPermission(household, 'dan', 'editShared')).toBe(false);
+    expect(hasPermission(household, 'zed', 'editShared')).toBe(false);
+    expect(hasPermission(undefined, 'ann', 'rename')).toBe(false);
+  });
+
+  it('only lets members who manage members remove those below them', () => {
+    expect(canRemoveMember(household, 'ann', 'bob')).toBe(true);
+    expect(canRemoveMember(household, 'bob', 'cat')).toBe(true);
+    expect(canRemoveMember(household, 'bob', 'ann')).toBe(false);
+    expect(canRemoveMember(household, 'bob', 'bob')).toBe(false);
+    expect(canRemoveMember(household, 'cat', 'dan')).toBe(false);
+    expect(canRemoveMember(household, 'ann', 'ann')).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { getMemberShare, splitExpense, validateSplitOverride } from '@/lib/household-splits';
+import type { Household, Member } from '@/lib/types';
+
+const member = (id: string, income = 0): Member => ({
+  id,
+  name: id,
+  email: `${id}@example.com`,
+  incomeHistory: income > 0 ? [{ id: `${id}-income`, amount: income, date: new Date(2024, 0, 1) }] : [],
+});
+
+const household = (overrides: Partial<Household> = {}): Household => ({
+  id: 'h1',
+  ownerId: 'ann',
+  name: 'Home',
+  members: [member('ann', 3000), member('bob', 1000), member('cat')],
+  memberIds: ['ann', 'bob', 'cat'],
+  splitType: 'equal',
+  ...overrides,
+});
+
+const today = new Date(2024, 5, 1);
+
+describe('household splits', () => {
+  it('uses the household rule when the expense has no split of its own', () => {
+    expect(splitExpense(household(), { split: null }, 90, today).map(s => s.amount)).toEqual([30, 30, 30]);
+    expect(splitExpense(household({ splitType: 'income_ratio' }), {}, 100, today).map(s => s.amount)).toEqual([75, 25, 0]);
+  });
+
+  it('splits by income ratio with the incomes in effect on the given date', () => {
+    const raised = household({ splitType: 'income_ratio' });
+    raised.members[1].incomeHistory!.push({ id: 'bob-raise', amount: 3000, date: new Date(2024, 4, 15) });
+    expect(getMemberShare(raised, {}, 100, 'bob', new Date(2024, 3, 30))).toBe(25);
+    expect(getMemberShare(raised, {}, 100, 'bob', new Date(2024, 4, 31))).toBe(50);
+  });
+
+  it('divides by the expense split instead of the household rule', () => {
+    const incomeRatio = household({ splitType: 'income_ratio' });
+    expect(splitExpense(incomeRatio, { split: { type: 'exact', splits: [{ memberId: 'ann', share: 20 }, { memberId: 'cat', share: 80 }] } }, 100, today))
+      .toEqual([{ memberId: 'ann', amount: 20 }, { memberId: 'cat', amount: 80 }]);
+    expect(splitExpense(incomeRatio, { split: { type: 'percent', splits: [{ memberId: 'bob', share: 40 }, { memberId: 'cat', share: 60 }] } }, 50, today).map(s => s.amount))
+      .toEqual([20, 30]);
+    expect(splitExpense(incomeRatio, { split: { type: 'members', splits: [{ memberId: 'ann', share: 5 }, { memberId: 'bob', share: 1 }] } }, 50, today).map(s => s.amount))
+      .toEqual([25, 25]);
+  });
+
+  it('gives nothing to members left out of the split or outside the household', () => {
+    const expense = { split: { type: 'shares' as const, splits: [{ memberId: 'ann', share: 3 }, { memberId: 'bob', share: 1 }] } };
+    expect(getMemberShare(household(), expense, 100, 'bob', today)).toBe(25);
+    expect(getMemberShare(household(), expense, 100, 'cat', today)).toBe(0);
+    expect(getMemberShare(household(), expense, 100, 'dan', today)).toBe(0);
+    expect(getMemberShare(undefined, expense, 100, 'ann', today)).toBe(0);
+  });
+
+  it('only accepts splits that add up', () => {
+    expect(validateSplitOverride({ type: 'exact', splits: [{ memberId: 'ann', share: 60 }, { memberId: 'bob', share: 40 }] }, 100)).toBeNull();
+    expect(validateSplitOverride({ type: 'exact', splits: [{ memberId: 'ann', share: 60 }] }, 100)).toMatch(/60\.00, not the expense's 100\.00/);
+    expect(validateSplitOverride({ type: 'percent', splits: [{ memberId: 'ann', share: 33.33 }, { memberId: 'bob', share: 66.67 }] }, 100)).toBeNull();
+    expect(validateSplitOverride({ type: 'percent', splits: [{ memberId: 'ann', share: 50 }] }, 100)).toMatch(/not 100%/);
+    expect(validateSplitOverride({ type: 'shares', splits: [] }, 100)).not.toBeNull();
+    expect(validateSplitOverride({ type: 'members', splits: [] }, 100)).not.toBeNull();
+    expect(validateSplitOverride({ type: 'shares', splits: [{ memberId: 'ann', share: -1 }, { memberId: 'bob', share: 2 }] }, 100)).toMatch(/negative/);
+  });
+});
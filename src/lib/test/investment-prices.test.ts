@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getManualQuote, toManualPriceHistory } from '@/lib/investment-prices';
+import { guessListing } from '@/lib/exchanges';
+import type { InvestmentPrice } from '@/lib/types';
+
+const price = (id: string, date: string, value: number): InvestmentPrice => ({ id, date: new Date(`${date}T12:00:00`), price: value });
+
+describe('investment prices', () => {
+  it('reads manual prices as a price history in date order', () => {
+    const history = toManualPriceHistory([price('p2', '2024-06-30', 110), price('p1', '2024-03-31', 100)]);
+    expect(history.dividends).toEqual([]);
+    expect(history.splits).toEqual([]);
+    expect(history.prices).toEqual([
+      { date: '2024-03-31T00:00:00.000Z', close: 100, unadjustedClose: 100, volume: 0 },
+      { date: '2024-06-30T00:00:00.000Z', close: 110, unadjustedClose: 110, volume: 0 },
+    ]);
+  });
+
+  it('quotes the latest manual price against the one before it', () => {
+    expect(getManualQuote([])).toBeNull();
+    expect(getManualQuote([price('p1', '2024-03-31', 100)])).toEqual({ price: 100, change: 0, changePercent: 0 });
+    expect(getManualQuote([price('p2', '2024-06-30', 110), price('p1', '2024-03-31', 100)])).toEqual({ price: 110, change: 10, changePercent: 10 });
+  });
+
+  it('guesses the exchange and quote currency from the country', () => {
+    expect(guessListing('HU')).toEqual({ exchange: 'BÉT', currency: 'HUF' });
+    expect(guessListing('us')).toEqual({ exchange: null, currency: 'USD' }); // NYSE or Nasdaq
+    expect(guessListing(undefined)).toEqual({ exchange: null, currency: 'USD' });
+  });
+});
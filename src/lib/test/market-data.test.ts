@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createFixtureMarketDataProvider, getFullHistory, type MarketDataFixtures } from '@/lib/market-data';
+import bundled from '@/services/fixtures/market-data.json';
+
+const provider = createFixtureMarketDataProvider({
+  ACME: {
+    name: 'Acme Corp',
+    type: 'Stock',
+    countryCode: 'US',
+    exchange: 'NYSE',
+    currency: 'USD',
+    prices: [
+      { date: '2024-01-02', close: 25, unadjustedClose: 100 },
+      { date: '2024-02-01', close: 27.5, unadjustedClose: 110 },
+      { date: '2024-03-01', close: 30 },
+    ],
+    dividends: [{ date: '2024-02-10', amount: 0.5 }],
+    splits: [{ date: '2024-02-15', ratio: 4 }],
+  },
+});
+
+describe('market data', () => {
+  it('searches fixture securities by ticker and name', async () => {
+    expect(await provider.search('acme')).toEqual({
+      ok: true,
+      data: [{ uniqueKey: 'ACME', symbol: 'ACME', name: 'Acme Corp', type: 'Stock', region: 'US', exchange: 'NYSE', currency: 'USD' }],
+    });
+    expect(await provider.search('zzz')).toEqual({ ok: true, data: [] });
+  });
+
+  it('quotes the latest traded price against the one before it', async () => {
+    expect(await provider.getQuote('acme')).toEqual({ ok: true, data: { price: 30, change: -80, changePercent: -80 / 110 * 100 } });
+  });
+
+  it('fails with not-found for unknown tickers instead of a price of 0', async () => {
+    expect(await provider.getQuote('NOPE')).toEqual({ ok: false, error: 'not-found' });
+    expect(await getFullHistory(provider, 'NOPE', new Date(2024, 0, 1))).toEqual({ ok: false, error: 'not-found' });
+  });
+
+  it('returns prices, dividends and splits from the start date', async () => {
+    const history = await getFullHistory(provider, 'ACME', new Date(2024, 1, 1));
+    expect(history).toEqual({
+      ok: true,
+      data: {
+        prices: [
+          { date: '2024-02-01T00:00:00.000Z', close: 27.5, unadjustedClose: 110, volume: 0 },
+          { date: '2024-03-01T00:00:00.000Z', close: 30, unadjustedClose: 30, volume: 0 },
+        ],
+        dividends: [{ date: '2024-02-10T00:00:00.000Z', amount: 0.5 }],
+        splits: [{ date: '2024-02-15T00:00:00.000Z', ratio: 4 }],
+      },
+    });
+  });
+
+  it('bundles fixtures with prices in date order', () => {
+    Object.values(bundled as MarketDataFixtures).forEach(security => {
+      const dates = security.prices.map(p => p.date);
+      expect(dates.length).toBeGreaterThan(0);
+      expect([...dates].sort()).toEqual(dates);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, percentile, runMonteCarlo } from '@/lib/monte-carlo';
+
+describe('monte carlo projections', () => {
+  it('is repeatable for a given seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([0, 10], 0.1)).toBe(1);
+  });
+
+  it('collapses to the deterministic projection without volatility', () => {
+    const result = runMonteCarlo({
+      assetClasses: [{ name: 'Savings', value: 1000, meanReturn: 0, volatility: 0 }],
+      monthlyContribution: 100,
+      months: 12,
+      simulations: 50,
+      getDebtForMonth: month => Math.max(0, 600 - month * 50),
+    });
+    const last = result.bands[11];
+    expect(last.p10).toBeCloseTo(2200, 6);
+    expect(last.p90).toBeCloseTo(2200, 6);
+  });
+
+  it('widens the bands with volatility and keeps the median near the expected return', () => {
+    const result = runMonteCarlo({
+      assetClasses: [{ name: 'Investment', value: 10000, meanReturn: 7, volatility: 15 }],
+      monthlyContribution: 0,
+      months: 120,
+      simulations: 4000,
+      target: 20000,
+    });
+    const last = result.bands[119];
+    expect(last.p10).toBeLessThan(last.p50);
+    expect(last.p50).toBeLessThan(last.p90);
+    // Log-normal median sits below the mean of 10000 * 1.07^10 ≈ 19672.
+    expect(last.p50).toBeGreaterThan(15000);
+    expect(last.p50).toBeLessThan(19672);
+    expect(result.probabilityOfTarget).toBeGreaterThan(0.2);
+    expect(result.probabilityOfTarget).toBeLessThan(0.8);
+  });
+});
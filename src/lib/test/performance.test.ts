@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePerformance, xirr, type HoldingHistory } from '@/lib/performance';
+import type { InvestmentTransaction } from '@/lib/types';
+
+const buy = (id: string, date: string, shares: number, price: number): InvestmentTransaction => ({
+  id, type: 'buy', date: new Date(`${date}T12:00:00`), shares, price, fees: 0, currency: 'USD',
+});
+
+const holding: HoldingHistory = {
+  transactions: [buy('b1', '2024-01-02', 10, 100), buy('b2', '2024-07-01', 10, 110)],
+  prices: [
+    { date: '2024-01-02', rate: 100 },
+    { date: '2024-07-01', rate: 110 },
+    { date: '2024-12-31', rate: 121 },
+    { date: '2025-02-28', rate: 130 },
+  ],
+  dividends: [],
+};
+
+describe('performance', () => {
+  it('chains the growth between contributions for the time-weighted return', () => {
+    const result = calculatePerformance([holding], 'inception', undefined, new Date(2024, 11, 31))!;
+    expect(result.endValue).toBe(2420);
+    expect(result.twr).toBeCloseTo(0.21);
+    expect(result.annualisedTwr).toBeNull();
+
+    // The money-weighted rate discounts the flows to zero.
+    const rate = result.xirr!;
+    const years = (date: string) => (new Date(date).getTime() - new Date('2024-01-02').getTime()) / (365 * 86400000);
+    const npv = -1000 - 1100 / Math.pow(1 + rate, years('2024-07-01')) + 2420 / Math.pow(1 + rate, years('2024-12-31'));
+    expect(Math.abs(npv)).toBeLessThan(0.01);
+  });
+
+  it('counts dividends as returned cash', () => {
+    const withDividend = { ...holding, dividends: [{ date: '2024-10-01', rate: 1 }] };
+    const result = calculatePerformance([withDividend], 'inception', undefined, new Date(2024, 11, 31))!;
+    expect(result.dividends).toBe(20);
+    expect(result.twr).toBeCloseTo(1.1 * (2440 / 2200) - 1);
+    expect(result.xirr!).toBeGreaterThan(calculatePerformance([holding], 'inception', undefined, new Date(2024, 11, 31))!.xirr!);
+  });
+
+  it('scales the shares held by splits since they were bought', () => {
+    // A 4-for-1 split drops the unadjusted close from 400 to 100.
+    const split: HoldingHistory = {
+      transactions: [buy('b1', '2020-08-03', 10, 400), buy('b2', '2020-10-01', 4, 105)],
+      prices: [
+        { date: '2020-08-03', rate: 400 },
+        { date: '2020-08-28', rate: 400 },
+        { date: '2020-08-31', rate: 100 },
+        { date: '2020-10-01', rate: 105 },
+        { date: '2020-12-31', rate: 110 },
+      ],
+      dividends: [{ date: '2020-11-06', rate: 0.5 }],
+      splits: [{ date: '2020-08-31', rate: 4 }],
+    };
+    const result = calculatePerformance([split], 'inception', undefined, new Date(2020, 11, 31))!;
+    expect(result.endValue).toBe(44 * 110);
+    expect(result.dividends).toBe(22);
+    expect(result.twr).toBeCloseTo((4200 / 4000) * ((4840 + 22) / 4620) - 1);
+  });
+
+  it('starts a later period from the value held coming into it', () => {
+    const result = calculatePerformance([holding], 'ytd', undefined, new Date(2025, 1, 28))!;
+    expect(result.startValue).toBe(2420);
+    expect(result.twr).toBeCloseTo(2600 / 2420 - 1);
+  });
+
+  it('has no rate without money going both ways', () => {
+    expect(xirr([{ date: new Date(2024, 0, 1), amount: -100 }])).toBeNull();
+    expect(xirr([{ date: new Date(2024, 0, 1), amount: -100 }, { date: new Date(2025, 0, 1), amount: 110 }])).toBeCloseTo(0.1, 3);
+  });
+});
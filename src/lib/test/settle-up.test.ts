@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { getExpenseOccurrences, getMemberBalances, suggestTransfers } from '@/lib/settle-up';
+import type { Expense, Household, Member } from '@/lib/types';
+
+const member = (id: string, income = 0): Member => ({
+  id,
+  name: id,
+  email: `${id}@example.com`,
+  incomeHistory: income > 0 ? [{ id: `${id}-income`, amount: income, date: new Date(2024, 0, 1) }] : [],
+});
+
+const household = (overrides: Partial<Household> = {}): Household => ({
+  id: 'h1',
+  ownerId: 'ann',
+  name: 'Home',
+  members: [member('ann', 3000), member('bob', 1000)],
+  memberIds: ['ann', 'bob'],
+  splitType: 'equal',
+  ...overrides,
+});
+
+const expense = (overrides: Partial<Expense> = {}): Expense => ({
+  id: 'rent',
+  userId: 'ann',
+  name: 'Rent',
+  transactionType: 'expense',
+  frequency: 'recurring',
+  amounts: [{ id: 'a1', amount: 1000, date: new Date(2024, 0, 1) }],
+  sharing: 'h1',
+  ...overrides,
+});
+
+describe('settle up', () => {
+  it('counts every month a recurring expense ran, at the amount then', () => {
+    const rent = expense({ amounts: [{ id: 'a1', amount: 1000, date: new Date(2024, 0, 1) }, { id: 'a2', amount: 1100, date: new Date(2024, 2, 1) }] });
+    expect(getExpenseOccurrences(rent, new Date(2024, 3, 10)).map(o => o.amount)).toEqual([1000, 1000, 1100, 1100]);
+    expect(getExpenseOccurrences({ ...rent, endDate: new Date(2024, 1, 20) }, new Date(2024, 3, 10))).toHaveLength(2);
+    expect(getExpenseOccurrences({ ...rent, frequency: 'one-off' }, new Date(2024, 3, 10))).toHaveLength(1);
+    expect(getExpenseOccurrences(rent, new Date(2023, 11, 31))).toEqual([]);
+  });
+
+  it('credits the creator with paying unless payers are recorded', () => {
+    const asOf = new Date(2024, 1, 15);
+    const [ann, bob] = getMemberBalances(household(), [expense()], asOf);
+    expect(ann).toEqual({ memberId: 'ann', paid: 2000, owed: 1000, settled: 0, balance: 1000 });
+    expect(bob.balance).toBe(-1000);
+
+    const shared = expense({ payers: [{ memberId: 'ann', share: 1 }, { memberId: 'bob', share: 1 }] });
+    expect(getMemberBalances(household(), [shared], asOf).map(b => b.balance)).toEqual([0, 0]);
+  });
+
+  it('splits what is owed by the household rule and nets off settlements', () => {
+    const incomeRatio = household({
+      splitType: 'income_ratio',
+      settlements: [{ id: 's1', fromMemberId: 'bob', toMemberId: 'ann', amount: 200, date: new Date(2024, 0, 20), recordedBy: 'bob' }],
+    });
+    const [ann, bob] = getMemberBalances(incomeRatio, [expense()], new Date(2024, 0, 31));
+    expect(ann).toMatchObject({ paid: 1000, owed: 750, settled: -200, balance: 50 });
+    expect(bob).toMatchObject({ paid: 0, owed: 250, settled: 200, balance: -50 });
+  });
+
+  it('suggests as few transfers as it takes to even out balances', () => {
+    expect(suggestTransfers([
+      { memberId: 'ann', balance: 60 },
+      { memberId: 'bob', balance: -50 },
+      { memberId: 'cat', balance: -10 },
+      { memberId: 'dan', balance: 0.001 },
+    ])).toEqual([
+      { fromMemberId: 'bob', toMemberId: 'ann', amount: 50 },
+      { fromMemberId: 'cat', toMemberId: 'ann', amount: 10 },
+    ]);
+    expect(suggestTransfers([{ memberId: 'ann', balance: 0 }])).toEqual([]);
+  });
+});
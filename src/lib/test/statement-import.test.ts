@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { applyCsvMapping, detectStatementFormat, findDuplicate, parseAmount, parseCsv, parseOfx, parseQif } from '@/lib/statement-import';
+import type { Transaction } from '@/lib/types';
+
+describe('statement import', () => {
+  it('parses quoted CSV cells and maps columns', () => {
+    const rows = parseCsv('Date,Description,Amount\n2024-03-01,"Tesco, Camden",-12.50\n2024-03-02,Salary,"2,000.00"\n');
+    expect(rows[1]).toEqual(['2024-03-01', 'Tesco, Camden', '-12.50']);
+
+    const parsed = applyCsvMapping(rows, {
+      delimiter: ',', hasHeader: true, dateFormat: 'yyyy-MM-dd',
+      dateColumn: 0, descriptionColumn: 1, amountColumn: 2,
+    });
+    expect(parsed.map(r => [r.name, r.amount])).toEqual([['Tesco, Camden', -12.5], ['Salary', 2000]]);
+  });
+
+  it('combines separate debit and credit columns', () => {
+    const parsed = applyCsvMapping([['01/03/2024', 'Rent', '950,00', '']], {
+      delimiter: ',', hasHeader: false, dateFormat: 'dd/MM/yyyy',
+      dateColumn: 0, descriptionColumn: 1, amountColumn: null, debitColumn: 2, creditColumn: 3,
+    });
+    expect(parsed[0].amount).toBe(-950);
+    expect(parsed[0].date.getMonth()).toBe(2);
+  });
+
+  it('reads accounting-style negative amounts', () => {
+    expect(parseAmount('(45.10)')).toBe(-45.1);
+    expect(parseAmount('£1.234,56')).toBe(1234.56);
+  });
+
+  it('reads a lone comma as a decimal point only with one or two digits after it', () => {
+    expect(parseAmount('12,5')).toBe(12.5);
+    expect(parseAmount('1,200')).toBe(1200);
+    expect(parseAmount('1,234,567')).toBe(1234567);
+    expect(parseAmount('1,200', ',')).toBe(1.2);
+    expect(parseAmount('1.234', ',')).toBe(1234);
+  });
+
+  it('parses OFX transactions with their bank IDs', () => {
+    const ofx = '<OFX><BANKTRANLIST><STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240305120000<TRNAMT>-20.00<FITID>abc123<NAME>Coffee Shop</STMTTRN></BANKTRANLIST></OFX>';
+    expect(detectStatementFormat('statement.ofx', ofx)).toBe('ofx');
+    const [row] = parseOfx(ofx);
+    expect(row).toMatchObject({ name: 'Coffee Shop', amount: -20, importId: 'abc123' });
+    expect(row.date.getDate()).toBe(5);
+  });
+
+  it("parses QIF entries including Quicken's apostrophe years", () => {
+    const qif = "!Type:Bank\nD3/7'24\nT-15.99\nPNetflix\n^\nD03/08/2024\nT1,200.00\nPEmployer\n^\nD03/09/2024\nT1,200\nPBonus\n^\n";
+    const rows = parseQif(qif, 'MM/dd/yyyy');
+    expect(rows.map(r => [r.name, r.amount, r.date.getFullYear()])).toEqual([['Netflix', -15.99, 2024], ['Employer', 1200, 2024], ['Bonus', 1200, 2024]]);
+  });
+
+  it('flags one-off transactions with the same day, type and amount as duplicates', () => {
+    const existing = {
+      id: 't1', userId: 'u1', name: 'TESCO STORES', transactionType: 'expense', frequency: 'one-off',
+      sharing: 'personal', amounts: [{ id: 'a1', amount: 12.5, date: new Date(2024, 2, 1, 9) }],
+    } as Transaction;
+    expect(findDuplicate({ id: 'r1', name: 'Tesco', amount: -12.5, date: new Date(2024, 2, 1) }, [existing])).toBe(existing);
+    expect(findDuplicate({ id: 'r2', name: 'Tesco', amount: 12.5, date: new Date(2024, 2, 1) }, [existing])).toBeUndefined();
+  });
+});
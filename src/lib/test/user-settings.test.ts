@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS, normalizeSettings, parseLocalSettings, toLocalSettings } from '@/lib/user-settings';
+
+describe('user settings', () => {
+  it('migrates the values the app used to keep in localStorage', () => {
+    const settings = parseLocalSettings({
+      'app-currency': 'EUR',
+      'app-net-worth-target': '250000',
+      'app-projection-contribution': '1200.5',
+      'app-accent-color': JSON.stringify({ name: 'Teal', primary: '160 84% 39%', foreground: '160 100% 96%' }),
+      'app-ui-expand-sidebar': 'true',
+      'app-benchmark-ticker': 'VWRL',
+    });
+    expect(settings).toEqual({
+      currency: 'EUR',
+      netWorthTarget: 250000,
+      defaultMonthlyContribution: 1200.5,
+      accentColor: { name: 'Teal', primary: '160 84% 39%', foreground: '160 100% 96%' },
+      expandSidebarMenus: true,
+      benchmarkTicker: 'VWRL',
+    });
+  });
+
+  it('drops values that are not valid settings', () => {
+    expect(parseLocalSettings({ 'app-currency': 'XYZ', 'app-accent-color': '{not json', 'app-net-worth-target': 'abc' })).toEqual({});
+    expect(normalizeSettings({ currency: 'GBP', locale: 'xx-XX', netWorthTarget: -5, extra: true })).toEqual({ currency: 'GBP' });
+    expect(normalizeSettings(undefined)).toEqual({});
+  });
+
+  it('round-trips through the localStorage mirror, removing cleared values', () => {
+    const settings = { ...DEFAULT_SETTINGS, currency: 'JPY', locale: 'ja-JP', netWorthTarget: 5000000 };
+    const local = toLocalSettings(settings);
+    expect(local['app-projection-contribution']).toBeNull();
+    expect(local['app-accent-color']).toBeNull();
+
+    const stored = Object.fromEntries(Object.entries(local).filter((entry): entry is [string, string] => entry[1] !== null));
+    expect({ ...DEFAULT_SETTINGS, ...parseLocalSettings(stored) }).toEqual(settings);
+  });
+});
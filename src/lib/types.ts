@@ -0,0 +1,352 @@
+/**
+ * @fileOverview Shared domain model for every Firestore collection used by the app.
+ * Pages should import their types from here rather than redeclaring them, and read
+ * documents through the repositories in src/repositories so that Timestamp conversion
+ * and legacy-schema fallbacks live in src/lib/converters.ts.
+ */
+
+// Transactions (budget lines)
+export type TransactionType = 'income' | 'expense';
+export type Frequency = 'one-off' | 'recurring';
+export type Classification = 'need' | 'want';
+
+export type AmountChange = {
+  id: string;
+  amount: number;
+  date: Date;
+};
+
+export type BaseTransaction = {
+  id: string;
+  userId: string;
+  name: string;
+  amounts: AmountChange[];
+  frequency: Frequency;
+  endDate?: Date | null;
+  categoryId?: string;
+  sharing: string; // 'personal' or householdId
+  importId?: string; // Bank-assigned ID when created by a statement import
+};
+
+export type Income = BaseTransaction & {
+  transactionType: 'income';
+};
+
+export type Expense = BaseTransaction & {
+  transactionType: 'expense';
+  classification?: Classification;
+  /** Who pays each occurrence of a shared expense, in proportion to share. Unset means the creator pays it all. */
+  payers?: Split[];
+  /** Replaces the household's split rule for this expense alone. */
+  split?: SplitOverride | null;
+};
+
+export type Transaction = Income | Expense;
+
+// Ledger (actual postings against the budget)
+export type Posting = {
+  id: string;
+  userId: string;
+  transactionType: TransactionType;
+  amount: number;
+  date: Date;
+  payee: string;
+  categoryId?: string;
+  account?: string;
+  budgetLineId?: string | null; // ID of the planned Transaction this posting pays
+  note?: string;
+};
+
+// Auto-categorisation rules
+export type CategoryRule = {
+  id: string;
+  userId: string;
+  name: string;
+  order: number; // Lower runs first; the first matching rule to set a field wins
+  transactionType: TransactionType;
+  // Conditions (all that are set must match)
+  nameContains?: string;
+  nameRegex?: string;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  sharingIs?: string | null;
+  // Actions
+  setCategoryId?: string | null;
+  setClassification?: Classification | null;
+  setSharing?: string | null;
+};
+
+// Statement import
+export type ImportProfile = {
+  id: string;
+  userId: string;
+  name: string; // Usually the bank the CSV layout belongs to
+  delimiter: string;
+  hasHeader: boolean;
+  dateFormat: string; // date-fns format string
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number | null; // null when the bank uses separate debit/credit columns
+  debitColumn?: number | null;
+  creditColumn?: number | null;
+  invertAmounts?: boolean; // For banks that export spending as positive numbers
+  decimalSeparator?: '.' | ',' | null; // null works it out from each amount
+};
+
+// Savings goals
+export type SavingGoalContribution = {
+  id: string;
+  amount: number;
+  date: Date;
+  userId?: string;
+  userName?: string;
+};
+
+export type SavingGoal = {
+  id: string;
+  userId: string;
+  name: string;
+  targetAmount: number;
+  targetDate: Date;
+  startDate: Date;
+  sharing: string; // 'personal' or householdId
+  splitType?: 'equal' | 'contribution';
+  contributions: SavingGoalContribution[];
+};
+
+// Assets
+export type AssetContribution = {
+  id: string;
+  amount: number;
+  date: Date;
+};
+
+export type AssetValueChange = {
+  id: string;
+  value: number;
+  date: Date;
+};
+
+export type Asset = {
+  id: string;
+  userId: string;
+  name: string;
+  type: string; // Name of an entry in assetTypes
+  currency: string;
+  valueHistory: AssetValueChange[];
+  contributions: AssetContribution[];
+};
+
+// Liabilities
+export type LiabilityType = 'credit_card' | 'loan' | 'mortgage' | 'other';
+
+export type LiabilityBalanceChange = {
+  id: string;
+  balance: number;
+  date: Date;
+};
+
+export type Liability = {
+  id: string;
+  userId: string;
+  name: string;
+  type: LiabilityType;
+  currentBalance: number; // Mirrors the latest balanceHistory entry
+  apr: number;
+  balanceHistory: LiabilityBalanceChange[];
+  monthlyPayment?: number | null; // Scheduled or minimum payment; derived from the term when unset
+  termMonths?: number | null;
+  startDate?: Date | null;
+};
+
+// Investments
+export type InvestmentTransactionType = 'buy' | 'sell';
+
+export type InvestmentTransaction = {
+  id: string;
+  type: InvestmentTransactionType;
+  date: Date;
+  shares: number; // Always positive; `type` says which way they moved
+  price: number;
+  fees: number; // In the transaction currency
+  currency: string;
+};
+
+/** How a sale picks the shares it sells, which decides its cost and realised gain. */
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+/** A cash dividend is paid out; a reinvested one (DRIP) buys more shares with what's left after tax. */
+export type DividendHandling = 'cash' | 'reinvest';
+
+export type InvestmentDividend = {
+  id: string;
+  exDate: Date | null; // When known; it's what matches a dividend to market data
+  date: Date; // Paid
+  grossAmount: number; // Before withholding tax, in `currency`
+  withholdingTax: number;
+  currency: string;
+  handling: DividendHandling;
+  reinvestTransactionId: string | null; // The buy a reinvested dividend made
+};
+
+/** Market-priced holdings are quoted by the market data provider; manual ones (funds, bonds) by prices the user enters. */
+export type PriceSource = 'market' | 'manual';
+
+export type InvestmentPrice = {
+  id: string;
+  date: Date;
+  price: number; // Per share, in the quote currency
+};
+
+export type Investment = {
+  id: string;
+  userId: string;
+  ticker: string;
+  name: string;
+  exchange: string | null; // Code from EXCHANGES, when known
+  quoteCurrency: string; // What its prices are in, whatever its transactions were paid in
+  priceSource: PriceSource;
+  manualPrices: InvestmentPrice[];
+  costBasisMethod: CostBasisMethod;
+  transactions: InvestmentTransaction[];
+  dividends: InvestmentDividend[];
+};
+
+// Exchange rates
+export type ManualRate = {
+  id: string;
+  userId: string;
+  from: string; // ISO 4217 code
+  to: string;
+  rate: number; // Units of `to` for one unit of `from`
+  date: Date; // In effect from this date until the next entry for the pair
+};
+
+// Allocation targets
+/** What a target is a share of: all assets by type, or the investments by ticker. */
+export type AllocationScope = 'assetType' | 'ticker';
+
+export type AllocationTarget = {
+  id: string;
+  userId: string;
+  scope: AllocationScope;
+  key: string; // Asset type name ('Investment' and 'Savings Goal' included), or ticker
+  percent: number; // A scope's targets add up to 100
+};
+
+// Categories (expenseCategories, incomeCategories and assetTypes share one shape)
+export type CategoryCollection = 'expenseCategories' | 'incomeCategories' | 'assetTypes';
+
+export type Category = {
+  id: string;
+  userId?: string;
+  name: string;
+  icon: string; // lucide-react icon name
+  color: string; // HSL color string
+  isDefault?: boolean;
+};
+
+// Households
+export type SplitType = 'equal' | 'shares' | 'income_ratio';
+
+export type IncomeChange = {
+  id: string;
+  amount: number;
+  date: Date;
+};
+
+export type Member = {
+  id: string;
+  name: string;
+  email: string;
+  incomeHistory?: IncomeChange[];
+  /** @deprecated Flat monthly income from before incomeHistory existed. */
+  income?: number;
+};
+
+export type Split = {
+  memberId: string;
+  share: number;
+};
+
+export type SplitOverrideType = 'exact' | 'percent' | 'shares' | 'members';
+
+/**
+ * A shared expense's own split. `share` is an amount for 'exact', a percentage for 'percent'
+ * and a weight for 'shares'; 'members' splits equally between the members listed and ignores
+ * it. Exact amounts are kept in proportion when the expense's amount later changes.
+ */
+export type SplitOverride = {
+  type: SplitOverrideType;
+  splits: Split[];
+};
+
+export type HouseholdRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+export type HouseholdEvent = {
+  id: string;
+  actorId: string;
+  actorName: string;
+  message: string;
+  timestamp: Date;
+};
+
+/** An event kept with each member's own account, for a household that no longer exists. */
+export type PastHouseholdEvent = HouseholdEvent & {
+  householdId: string;
+  householdName: string;
+};
+
+/** A payment between members to even out who has paid more than their share. */
+export type Settlement = {
+  id: string;
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+  date: Date;
+  recordedBy: string;
+};
+
+export type Household = {
+  id: string;
+  ownerId: string;
+  name: string;
+  members: Member[];
+  memberIds: string[];
+  /** Each member's role, by member id. The owner is `ownerId`; anyone missing is an editor. */
+  roles?: Record<string, HouseholdRole>;
+  pendingMemberEmails?: string[];
+  splitType?: SplitType;
+  splits?: Split[];
+  events?: HouseholdEvent[];
+  settlements?: Settlement[];
+};
+
+export type Invitation = {
+  id: string;
+  householdId: string;
+  householdName: string;
+  invitedBy: string;
+  invitedEmail: string;
+};
+
+// Settings (users/{uid}/settings/preferences)
+
+export type AccentColor = {
+  name: string;
+  primary: string; // HSL value string
+  foreground: string; // HSL value string
+};
+
+export type UserSettings = {
+  currency: string;
+  locale: string;
+  netWorthTarget: number | null;
+  defaultMonthlyContribution: number | null;
+  accentColor: AccentColor | null; // null keeps the default accent
+  expandSidebarMenus: boolean;
+  benchmarkTicker: string; // What investments are compared against
+};
+
+/** A document's data before Firestore has assigned it an ID. */
+export type NewDocument<T extends { id: string }> = Omit<T, 'id'>;
@@ -0,0 +1,96 @@
+/**
+ * @fileOverview User settings are stored in Firestore so they follow the user between devices,
+ * and mirrored into localStorage under the `app-` keys the settings used to live in. The mirror
+ * is what the app starts from before Firestore answers (and when it can't, e.g. offline), what
+ * a user's first login migrates into Firestore, and what data archives export and restore.
+ */
+import * as z from 'zod';
+import { DEFAULT_LOCALE, isCurrencyCode, isSupportedLocale } from '@/lib/currency';
+import type { UserSettings } from '@/lib/types';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  currency: 'USD',
+  locale: DEFAULT_LOCALE,
+  netWorthTarget: null,
+  defaultMonthlyContribution: null,
+  accentColor: null,
+  expandSidebarMenus: false,
+  benchmarkTicker: 'SPY',
+};
+
+export const LOCAL_SETTING_KEYS: Record<keyof UserSettings, string> = {
+  currency: 'app-currency',
+  locale: 'app-locale',
+  netWorthTarget: 'app-net-worth-target',
+  defaultMonthlyContribution: 'app-projection-contribution',
+  accentColor: 'app-accent-color',
+  expandSidebarMenus: 'app-ui-expand-sidebar',
+  benchmarkTicker: 'app-benchmark-ticker',
+};
+
+export const TICKER_PATTERN = /^[A-Z0-9.\-]{1,10}$/;
+
+const positiveAmount = z.number().positive().nullable();
+
+const settingsSchema = z.object({
+  currency: z.string().refine(isCurrencyCode),
+  locale: z.string().refine(isSupportedLocale),
+  netWorthTarget: positiveAmount,
+  defaultMonthlyContribution: positiveAmount,
+  accentColor: z.object({ name: z.string(), primary: z.string().min(1), foreground: z.string().min(1) }).nullable(),
+  expandSidebarMenus: z.boolean(),
+  benchmarkTicker: z.string().regex(TICKER_PATTERN),
+});
+
+/** Keeps the fields of `data` that are valid settings and drops the rest. */
+export function normalizeSettings(data: unknown): Partial<UserSettings> {
+  if (!data || typeof data !== 'object') return {};
+  const settings: Partial<UserSettings> = {};
+  for (const key of Object.keys(settingsSchema.shape) as (keyof UserSettings)[]) {
+    const parsed = settingsSchema.shape[key].safeParse((data as Record<string, unknown>)[key]);
+    if (parsed.success) (settings as Record<string, unknown>)[key] = parsed.data;
+  }
+  return settings;
+}
+
+function parseAmount(value: string | undefined): number | null | undefined {
+  if (value === undefined) return undefined;
+  const amount = parseFloat(value);
+  return isNaN(amount) ? undefined : amount;
+}
+
+function parseJson(value: string | undefined): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Reads settings from their localStorage entries (see readLocalSettings in data-archive). */
+export function parseLocalSettings(entries: Record<string, string>): Partial<UserSettings> {
+  const expand = entries[LOCAL_SETTING_KEYS.expandSidebarMenus];
+  return normalizeSettings({
+    currency: entries[LOCAL_SETTING_KEYS.currency],
+    locale: entries[LOCAL_SETTING_KEYS.locale],
+    netWorthTarget: parseAmount(entries[LOCAL_SETTING_KEYS.netWorthTarget]),
+    defaultMonthlyContribution: parseAmount(entries[LOCAL_SETTING_KEYS.defaultMonthlyContribution]),
+    accentColor: parseJson(entries[LOCAL_SETTING_KEYS.accentColor]),
+    expandSidebarMenus: expand === undefined ? undefined : expand === 'true',
+    benchmarkTicker: entries[LOCAL_SETTING_KEYS.benchmarkTicker],
+  });
+}
+
+/** The localStorage entries for `settings`; a null setting maps to null so its entry is removed. */
+export function toLocalSettings(settings: UserSettings): Record<string, string | null> {
+  return {
+    [LOCAL_SETTING_KEYS.currency]: settings.currency,
+    [LOCAL_SETTING_KEYS.locale]: settings.locale,
+    [LOCAL_SETTING_KEYS.netWorthTarget]: settings.netWorthTarget === null ? null : String(settings.netWorthTarget),
+    [LOCAL_SETTING_KEYS.defaultMonthlyContribution]: settings.defaultMonthlyContribution === null ? null : String(settings.defaultMonthlyContribution),
+    [LOCAL_SETTING_KEYS.accentColor]: settings.accentColor === null ? null : JSON.stringify(settings.accentColor),
+    [LOCAL_SETTING_KEYS.expandSidebarMenus]: String(settings.expandSidebarMenus),
+    [LOCAL_SETTING_KEYS.benchmarkTicker]: settings.benchmarkTicker,
+  };
+}
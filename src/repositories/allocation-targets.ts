@@ -0,0 +1,26 @@
+import { collection, doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { allocationTargetConverter } from '@/lib/converters';
+import type { AllocationScope, AllocationTarget } from '@/lib/types';
+
+const COLLECTION = 'allocationTargets';
+
+const allocationTargetsRef = () => collection(db, COLLECTION).withConverter(allocationTargetConverter);
+
+export async function getUserAllocationTargets(userId: string): Promise<AllocationTarget[]> {
+  const snapshot = await getDocs(query(allocationTargetsRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+/** Replaces the user's targets for `scope` in one batch, so a half-saved set never adds up wrong. */
+export async function saveAllocationTargets(
+  userId: string,
+  scope: AllocationScope,
+  targets: Pick<AllocationTarget, 'key' | 'percent'>[],
+): Promise<void> {
+  const existing = await getDocs(query(allocationTargetsRef(), where('userId', '==', userId), where('scope', '==', scope)));
+  const batch = writeBatch(db);
+  existing.docs.forEach(d => batch.delete(d.ref));
+  targets.forEach(({ key, percent }) => batch.set(doc(collection(db, COLLECTION)), { userId, scope, key, percent }));
+  await batch.commit();
+}
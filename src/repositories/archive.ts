@@ -0,0 +1,70 @@
+import { collection, doc, getDocs, query, where, writeBatch, type DocumentReference, type WriteBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ARCHIVE_COLLECTIONS, planRestore, type ArchiveCollections, type DataArchive } from '@/lib/data-archive';
+import { getUserTransactions } from '@/repositories/transactions';
+import { getUserPostings } from '@/repositories/postings';
+import { getUserSavingsGoals } from '@/repositories/savings';
+import { getUserAssets } from '@/repositories/assets';
+import { getUserLiabilities } from '@/repositories/liabilities';
+import { getUserInvestments } from '@/repositories/investments';
+import { getCustomCategories } from '@/repositories/categories';
+import { getUserCategoryRules } from '@/repositories/category-rules';
+import { getUserImportProfiles } from '@/repositories/import-profiles';
+import { getUserManualRates } from '@/repositories/manual-rates';
+import { getUserAllocationTargets } from '@/repositories/allocation-targets';
+
+const MAX_BATCH_SIZE = 500; // Firestore's limit on writes per batch
+
+/** Commits the writes in order, at most MAX_BATCH_SIZE to a batch. */
+async function commitInBatches<T>(items: T[], write: (batch: WriteBatch, item: T) => void): Promise<void> {
+  for (let start = 0; start < items.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    items.slice(start, start + MAX_BATCH_SIZE).forEach(item => write(batch, item));
+    await batch.commit();
+  }
+}
+
+/** Everything the user owns. Documents other household members shared with them are not included. */
+export async function exportUserData(userId: string): Promise<ArchiveCollections> {
+  const [transactions, postings, savings, assets, liabilities, investments, expenseCategories, incomeCategories, assetTypes, categoryRules, importProfiles, manualRates, allocationTargets] = await Promise.all([
+    getUserTransactions(userId),
+    getUserPostings(userId),
+    getUserSavingsGoals(userId),
+    getUserAssets(userId),
+    getUserLiabilities(userId),
+    getUserInvestments(userId),
+    getCustomCategories('expenseCategories', userId),
+    getCustomCategories('incomeCategories', userId),
+    getCustomCategories('assetTypes', userId),
+    getUserCategoryRules(userId),
+    getUserImportProfiles(userId),
+    getUserManualRates(userId),
+    getUserAllocationTargets(userId),
+  ]);
+  return { transactions, postings, savings, assets, liabilities, investments, expenseCategories, incomeCategories, assetTypes, categoryRules, importProfiles, manualRates, allocationTargets };
+}
+
+/**
+ * Re-creates every archived document under new IDs owned by `userId`, alongside any data
+ * the account already has. Returns the number of documents written.
+ */
+export async function restoreUserData(userId: string, archive: DataArchive, householdIds: string[]): Promise<number> {
+  const plan = planRestore(archive, {
+    userId,
+    householdIds,
+    newId: collectionName => doc(collection(db, collectionName)).id,
+  });
+  const writes = ARCHIVE_COLLECTIONS.flatMap(collectionName =>
+    plan[collectionName].map(({ id, data }) => ({ ref: doc(db, collectionName, id), data })),
+  );
+
+  await commitInBatches(writes, (batch, { ref, data }) => batch.set(ref, data));
+  return writes.length;
+}
+
+/** Deletes every document the user owns in the given collections, for closing their account. */
+export async function deleteUserData(userId: string, collectionNames: string[]): Promise<void> {
+  const snapshots = await Promise.all(collectionNames.map(name => getDocs(query(collection(db, name), where('userId', '==', userId)))));
+  const refs: DocumentReference[] = snapshots.flatMap(snapshot => snapshot.docs.map(d => d.ref));
+  await commitInBatches(refs, (batch, ref) => batch.delete(ref));
+}
@@ -0,0 +1,31 @@
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { assetConverter } from '@/lib/converters';
+import type { Asset, NewDocument } from '@/lib/types';
+
+const COLLECTION = 'assets';
+
+const assetsRef = () => collection(db, COLLECTION).withConverter(assetConverter);
+
+export async function getUserAssets(userId: string): Promise<Asset[]> {
+  const snapshot = await getDocs(query(assetsRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+export async function getAsset(id: string): Promise<Asset | null> {
+  const snapshot = await getDoc(doc(db, COLLECTION, id).withConverter(assetConverter));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+export async function addAsset(data: NewDocument<Asset>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+export async function updateAsset(id: string, data: Partial<NewDocument<Asset>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+export async function deleteAsset(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
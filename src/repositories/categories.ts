@@ -0,0 +1,48 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { categoryConverter } from '@/lib/converters';
+import { defaultAssetTypes, defaultExpenseCategories, defaultIncomeCategories, type DefaultCategory } from '@/lib/categories';
+import type { Category, CategoryCollection, NewDocument } from '@/lib/types';
+
+const DEFAULTS: Record<CategoryCollection, DefaultCategory[]> = {
+  expenseCategories: defaultExpenseCategories,
+  incomeCategories: defaultIncomeCategories,
+  assetTypes: defaultAssetTypes,
+};
+
+/**
+ * Built-in categories are not stored in Firestore. Their IDs are stable so that
+ * transactions can reference them through `categoryId`.
+ */
+export function getDefaultCategories(collectionName: CategoryCollection): Category[] {
+  return DEFAULTS[collectionName].map(cat => ({
+    ...cat,
+    id: `default-${collectionName}-${cat.name.replace(/\s+/g, '-')}`,
+    isDefault: true,
+  }));
+}
+
+export async function getCustomCategories(collectionName: CategoryCollection, userId: string): Promise<Category[]> {
+  const q = query(collection(db, collectionName).withConverter(categoryConverter), where('userId', '==', userId));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(d => d.data());
+}
+
+/** Built-in and custom categories together, sorted by name. */
+export async function getCategories(collectionName: CategoryCollection, userId: string): Promise<Category[]> {
+  const custom = await getCustomCategories(collectionName, userId);
+  return [...getDefaultCategories(collectionName), ...custom].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function addCategory(collectionName: CategoryCollection, data: NewDocument<Category>): Promise<string> {
+  const ref = await addDoc(collection(db, collectionName), data);
+  return ref.id;
+}
+
+export async function updateCategory(collectionName: CategoryCollection, id: string, data: Partial<NewDocument<Category>>): Promise<void> {
+  await updateDoc(doc(db, collectionName, id), data);
+}
+
+export async function deleteCategory(collectionName: CategoryCollection, id: string): Promise<void> {
+  await deleteDoc(doc(db, collectionName, id));
+}
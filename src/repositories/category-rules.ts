@@ -0,0 +1,27 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { categoryRuleConverter } from '@/lib/converters';
+import type { CategoryRule, NewDocument } from '@/lib/types';
+
+const COLLECTION = 'categoryRules';
+
+const categoryRulesRef = () => collection(db, COLLECTION).withConverter(categoryRuleConverter);
+
+/** The user's rules in the order they are evaluated. */
+export async function getUserCategoryRules(userId: string): Promise<CategoryRule[]> {
+  const snapshot = await getDocs(query(categoryRulesRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data()).sort((a, b) => a.order - b.order);
+}
+
+export async function addCategoryRule(data: NewDocument<CategoryRule>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+export async function updateCategoryRule(id: string, data: Partial<NewDocument<CategoryRule>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+export async function deleteCategoryRule(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
@@ -0,0 +1,259 @@
+import { arrayRemove, collection, deleteDoc, deleteField, doc, getDoc, getDocs, query, serverTimestamp, updateDoc, where, writeBatch, type WriteBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { householdConverter, invitationConverter, pastHouseholdEventConverter } from '@/lib/converters';
+import type { Household, HouseholdEvent, Invitation, Member, NewDocument, PastHouseholdEvent, SavingGoal, Transaction } from '@/lib/types';
+
+const HOUSEHOLDS = 'households';
+const INVITATIONS = 'invitations';
+const TRANSACTIONS = 'transactions';
+const SAVINGS = 'savings';
+const PAST_HOUSEHOLD_EVENTS = 'pastHouseholdEvents'; // Under users/{uid}, one per dissolved household
+const MAX_EVENTS = 15;
+const MAX_BATCH_SIZE = 500; // Firestore's limit on writes per batch
+
+const householdsRef = () => collection(db, HOUSEHOLDS).withConverter(householdConverter);
+const invitationsRef = () => collection(db, INVITATIONS).withConverter(invitationConverter);
+
+export async function getUserHouseholds(userId: string): Promise<Household[]> {
+  const snapshot = await getDocs(query(householdsRef(), where('memberIds', 'array-contains', userId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+export async function getHousehold(id: string): Promise<Household | null> {
+  const snapshot = await getDoc(doc(db, HOUSEHOLDS, id).withConverter(householdConverter));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+export async function updateHousehold(id: string, data: Partial<NewDocument<Household>>): Promise<void> {
+  await updateDoc(doc(db, HOUSEHOLDS, id), data);
+}
+
+/** Keeps `users/{uid}.households` in step with household membership. */
+async function addHouseholdToUser(batch: WriteBatch, userId: string, householdId: string) {
+  const userDocRef = doc(db, 'users', userId);
+  const userDoc = await getDoc(userDocRef);
+  const userHouseholds = userDoc.exists() ? (userDoc.data().households || []) : [];
+  batch.set(userDocRef, { households: [...userHouseholds, householdId] }, { merge: true });
+}
+
+function removeHouseholdFromUser(batch: WriteBatch, userId: string, householdId: string) {
+  batch.set(doc(db, 'users', userId), { households: arrayRemove(householdId) }, { merge: true });
+}
+
+/** Commits the writes in order, at most MAX_BATCH_SIZE to a batch, so up to that many are all or nothing. */
+async function commitInBatches(writes: ((batch: WriteBatch) => void)[]): Promise<void> {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + MAX_BATCH_SIZE).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
+/** What a shared transaction or goal goes back to when it stops being shared. */
+function unshare(batch: WriteBatch, item: Transaction | SavingGoal) {
+  if ('transactionType' in item) {
+    batch.update(doc(db, TRANSACTIONS, item.id), { sharing: 'personal', split: null, payers: deleteField() });
+  } else {
+    batch.update(doc(db, SAVINGS, item.id), { sharing: 'personal' });
+  }
+}
+
+export async function createHousehold(name: string, owner: Member): Promise<string> {
+  const householdRef = doc(collection(db, HOUSEHOLDS));
+  const batch = writeBatch(db);
+  batch.set(householdRef, {
+    name,
+    ownerId: owner.id,
+    members: [owner],
+    memberIds: [owner.id],
+    pendingMemberEmails: [],
+    splitType: 'equal',
+    splits: [],
+  });
+  await addHouseholdToUser(batch, owner.id, householdRef.id);
+  await batch.commit();
+  return householdRef.id;
+}
+
+/**
+ * Prepends an entry to the household's activity log, keeping only the most recent
+ * entries. Logging failures are reported but never block the action being logged.
+ */
+export async function logHouseholdEvent(household: Household, actor: { id: string; name: string }, message: string): Promise<void> {
+  try {
+    await updateHousehold(household.id, { events: withEvent(household, actor, message) });
+  } catch (error) {
+    console.error("Error logging household event:", error);
+  }
+}
+
+function withEvent(household: Household, actor: { id: string; name: string }, message: string): HouseholdEvent[] {
+  const newEvent: HouseholdEvent = {
+    id: crypto.randomUUID(),
+    actorId: actor.id,
+    actorName: actor.name,
+    message,
+    timestamp: new Date(),
+  };
+  return [newEvent, ...(household.events || [])].slice(0, MAX_EVENTS);
+}
+
+/**
+ * Takes the member out of the household, logging that they left in the same write, and makes
+ * what they had shared with it personal again so it stays in their own budget. The membership
+ * change goes first, so if there is too much to do at once they are never left in a household
+ * whose shared items have already been taken away from it.
+ */
+export async function leaveHousehold(household: Household, member: Member, shared: (Transaction | SavingGoal)[]): Promise<void> {
+  const { [member.id]: _role, ...roles } = household.roles || {};
+  await commitInBatches([
+    batch => batch.update(doc(db, HOUSEHOLDS, household.id), {
+      members: household.members.filter(m => m.id !== member.id),
+      memberIds: household.memberIds.filter(id => id !== member.id),
+      roles,
+      events: withEvent(household, member, `${member.name} left the household.`),
+    }),
+    batch => removeHouseholdFromUser(batch, member.id, household.id),
+    ...shared.filter(item => item.userId === member.id).map(item => (batch: WriteBatch) => unshare(batch, item)),
+  ]);
+}
+
+/** Makes another member the owner; the previous owner stays on as an admin. */
+export async function transferOwnership(household: Household, newOwnerId: string): Promise<void> {
+  const { [newOwnerId]: _role, ...roles } = household.roles || {};
+  await updateHousehold(household.id, { ownerId: newOwnerId, roles: { ...roles, [household.ownerId]: 'admin' } });
+}
+
+/** Whether dissolveHousehold can do everything in one all-or-nothing write: the shared items, two per member and the household. */
+export function canDissolveAtOnce(household: Household, shared: (Transaction | SavingGoal)[]): boolean {
+  return shared.length + household.memberIds.length * 2 + 1 <= MAX_BATCH_SIZE;
+}
+
+/**
+ * Deletes the household after either making everything shared with it personal to whoever
+ * added it or deleting it all, taking it off every member's list. Its log goes with it, so the
+ * dissolve is recorded with every member instead (see getPastHouseholdEvents). The household
+ * goes last, since only its owner can change other members' items while it exists: when that
+ * doesn't fit in one write (see canDissolveAtOnce), a failure partway leaves the household in
+ * place for the owner to try again, with what was already done staying done.
+ */
+export async function dissolveHousehold(household: Household, shared: (Transaction | SavingGoal)[], mode: 'unshare' | 'delete', actor: { id: string; name: string }, message: string): Promise<void> {
+  await commitInBatches([
+    ...shared.map(item => (batch: WriteBatch) => {
+      if (mode === 'unshare') {
+        unshare(batch, item);
+      } else {
+        batch.delete(doc(db, 'transactionType' in item ? TRANSACTIONS : SAVINGS, item.id));
+      }
+    }),
+    ...household.memberIds.flatMap(memberId => [
+      (batch: WriteBatch) => batch.set(doc(db, 'users', memberId, PAST_HOUSEHOLD_EVENTS, household.id), {
+        actorId: actor.id,
+        actorName: actor.name,
+        message,
+        timestamp: serverTimestamp(),
+        householdId: household.id,
+        householdName: household.name,
+      }),
+      (batch: WriteBatch) => removeHouseholdFromUser(batch, memberId, household.id),
+    ]),
+    batch => batch.delete(doc(db, HOUSEHOLDS, household.id)),
+  ]);
+}
+
+/** Events from households the user was in that have since been dissolved, newest first. */
+export async function getPastHouseholdEvents(userId: string): Promise<PastHouseholdEvent[]> {
+  const snapshot = await getDocs(collection(db, 'users', userId, PAST_HOUSEHOLD_EVENTS).withConverter(pastHouseholdEventConverter));
+  return snapshot.docs
+    .map(d => d.data())
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+// Invitations
+
+export async function getInvitationsForEmail(email: string): Promise<Invitation[]> {
+  const snapshot = await getDocs(query(invitationsRef(), where('invitedEmail', '==', email)));
+  return snapshot.docs.map(d => d.data());
+}
+
+export async function getHouseholdInvitations(householdId: string): Promise<Invitation[]> {
+  const snapshot = await getDocs(query(invitationsRef(), where('householdId', '==', householdId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+export async function createInvitation(household: Household, invitedBy: string, email: string): Promise<void> {
+  const batch = writeBatch(db);
+  batch.set(doc(collection(db, INVITATIONS)), {
+    householdId: household.id,
+    householdName: household.name,
+    invitedBy,
+    invitedEmail: email,
+    createdAt: serverTimestamp(),
+  });
+  batch.update(doc(db, HOUSEHOLDS, household.id), {
+    pendingMemberEmails: [...(household.pendingMemberEmails || []), email],
+  });
+  await batch.commit();
+}
+
+export async function cancelInvitation(household: Household, email: string): Promise<void> {
+  const batch = writeBatch(db);
+  const snapshot = await getDocs(query(
+    collection(db, INVITATIONS),
+    where('householdId', '==', household.id),
+    where('invitedEmail', '==', email),
+  ));
+  if (!snapshot.empty) {
+    batch.delete(snapshot.docs[0].ref);
+  } else {
+    console.warn(`Could not find invitation document for ${email} in household ${household.id}`);
+  }
+  batch.update(doc(db, HOUSEHOLDS, household.id), {
+    pendingMemberEmails: household.pendingMemberEmails?.filter(e => e !== email) || [],
+  });
+  await batch.commit();
+}
+
+/**
+ * Adds the member to the invitation's household and removes the invitation.
+ * Returns false (after deleting the stale invitation) when the owner has since
+ * withdrawn it; throws if the household no longer exists.
+ */
+export async function acceptInvitation(invitation: Invitation, member: Member): Promise<boolean> {
+  const householdRef = doc(db, HOUSEHOLDS, invitation.householdId);
+  const householdDoc = await getDoc(householdRef.withConverter(householdConverter));
+  if (!householdDoc.exists()) {
+    throw new Error("This household no longer exists.");
+  }
+  const household = householdDoc.data();
+  const invitationRef = doc(db, INVITATIONS, invitation.id);
+
+  if (!household.pendingMemberEmails?.includes(member.email)) {
+    await deleteDoc(invitationRef);
+    return false;
+  }
+
+  const batch = writeBatch(db);
+  batch.update(householdRef, {
+    members: [...household.members, member],
+    memberIds: [...household.memberIds, member.id],
+    pendingMemberEmails: household.pendingMemberEmails?.filter(email => email !== member.email) || [],
+  });
+  batch.delete(invitationRef);
+  await addHouseholdToUser(batch, member.id, invitation.householdId);
+  await batch.commit();
+  return true;
+}
+
+export async function declineInvitation(invitation: Invitation, email: string): Promise<void> {
+  const batch = writeBatch(db);
+  batch.delete(doc(db, INVITATIONS, invitation.id));
+
+  const householdRef = doc(db, HOUSEHOLDS, invitation.householdId);
+  const householdDoc = await getDoc(householdRef.withConverter(householdConverter));
+  if (householdDoc.exists()) {
+    const updatedPendingEmails = householdDoc.data().pendingMemberEmails?.filter(e => e !== email) || [];
+    batch.update(householdRef, { pendingMemberEmails: updatedPendingEmails });
+  }
+  await batch.commit();
+}
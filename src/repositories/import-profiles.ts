@@ -0,0 +1,26 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { importProfileConverter } from '@/lib/converters';
+import type { ImportProfile, NewDocument } from '@/lib/types';
+
+const COLLECTION = 'importProfiles';
+
+const importProfilesRef = () => collection(db, COLLECTION).withConverter(importProfileConverter);
+
+export async function getUserImportProfiles(userId: string): Promise<ImportProfile[]> {
+  const snapshot = await getDocs(query(importProfilesRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function addImportProfile(data: NewDocument<ImportProfile>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+export async function updateImportProfile(id: string, data: Partial<NewDocument<ImportProfile>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+export async function deleteImportProfile(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
@@ -0,0 +1,31 @@
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { investmentConverter } from '@/lib/converters';
+import type { Investment, NewDocument } from '@/lib/types';
+
+const COLLECTION = 'investments';
+
+const investmentsRef = () => collection(db, COLLECTION).withConverter(investmentConverter);
+
+export async function getUserInvestments(userId: string): Promise<Investment[]> {
+  const snapshot = await getDocs(query(investmentsRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+export async function getInvestment(id: string): Promise<Investment | null> {
+  const snapshot = await getDoc(doc(db, COLLECTION, id).withConverter(investmentConverter));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+export async function addInvestment(data: NewDocument<Investment>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+export async function updateInvestment(id: string, data: Partial<NewDocument<Investment>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+export async function deleteInvestment(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
@@ -0,0 +1,31 @@
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { liabilityConverter } from '@/lib/converters';
+import type { Liability, NewDocument } from '@/lib/types';
+
+const COLLECTION = 'liabilities';
+
+const liabilitiesRef = () => collection(db, COLLECTION).withConverter(liabilityConverter);
+
+export async function getUserLiabilities(userId: string): Promise<Liability[]> {
+  const snapshot = await getDocs(query(liabilitiesRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+export async function getLiability(id: string): Promise<Liability | null> {
+  const snapshot = await getDoc(doc(db, COLLECTION, id).withConverter(liabilityConverter));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+export async function addLiability(data: NewDocument<Liability>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+export async function updateLiability(id: string, data: Partial<NewDocument<Liability>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+export async function deleteLiability(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
@@ -0,0 +1,29 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { manualRateConverter } from '@/lib/converters';
+import type { ManualRate, NewDocument } from '@/lib/types';
+
+const COLLECTION = 'manualRates';
+
+const manualRatesRef = () => collection(db, COLLECTION).withConverter(manualRateConverter);
+
+/** The user's manual rate table, grouped by pair with the newest entry first. */
+export async function getUserManualRates(userId: string): Promise<ManualRate[]> {
+  const snapshot = await getDocs(query(manualRatesRef(), where('userId', '==', userId)));
+  return snapshot.docs
+    .map(d => d.data())
+    .sort((a, b) => `${a.from}${a.to}`.localeCompare(`${b.from}${b.to}`) || b.date.getTime() - a.date.getTime());
+}
+
+export async function addManualRate(data: NewDocument<ManualRate>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+export async function updateManualRate(id: string, data: Partial<NewDocument<ManualRate>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+export async function deleteManualRate(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
@@ -0,0 +1,31 @@
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { postingConverter } from '@/lib/converters';
+import type { NewDocument, Posting } from '@/lib/types';
+
+const COLLECTION = 'postings';
+
+const postingsRef = () => collection(db, COLLECTION).withConverter(postingConverter);
+
+export async function getUserPostings(userId: string): Promise<Posting[]> {
+  const snapshot = await getDocs(query(postingsRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+export async function getPosting(id: string): Promise<Posting | null> {
+  const snapshot = await getDoc(doc(db, COLLECTION, id).withConverter(postingConverter));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+export async function addPosting(data: NewDocument<Posting>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+export async function updatePosting(id: string, data: Partial<NewDocument<Posting>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+export async function deletePosting(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
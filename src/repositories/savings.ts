@@ -0,0 +1,49 @@
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { savingGoalConverter } from '@/lib/converters';
+import type { NewDocument, SavingGoal } from '@/lib/types';
+
+const COLLECTION = 'savings';
+const MAX_IN_VALUES = 30; // Firestore's limit on values in an 'in' filter
+
+const savingsRef = () => collection(db, COLLECTION).withConverter(savingGoalConverter);
+
+/** Every goal the user created, whether personal or shared. */
+export async function getUserSavingsGoals(userId: string): Promise<SavingGoal[]> {
+  const snapshot = await getDocs(query(savingsRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+export async function getPersonalSavingsGoals(userId: string): Promise<SavingGoal[]> {
+  const snapshot = await getDocs(query(savingsRef(), where('userId', '==', userId), where('sharing', '==', 'personal')));
+  return snapshot.docs.map(d => d.data());
+}
+
+/** Every goal shared with any of the given households. */
+export async function getHouseholdSavingsGoals(householdIds: string[]): Promise<SavingGoal[]> {
+  if (householdIds.length === 0) return [];
+  const chunks: string[][] = [];
+  for (let start = 0; start < householdIds.length; start += MAX_IN_VALUES) {
+    chunks.push(householdIds.slice(start, start + MAX_IN_VALUES));
+  }
+  const snapshots = await Promise.all(chunks.map(ids => getDocs(query(savingsRef(), where('sharing', 'in', ids)))));
+  return snapshots.flatMap(snapshot => snapshot.docs.map(d => d.data()));
+}
+
+export async function getSavingsGoal(id: string): Promise<SavingGoal | null> {
+  const snapshot = await getDoc(doc(db, COLLECTION, id).withConverter(savingGoalConverter));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+export async function addSavingsGoal(data: NewDocument<SavingGoal>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+export async function updateSavingsGoal(id: string, data: Partial<NewDocument<SavingGoal>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+export async function deleteSavingsGoal(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
@@ -0,0 +1,20 @@
+import { deleteDoc, doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { normalizeSettings } from '@/lib/user-settings';
+import type { UserSettings } from '@/lib/types';
+
+const settingsRef = (userId: string) => doc(db, 'users', userId, 'settings', 'preferences');
+
+/** The user's stored settings, or null when they have never been saved. */
+export async function getUserSettings(userId: string): Promise<Partial<UserSettings> | null> {
+  const snapshot = await getDoc(settingsRef(userId));
+  return snapshot.exists() ? normalizeSettings(snapshot.data()) : null;
+}
+
+export async function saveUserSettings(userId: string, settings: Partial<UserSettings>): Promise<void> {
+  await setDoc(settingsRef(userId), settings, { merge: true });
+}
+
+export async function deleteUserSettings(userId: string): Promise<void> {
+  await deleteDoc(settingsRef(userId));
+}
@@ -0,0 +1,83 @@
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, query, updateDoc, where, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { transactionConverter } from '@/lib/converters';
+import type { Expense, Income, NewDocument, Transaction } from '@/lib/types';
+
+const COLLECTION = 'transactions';
+const MAX_BATCH_SIZE = 500; // Firestore's limit on writes per batch
+const MAX_IN_VALUES = 30; // Firestore's limit on values in an 'in' filter
+
+const transactionsRef = () => collection(db, COLLECTION).withConverter(transactionConverter);
+
+export async function getUserTransactions(userId: string): Promise<Transaction[]> {
+  const snapshot = await getDocs(query(transactionsRef(), where('userId', '==', userId)));
+  return snapshot.docs.map(d => d.data());
+}
+
+/** Every transaction shared with any of the given households. */
+export async function getHouseholdTransactions(householdIds: string[]): Promise<Transaction[]> {
+  if (householdIds.length === 0) return [];
+  const chunks: string[][] = [];
+  for (let start = 0; start < householdIds.length; start += MAX_IN_VALUES) {
+    chunks.push(householdIds.slice(start, start + MAX_IN_VALUES));
+  }
+  const snapshots = await Promise.all(chunks.map(ids => getDocs(query(transactionsRef(), where('sharing', 'in', ids)))));
+  return snapshots.flatMap(snapshot => snapshot.docs.map(d => d.data()));
+}
+
+/**
+ * The user's own transactions plus everything shared with their households,
+ * de-duplicated. Other members' personal transactions are never included.
+ */
+export async function getVisibleTransactions(userId: string, householdIds: string[]): Promise<Transaction[]> {
+  const [own, shared] = await Promise.all([
+    getUserTransactions(userId),
+    getHouseholdTransactions(householdIds),
+  ]);
+  const all = new Map<string, Transaction>();
+  [...own, ...shared].forEach(t => {
+    if (t.sharing === 'personal' && t.userId !== userId) return;
+    all.set(t.id, t);
+  });
+  return Array.from(all.values());
+}
+
+export async function getTransaction(id: string): Promise<Transaction | null> {
+  const snapshot = await getDoc(doc(db, COLLECTION, id).withConverter(transactionConverter));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+export async function addTransaction(data: NewDocument<Transaction>): Promise<string> {
+  const ref = await addDoc(collection(db, COLLECTION), data);
+  return ref.id;
+}
+
+/** Creates many transactions at once, committing in batches so large imports stay within Firestore limits. */
+export async function addTransactions(data: NewDocument<Transaction>[]): Promise<void> {
+  for (let start = 0; start < data.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    data.slice(start, start + MAX_BATCH_SIZE).forEach(transaction => {
+      batch.set(doc(collection(db, COLLECTION)), transaction);
+    });
+    await batch.commit();
+  }
+}
+
+export async function updateTransaction(id: string, data: Partial<NewDocument<Income>> | Partial<NewDocument<Expense>>): Promise<void> {
+  await updateDoc(doc(db, COLLECTION, id), data);
+}
+
+/** Applies many partial updates, committing in batches of at most MAX_BATCH_SIZE writes. */
+export async function updateTransactions(updates: { id: string; data: Partial<NewDocument<Transaction>> }[]): Promise<void> {
+  for (let start = 0; start < updates.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    updates.slice(start, start + MAX_BATCH_SIZE).forEach(({ id, data }) => {
+      batch.update(doc(db, COLLECTION, id), data);
+    });
+    await batch.commit();
+  }
+}
+
+export async function deleteTransaction(id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTION, id));
+}
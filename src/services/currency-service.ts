@@ -1,18 +1,24 @@
 
 'use server';
 
+import { toRateDate, type DatedRate } from '@/lib/fx-rates';
+
 // A simple in-memory cache for the server request lifecycle.
 // Note: This cache is per-request in a serverless environment.
 const rateCache = new Map<string, { rate: number, timestamp: number }>();
+const seriesCache = new Map<string, { series: DatedRate[], timestamp: number | null }>();
 const CACHE_TTL = 1000 * 60 * 60; // 1 hour
 
+// Frankfurter publishes ECB reference rates from this date onwards.
+const EARLIEST_RATE_DATE = '1999-01-04';
+
 /**
- * Fetches the conversion rate between two currencies using the Frankfurter API.
+ * Fetches the latest conversion rate between two currencies using the Frankfurter API.
  * @param from The currency to convert from (e.g., 'USD').
  * @param to The currency to convert to (e.g., 'EUR').
- * @returns The conversion rate.
+ * @returns The conversion rate, or null when it is unavailable.
  */
-export async function getConversionRate(from: string, to: string): Promise<number> {
+export async function getConversionRate(from: string, to: string): Promise<number | null> {
   if (!from || !to || from === to) {
     return 1;
   }
@@ -29,7 +35,7 @@ export async function getConversionRate(from: string, to: string): Promise<numbe
     const response = await fetch(`https://api.frankfurter.app/latest?from=${from}&to=${to}`);
     if (!response.ok) {
       console.error(`Currency API error for ${from}->${to}: ${response.statusText}`);
-      return 1; // Fallback to a 1:1 rate on failure.
+      return null;
     }
 
     const data = await response.json();
@@ -37,13 +43,69 @@ export async function getConversionRate(from: string, to: string): Promise<numbe
 
     if (typeof rate !== 'number') {
       console.error(`Invalid rate format received for ${from}->${to}`, data);
-      return 1;
+      return null;
     }
-    
+
     rateCache.set(cacheKey, { rate, timestamp: Date.now() });
     return rate;
   } catch (error) {
     console.error(`Failed to fetch conversion rate for ${from}->${to}:`, error);
-    return 1; // Fallback
+    return null;
+  }
+}
+
+/**
+ * Fetches the daily conversion rates between two currencies over a date range.
+ * The series starts at the last published rate on or before `start`, so every date in
+ * the range can be converted. Ranges that end in the past never change and are cached
+ * for the life of the server; ranges that reach today are refreshed hourly.
+ * @param from The currency to convert from (e.g., 'USD').
+ * @param to The currency to convert to (e.g., 'EUR').
+ * @param start The first date that needs a rate.
+ * @param end The last date that needs a rate.
+ * @returns The rates sorted by date, or null when they are unavailable.
+ */
+export async function getConversionRateSeries(from: string, to: string, start: Date, end: Date): Promise<DatedRate[] | null> {
+  const today = toRateDate(new Date());
+  const startDate = toRateDate(start) > EARLIEST_RATE_DATE ? toRateDate(start) : EARLIEST_RATE_DATE;
+  const endDate = toRateDate(end) < today ? toRateDate(end) : today;
+
+  if (!from || !to || from === to) {
+    return [{ date: startDate, rate: 1 }];
+  }
+  if (endDate < startDate) {
+    return [];
+  }
+
+  const cacheKey = `${from}-${to}-${startDate}-${endDate}`;
+  const cached = seriesCache.get(cacheKey);
+
+  if (cached && (cached.timestamp === null || Date.now() - cached.timestamp < CACHE_TTL)) {
+    return cached.series;
+  }
+
+  try {
+    const response = await fetch(`https://api.frankfurter.app/${startDate}..${endDate}?from=${from}&to=${to}`);
+    if (!response.ok) {
+      console.error(`Currency API error for ${from}->${to} (${startDate}..${endDate}): ${response.statusText}`);
+      return null;
+    }
+
+    const data = await response.json();
+    if (!data.rates || typeof data.rates !== 'object') {
+      console.error(`Invalid rate series format received for ${from}->${to}`, data);
+      return null;
+    }
+
+    const series: DatedRate[] = Object.entries(data.rates as Record<string, Record<string, number>>)
+      .filter(([, rates]) => typeof rates?.[to] === 'number')
+      .map(([date, rates]) => ({ date, rate: rates[to] }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    seriesCache.set(cacheKey, { series, timestamp: endDate < today ? null : Date.now() });
+    return series;
+  } catch (error) {
+    console.error(`Failed to fetch conversion rate series for ${from}->${to}:`, error);
+    return null;
   }
 }
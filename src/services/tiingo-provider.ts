@@ -0,0 +1,155 @@
+import { guessListing } from '@/lib/exchanges';
+import { toRateDate } from '@/lib/fx-rates';
+import {
+  fail,
+  ok,
+  toQuote,
+  type Dividend,
+  type HistoricalDataPoint,
+  type MarketDataErrorCode,
+  type MarketDataProvider,
+  type MarketDataResult,
+  type StockSearchResult,
+  type StockSplit,
+} from '@/lib/market-data';
+
+// A simple in-memory cache for the server request lifecycle.
+const cache = new Map<string, { data: unknown, timestamp: number }>();
+const CACHE_TTL_QUOTE = 1000 * 60 * 5; // 5 minutes for quotes
+const CACHE_TTL_SEARCH = 1000 * 60 * 60; // 1 hour for search results and history
+// Requests still waiting on Tiingo, so callers asking for the same thing at once share one.
+const pending = new Map<string, Promise<MarketDataResult<unknown>>>();
+
+type DailyData = { prices: HistoricalDataPoint[]; dividends: Dividend[]; splits: StockSplit[] };
+
+/** Tiingo answers some failures with 200 and a `detail` note instead of data. */
+function errorFromDetail(detail: string): MarketDataErrorCode {
+  return /not found/i.test(detail) ? 'not-found' : 'rate-limited';
+}
+
+function errorFromStatus(status: number): MarketDataErrorCode {
+  if (status === 404) return 'not-found';
+  if (status === 429) return 'rate-limited';
+  if (status === 401 || status === 403) return 'not-configured';
+  return 'unavailable';
+}
+
+/**
+ * Market data from Tiingo: search and daily prices from its end-of-day API, quotes from IEX.
+ * Dividends and splits come with the daily prices, so all three share one request, even when
+ * asked for together (see getFullHistory).
+ */
+export function createTiingoProvider(apiKey: string | undefined): MarketDataProvider {
+  async function request<T>(cacheKey: string, ttl: number, url: string, parse: (data: any) => MarketDataResult<T>): Promise<MarketDataResult<T>> {
+    if (!apiKey) {
+      console.error("Tiingo API key is not set.");
+      return fail('not-configured');
+    }
+    const cached = cache.get(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < ttl)) {
+      return ok(cached.data as T);
+    }
+    const inFlight = pending.get(cacheKey);
+    if (inFlight) return inFlight as Promise<MarketDataResult<T>>;
+
+    const promise = fetchAndParse(cacheKey, url, parse);
+    pending.set(cacheKey, promise);
+    try {
+      return await promise;
+    } finally {
+      pending.delete(cacheKey);
+    }
+  }
+
+  async function fetchAndParse<T>(cacheKey: string, url: string, parse: (data: any) => MarketDataResult<T>): Promise<MarketDataResult<T>> {
+    try {
+      const response = await fetch(`${url}${url.includes('?') ? '&' : '?'}token=${apiKey}`);
+      if (!response.ok) {
+        console.error(`Tiingo error for ${cacheKey}: ${response.statusText}`);
+        return fail(errorFromStatus(response.status));
+      }
+      const data = await response.json();
+      if (data?.detail) {
+        console.error(`Tiingo API note for ${cacheKey}:`, data.detail);
+        return fail(errorFromDetail(String(data.detail)));
+      }
+      const result = parse(data);
+      if (result.ok) cache.set(cacheKey, { data: result.data, timestamp: Date.now() });
+      return result;
+    } catch (error) {
+      console.error(`Failed to fetch ${cacheKey} from Tiingo:`, error);
+      return fail('unavailable');
+    }
+  }
+
+  const getDaily = (ticker: string, start: Date) => request<DailyData>(
+    `hist-${ticker}-${toRateDate(start)}`,
+    CACHE_TTL_SEARCH,
+    `https://api.tiingo.com/tiingo/daily/${ticker}/prices?startDate=${toRateDate(start)}`,
+    (data) => {
+      if (!Array.isArray(data)) return fail('unavailable');
+      const daily: DailyData = { prices: [], dividends: [], splits: [] };
+      data.forEach((day: any) => {
+        daily.prices.push({
+          date: day.date,
+          close: day.adjClose, // Adjusted for splits and dividends
+          unadjustedClose: day.close,
+          volume: day.adjVolume,
+        });
+        if (day.divCash && day.divCash > 0) daily.dividends.push({ date: day.date, amount: day.divCash });
+        if (day.splitFactor && day.splitFactor !== 1) daily.splits.push({ date: day.date, ratio: day.splitFactor });
+      });
+      return ok(daily);
+    },
+  );
+
+  const provider: MarketDataProvider = {
+    source: 'tiingo',
+    search: async (query) => {
+      if (!query || query.length < 2) return ok([]);
+      const results = await request<StockSearchResult[]>(
+        `search-${query}`,
+        CACHE_TTL_SEARCH,
+        `https://api.tiingo.com/tiingo/utilities/search?query=${encodeURIComponent(query)}&asset_types=stock,etf`,
+        (data) => ok(Array.isArray(data) ? data.map((match: any, index: number) => ({
+          uniqueKey: `${match.ticker}-${match.name}-${index}`,
+          symbol: match.ticker,
+          name: match.name,
+          type: match.assetType,
+          region: match.countryCode,
+          ...guessListing(match.countryCode),
+        })) : []),
+      );
+      if (!results.ok || results.data.length > 0) return results;
+
+      // Search sometimes misses a valid ticker, so try quoting it directly.
+      const ticker = query.toUpperCase();
+      const quote = await provider.getQuote(ticker);
+      return ok(quote.ok ? [{ uniqueKey: ticker, symbol: ticker, name: 'Direct Lookup', type: 'Unknown', region: 'Unknown', exchange: null, currency: 'USD' }] : []);
+    },
+    getQuote: (ticker) => request(
+      `quote-${ticker}`,
+      CACHE_TTL_QUOTE,
+      `https://api.tiingo.com/iex/?tickers=${ticker}`,
+      (data) => {
+        const quote = Array.isArray(data) ? data[0] : undefined;
+        const price = quote?.last ?? quote?.tngoLast ?? quote?.prevClose;
+        if (typeof price !== 'number' || isNaN(price)) return fail('not-found');
+        return ok(toQuote(price, quote.prevClose ?? price));
+      },
+    ),
+    getPriceHistory: async (ticker, start) => {
+      const daily = await getDaily(ticker, start);
+      return daily.ok ? ok(daily.data.prices) : daily;
+    },
+    getDividends: async (ticker, start) => {
+      const daily = await getDaily(ticker, start);
+      return daily.ok ? ok(daily.data.dividends) : daily;
+    },
+    getSplits: async (ticker, start) => {
+      const daily = await getDaily(ticker, start);
+      return daily.ok ? ok(daily.data.splits) : daily;
+    },
+  };
+  return provider;
+}